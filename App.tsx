@@ -18,6 +18,7 @@ import deviceLog, { LogView } from './src/utils/deviceLog';
 import { AuthProvider, useAuthContext } from './src/contexts/AuthContext';
 import { TransactionProvider } from './src/contexts/TransactionContext';
 import { TokenLoginProvider } from './src/providers/TokenLoginProvider';
+import { ReferralProvider } from './src/providers/ReferralProvider';
 import { LocalizationProvider } from './src/contexts/LocalizationContext';
 import { OneSignalProvider } from './src/notifications/OneSignalProvider';
 import { HomeScreen } from './src/screens/HomeScreen';
@@ -27,13 +28,27 @@ import { MembershipScreen } from './src/screens/MembershipScreen';
 import { VendorScanScreen } from './src/screens/VendorScanScreen';
 import { MemberDashboardScreen } from './src/screens/MemberDashboardScreen';
 import { VendorDashboardScreen } from './src/screens/VendorDashboardScreen';
+import { VendorSettlementReportScreen } from './src/screens/VendorSettlementReportScreen';
 import { AdminDashboardScreen } from './src/screens/AdminDashboardScreen';
+import { DisputeInboxScreen } from './src/screens/DisputeInboxScreen';
+import { GenealogyScreen } from './src/screens/GenealogyScreen';
+import { CommissionsScreen } from './src/screens/CommissionsScreen';
 import { PostLoginDiagnosticsScreen } from './src/screens/PostLoginDiagnosticsScreen';
 import { STRIPE_CONFIG } from './src/config/stripeConfig';
 import { MembershipDebugScreen } from './src/screens/MembershipDebugScreen';
 import { COLORS } from './src/config/theme';
 import { ErrorNotifier } from './src/components/ErrorNotifier';
 
+const VENDOR_SCREENS = [
+  'vendorScan',
+  'vendorAnalytics',
+  'vendorSettlement',
+  'vendorDisputes',
+];
+
+const isVendorScreen = (screen: string): boolean =>
+  VENDOR_SCREENS.includes(screen);
+
 // AppContent is intentionally separated from the surrounding provider tree so we can
 // consume the AuthContext without worrying about provider order in the JSX tree below.
 // This component makes all routing decisions based on authentication state and user
@@ -49,9 +64,14 @@ const AppContent: React.FC = () => {
     | 'profile'
     | 'membership'
     | 'memberAnalytics'
+    | 'genealogy'
+    | 'commissions'
     | 'vendorScan'
     | 'vendorAnalytics'
+    | 'vendorSettlement'
+    | 'vendorDisputes'
     | 'adminDashboard'
+    | 'adminDisputes'
     | 'membershipDebug'
   >('home');
   const [hasCompletedDiagnostics, setHasCompletedDiagnostics] = useState(false);
@@ -75,23 +95,21 @@ const AppContent: React.FC = () => {
   useEffect(() => {
     setActiveScreen(current => {
       if (isVendor) {
-        return current === 'vendorScan' || current === 'vendorAnalytics'
-          ? current
-          : 'vendorScan';
+        return isVendorScreen(current) ? current : 'vendorScan';
       }
 
       if (isAdmin) {
-        if (current === 'vendorScan' || current === 'vendorAnalytics') {
+        if (isVendorScreen(current)) {
           return 'adminDashboard';
         }
         return current;
       }
 
-      if (current === 'vendorScan' || current === 'vendorAnalytics') {
+      if (isVendorScreen(current)) {
         return 'home';
       }
 
-      if (current === 'adminDashboard') {
+      if (current === 'adminDashboard' || current === 'adminDisputes') {
         return 'home';
       }
 
@@ -141,12 +159,37 @@ const AppContent: React.FC = () => {
     content = (
       <AdminDashboardScreen
         onOpenMemberExperience={() => setActiveScreen('home')}
+        onOpenDisputes={() => setActiveScreen('adminDisputes')}
+      />
+    );
+  } else if (isAdmin && activeScreen === 'adminDisputes') {
+    content = (
+      <DisputeInboxScreen
+        role="admin"
+        onBack={() => setActiveScreen('adminDashboard')}
       />
     );
   } else if (isVendor) {
     if (activeScreen === 'vendorAnalytics') {
       content = (
-        <VendorDashboardScreen onBack={() => setActiveScreen('vendorScan')} />
+        <VendorDashboardScreen
+          onBack={() => setActiveScreen('vendorScan')}
+          onOpenSettlementReport={() => setActiveScreen('vendorSettlement')}
+          onOpenDisputes={() => setActiveScreen('vendorDisputes')}
+        />
+      );
+    } else if (activeScreen === 'vendorDisputes') {
+      content = (
+        <DisputeInboxScreen
+          role="vendor"
+          onBack={() => setActiveScreen('vendorAnalytics')}
+        />
+      );
+    } else if (activeScreen === 'vendorSettlement') {
+      content = (
+        <VendorSettlementReportScreen
+          onBack={() => setActiveScreen('vendorAnalytics')}
+        />
       );
     } else {
       content = (
@@ -161,6 +204,10 @@ const AppContent: React.FC = () => {
     content = <MembershipScreen onBack={() => setActiveScreen('home')} />;
   } else if (activeScreen === 'memberAnalytics') {
     content = <MemberDashboardScreen onBack={() => setActiveScreen('home')} />;
+  } else if (activeScreen === 'genealogy') {
+    content = <GenealogyScreen onBack={() => setActiveScreen('home')} />;
+  } else if (activeScreen === 'commissions') {
+    content = <CommissionsScreen onBack={() => setActiveScreen('home')} />;
   } else if (activeScreen === 'membershipDebug') {
     content = <MembershipDebugScreen onBack={() => setActiveScreen('home')} />;
   } else {
@@ -169,6 +216,8 @@ const AppContent: React.FC = () => {
         onManageProfile={() => setActiveScreen('profile')}
         onUpgradeMembership={() => setActiveScreen('membership')}
         onViewAnalytics={() => setActiveScreen('memberAnalytics')}
+        onViewGenealogy={() => setActiveScreen('genealogy')}
+        onViewCommissions={() => setActiveScreen('commissions')}
         onOpenAdminConsole={() => setActiveScreen('adminDashboard')}
         onOpenMembershipDebug={() => setActiveScreen('membershipDebug')}
       />
@@ -225,12 +274,14 @@ function App(): JSX.Element {
     // 2. LocalizationProvider: Supplies localized strings and locale helpers.
     // 3. SafeAreaProvider: Ensures layouts respect device safe areas (notches, etc.).
     // 4. TokenLoginProvider: Handles token-based authentication flows.
-    // 5. AuthProvider: Maintains authentication state exposed via useAuthContext.
-    // 6. OneSignalProvider: Sets up push notification support.
+    // 5. ReferralProvider: Captures sponsor codes from tcnapp://register links.
+    // 6. AuthProvider: Maintains authentication state exposed via useAuthContext.
+    // 7. OneSignalProvider: Sets up push notification support.
     <StripeProvider {...stripeProviderProps}>
       <LocalizationProvider>
         <SafeAreaProvider>
           <TokenLoginProvider>
+            <ReferralProvider>
             <AuthProvider>
               <TransactionProvider>
                 <OneSignalProvider>
@@ -287,6 +338,7 @@ function App(): JSX.Element {
                 </OneSignalProvider>
               </TransactionProvider>
             </AuthProvider>
+            </ReferralProvider>
           </TokenLoginProvider>
         </SafeAreaProvider>
       </LocalizationProvider>
@@ -127,6 +127,35 @@ jest.mock('../src/notifications/OneSignalProvider', () => ({
   }),
 }));
 
+jest.mock('../src/hooks/useRedemptionApprovals', () => ({
+  useRedemptionApprovals: () => ({
+    requests: [],
+    respond: jest.fn(),
+    refresh: jest.fn(),
+  }),
+}));
+
+jest.mock('../src/hooks/useUpgradeProgress', () => ({
+  useUpgradeProgress: () => ({
+    member: null,
+    progress: {
+      tier: 'gold',
+      rule: { nextTier: 'platinum', metric: 'directRecruits', threshold: 2 },
+      current: 1,
+      ratio: 0.5,
+      remaining: 1,
+      recruits: [{ id: 5, name: 'Anna Lee', level: 'gold', active: true }],
+    },
+    rules: {
+      gold: { nextTier: 'platinum', metric: 'directRecruits', threshold: 2 },
+    },
+    plans: [],
+    isLoading: false,
+    error: null,
+    refresh: jest.fn(),
+  }),
+}));
+
 describe('HomeScreen', () => {
   it('renders the membership overview', () => {
     let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
@@ -145,6 +174,8 @@ describe('HomeScreen', () => {
     expect(textNodes).toContain('Welcome, Jane Doe!');
     expect(textNodes).toContain('Recent savings');
     expect(textNodes).toContain('Vendor Plaza');
+    expect(textNodes).toContain('1 more to reach PLATINUM.');
+    expect(textNodes).toContain('Anna Lee');
   });
 });
 
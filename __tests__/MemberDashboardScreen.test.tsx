@@ -90,6 +90,13 @@ describe('MemberDashboardScreen', () => {
       error: null,
       lastUpdated: new Date('2024-03-10T12:00:00.000Z'),
       refresh: jest.fn(),
+      filters: {},
+      setFilters: jest.fn(),
+      hasMore: false,
+      isLoadingMore: false,
+      totalCount: null,
+      loadMore: jest.fn(),
+      exportHistory: jest.fn(),
     });
   });
 
@@ -11,6 +11,8 @@ import renderer from 'react-test-renderer';
 import { MemberQrCard } from '../src/components/MemberQrCard';
 import { LocalizationProvider } from '../src/contexts/LocalizationContext';
 import { MemberQrCode } from '../src/types/auth';
+import { decodeTcnQr, encodeTcnQr } from '../src/utils/qrPayload';
+import { getMemberQrReference } from '../src/utils/memberQr';
 
 const renderWithLocalization = async (element: React.ReactElement) => {
   let tree: renderer.ReactTestRenderer;
@@ -41,7 +43,33 @@ describe('MemberQrCard', () => {
     );
 
     const qr = tree.root.findByType('QRCodeSVG');
-    expect(qr.props.value).toBe('payload-123');
+    expect(qr.props.value).toBe(encodeTcnQr('member', 'payload-123'));
+  });
+
+  it('renders a signed rotating payload with a countdown', async () => {
+    const qrCode: MemberQrCode = {
+      token: 'token-123',
+      rotation: { seed: 'seed', windowSeconds: 30 },
+    };
+    const tree = await renderWithLocalization(
+      <MemberQrCard qrCode={qrCode} accountType="member" />,
+    );
+
+    const [qr] = tree.root.findAll(
+      node => (node.type as unknown) === 'QRCodeSVG',
+    );
+    const payload = decodeTcnQr(qr.props.value).value;
+    expect(payload).toMatch(/^tcnq1\.30\.\d+\.[0-9a-f]{32}\.[0-9a-f]{32}$/);
+    expect(payload.endsWith(getMemberQrReference('token-123'))).toBe(true);
+    expect(
+      tree.root.findByProps({ testID: 'member-qr-countdown' }),
+    ).toBeTruthy();
+    expect(
+      tree.root.findAllByProps({ testID: 'member-qr-token' }),
+    ).toHaveLength(0);
+    await renderer.act(async () => {
+      tree.unmount();
+    });
   });
 });
 
@@ -0,0 +1,104 @@
+jest.mock('../src/services/activityMonitorService', () => ({
+  enqueueActivityLog: jest.fn(),
+}));
+
+import {
+  __transactionInitialStateForTests,
+  __transactionReducerForTests,
+} from '../src/contexts/TransactionContext';
+import { TransactionRecord } from '../src/types/transactions';
+
+describe('transactionReducer', () => {
+  const baseRecord: TransactionRecord = {
+    id: 'local-rdm-1',
+    memberToken: 'member',
+    status: 'pending',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    discountPercentage: 10,
+    discountAmount: 10,
+    netAmount: 90,
+    grossAmount: 100,
+    idempotencyKey: 'rdm-1',
+  };
+
+  it('replaces a record that shares an idempotency key instead of adding another', () => {
+    const first = __transactionReducerForTests(
+      __transactionInitialStateForTests,
+      { type: 'ADD', payload: { ...baseRecord, status: 'failed' } },
+    );
+    const second = __transactionReducerForTests(first, {
+      type: 'ADD',
+      payload: { ...baseRecord, id: 'local-rdm-1-retry' },
+    });
+
+    expect(second.transactions).toHaveLength(1);
+    expect(second.transactions[0].id).toBe('local-rdm-1-retry');
+  });
+
+  it('never downgrades a completed redemption when it is resubmitted', () => {
+    const completed = __transactionReducerForTests(
+      __transactionInitialStateForTests,
+      {
+        type: 'ADD',
+        payload: { ...baseRecord, id: 'remote-1', status: 'completed' },
+      },
+    );
+    const resubmitted = __transactionReducerForTests(completed, {
+      type: 'ADD',
+      payload: baseRecord,
+    });
+
+    expect(resubmitted.transactions).toEqual(completed.transactions);
+  });
+
+  it('collapses remote and local copies of the same redemption', () => {
+    const state = __transactionReducerForTests(
+      __transactionInitialStateForTests,
+      {
+        type: 'SET_ALL',
+        payload: [
+          { ...baseRecord, id: 'remote-1', status: 'completed' },
+          baseRecord,
+          { ...baseRecord, id: 'other', idempotencyKey: 'rdm-2' },
+        ],
+      },
+    );
+
+    expect(state.transactions.map(record => record.id)).toEqual([
+      'remote-1',
+      'other',
+    ]);
+  });
+
+  it('merges a history page by updating known rows and appending new ones', () => {
+    const loaded = __transactionReducerForTests(
+      __transactionInitialStateForTests,
+      {
+        type: 'SET_ALL',
+        payload: [
+          { ...baseRecord, id: 'remote-2', idempotencyKey: 'rdm-2' },
+          { ...baseRecord, id: 'remote-1', idempotencyKey: 'rdm-1' },
+        ],
+      },
+    );
+    const merged = __transactionReducerForTests(loaded, {
+      type: 'MERGE',
+      payload: [
+        {
+          ...baseRecord,
+          id: 'remote-1',
+          idempotencyKey: 'rdm-1',
+          status: 'completed',
+        },
+        { ...baseRecord, id: 'remote-0', idempotencyKey: 'rdm-0' },
+      ],
+    });
+
+    expect(merged.transactions.map(record => record.id)).toEqual([
+      'remote-2',
+      'remote-1',
+      'remote-0',
+    ]);
+    expect(merged.transactions[1].status).toBe('completed');
+  });
+});
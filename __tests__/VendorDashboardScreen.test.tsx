@@ -1,5 +1,6 @@
 import React from 'react';
 import ReactTestRenderer from 'react-test-renderer';
+import { Text } from 'react-native';
 import { VendorDashboardScreen } from '../src/screens/VendorDashboardScreen';
 import { translations } from '../src/localization/translations';
 
@@ -16,6 +17,18 @@ jest.mock('../src/hooks/useTransactionsAnalytics', () => ({
   useVendorTransactions: jest.fn(),
 }));
 
+jest.mock('../src/hooks/useVendorOutlets', () => ({
+  useVendorOutlets: () => ({
+    outlets: [
+      { id: 'silom', name: 'Silom', address: null, openingHours: [] },
+      { id: 'ari', name: 'Ari', address: null, openingHours: [] },
+    ],
+    selectedOutlet: null,
+    selectOutlet: jest.fn(),
+    isLoading: false,
+  }),
+}));
+
 jest.mock('../src/hooks/useResponsiveLayout', () => ({
   useResponsiveLayout: () => ({
     width: 768,
@@ -76,6 +89,8 @@ describe('VendorDashboardScreen', () => {
         { status: 'completed', count: 4 },
         { status: 'failed', count: 1 },
       ],
+      cashierBreakdown: [],
+      outletBreakdown: [],
       totalSavings: 200,
       completedCount: 4,
       isLoading: false,
@@ -83,6 +98,13 @@ describe('VendorDashboardScreen', () => {
       error: null,
       lastUpdated: new Date('2024-03-11T08:30:00.000Z'),
       refresh: jest.fn(),
+      filters: {},
+      setFilters: jest.fn(),
+      hasMore: false,
+      isLoadingMore: false,
+      totalCount: null,
+      loadMore: jest.fn(),
+      exportHistory: jest.fn(),
     });
   });
 
@@ -112,4 +134,133 @@ describe('VendorDashboardScreen', () => {
     expect(hasText('Top vendors')).toBe(true);
     expect(hasText('Transaction status')).toBe(true);
   });
+
+  it('shows the per-cashier breakdown once sales are attributed', () => {
+    useVendorTransactionsMock.mockReturnValue({
+      ...useVendorTransactionsMock(),
+      cashierBreakdown: [
+        {
+          cashierId: 'cashier-1',
+          cashierName: 'Noi',
+          transactionCount: 3,
+          grossAmount: 1500,
+          totalSavings: 75,
+        },
+        {
+          cashierId: null,
+          cashierName: null,
+          transactionCount: 1,
+          grossAmount: 200,
+          totalSavings: 10,
+        },
+      ],
+    });
+
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<VendorDashboardScreen />);
+    });
+
+    const section = renderer!.root.findByProps({
+      testID: 'vendor-dashboard-cashiers',
+    });
+    const texts = section
+      .findAllByType(Text)
+      .map(node => node.props.children);
+    expect(texts).toContain('Noi');
+    expect(texts).toContain('No cashier');
+  });
+
+  it('compares outlets and filters history by outlet', () => {
+    const setFilters = jest.fn();
+    useVendorTransactionsMock.mockReturnValue({
+      ...useVendorTransactionsMock(),
+      setFilters,
+      outletBreakdown: [
+        {
+          outletId: 'silom',
+          outletName: null,
+          transactionCount: 3,
+          grossAmount: 750,
+          totalSavings: 40,
+        },
+        {
+          outletId: 'ari',
+          outletName: 'Ari',
+          transactionCount: 1,
+          grossAmount: 250,
+          totalSavings: 10,
+        },
+      ],
+    });
+
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<VendorDashboardScreen />);
+    });
+
+    const texts = renderer!.root
+      .findByProps({ testID: 'vendor-dashboard-outlets' })
+      .findAllByType(Text)
+      .map(node => node.props.children);
+    expect(texts).toEqual(
+      expect.arrayContaining(['Silom', '75.0% of sales', '25.0% of sales']),
+    );
+
+    ReactTestRenderer.act(() => {
+      renderer!.root
+        .findByProps({ testID: 'transaction-filter-outlet-ari' })
+        .props.onPress();
+    });
+    expect(setFilters).toHaveBeenCalledWith({ outletId: 'ari' });
+  });
+
+  it('requests the next history page when scrolled near the end', () => {
+    const loadMore = jest.fn();
+    useVendorTransactionsMock.mockReturnValue({
+      ...useVendorTransactionsMock(),
+      transactions: [
+        {
+          id: 'txn-1',
+          memberToken: 'member-1',
+          memberName: 'Member One',
+          status: 'completed',
+          createdAt: '2024-03-10T08:00:00.000Z',
+          discountPercentage: 10,
+          discountAmount: 10,
+          netAmount: 90,
+          grossAmount: 100,
+          currency: 'THB',
+          membershipTier: 'Gold',
+          vendorTier: null,
+          message: null,
+          vendorName: 'Main Branch',
+          membership: null,
+          errorMessage: null,
+        },
+      ],
+      hasMore: true,
+      loadMore,
+    });
+
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<VendorDashboardScreen />);
+    });
+
+    const scrollView = renderer!.root.find(
+      node => typeof node.props.onScroll === 'function',
+    );
+    ReactTestRenderer.act(() => {
+      scrollView.props.onScroll({
+        nativeEvent: {
+          layoutMeasurement: { height: 800 },
+          contentOffset: { y: 1100 },
+          contentSize: { height: 2000 },
+        },
+      });
+    });
+
+    expect(loadMore).toHaveBeenCalledTimes(1);
+  });
 });
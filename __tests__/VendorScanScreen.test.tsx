@@ -10,12 +10,19 @@ jest.mock('../src/contexts/AuthContext', () => ({
   useAuthContext: jest.fn(),
 }));
 
+const mockQueueTransaction = jest.fn();
+
 jest.mock('../src/contexts/TransactionContext', () => ({
   useTransactionContext: () => ({
     transactions: [],
     addTransaction: jest.fn(),
     replaceTransaction: jest.fn(),
     patchTransaction: jest.fn(),
+    findTransactionByIdempotencyKey: jest.fn(() => null),
+    outbox: [],
+    queueTransaction: mockQueueTransaction,
+    retryOutboxEntry: jest.fn(),
+    discardOutboxEntry: jest.fn(),
   }),
 }));
 
@@ -43,11 +50,56 @@ jest.mock('../src/services/transactionService', () => ({
   }),
 }));
 
+const mockCaptureReferral = jest.fn();
+
+jest.mock('../src/providers/ReferralProvider', () => ({
+  useReferral: () => ({
+    pendingReferral: null,
+    captureReferral: mockCaptureReferral,
+    clearReferral: jest.fn(),
+  }),
+}));
+
+jest.mock('../src/hooks/useVendorOutlets', () => ({
+  useVendorOutlets: () => ({
+    outlets: [],
+    selectedOutlet: null,
+    selectOutlet: jest.fn(),
+    isLoading: false,
+  }),
+}));
+
+jest.mock('../src/services/discountMatrixService', () => {
+  const { DEFAULT_DISCOUNT_MATRIX } = jest.requireActual('../src/utils/discount');
+  return {
+    getDiscountMatrix: jest.fn(() => DEFAULT_DISCOUNT_MATRIX),
+    refreshDiscountMatrix: jest.fn().mockResolvedValue({
+      matrix: DEFAULT_DISCOUNT_MATRIX,
+      tiers: null,
+      version: null,
+      fetchedAt: null,
+      source: 'bundled',
+    }),
+  };
+});
+
 import React from 'react';
 import renderer, { act } from 'react-test-renderer';
 import { VendorScanScreen } from '../src/screens/VendorScanScreen';
 import { useAuthContext } from '../src/contexts/AuthContext';
-import { lookupMember } from '../src/services/transactionService';
+import {
+  calculateDiscount,
+  lookupMember,
+  recordTransaction,
+} from '../src/services/transactionService';
+import QrScanner from '../src/components/QrScanner';
+import { encodeTcnQr } from '../src/utils/qrPayload';
+import { encodeSignedMemberQr } from '../src/utils/memberQr';
+import { __unsafeResetScanLogForTests } from '../src/services/fraudSignalService';
+
+// Signed codes are single-use per window, so each test scans its own member.
+const memberCode = (token: string) =>
+  encodeSignedMemberQr(token, { seed: 'member-seed', windowSeconds: 30 });
 
 jest.mock('../src/contexts/LocalizationContext', () => ({
   useLocalization: () => ({
@@ -60,6 +112,8 @@ jest.mock('../src/contexts/LocalizationContext', () => ({
       }
       return key;
     },
+    translateError: (error: { translationKey?: string }) =>
+      error?.translationKey ?? null,
   }),
 }));
 
@@ -86,9 +140,10 @@ describe('VendorScanScreen', () => {
       tree = renderer.create(<VendorScanScreen />);
     });
 
+    const code = memberCode('member-1');
     const input = tree.root.findByProps({ testID: 'vendor-manual-input' });
     act(() => {
-      input.props.onChangeText('abc');
+      input.props.onChangeText(code);
     });
 
     await act(async () => {
@@ -96,6 +151,196 @@ describe('VendorScanScreen', () => {
       button.props.onPress();
     });
 
-    expect(lookupMember).toHaveBeenCalledWith('abc', 'session-token', 42);
+    expect(lookupMember).toHaveBeenCalledWith(code, 'session-token', 42, null);
+  });
+
+  it('still accepts legacy static member tokens', async () => {
+    (lookupMember as jest.Mock).mockClear();
+    let tree!: renderer.ReactTestRenderer;
+    await act(async () => {
+      tree = renderer.create(<VendorScanScreen />);
+    });
+
+    await act(async () => {
+      tree.root.findByType(QrScanner).props.onScan('legacy-token');
+    });
+
+    expect(lookupMember).toHaveBeenCalledWith(
+      'legacy-token',
+      'session-token',
+      42,
+      null,
+    );
+  });
+
+  it('unwraps versioned member codes and routes other QR types', async () => {
+    (lookupMember as jest.Mock).mockClear();
+    let tree!: renderer.ReactTestRenderer;
+    await act(async () => {
+      tree = renderer.create(<VendorScanScreen />);
+    });
+
+    await act(async () => {
+      tree.root
+        .findByType(QrScanner)
+        .props.onScan(encodeTcnQr('referral', 'sponsor1'));
+    });
+    expect(lookupMember).not.toHaveBeenCalled();
+    expect(mockCaptureReferral).toHaveBeenCalledWith('SPONSOR1', 'qr');
+    expect(tree.root.findByProps({ testID: 'vendor-qr-notice' })).toBeTruthy();
+
+    await act(async () => {
+      tree.root
+        .findByType(QrScanner)
+        .props.onScan(encodeTcnQr('event_ticket', 'ticket-1'));
+    });
+    expect(
+      tree.root.findAll(
+        node => node.props.children === 'vendor.screen.qr.types.event_ticket',
+      ).length,
+    ).toBeGreaterThan(0);
+
+    const code = memberCode('member-2');
+    await act(async () => {
+      tree.root
+        .findByType(QrScanner)
+        .props.onScan(encodeTcnQr('member', code));
+    });
+    expect(lookupMember).toHaveBeenCalledWith(code, 'session-token', 42, null);
+  });
+
+  it('queues continuous scans and debounces repeat reads', async () => {
+    (lookupMember as jest.Mock).mockClear();
+    let tree!: renderer.ReactTestRenderer;
+    await act(async () => {
+      tree = renderer.create(<VendorScanScreen />);
+    });
+
+    act(() => {
+      tree.root
+        .findByProps({ testID: 'vendor-continuous-toggle' })
+        .props.onPress();
+    });
+
+    await act(async () => {
+      const scanner = tree.root.findByType(QrScanner);
+      scanner.props.onScan(memberCode('member-3'));
+      scanner.props.onScan(memberCode('member-3'));
+    });
+
+    expect(lookupMember).toHaveBeenCalledTimes(1);
+    const checkout = tree.root.findAll(
+      node =>
+        typeof node.props.testID === 'string' &&
+        node.props.testID.startsWith('vendor-scan-queue-checkout-'),
+    )[0];
+
+    act(() => {
+      checkout.props.onPress();
+    });
+
+    expect(tree.root.findByProps({ testID: 'vendor-result' })).toBeTruthy();
+    expect(
+      tree.root.findByProps({ testID: 'vendor-scan-queue' }).findAll(
+        node =>
+          typeof node.props.testID === 'string' &&
+          node.props.testID.startsWith('vendor-scan-queue-checkout-'),
+      ),
+    ).toHaveLength(0);
+  });
+
+  it('applies a scanned vendor promotion to the next sale', async () => {
+    // Earlier tests left failed scans that would flag this sale for review.
+    __unsafeResetScanLogForTests();
+    (calculateDiscount as jest.Mock).mockClear();
+    (recordTransaction as jest.Mock).mockClear();
+    let tree!: renderer.ReactTestRenderer;
+    await act(async () => {
+      tree = renderer.create(<VendorScanScreen />);
+    });
+
+    await act(async () => {
+      tree.root
+        .findByType(QrScanner)
+        .props.onScan(encodeTcnQr('vendor_promo', 'SONGKRAN'));
+    });
+    expect(lookupMember).not.toHaveBeenCalledWith(
+      'SONGKRAN',
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(tree.root.findByProps({ testID: 'vendor-promo' })).toBeTruthy();
+
+    await act(async () => {
+      tree.root.findByType(QrScanner).props.onScan(memberCode('member-4'));
+    });
+    act(() => {
+      tree.root
+        .findByProps({ testID: 'vendor-transaction-amount' })
+        .props.onChangeText('1000');
+    });
+    await act(async () => {
+      tree.root
+        .findByProps({ testID: 'vendor-transaction-submit' })
+        .props.onPress();
+    });
+
+    expect(calculateDiscount).toHaveBeenCalledWith(
+      expect.objectContaining({ promoCode: 'SONGKRAN' }),
+      'session-token',
+    );
+    expect(recordTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ promoCode: 'SONGKRAN' }),
+      'session-token',
+    );
+    expect(tree.root.findAllByProps({ testID: 'vendor-promo' })).toHaveLength(
+      0,
+    );
+  });
+
+  it('shows the error instead of queueing sales that need member approval', async () => {
+    __unsafeResetScanLogForTests();
+    mockQueueTransaction.mockClear();
+    (recordTransaction as jest.Mock).mockResolvedValueOnce({
+      id: 'remote-2',
+      memberToken: 'abc',
+      status: 'failed',
+      retryable: true,
+      errorMessage: 'E3101: Network request failed',
+      discountPercentage: 5,
+      discountAmount: 250,
+      netAmount: 4750,
+      grossAmount: 5000,
+      createdAt: new Date().toISOString(),
+    });
+    let tree!: renderer.ReactTestRenderer;
+    await act(async () => {
+      tree = renderer.create(<VendorScanScreen />);
+    });
+
+    await act(async () => {
+      tree.root.findByType(QrScanner).props.onScan(memberCode('member-5'));
+    });
+    act(() => {
+      tree.root
+        .findByProps({ testID: 'vendor-transaction-amount' })
+        .props.onChangeText('5000');
+    });
+    await act(async () => {
+      tree.root
+        .findByProps({ testID: 'vendor-transaction-submit' })
+        .props.onPress();
+    });
+
+    expect(recordTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ requireMemberApproval: true }),
+      'session-token',
+    );
+    expect(mockQueueTransaction).not.toHaveBeenCalled();
+    expect(
+      tree.root.findByProps({ testID: 'vendor-transaction-error' }).props
+        .children,
+    ).toBe('E3101: Network request failed');
   });
 });
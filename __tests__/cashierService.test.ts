@@ -0,0 +1,155 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearActiveCashier,
+  createCashier,
+  getActiveCashier,
+  listCashiers,
+  removeCashier,
+  unlockCashier,
+  verifySupervisorPin,
+} from '../src/services/cashierService';
+import { CASHIER_CONFIG } from '../src/config/cashierConfig';
+import { approveFraudOverride } from '../src/services/fraudSignalService';
+import { registerPin } from '../src/services/pinService';
+
+const SUPERVISOR_PIN = '2468';
+
+describe('cashierService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await registerPin(SUPERVISOR_PIN);
+  });
+
+  it('stores cashiers per vendor without the plain PIN', async () => {
+    const cashier = await createCashier(7, '  Noi ', '1234', SUPERVISOR_PIN);
+    await createCashier(8, 'Noi', '9999', SUPERVISOR_PIN);
+
+    expect(cashier.name).toBe('Noi');
+    expect(await listCashiers(7)).toEqual([cashier]);
+    const raw = (await AsyncStorage.getItem(CASHIER_CONFIG.storageKey)) ?? '';
+    expect(raw).not.toContain('1234');
+  });
+
+  it('rejects duplicate names and short PINs', async () => {
+    await createCashier(7, 'Noi', '1234', SUPERVISOR_PIN);
+
+    await expect(
+      createCashier(7, 'noi', '5678', SUPERVISOR_PIN),
+    ).rejects.toMatchObject({
+      code: 'E3303',
+    });
+    await expect(
+      createCashier(7, 'Som', '12', SUPERVISOR_PIN),
+    ).rejects.toMatchObject({
+      code: 'E2010',
+    });
+  });
+
+  it('unlocks the active cashier only with the right PIN', async () => {
+    const cashier = await createCashier(7, 'Noi', '1234', SUPERVISOR_PIN);
+
+    await expect(unlockCashier(7, cashier.id, '0000')).rejects.toMatchObject({
+      code: 'E3302',
+    });
+    expect(await getActiveCashier(7)).toBeNull();
+
+    await unlockCashier(7, cashier.id, '1234');
+    expect(await getActiveCashier(7)).toEqual(cashier);
+
+    await clearActiveCashier(7);
+    expect(await getActiveCashier(7)).toBeNull();
+  });
+
+  it('drops the active cashier when they are removed', async () => {
+    const cashier = await createCashier(7, 'Noi', '1234', SUPERVISOR_PIN);
+    await unlockCashier(7, cashier.id, '1234');
+
+    await removeCashier(7, cashier.id, SUPERVISOR_PIN);
+
+    expect(await listCashiers(7)).toEqual([]);
+    expect(await getActiveCashier(7)).toBeNull();
+  });
+
+  it('needs the supervisor PIN to add or remove cashiers', async () => {
+    await expect(createCashier(7, 'Noi', '1234', '0000')).rejects.toMatchObject(
+      { code: 'E3307' },
+    );
+    expect(await listCashiers(7)).toEqual([]);
+
+    const cashier = await createCashier(7, 'Noi', '1234', SUPERVISOR_PIN);
+    await expect(removeCashier(7, cashier.id, '0000')).rejects.toMatchObject({
+      code: 'E3307',
+    });
+    expect(await listCashiers(7)).toEqual([cashier]);
+  });
+
+  it('locks a cashier after repeated wrong PINs', async () => {
+    const cashier = await createCashier(7, 'Noi', '1234', SUPERVISOR_PIN);
+    const now = Date.parse('2024-06-01T10:00:00.000Z');
+
+    for (let attempt = 1; attempt < CASHIER_CONFIG.maxPinAttempts; attempt++) {
+      await expect(
+        unlockCashier(7, cashier.id, '0000', now),
+      ).rejects.toMatchObject({ code: 'E3302' });
+    }
+    await expect(
+      unlockCashier(7, cashier.id, '0000', now),
+    ).rejects.toMatchObject({ code: 'E3308' });
+
+    // Even the right PIN is refused until the cooldown ends.
+    await expect(
+      unlockCashier(7, cashier.id, '1234', now + 1000),
+    ).rejects.toMatchObject({ code: 'E3308' });
+    await expect(
+      unlockCashier(7, cashier.id, '1234', now + CASHIER_CONFIG.lockoutMs),
+    ).resolves.toEqual(cashier);
+  });
+
+  it('locks supervisor actions after repeated wrong PINs', async () => {
+    // createCashier checks against the real clock.
+    const now = Date.now();
+
+    for (let attempt = 1; attempt < CASHIER_CONFIG.maxPinAttempts; attempt++) {
+      await expect(verifySupervisorPin(7, '0000', 'create', now)).resolves.toBe(
+        false,
+      );
+    }
+    await expect(
+      verifySupervisorPin(7, '0000', 'create', now),
+    ).rejects.toMatchObject({ code: 'E3309' });
+    await expect(
+      createCashier(7, 'Noi', '1234', SUPERVISOR_PIN),
+    ).rejects.toMatchObject({ code: 'E3309' });
+
+    // The lock belongs to the vendor; other vendors on the device are free.
+    await expect(
+      verifySupervisorPin(8, SUPERVISOR_PIN, 'create', now),
+    ).resolves.toBe(true);
+    await expect(
+      verifySupervisorPin(
+        7,
+        SUPERVISOR_PIN,
+        'create',
+        now + CASHIER_CONFIG.lockoutMs,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('counts wrong fraud override PINs towards the vendor lockout', async () => {
+    for (let attempt = 1; attempt < CASHIER_CONFIG.maxPinAttempts; attempt++) {
+      await expect(approveFraudOverride(7, '0000', [])).rejects.toMatchObject({
+        code: 'E3305',
+      });
+    }
+    await expect(approveFraudOverride(7, '0000', [])).rejects.toMatchObject({
+      code: 'E3309',
+    });
+    await expect(
+      approveFraudOverride(7, SUPERVISOR_PIN, []),
+    ).rejects.toMatchObject({ code: 'E3309' });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  fetchCommissions,
+  parseCommissionEntry,
+} from '../src/services/commissionService';
+import {
+  buildCommissionLevelTotals,
+  buildMonthlyCommissions,
+  filterCommissionLedger,
+  summarizeCommissionMember,
+} from '../src/utils/commissions';
+import { CommissionEntry } from '../src/types/mlm';
+
+jest.mock('../src/services/wordpressCookieService', () => ({
+  buildWordPressRequestInit: jest.fn(async (init: RequestInit) => init),
+  syncWordPressCookiesFromResponse: jest.fn(),
+}));
+
+jest.mock('../src/services/wordpressAuthService', () => ({
+  ensureValidSessionToken: jest.fn(),
+}));
+
+const { ensureValidSessionToken } = jest.requireMock(
+  '../src/services/wordpressAuthService',
+);
+
+const ledgerRows = [
+  {
+    id: 1,
+    sponsor_id: 7,
+    member_id: 11,
+    member_name: 'Anna Lee',
+    order_id: 501,
+    level: 'direct',
+    amount: '1500.00',
+    currency: 'thb',
+    status: 'paid',
+    created_at: '2024-05-03T10:00:00Z',
+  },
+  {
+    id: 2,
+    sponsor_id: 7,
+    member_id: 20,
+    order_id: 502,
+    commission_type: 'passive',
+    level: 'platinum',
+    amount: 300,
+    status: 'pending',
+    created_at: '2024-06-12T10:00:00Z',
+  },
+  {
+    id: 3,
+    sponsor_id: 7,
+    member_id: 11,
+    order_id: 503,
+    level: 'direct',
+    amount: 800,
+    status: 'cancelled',
+    created_at: '2024-06-20T10:00:00Z',
+  },
+];
+
+const entries = ledgerRows
+  .map(parseCommissionEntry)
+  .filter((entry): entry is CommissionEntry => Boolean(entry));
+
+describe('commission ledger', () => {
+  it('parses levels, statuses and the purchased membership', () => {
+    expect(entries[0]).toMatchObject({
+      memberId: 11,
+      memberName: 'Anna Lee',
+      level: 'direct',
+      amount: 1500,
+      currency: 'THB',
+      status: 'paid',
+      membershipLevel: null,
+    });
+    expect(entries[1]).toMatchObject({
+      level: 'passive',
+      membershipLevel: 'platinum',
+      status: 'pending',
+    });
+    expect(parseCommissionEntry({ id: 4, amount: 'n/a' })).toBeNull();
+  });
+
+  it('filters by status and level', () => {
+    expect(
+      filterCommissionLedger(entries, { status: 'paid', level: null }).map(
+        entry => entry.id,
+      ),
+    ).toEqual(['1']);
+    expect(
+      filterCommissionLedger(entries, { status: null, level: 'direct' }),
+    ).toHaveLength(2);
+  });
+
+  it('builds monthly and per-level totals without cancelled rows', () => {
+    const monthly = buildMonthlyCommissions(
+      entries,
+      3,
+      new Date('2024-06-30T00:00:00Z'),
+    );
+    expect(monthly.map(bucket => [bucket.monthKey, bucket.total])).toEqual([
+      ['2024-04', 0],
+      ['2024-05', 1500],
+      ['2024-06', 300],
+    ]);
+    expect(buildCommissionLevelTotals(entries)).toEqual({
+      direct: 1500,
+      passive: 300,
+    });
+  });
+
+  it('drills down to every row earned from the member', () => {
+    const member = summarizeCommissionMember(entries, entries[2]);
+    expect(member.memberName).toBe('Anna Lee');
+    expect(member.entries.map(entry => entry.id)).toEqual(['1', '3']);
+    expect(member.total).toBe(1500);
+  });
+});
+
+describe('fetchCommissions', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('returns the summary and the newest rows first', async () => {
+    (ensureValidSessionToken as jest.Mock).mockResolvedValue('secure-token');
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'application/json' },
+      json: async () => ({
+        summary: { total: '1800', paid: 1500, pending: 300 },
+        ledger: ledgerRows,
+      }),
+    });
+
+    const ledger = await fetchCommissions();
+
+    expect(ledger.summary).toEqual({ total: 1800, paid: 1500, pending: 300 });
+    expect(ledger.entries.map(entry => entry.id)).toEqual(['3', '2', '1']);
+  });
+
+  it('fails with E3000 without a session token', async () => {
+    (ensureValidSessionToken as jest.Mock).mockResolvedValue(null);
+    await expect(fetchCommissions()).rejects.toMatchObject({ code: 'E3000' });
+  });
+});
@@ -1,7 +1,9 @@
 import {
   calculateDiscountForAmount,
+  calculateDiscountForDescriptor,
   getDiscountPercentageForTiers,
 } from '../src/utils/discount';
+import { summarizeBasket } from '../src/utils/basket';
 
 const membershipTiers = ['Blue', 'Gold', 'Platinum', 'Black'] as const;
 const vendorTiers = ['Sapphire', 'Diamond'] as const;
@@ -24,12 +26,13 @@ const expectedMatrix: Record<string, Record<string, number>> = {
 describe('getDiscountPercentageForTiers', () => {
   vendorTiers.forEach(vendor => {
     membershipTiers.forEach(membership => {
-      const expected = expectedMatrix[vendor.toLowerCase()][
-        membership.toLowerCase()
-      ];
+      const expected =
+        expectedMatrix[vendor.toLowerCase()][membership.toLowerCase()];
 
       it(`returns ${expected}% for ${membership} member at ${vendor} vendor`, () => {
-        expect(getDiscountPercentageForTiers(membership, vendor)).toBe(expected);
+        expect(getDiscountPercentageForTiers(membership, vendor)).toBe(
+          expected,
+        );
       });
     });
   });
@@ -64,4 +67,145 @@ describe('calculateDiscountForAmount', () => {
       grossAmount: 1000,
     });
   });
+
+  it('applies the tier percentage only to the discountable amount', () => {
+    expect(
+      calculateDiscountForAmount(1000, 'Black', 'Diamond', undefined, {
+        discountableAmount: 400,
+      }),
+    ).toEqual({
+      discountPercentage: 20,
+      discountAmount: 80,
+      netAmount: 920,
+      grossAmount: 1000,
+    });
+  });
+
+  it('discounts before service charge and extracts inclusive VAT', () => {
+    const result = calculateDiscountForAmount(
+      1000,
+      'Platinum',
+      'Diamond',
+      undefined,
+      {
+        taxSettings: {
+          serviceChargeRate: 10,
+          vatRate: 7,
+          pricesIncludeVat: true,
+          discountApplication: 'before_service_charge',
+        },
+      },
+    );
+
+    expect(result.discountAmount).toBe(100);
+    expect(result.netAmount).toBe(900);
+    expect(result.taxBreakdown).toMatchObject({
+      serviceChargeAmount: 90,
+      subtotal: 990,
+      vatAmount: 64.77,
+      totalAmount: 990,
+    });
+  });
+
+  it('discounts after service charge and adds exclusive VAT', () => {
+    const result = calculateDiscountForAmount(
+      1000,
+      'Platinum',
+      'Diamond',
+      undefined,
+      {
+        taxSettings: {
+          serviceChargeRate: 10,
+          vatRate: 7,
+          pricesIncludeVat: false,
+          discountApplication: 'after_service_charge',
+        },
+      },
+    );
+
+    expect(result.discountAmount).toBe(110);
+    expect(result.netAmount).toBe(890);
+    expect(result.taxBreakdown).toMatchObject({
+      serviceChargeAmount: 100,
+      subtotal: 990,
+      vatAmount: 69.3,
+      totalAmount: 1059.3,
+    });
+  });
+});
+
+describe('calculateDiscountForDescriptor', () => {
+  it('caps fixed amount discounts at the discountable total', () => {
+    expect(
+      calculateDiscountForDescriptor(
+        500,
+        { type: 'amount', value: 150 },
+        { discountableAmount: 100 },
+      ),
+    ).toEqual({
+      discountPercentage: 100,
+      discountAmount: 100,
+      netAmount: 400,
+      grossAmount: 500,
+    });
+  });
+
+  it('keeps the net amount at zero when the discount covers the service charge', () => {
+    const result = calculateDiscountForDescriptor(
+      1000,
+      { type: 'amount', value: 1500 },
+      {
+        taxSettings: {
+          serviceChargeRate: 10,
+          vatRate: 7,
+          pricesIncludeVat: false,
+          discountApplication: 'after_service_charge',
+        },
+      },
+    );
+
+    expect(result.discountAmount).toBe(1100);
+    expect(result.netAmount).toBe(0);
+    expect(result.taxBreakdown).toMatchObject({
+      serviceChargeAmount: 100,
+      subtotal: 0,
+      vatAmount: 0,
+      totalAmount: 0,
+    });
+  });
+});
+
+describe('summarizeBasket', () => {
+  it('splits eligible and excluded lines and ignores empty rows', () => {
+    expect(
+      summarizeBasket([
+        {
+          id: 'a',
+          description: 'Noodles',
+          quantity: 3,
+          unitPrice: 60,
+          discountable: true,
+        },
+        {
+          id: 'b',
+          description: 'Whisky',
+          quantity: 1,
+          unitPrice: 820.5,
+          discountable: false,
+        },
+        {
+          id: 'c',
+          description: '',
+          quantity: 1,
+          unitPrice: 0,
+          discountable: true,
+        },
+      ]),
+    ).toEqual({
+      grossAmount: 1000.5,
+      discountableAmount: 180,
+      excludedAmount: 820.5,
+      itemCount: 4,
+    });
+  });
 });
@@ -0,0 +1,105 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('../src/services/vendorService', () => ({
+  fetchVendorTierCatalog: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  __unsafeResetDiscountMatrixStoreForTests,
+  getDiscountMatrix,
+  getDiscountMatrixSnapshot,
+  refreshDiscountMatrix,
+} from '../src/services/discountMatrixService';
+import { fetchVendorTierCatalog } from '../src/services/vendorService';
+import { DEFAULT_DISCOUNT_MATRIX } from '../src/utils/discount';
+import { DISCOUNT_MATRIX_CONFIG } from '../src/config/discountMatrixConfig';
+
+const serverTiers = [
+  {
+    id: 'diamond',
+    slug: 'diamond',
+    name: 'Diamond',
+    discountRates: { platinum: 12, gold: 6, black: 22 },
+  },
+  {
+    id: 'sapphire',
+    slug: 'sapphire',
+    name: 'Sapphire',
+    discountRates: { gold: 3, platinum: 6, black: 11 },
+  },
+];
+
+describe('discountMatrixService', () => {
+  beforeEach(async () => {
+    __unsafeResetDiscountMatrixStoreForTests();
+    await AsyncStorage.clear();
+    (fetchVendorTierCatalog as jest.Mock).mockReset();
+  });
+
+  it('uses the bundled matrix until the server responds', async () => {
+    expect(getDiscountMatrix()).toBe(DEFAULT_DISCOUNT_MATRIX);
+    (fetchVendorTierCatalog as jest.Mock).mockResolvedValue({
+      tiers: serverTiers,
+      version: null,
+    });
+
+    const snapshot = await refreshDiscountMatrix('token', {
+      now: new Date('2024-05-01T00:00:00.000Z'),
+    });
+
+    expect(snapshot.source).toBe('server');
+    expect(snapshot.fetchedAt).toBe('2024-05-01T00:00:00.000Z');
+    expect(snapshot.version).toMatch(/^[0-9a-f]{12}$/);
+    expect(getDiscountMatrix().diamond).toEqual({
+      black: 22,
+      gold: 6,
+      platinum: 12,
+    });
+    const stored = JSON.parse(
+      (await AsyncStorage.getItem(DISCOUNT_MATRIX_CONFIG.storageKey)) ?? '{}',
+    );
+    expect(stored.version).toBe(snapshot.version);
+  });
+
+  it('skips the network while the cached matrix is fresh', async () => {
+    (fetchVendorTierCatalog as jest.Mock).mockResolvedValue({
+      tiers: serverTiers,
+      version: '2024-05',
+    });
+    const now = new Date('2024-05-01T00:00:00.000Z');
+    await refreshDiscountMatrix('token', { now });
+    await refreshDiscountMatrix('token', {
+      now: new Date(now.getTime() + 60_000),
+    });
+
+    expect(fetchVendorTierCatalog).toHaveBeenCalledTimes(1);
+    expect(getDiscountMatrixSnapshot().version).toBe('2024-05');
+  });
+
+  it('keeps the cached matrix when the refresh fails', async () => {
+    await AsyncStorage.setItem(
+      DISCOUNT_MATRIX_CONFIG.storageKey,
+      JSON.stringify({
+        matrix: { diamond: { gold: 7 } },
+        tiers: null,
+        version: 'cached',
+        fetchedAt: '2024-01-01T00:00:00.000Z',
+        source: 'server',
+      }),
+    );
+    (fetchVendorTierCatalog as jest.Mock).mockRejectedValue(
+      new Error('offline'),
+    );
+
+    await expect(refreshDiscountMatrix('token')).rejects.toBeTruthy();
+
+    expect(getDiscountMatrixSnapshot()).toMatchObject({
+      source: 'cache',
+      version: 'cached',
+      matrix: { diamond: { gold: 7 } },
+    });
+  });
+});
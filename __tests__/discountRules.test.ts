@@ -0,0 +1,147 @@
+import { evaluateDiscountRules } from '../src/utils/discountRules';
+import { calculateDiscountForAmount } from '../src/utils/discount';
+import type { DiscountRule } from '../src/types/discountRules';
+
+// Friday 18:30 in Bangkok.
+const happyHourTime = '2024-05-03T11:30:00.000Z';
+
+const happyHour: DiscountRule = {
+  id: 'happy-hour',
+  name: 'Happy hour',
+  stacking: 'stack',
+  effect: { type: 'percentage', value: 5 },
+  conditions: {
+    schedule: { daysOfWeek: [5], startTime: '17:00', endTime: '19:00' },
+  },
+};
+
+const weekendDouble: DiscountRule = {
+  id: 'weekend-double',
+  name: 'Weekend double',
+  stacking: 'stack',
+  effect: { type: 'multiplier', value: 2 },
+  conditions: { schedule: { daysOfWeek: [0, 6] } },
+};
+
+const firstVisit: DiscountRule = {
+  id: 'first-visit',
+  name: 'First visit',
+  stacking: 'stack',
+  effect: { type: 'amount', value: 50 },
+  conditions: { maxUsesTotal: 0 },
+};
+
+describe('evaluateDiscountRules', () => {
+  it('stacks matching rules in order and reports skipped ones', () => {
+    const evaluation = evaluateDiscountRules(
+      [happyHour, weekendDouble, firstVisit],
+      {
+        membershipTier: 'Gold',
+        grossAmount: 1000,
+        at: happyHourTime,
+        usage: { usesToday: 0, usesTotal: 0 },
+      },
+      { eligibleAmount: 1000, tierDiscountAmount: 50 },
+    );
+
+    expect(evaluation.lines.map(line => [line.id, line.amount])).toEqual([
+      ['tier', 50],
+      ['happy-hour', 50],
+      ['first-visit', 50],
+    ]);
+    expect(evaluation.skippedRules).toEqual([
+      { id: 'weekend-double', reason: 'schedule' },
+    ]);
+    expect(evaluation.discountAmount).toBe(150);
+    expect(evaluation.discountPercentage).toBe(15);
+  });
+
+  it('lets an exclusive rule replace the tier discount', () => {
+    const evaluation = evaluateDiscountRules(
+      [{ ...weekendDouble, stacking: 'exclusive' }, firstVisit],
+      { grossAmount: 800, at: '2024-05-04T05:00:00.000Z' },
+      { eligibleAmount: 800, tierDiscountAmount: 40 },
+    );
+
+    expect(evaluation.appliedRuleIds).toEqual(['weekend-double']);
+    expect(evaluation.discountAmount).toBe(80);
+    expect(evaluation.skippedRules).toEqual([
+      { id: 'first-visit', reason: 'superseded' },
+    ]);
+  });
+
+  it('applies per-rule caps and clamps the total to the eligible amount', () => {
+    const evaluation = evaluateDiscountRules(
+      [
+        {
+          ...happyHour,
+          effect: { type: 'percentage', value: 50 },
+          maxDiscountAmount: 60,
+        },
+        { ...firstVisit, effect: { type: 'amount', value: 500 } },
+      ],
+      { grossAmount: 200, at: happyHourTime },
+      { eligibleAmount: 100, tierDiscountAmount: 10 },
+    );
+
+    expect(evaluation.lines.map(line => line.amount)).toEqual([
+      10, 50, 500, -460,
+    ]);
+    expect(evaluation.capped).toBe(true);
+    expect(evaluation.discountAmount).toBe(100);
+  });
+
+  it('skips rules whose tier or basket conditions do not match', () => {
+    const evaluation = evaluateDiscountRules(
+      [
+        {
+          ...firstVisit,
+          id: 'diamond-only',
+          conditions: { vendorTiers: ['Diamond'] },
+        },
+        {
+          ...firstVisit,
+          id: 'big-basket',
+          conditions: { minBasketAmount: 2000 },
+        },
+      ],
+      { vendorTier: 'sapphire', grossAmount: 500 },
+      { eligibleAmount: 500, tierDiscountAmount: 0 },
+    );
+
+    expect(evaluation.lines).toEqual([]);
+    expect(evaluation.skippedRules.map(rule => rule.reason)).toEqual([
+      'vendor_tier',
+      'basket_amount',
+    ]);
+  });
+});
+
+describe('calculateDiscountForAmount with rules', () => {
+  it('feeds the rule total into the tax breakdown', () => {
+    const result = calculateDiscountForAmount(
+      1000,
+      'Platinum',
+      'Diamond',
+      undefined,
+      {
+        rules: [happyHour],
+        ruleContext: { at: happyHourTime },
+        taxSettings: {
+          serviceChargeRate: 10,
+          vatRate: 7,
+          pricesIncludeVat: false,
+          discountApplication: 'before_service_charge',
+        },
+      },
+    );
+
+    expect(result.discountAmount).toBe(150);
+    expect(result.discountPercentage).toBe(15);
+    expect(result.ruleEvaluation?.appliedRuleIds).toEqual(['happy-hour']);
+    expect(result.taxBreakdown).toMatchObject({
+      serviceChargeAmount: 85,
+      subtotal: 935,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  assessRedemptionRisk,
+  getRollingAverageAmount,
+} from '../src/utils/fraudSignals';
+import type { ScanEvent } from '../src/types/fraud';
+import type { TransactionRecord } from '../src/types/transactions';
+
+const now = new Date('2024-05-03T08:00:00.000Z');
+const lookup = { token: 'member-token', memberId: 42 };
+
+const minutesAgo = (minutes: number) =>
+  new Date(now.getTime() - minutes * 60_000).toISOString();
+
+const buildRecord = (
+  overrides: Partial<TransactionRecord> = {},
+): TransactionRecord => ({
+  id: 'txn-1',
+  memberToken: 'other-token',
+  memberId: 7,
+  status: 'completed',
+  createdAt: minutesAgo(120),
+  grossAmount: 100,
+  discountAmount: 10,
+  netAmount: 90,
+  discountPercentage: 10,
+  ...overrides,
+});
+
+const history = Array.from({ length: 5 }, (_, index) =>
+  buildRecord({ id: `txn-${index}`, grossAmount: 100 + index * 10 }),
+);
+
+const scan = (
+  outcome: ScanEvent['outcome'],
+  at: string,
+  token = 'member-token',
+) => ({
+  token,
+  outcome,
+  at,
+});
+
+describe('getRollingAverageAmount', () => {
+  it('needs enough settled sales before averaging', () => {
+    expect(getRollingAverageAmount(history.slice(0, 4))).toBeNull();
+    expect(getRollingAverageAmount(history)).toBe(120);
+  });
+});
+
+describe('assessRedemptionRisk', () => {
+  it('passes an ordinary redemption', () => {
+    const assessment = assessRedemptionRisk({
+      lookup,
+      scannedToken: 'member-token',
+      grossAmount: 150,
+      records: history,
+      scans: [scan('valid', minutesAgo(0))],
+      now,
+    });
+
+    expect(assessment).toEqual({ signals: [], averageAmount: 120 });
+  });
+
+  it('flags repeat scans, member velocity and outlier amounts', () => {
+    const assessment = assessRedemptionRisk({
+      lookup,
+      scannedToken: 'member-token',
+      grossAmount: 500,
+      records: [
+        ...history,
+        buildRecord({
+          id: 'm-1',
+          memberToken: 'member-token',
+          memberId: 42,
+          createdAt: minutesAgo(5),
+        }),
+        buildRecord({ id: 'm-2', memberId: 42, createdAt: minutesAgo(20) }),
+      ],
+      scans: [
+        scan('valid', minutesAgo(1.5)),
+        scan('valid', minutesAgo(1)),
+        scan('valid', minutesAgo(0)),
+      ],
+      now,
+    });
+
+    expect(assessment.signals).toEqual([
+      { type: 'repeat_scan', observed: 3, threshold: 2 },
+      { type: 'member_velocity', observed: 2, threshold: 2 },
+      { type: 'amount_outlier', observed: 500, threshold: 457.16 },
+    ]);
+  });
+
+  it('flags scans right after a failed lookup but not network retries', () => {
+    const retry = assessRedemptionRisk({
+      lookup,
+      scannedToken: 'member-token',
+      grossAmount: 100,
+      records: [],
+      scans: [scan('error', minutesAgo(0.5)), scan('valid', minutesAgo(0))],
+      now,
+    });
+    expect(retry.signals).toEqual([]);
+
+    const flagged = assessRedemptionRisk({
+      lookup,
+      scannedToken: 'member-token',
+      grossAmount: 100,
+      records: [],
+      scans: [
+        scan('invalid', minutesAgo(0.5), 'stolen-token'),
+        scan('valid', minutesAgo(0)),
+      ],
+      now,
+    });
+    expect(flagged.signals).toEqual([
+      { type: 'after_failed_lookup', observed: 1, threshold: 0 },
+    ]);
+  });
+
+  it('matches scans against the scanned code rather than the lookup token', () => {
+    const assessment = assessRedemptionRisk({
+      lookup: { token: 'server-token', memberId: 42 },
+      scannedToken: 'member-token',
+      grossAmount: 100,
+      records: [],
+      scans: [
+        scan('error', minutesAgo(1)),
+        scan('valid', minutesAgo(0.5)),
+        scan('valid', minutesAgo(0)),
+      ],
+      now,
+    });
+
+    expect(assessment.signals).toEqual([
+      { type: 'repeat_scan', observed: 3, threshold: 2 },
+    ]);
+  });
+});
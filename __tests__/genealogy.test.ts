@@ -0,0 +1,121 @@
+import {
+  fetchGenealogy,
+  parseGenealogyNode,
+} from '../src/services/genealogyService';
+import {
+  countDownline,
+  filterGenealogyTree,
+  getTierColor,
+  hasUnloadedRecruits,
+} from '../src/utils/genealogy';
+import { MLM_CONFIG } from '../src/config/mlmConfig';
+
+jest.mock('../src/services/wordpressCookieService', () => ({
+  buildWordPressRequestInit: jest.fn(async (init: RequestInit) => init),
+  syncWordPressCookiesFromResponse: jest.fn(),
+}));
+
+jest.mock('../src/services/wordpressAuthService', () => ({
+  ensureValidSessionToken: jest.fn(),
+}));
+
+const { ensureValidSessionToken } = jest.requireMock(
+  '../src/services/wordpressAuthService',
+);
+
+const payload = {
+  id: 7,
+  name: 'Root Member',
+  level: 'Gold',
+  recruits: 2,
+  children: [
+    {
+      id: 11,
+      name: 'Anna Lee',
+      level: 'platinum',
+      recruits: '3',
+      children: [],
+    },
+    {
+      id: 12,
+      name: 'Ben Wong',
+      level: null,
+      recruits: 1,
+      children: [{ id: 20, name: 'Chai Somsak', level: 'blue' }],
+    },
+  ],
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: () => 'application/json' },
+    json: async () => body,
+  } as unknown as Response);
+
+describe('genealogy tree', () => {
+  const root = parseGenealogyNode(payload)!;
+
+  it('parses nested nodes with depth and recruit counts', () => {
+    expect(root).toMatchObject({ id: 7, level: 'gold', depth: 0 });
+    expect(root.children[0]).toMatchObject({ id: 11, recruits: 3, depth: 1 });
+    expect(root.children[1].children[0]).toMatchObject({
+      id: 20,
+      depth: 2,
+      recruits: 0,
+    });
+    expect(countDownline(root)).toBe(3);
+    expect(hasUnloadedRecruits(root.children[0])).toBe(true);
+    expect(hasUnloadedRecruits(root.children[1])).toBe(false);
+  });
+
+  it('keeps the path to members matching the search', () => {
+    const filtered = filterGenealogyTree(root, 'chai');
+    expect(filtered?.children.map(node => node.id)).toEqual([12]);
+    expect(filtered?.children[0].children[0].name).toBe('Chai Somsak');
+    expect(filterGenealogyTree(root, 'nobody')).toBeNull();
+    expect(filterGenealogyTree(root, '  ')).toBe(root);
+  });
+
+  it('colors nodes by tier', () => {
+    expect(getTierColor('GOLD')).toBe(MLM_CONFIG.tierColors.gold);
+    expect(getTierColor(null)).not.toBe(MLM_CONFIG.tierColors.gold);
+  });
+});
+
+describe('fetchGenealogy', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    (ensureValidSessionToken as jest.Mock).mockResolvedValue('secure-token');
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('requests the clamped depth and returns the tree', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(200, payload));
+    globalThis.fetch = fetchMock;
+
+    const tree = await fetchGenealogy(9);
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `${MLM_CONFIG.baseUrl}/wp-json/tcn-mlm/v1/genealogy?depth=5`,
+    );
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe(
+      'Bearer secure-token',
+    );
+    expect(tree.depth).toBe(5);
+    expect(tree.root.children).toHaveLength(2);
+  });
+
+  it('surfaces server failures as E3007', async () => {
+    globalThis.fetch = jest
+      .fn()
+      .mockResolvedValue(jsonResponse(500, { message: 'Tree unavailable' }));
+
+    await expect(fetchGenealogy(3)).rejects.toMatchObject({ code: 'E3007' });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  encodeSignedMemberQr,
+  getMemberQrReference,
+  getMemberQrToken,
+  getMsUntilRotation,
+  parseSignedMemberQr,
+  signMemberQrWindow,
+} from '../src/utils/memberQr';
+import {
+  markMemberQrUsed,
+  verifyScannedMemberQr,
+} from '../src/services/memberQrService';
+
+const rotation = { seed: 'member-seed', windowSeconds: 30 };
+const now = Date.parse('2024-07-12T04:15:10.000Z');
+
+describe('signed member QR payloads', () => {
+  it('round-trips the token, window and signature', () => {
+    const value = encodeSignedMemberQr('qr.123', rotation, now);
+    const parsed = parseSignedMemberQr(value);
+    const reference = getMemberQrReference('qr.123');
+
+    expect(parsed).toEqual({
+      reference,
+      window: Math.floor(now / 30_000),
+      windowSeconds: 30,
+      signature: signMemberQrWindow(
+        reference,
+        Math.floor(now / 30_000),
+        30,
+        'member-seed',
+      ),
+    });
+    expect(value).not.toContain('qr.123');
+    expect(getMemberQrToken(value)).toBe(reference);
+    expect(getMemberQrToken(' legacy-token ')).toBe('legacy-token');
+  });
+
+  it('changes the payload every window', () => {
+    expect(encodeSignedMemberQr('qr-123', rotation, now)).toBe(
+      encodeSignedMemberQr('qr-123', rotation, now + 1_000),
+    );
+    expect(encodeSignedMemberQr('qr-123', rotation, now)).not.toBe(
+      encodeSignedMemberQr('qr-123', rotation, now + 30_000),
+    );
+    expect(getMsUntilRotation(30, now)).toBe(20_000);
+  });
+});
+
+describe('verifyScannedMemberQr', () => {
+  it('accepts legacy tokens unless signed payloads are required', () => {
+    expect(() => verifyScannedMemberQr('legacy-token', now)).not.toThrow();
+    expect(() =>
+      verifyScannedMemberQr('legacy-token', now, { allowUnsigned: false }),
+    ).toThrow(expect.objectContaining({ code: 'E3128' }));
+  });
+
+  it('rejects stale windows and malformed signatures', () => {
+    const stale = encodeSignedMemberQr('qr-123', rotation, now - 90_000);
+    expect(() => verifyScannedMemberQr(stale, now)).toThrow(
+      expect.objectContaining({ code: 'E3120' }),
+    );
+
+    const tampered = encodeSignedMemberQr('qr-123', rotation, now).replace(
+      /\.[0-9a-f]{32}\./,
+      '.not-a-signature.',
+    );
+    expect(() => verifyScannedMemberQr(tampered, now)).toThrow(
+      expect.objectContaining({ code: 'E3122' }),
+    );
+
+    // A payload with the raw token spliced in instead of its reference.
+    const spliced = encodeSignedMemberQr('qr-123', rotation, now).replace(
+      /[0-9a-f]{32}$/,
+      'qr-123',
+    );
+    expect(() => verifyScannedMemberQr(spliced, now)).toThrow(
+      expect.objectContaining({ code: 'E3122' }),
+    );
+  });
+
+  it('rejects a payload already redeemed on this device', () => {
+    const value = encodeSignedMemberQr('qr-456', rotation, now);
+    expect(() => verifyScannedMemberQr(value, now)).not.toThrow();
+
+    markMemberQrUsed(value, now);
+    expect(() => verifyScannedMemberQr(value, now + 5_000)).toThrow(
+      expect.objectContaining({ code: 'E3121' }),
+    );
+  });
+});
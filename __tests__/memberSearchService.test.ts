@@ -0,0 +1,88 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('../src/services/activityMonitorService', () => ({
+  enqueueActivityLog: jest.fn(),
+}));
+
+jest.mock('../src/services/transactionService', () => ({
+  searchMembers: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { searchMembersForVendor } from '../src/services/memberSearchService';
+import { searchMembers } from '../src/services/transactionService';
+import { MEMBER_SEARCH_CONFIG } from '../src/config/memberSearchConfig';
+import { normalizeMemberSearchValue } from '../src/utils/memberSearch';
+import deviceLog from '../src/utils/deviceLog';
+
+const candidate = {
+  token: 'mlt-1',
+  initials: 'AE',
+  membershipTier: 'Gold',
+  lastDigits: '4233',
+};
+
+describe('memberSearchService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (searchMembers as jest.Mock).mockReset();
+    (searchMembers as jest.Mock).mockResolvedValue([candidate]);
+  });
+
+  it('rejects partial values before calling the server', async () => {
+    expect(normalizeMemberSearchValue('phone', '081-234-5678')).toBe(
+      '0812345678',
+    );
+    expect(normalizeMemberSearchValue('email', 'Ada@Example.COM ')).toBe(
+      'ada@example.com',
+    );
+
+    await expect(
+      searchMembersForVendor(42, { field: 'phone', value: '0812' }),
+    ).rejects.toMatchObject({ id: 'TRANSACTION_MEMBER_SEARCH_QUERY_INVALID' });
+    expect(searchMembers).not.toHaveBeenCalled();
+  });
+
+  it('audits searches without logging the raw query', async () => {
+    const info = jest.spyOn(deviceLog, 'info');
+
+    await expect(
+      searchMembersForVendor(42, { field: 'email', value: 'ada@example.com' }),
+    ).resolves.toEqual([candidate]);
+
+    expect(searchMembers).toHaveBeenCalledWith(
+      { field: 'email', value: 'ada@example.com' },
+      undefined,
+      42,
+      undefined,
+    );
+    const audit = info.mock.calls.find(
+      ([message]) => message === 'vendor.memberSearch.audit',
+    );
+    expect(audit?.[1]).toMatchObject({
+      vendorId: 42,
+      field: 'email',
+      results: 1,
+    });
+    expect(JSON.stringify(audit)).not.toContain('ada@example.com');
+    info.mockRestore();
+  });
+
+  it('rate limits searches per vendor', async () => {
+    for (let i = 0; i < MEMBER_SEARCH_CONFIG.maxSearchesPerWindow; i += 1) {
+      await searchMembersForVendor(42, {
+        field: 'member_number',
+        value: `TCN-${1000 + i}`,
+      });
+    }
+
+    await expect(
+      searchMembersForVendor(42, { field: 'member_number', value: 'TCN-2000' }),
+    ).rejects.toMatchObject({ id: 'TRANSACTION_MEMBER_SEARCH_RATE_LIMITED' });
+    await expect(
+      searchMembersForVendor(7, { field: 'member_number', value: 'TCN-2000' }),
+    ).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,71 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('../src/services/vendorService', () => ({
+  ...jest.requireActual('../src/services/vendorService'),
+  fetchVendorOutlets: jest.fn(),
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getSelectedOutletId,
+  loadOutlets,
+  resolveSelectedOutlet,
+  saveSelectedOutletId,
+} from '../src/services/outletService';
+import {
+  fetchVendorOutlets,
+  parseVendorOutlet,
+} from '../src/services/vendorService';
+
+const silom = {
+  id: 'silom',
+  name: 'Silom',
+  address: '1 Silom Rd',
+  openingHours: [{ day: 1, opens: '10:00', closes: '22:00' }],
+};
+const ari = { id: 'ari', name: 'Ari', address: null, openingHours: [] };
+
+describe('outletService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (fetchVendorOutlets as jest.Mock).mockReset();
+  });
+
+  it('parses outlets from the server payload', () => {
+    expect(
+      parseVendorOutlet({
+        id: 12,
+        name: 'Silom',
+        address: '1 Silom Rd',
+        opening_hours: [
+          { day: 1, opens: '10:00', closes: '22:00' },
+          { day: 9, opens: '10:00', closes: '22:00' },
+        ],
+      }),
+    ).toEqual({ ...silom, id: '12' });
+  });
+
+  it('falls back to the cached outlets when offline', async () => {
+    (fetchVendorOutlets as jest.Mock).mockResolvedValueOnce([silom, ari]);
+    await loadOutlets(7, 'token');
+
+    (fetchVendorOutlets as jest.Mock).mockRejectedValue(new Error('offline'));
+    expect(await loadOutlets(7, 'token')).toEqual([silom, ari]);
+    expect(await loadOutlets(8, 'token')).toEqual([]);
+  });
+
+  it('persists the selected outlet per vendor', async () => {
+    await saveSelectedOutletId(7, 'ari');
+
+    expect(await getSelectedOutletId(7)).toBe('ari');
+    expect(await getSelectedOutletId(8)).toBeNull();
+  });
+
+  it('only picks an outlet implicitly for single-branch vendors', () => {
+    expect(resolveSelectedOutlet([silom, ari], 'ari')).toBe(ari);
+    expect(resolveSelectedOutlet([silom, ari], 'gone')).toBeNull();
+    expect(resolveSelectedOutlet([silom], null)).toBe(silom);
+  });
+});
@@ -0,0 +1,114 @@
+import UPNG from 'upng-js';
+import {
+  base64ToBytes,
+  decodeImageBytes,
+  decodeQrCodesFromBase64,
+  findQrCodes,
+  RgbaImage,
+} from '../src/utils/qrImageDecoder';
+
+// react-native-qrcode-svg renders through this module, so it is always present.
+const QRCode = require('qrcode');
+
+const SCALE = 4;
+const QUIET_ZONE = 4;
+
+/** Draws QR codes side by side on a white RGBA canvas. */
+const renderCodes = (values: string[]): RgbaImage => {
+  const matrices = values.map(value => QRCode.create(value).modules);
+  const cell = Math.max(...matrices.map(m => m.size)) + QUIET_ZONE * 2;
+  const width = cell * matrices.length * SCALE;
+  const height = cell * SCALE;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+  matrices.forEach((matrix, index) => {
+    for (let row = 0; row < matrix.size; row += 1) {
+      for (let col = 0; col < matrix.size; col += 1) {
+        if (!matrix.get(row, col)) {
+          continue;
+        }
+        const x0 = (index * cell + QUIET_ZONE + col) * SCALE;
+        const y0 = (QUIET_ZONE + row) * SCALE;
+        for (let y = y0; y < y0 + SCALE; y += 1) {
+          for (let x = x0; x < x0 + SCALE; x += 1) {
+            const offset = (y * width + x) * 4;
+            data[offset] = 0;
+            data[offset + 1] = 0;
+            data[offset + 2] = 0;
+          }
+        }
+      }
+    }
+  });
+
+  return { data, width, height };
+};
+
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      bytes[i] * 65536 + (bytes[i + 1] ?? 0) * 256 + (bytes[i + 2] ?? 0);
+    const chars = [262144, 4096, 64, 1].map(
+      divisor => BASE64[Math.floor(chunk / divisor) % 64],
+    );
+    out += chars.slice(0, Math.min(4, bytes.length - i + 1)).join('');
+  }
+  return out.padEnd(Math.ceil(out.length / 4) * 4, '=');
+};
+
+const toPngBase64 = (image: RgbaImage): string =>
+  bytesToBase64(
+    new Uint8Array(
+      UPNG.encode(
+        [image.data.buffer as ArrayBuffer],
+        image.width,
+        image.height,
+        0,
+      ),
+    ),
+  );
+
+const asciiBytes = (text: string) =>
+  new Uint8Array(text.split('').map(char => char.charCodeAt(0)));
+
+describe('qrImageDecoder', () => {
+  it('decodes base64 like the platform decoder', () => {
+    expect(base64ToBytes('dGNuIG1lbWJlcg==')).toEqual(asciiBytes('tcn member'));
+    expect(base64ToBytes(bytesToBase64(asciiBytes('photo')))).toEqual(
+      asciiBytes('photo'),
+    );
+  });
+
+  it('reads every code in an image', () => {
+    const codes = findQrCodes(renderCodes(['member-one', 'member-two']));
+    expect(codes.sort()).toEqual(['member-one', 'member-two']);
+  });
+
+  it('decodes codes from a PNG screenshot', () => {
+    const payload = 'tcn://m/v2/qr-123?c=abcdef';
+    expect(
+      decodeQrCodesFromBase64(toPngBase64(renderCodes([payload]))),
+    ).toEqual([payload]);
+  });
+
+  it('rejects files that are not images', () => {
+    expect(() => decodeImageBytes(asciiBytes('not an image'))).toThrow(
+      expect.objectContaining({ code: 'E3126' }),
+    );
+  });
+
+  it('reports images without a QR code', () => {
+    const blank: RgbaImage = {
+      data: new Uint8ClampedArray(64 * 64 * 4).fill(255),
+      width: 64,
+      height: 64,
+    };
+    expect(() => decodeQrCodesFromBase64(toPngBase64(blank))).toThrow(
+      expect.objectContaining({ code: 'E3127' }),
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  computeQrChecksum,
+  decodeTcnQr,
+  encodeTcnQr,
+} from '../src/utils/qrPayload';
+
+describe('TCN QR payloads', () => {
+  it('encodes and decodes versioned payloads', () => {
+    const encoded = encodeTcnQr('member', 'qr 123/abc');
+
+    expect(encoded).toBe(
+      `tcn://m/v2/qr%20123%2Fabc?c=${computeQrChecksum(
+        'member',
+        2,
+        'qr 123/abc',
+      )}`,
+    );
+    expect(decodeTcnQr(encoded)).toEqual({
+      type: 'member',
+      value: 'qr 123/abc',
+      version: 2,
+      legacy: false,
+    });
+    expect(decodeTcnQr(encodeTcnQr('referral', 'SPONSOR1')).type).toBe(
+      'referral',
+    );
+  });
+
+  it('accepts legacy raw member tokens', () => {
+    expect(decodeTcnQr('  legacy-token ')).toEqual({
+      type: 'member',
+      value: 'legacy-token',
+      version: 1,
+      legacy: true,
+    });
+  });
+
+  it('rejects misreads and unsupported payloads', () => {
+    const encoded = encodeTcnQr('member', 'qr-123');
+
+    expect(() => decodeTcnQr(encoded.replace('qr-123', 'qr-124'))).toThrow(
+      expect.objectContaining({ code: 'E3123' }),
+    );
+    expect(() => decodeTcnQr(encoded.replace('/v2/', '/v9/'))).toThrow(
+      expect.objectContaining({ code: 'E3124' }),
+    );
+    expect(() => decodeTcnQr('tcn://x/v2/abc?c=000000')).toThrow(
+      expect.objectContaining({ code: 'E3124' }),
+    );
+  });
+});
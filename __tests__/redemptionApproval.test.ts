@@ -0,0 +1,90 @@
+jest.mock('../src/services/activityMonitorService', () => ({
+  enqueueActivityLog: jest.fn(),
+}));
+
+jest.mock('../src/services/transactionService', () => ({
+  fetchRedemptionApprovalStatus: jest.fn(),
+}));
+
+import { waitForMemberApproval } from '../src/services/redemptionApprovalService';
+import { fetchRedemptionApprovalStatus } from '../src/services/transactionService';
+import { REDEMPTION_APPROVAL_CONFIG } from '../src/config/redemptionApprovalConfig';
+import { requiresMemberApproval } from '../src/utils/redemptionApproval';
+
+const fetchStatus = fetchRedemptionApprovalStatus as jest.Mock;
+const options = { timeoutMs: 200, pollIntervalMs: 10 };
+
+describe('requiresMemberApproval', () => {
+  const config = {
+    ...REDEMPTION_APPROVAL_CONFIG,
+    vendorTiers: ['Platinum'],
+    minGrossAmount: 1000,
+  };
+
+  it('applies the vendor tier and amount thresholds', () => {
+    expect(requiresMemberApproval({ grossAmount: 999 }, config)).toBe(false);
+    expect(requiresMemberApproval({ grossAmount: 1000 }, config)).toBe(true);
+    expect(
+      requiresMemberApproval(
+        { vendorTier: 'platinum', grossAmount: 10 },
+        config,
+      ),
+    ).toBe(true);
+  });
+
+  it('is skipped when disabled', () => {
+    expect(
+      requiresMemberApproval(
+        { grossAmount: 5000 },
+        { ...config, enabled: false },
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('waitForMemberApproval', () => {
+  beforeEach(() => {
+    fetchStatus.mockReset();
+  });
+
+  it('resolves once the member approves, retrying failed polls', async () => {
+    fetchStatus
+      .mockResolvedValueOnce('awaiting_member')
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce('approved');
+
+    await expect(
+      waitForMemberApproval('txn-1', 'token', options),
+    ).resolves.toBeUndefined();
+    expect(fetchStatus).toHaveBeenCalledTimes(3);
+    expect(fetchStatus).toHaveBeenCalledWith('txn-1', 'token');
+  });
+
+  it('throws when the member declines', async () => {
+    fetchStatus.mockResolvedValue('declined');
+
+    await expect(
+      waitForMemberApproval('txn-1', 'token', options),
+    ).rejects.toMatchObject({ code: 'E3114' });
+  });
+
+  it('times out when the member never answers', async () => {
+    fetchStatus.mockResolvedValue('awaiting_member');
+
+    await expect(
+      waitForMemberApproval('txn-1', 'token', {
+        timeoutMs: 30,
+        pollIntervalMs: 10,
+      }),
+    ).rejects.toMatchObject({ code: 'E3115' });
+  });
+
+  it('stops waiting when the server expires the request', async () => {
+    fetchStatus.mockResolvedValue('expired');
+
+    await expect(
+      waitForMemberApproval('txn-1', 'token', options),
+    ).rejects.toMatchObject({ code: 'E3115' });
+    expect(fetchStatus).toHaveBeenCalledTimes(1);
+  });
+});
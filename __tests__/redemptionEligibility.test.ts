@@ -0,0 +1,127 @@
+import {
+  evaluateRedemptionEligibility,
+  formatCountdown,
+  RedemptionEligibilityInput,
+} from '../src/utils/redemptionEligibility';
+import type { TransactionRecord } from '../src/types/transactions';
+
+// 22:00 in Bangkok.
+const now = new Date('2024-05-03T15:00:00.000Z');
+
+const lookup: RedemptionEligibilityInput['lookup'] = {
+  token: 'member-token',
+  memberId: 42,
+  usage: { usesToday: 0, usesTotal: 3 },
+  discountDescriptor: { type: 'percentage', value: 10, maxUsesPerDay: 1 },
+};
+
+const buildRecord = (
+  overrides: Partial<TransactionRecord> = {},
+): TransactionRecord => ({
+  id: 'txn-1',
+  memberToken: 'member-token',
+  memberId: 42,
+  status: 'completed',
+  createdAt: '2024-05-03T14:00:00.000Z',
+  grossAmount: 100,
+  discountAmount: 10,
+  netAmount: 90,
+  discountPercentage: 10,
+  ...overrides,
+});
+
+describe('evaluateRedemptionEligibility', () => {
+  it('blocks on the daily limit until Bangkok midnight', () => {
+    const eligibility = evaluateRedemptionEligibility({
+      lookup: { ...lookup, usage: { usesToday: 1, usesTotal: 4 } },
+      now,
+    });
+
+    expect(eligibility).toMatchObject({
+      status: 'blocked',
+      reason: 'daily_limit_reached',
+      remainingToday: 0,
+      nextAllowedAt: '2024-05-03T17:00:00.000Z',
+    });
+  });
+
+  it('adds redemptions recorded after the lookup to the server usage', () => {
+    const records = [
+      buildRecord(),
+      buildRecord({ id: 'txn-old', createdAt: '2024-05-03T13:00:00.000Z' }),
+      buildRecord({ id: 'txn-other', memberId: 7 }),
+      buildRecord({ id: 'txn-failed', status: 'failed' }),
+    ];
+
+    const eligibility = evaluateRedemptionEligibility({
+      lookup,
+      lookedUpAt: '2024-05-03T13:30:00.000Z',
+      records,
+      now,
+    });
+
+    expect(eligibility.usesToday).toBe(1);
+    expect(eligibility.usesTotal).toBe(4);
+    expect(eligibility.reason).toBe('daily_limit_reached');
+  });
+
+  it('blocks outside the validity window', () => {
+    expect(
+      evaluateRedemptionEligibility({
+        lookup: {
+          ...lookup,
+          discountDescriptor: {
+            type: 'percentage',
+            value: 10,
+            startsAt: '2024-05-04T00:00:00.000Z',
+          },
+        },
+        now,
+      }),
+    ).toMatchObject({
+      reason: 'not_yet_valid',
+      nextAllowedAt: '2024-05-04T00:00:00.000Z',
+    });
+
+    expect(
+      evaluateRedemptionEligibility({
+        lookup: {
+          ...lookup,
+          discountDescriptor: {
+            type: 'percentage',
+            value: 10,
+            expiresAt: '2024-05-03T12:00:00.000Z',
+          },
+        },
+        now,
+      }),
+    ).toMatchObject({ status: 'blocked', reason: 'expired' });
+  });
+
+  it('warns before the final redemption', () => {
+    const eligibility = evaluateRedemptionEligibility({
+      lookup: {
+        ...lookup,
+        discountDescriptor: { type: 'percentage', value: 10, maxUses: 4 },
+      },
+      now,
+    });
+
+    expect(eligibility).toMatchObject({
+      status: 'warning',
+      reason: 'last_use',
+      remainingTotal: 1,
+      remainingToday: null,
+    });
+  });
+});
+
+describe('formatCountdown', () => {
+  it('formats hours, minutes and seconds', () => {
+    expect(formatCountdown(2 * 3600 * 1000 + 5 * 60 * 1000 + 9000)).toBe(
+      '2:05:09',
+    );
+    expect(formatCountdown(61_500)).toBe('01:02');
+    expect(formatCountdown(-1)).toBe('00:00');
+  });
+});
@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  loadPendingReferral,
+  lookupReferralSponsor,
+  savePendingReferral,
+} from '../src/services/referralService';
+import { REFERRAL_CONFIG } from '../src/config/referralConfig';
+import { encodeTcnQr } from '../src/utils/qrPayload';
+import {
+  buildReferralLink,
+  buildReferralQrPayload,
+  normalizeReferralCode,
+  parseReferralLink,
+  parseReferralQr,
+} from '../src/utils/referral';
+
+describe('referral codes', () => {
+  it('normalises codes and rejects malformed ones', () => {
+    expect(normalizeReferralCode(' ab 12 ')).toBe('AB12');
+    expect(normalizeReferralCode('bad/code')).toBeNull();
+    expect(normalizeReferralCode('')).toBeNull();
+  });
+
+  it('reads the code from register links only', () => {
+    expect(buildReferralLink('42')).toBe('tcnapp://register?ref=42');
+    expect(parseReferralLink('tcnapp://register?ref=42')).toBe('42');
+    expect(parseReferralLink('TCNAPP://register/?utm=x&ref=ab%2D7#top')).toBe(
+      'AB-7',
+    );
+    expect(parseReferralLink('tcnapp://membership?ref=42')).toBeNull();
+    expect(parseReferralLink('https://example.com/?ref=42')).toBeNull();
+  });
+
+  it('accepts referral QR payloads and links', () => {
+    expect(parseReferralQr(buildReferralQrPayload('42'))).toBe('42');
+    expect(parseReferralQr('tcnapp://register?ref=77')).toBe('77');
+  });
+
+  it('rejects other TCN codes with E3012', () => {
+    expect(() => parseReferralQr(encodeTcnQr('member', 'token'))).toThrow(
+      expect.objectContaining({ code: 'E3012' }),
+    );
+    expect(() => parseReferralQr('hello')).toThrow(
+      expect.objectContaining({ code: 'E3012' }),
+    );
+  });
+});
+
+describe('lookupReferralSponsor', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('resolves the sponsor name and level', async () => {
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'application/json' },
+      json: async () => ({
+        sponsor: {
+          id: 42,
+          display_name: 'Member Example',
+          membership_level: 'Gold',
+        },
+      }),
+    });
+
+    await expect(lookupReferralSponsor('42')).resolves.toEqual({
+      id: 42,
+      code: '42',
+      name: 'Member Example',
+      level: 'gold',
+    });
+    expect((globalThis.fetch as jest.Mock).mock.calls[0][0]).toContain(
+      '/wp-json/tcn-mlm/v1/sponsor?code=42',
+    );
+  });
+
+  it('fails with E3010 for unknown codes', async () => {
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      headers: { get: () => 'application/json' },
+      json: async () => ({ message: 'Not found' }),
+    });
+
+    await expect(lookupReferralSponsor('999')).rejects.toMatchObject({
+      code: 'E3010',
+    });
+  });
+
+  it('fails with E3011 when the server errors', async () => {
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      headers: { get: () => 'application/json' },
+      json: async () => ({}),
+    });
+
+    await expect(lookupReferralSponsor('42')).rejects.toMatchObject({
+      code: 'E3011',
+    });
+  });
+});
+
+describe('pending referral', () => {
+  afterEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('survives a restart until it expires', async () => {
+    await savePendingReferral('42', 'link', 1000);
+
+    await expect(loadPendingReferral(2000)).resolves.toEqual({
+      code: '42',
+      source: 'link',
+      receivedAt: 1000,
+    });
+    await expect(
+      loadPendingReferral(1001 + REFERRAL_CONFIG.pendingTtlMs),
+    ).resolves.toBeNull();
+    await expect(
+      AsyncStorage.getItem(REFERRAL_CONFIG.storageKey),
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import {
+  admitScan,
+  createScanQueueEntry,
+  resolveScanQueueEntry,
+} from '../src/utils/scanQueue';
+import { SCAN_QUEUE_CONFIG } from '../src/config/scanQueueConfig';
+import { encodeSignedMemberQr } from '../src/utils/memberQr';
+import { useScanQueue, UseScanQueueResult } from '../src/hooks/useScanQueue';
+import type { MemberLookupResult } from '../src/types/transactions';
+
+const now = new Date('2024-05-03T08:00:00.000Z');
+
+describe('admitScan', () => {
+  it('debounces repeat reads of the same token inside the window', () => {
+    const seenAt = now.getTime() - 1000;
+
+    expect(admitScan([], seenAt, 'token-a', now.getTime(), 5000)).toBe(
+      'duplicate',
+    );
+    expect(admitScan([], seenAt, 'token-a', now.getTime(), 500)).toBe(
+      'accepted',
+    );
+  });
+
+  it('ignores tokens that are already waiting and caps the queue', () => {
+    const queued = createScanQueueEntry('token-a', now);
+    expect(admitScan([queued], undefined, 'token-a', now.getTime())).toBe(
+      'queued',
+    );
+
+    const full = Array.from(
+      { length: SCAN_QUEUE_CONFIG.maxQueueLength },
+      (_, i) => createScanQueueEntry(`token-${i}`, now),
+    );
+    expect(admitScan(full, undefined, 'token-new', now.getTime())).toBe('full');
+  });
+
+  it('treats rotated payloads of a queued member as the same member', () => {
+    const rotation = { seed: 'member-seed', windowSeconds: 30 };
+    const first = encodeSignedMemberQr('token-a', rotation, now.getTime());
+    const rotated = encodeSignedMemberQr(
+      'token-a',
+      rotation,
+      now.getTime() + 30_000,
+    );
+    expect(rotated).not.toBe(first);
+
+    const queued = createScanQueueEntry(first, now);
+    expect(admitScan([queued], undefined, rotated, now.getTime())).toBe(
+      'queued',
+    );
+    expect(
+      admitScan(
+        [queued],
+        undefined,
+        encodeSignedMemberQr('token-b', rotation, now.getTime()),
+        now.getTime(),
+      ),
+    ).toBe('accepted');
+  });
+});
+
+describe('resolveScanQueueEntry', () => {
+  it('marks valid members ready and keeps the server message otherwise', () => {
+    const entry = createScanQueueEntry('token-a', now);
+
+    expect(
+      resolveScanQueueEntry(entry, { token: 'token-a', valid: true }, now),
+    ).toMatchObject({ status: 'ready', lookedUpAt: now.toISOString() });
+    expect(
+      resolveScanQueueEntry(
+        entry,
+        { token: 'token-a', valid: false, message: 'Expired' },
+        now,
+      ),
+    ).toMatchObject({ status: 'invalid', errorMessage: 'Expired' });
+  });
+});
+
+describe('useScanQueue', () => {
+  const renderQueue = (validate: () => Promise<MemberLookupResult>) => {
+    const queue: { current: UseScanQueueResult | null } = { current: null };
+    const describeError = jest.fn(() => 'failed');
+    let renders = 0;
+    const Harness = () => {
+      renders += 1;
+      queue.current = useScanQueue({ validate, describeError });
+      return null;
+    };
+    let tree!: renderer.ReactTestRenderer;
+    act(() => {
+      tree = renderer.create(React.createElement(Harness));
+    });
+    return { queue, tree, describeError, renderCount: () => renders };
+  };
+
+  it('drops lookups that finish after the entry was removed', async () => {
+    let finish!: (result: MemberLookupResult) => void;
+    const { queue, renderCount } = renderQueue(
+      () =>
+        new Promise(resolve => {
+          finish = resolve;
+        }),
+    );
+
+    act(() => {
+      queue.current?.enqueue('token-a');
+    });
+    const [entry] = queue.current?.entries ?? [];
+    act(() => {
+      queue.current?.remove(entry.id);
+    });
+    const rendersBefore = renderCount();
+    await act(async () => {
+      finish({ token: 'token-a', valid: true });
+    });
+
+    expect(queue.current?.entries).toEqual([]);
+    expect(renderCount()).toBe(rendersBefore);
+  });
+
+  it('ignores lookups that finish after unmount', async () => {
+    let fail!: (error: Error) => void;
+    const { queue, tree, describeError } = renderQueue(
+      () =>
+        new Promise((_, reject) => {
+          fail = reject;
+        }),
+    );
+
+    act(() => {
+      queue.current?.enqueue('token-a');
+    });
+    act(() => {
+      tree.unmount();
+    });
+    await act(async () => {
+      fail(new Error('offline'));
+    });
+
+    expect(describeError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildSettlementReport,
+  getBusinessDate,
+  getBusinessDayRange,
+} from '../src/utils/settlementReport';
+import { generateSettlementReport } from '../src/services/settlementReportService';
+import { SETTLEMENT_REPORT_CONFIG } from '../src/config/settlementReportConfig';
+import { TRANSACTION_OUTBOX_CONFIG } from '../src/config/transactionOutboxConfig';
+import { enqueueTransactionOutboxEntry } from '../src/services/transactionOutboxService';
+import { toCsv } from '../src/utils/csv';
+import type { TransactionRecord } from '../src/types/transactions';
+
+jest.mock('../src/services/transactionService', () => ({
+  fetchVendorTransactions: jest.fn(),
+}));
+
+const { fetchVendorTransactions } = jest.requireMock(
+  '../src/services/transactionService',
+);
+
+const baseRecord: TransactionRecord = {
+  id: 'base',
+  memberToken: 'member',
+  status: 'completed',
+  createdAt: '2024-03-01T03:00:00.000Z',
+  discountPercentage: 10,
+  discountAmount: 100,
+  netAmount: 900,
+  grossAmount: 1000,
+  currency: 'THB',
+  membershipTier: 'Gold',
+  vendorTier: null,
+  message: null,
+  vendorName: 'Vendor A',
+  memberName: 'Member One',
+  membership: null,
+  errorMessage: null,
+};
+
+// 2024-03-01 in Bangkok runs from 2024-02-29T17:00Z to 2024-03-01T17:00Z.
+const transactions: TransactionRecord[] = [
+  { ...baseRecord, id: 'before-day', createdAt: '2024-02-29T16:59:59.000Z' },
+  { ...baseRecord, id: 'first-sale', createdAt: '2024-02-29T17:00:00.000Z' },
+  {
+    ...baseRecord,
+    id: 'platinum-partial',
+    createdAt: '2024-03-01T05:00:00.000Z',
+    membershipTier: 'Platinum',
+    status: 'partially_refunded',
+    refundedAmount: 200,
+  },
+  {
+    ...baseRecord,
+    id: 'voided-sale',
+    createdAt: '2024-03-01T06:00:00.000Z',
+    status: 'voided',
+    reversalReason: 'wrong_amount',
+  },
+  {
+    ...baseRecord,
+    id: 'failed-sale',
+    createdAt: '2024-03-01T07:00:00.000Z',
+    status: 'failed',
+    errorMessage: 'E3101: Network request failed',
+  },
+  {
+    ...baseRecord,
+    id: 'last-sale',
+    createdAt: '2024-03-01T16:59:59.000Z',
+    membershipTier: null,
+  },
+  { ...baseRecord, id: 'after-day', createdAt: '2024-03-01T17:00:00.000Z' },
+];
+
+describe('settlement report', () => {
+  beforeEach(async () => {
+    (fetchVendorTransactions as jest.Mock).mockReset();
+    await AsyncStorage.removeItem(SETTLEMENT_REPORT_CONFIG.storageKey);
+    await AsyncStorage.removeItem(TRANSACTION_OUTBOX_CONFIG.storageKey);
+  });
+
+  it('maps moments onto Bangkok business days', () => {
+    expect(getBusinessDate('2024-02-29T16:59:59.000Z')).toBe('2024-02-29');
+    expect(getBusinessDate('2024-02-29T17:00:00.000Z')).toBe('2024-03-01');
+    expect(getBusinessDayRange('2024-03-01').start.toISOString()).toBe(
+      '2024-02-29T17:00:00.000Z',
+    );
+  });
+
+  it('totals sales by tier and lists exceptions', () => {
+    const report = buildSettlementReport(transactions, '2024-03-01', {
+      vendorId: 42,
+      generatedAt: new Date('2024-03-01T18:00:00.000Z'),
+    });
+
+    expect(report.id).toBe('z-42-2024-03-01');
+    expect(report.totals).toEqual({
+      count: 3,
+      gross: 3000,
+      discount: 300,
+      net: 2700,
+      refunded: 200,
+      settled: 2500,
+    });
+    expect(report.byTier.map(tier => [tier.tier, tier.count])).toEqual([
+      ['Gold', 1],
+      ['Platinum', 1],
+      ['unknown', 1],
+    ]);
+    expect(report.statusCounts).toMatchObject({
+      completed: 2,
+      partially_refunded: 1,
+      voided: 1,
+      failed: 1,
+    });
+    expect(report.failedItems.map(item => item.id)).toEqual(['failed-sale']);
+    expect(report.voidedItems[0]).toMatchObject({
+      id: 'voided-sale',
+      reason: 'wrong_amount',
+    });
+    expect(report.firstTransactionId).toBe('first-sale');
+    expect(report.lastTransactionId).toBe('last-sale');
+  });
+
+  it('locks the report once it has been generated', async () => {
+    (fetchVendorTransactions as jest.Mock).mockResolvedValue({
+      records: transactions,
+      nextCursor: null,
+      nextPage: null,
+      hasMore: false,
+      total: transactions.length,
+    });
+
+    const first = await generateSettlementReport({
+      businessDate: '2024-03-01',
+      vendorId: 42,
+    });
+    expect(first.reused).toBe(false);
+
+    (fetchVendorTransactions as jest.Mock).mockResolvedValue({
+      records: [],
+      nextCursor: null,
+      nextPage: null,
+      hasMore: false,
+      total: 0,
+    });
+    const second = await generateSettlementReport({
+      businessDate: '2024-03-01',
+      vendorId: 42,
+    });
+
+    expect(second.reused).toBe(true);
+    expect(second.report).toEqual(first.report);
+    expect(fetchVendorTransactions).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not lock a business day that is still trading', async () => {
+    (fetchVendorTransactions as jest.Mock).mockResolvedValue({
+      records: transactions,
+      nextCursor: null,
+      nextPage: null,
+      hasMore: false,
+      total: transactions.length,
+    });
+
+    const result = await generateSettlementReport({
+      businessDate: '2024-03-01',
+      vendorId: 42,
+      now: new Date('2024-03-01T10:00:00.000Z'),
+    });
+
+    expect(result).toMatchObject({ reused: false, locked: false });
+    expect(
+      await AsyncStorage.getItem(SETTLEMENT_REPORT_CONFIG.storageKey),
+    ).toBeNull();
+  });
+
+  it('does not lock a business day with sales still in the outbox', async () => {
+    (fetchVendorTransactions as jest.Mock).mockResolvedValue({
+      records: transactions,
+      nextCursor: null,
+      nextPage: null,
+      hasMore: false,
+      total: transactions.length,
+    });
+    const queued = {
+      ...baseRecord,
+      id: 'queued-sale',
+      status: 'pending' as const,
+      createdAt: '2024-03-01T08:00:00.000Z',
+    };
+    await enqueueTransactionOutboxEntry(queued, {
+      memberToken: 'member',
+      grossAmount: 1000,
+    });
+
+    const result = await generateSettlementReport({
+      businessDate: '2024-03-01',
+      vendorId: 42,
+      localTransactions: [queued],
+    });
+
+    expect(result).toMatchObject({ reused: false, locked: false });
+    expect(
+      await AsyncStorage.getItem(SETTLEMENT_REPORT_CONFIG.storageKey),
+    ).toBeNull();
+  });
+
+  it('fails instead of locking a truncated history', async () => {
+    let page = 0;
+    (fetchVendorTransactions as jest.Mock).mockImplementation(async () => {
+      page += 1;
+      return {
+        records: [{ ...baseRecord, id: `sale-${page}` }],
+        nextCursor: `cursor-${page}`,
+        nextPage: null,
+        hasMore: true,
+        total: null,
+      };
+    });
+
+    await expect(
+      generateSettlementReport({ businessDate: '2024-03-01', vendorId: 42 }),
+    ).rejects.toMatchObject({ code: 'E3129' });
+    expect(
+      await AsyncStorage.getItem(SETTLEMENT_REPORT_CONFIG.storageKey),
+    ).toBeNull();
+  });
+
+  it('escapes CSV fields and prefixes a byte order mark', () => {
+    expect(toCsv([['a,b', 'say "hi"', null, 3]])).toBe(
+      '\uFEFF"a,b","say ""hi""",,3\r\n',
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  buildCashierBreakdown,
   buildMonthlySavings,
   buildVendorPerformance,
   buildStatusBreakdown,
@@ -56,6 +57,25 @@ describe('transaction analytics selectors', () => {
       status: 'failed',
       vendorName: 'Vendor C',
     },
+    {
+      ...baseRecord,
+      id: 'feb-voided',
+      createdAt: '2024-02-26T00:00:00.000Z',
+      discountAmount: 70,
+      status: 'voided',
+      vendorName: 'Vendor C',
+    },
+    {
+      ...baseRecord,
+      id: 'feb-partial-refund',
+      createdAt: '2024-02-27T00:00:00.000Z',
+      discountAmount: 20,
+      netAmount: 180,
+      grossAmount: 200,
+      refundedAmount: 90,
+      status: 'partially_refunded',
+      vendorName: 'Vendor A',
+    },
   ];
 
   it('groups monthly savings by month', () => {
@@ -67,15 +87,16 @@ describe('transaction analytics selectors', () => {
     expect(savings).toHaveLength(3);
     const [january, february, march] = savings;
     expect(january.totalSavings).toBe(80);
-    expect(february.totalSavings).toBe(80);
+    expect(february.totalSavings).toBe(90);
+    expect(february.transactionCount).toBe(3);
     expect(march.totalSavings).toBe(0);
   });
 
   it('aggregates vendor performance by vendor name', () => {
     const vendors = buildVendorPerformance(transactions);
     expect(vendors).toEqual([
+      { vendorName: 'Vendor A', totalSavings: 90, transactionCount: 2 },
       { vendorName: 'Vendor B', totalSavings: 80, transactionCount: 2 },
-      { vendorName: 'Vendor A', totalSavings: 80, transactionCount: 1 },
     ]);
   });
 
@@ -85,11 +106,41 @@ describe('transaction analytics selectors', () => {
       { status: 'pending', count: 0 },
       { status: 'completed', count: 3 },
       { status: 'failed', count: 1 },
+      { status: 'voided', count: 1 },
+      { status: 'refunded', count: 0 },
+      { status: 'partially_refunded', count: 1 },
+    ]);
+  });
+
+  it('groups settled sales by cashier', () => {
+    const breakdown = buildCashierBreakdown(
+      transactions.map(transaction =>
+        transaction.vendorName === 'Vendor B'
+          ? { ...transaction, cashierId: 'cashier-1', cashierName: 'Noi' }
+          : transaction,
+      ),
+    );
+    expect(breakdown).toEqual([
+      {
+        cashierId: 'cashier-1',
+        cashierName: 'Noi',
+        transactionCount: 2,
+        grossAmount: 2000,
+        totalSavings: 80,
+      },
+      {
+        cashierId: null,
+        cashierName: null,
+        transactionCount: 2,
+        // Half of the partially refunded 200 sale was returned.
+        grossAmount: 1100,
+        totalSavings: 90,
+      },
     ]);
   });
 
   it('calculates totals and completed counts', () => {
-    expect(calculateTotalSavings(transactions)).toBe(160);
-    expect(calculateCompletedCount(transactions)).toBe(3);
+    expect(calculateTotalSavings(transactions)).toBe(170);
+    expect(calculateCompletedCount(transactions)).toBe(4);
   });
 });
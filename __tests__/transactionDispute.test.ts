@@ -0,0 +1,64 @@
+import {
+  canDisputeTransaction,
+  isDisputeActive,
+} from '../src/utils/transactionDispute';
+import type { TransactionRecord } from '../src/types/transactions';
+
+const now = new Date('2024-07-20T08:00:00.000Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildRecord = (
+  overrides: Partial<TransactionRecord> = {},
+): TransactionRecord => ({
+  id: '987',
+  memberToken: 'member-token',
+  status: 'completed',
+  createdAt: new Date(now - DAY_MS).toISOString(),
+  grossAmount: 250,
+  discountAmount: 25,
+  netAmount: 225,
+  discountPercentage: 10,
+  ...overrides,
+});
+
+describe('canDisputeTransaction', () => {
+  it('allows settled and reversed sales inside the dispute window', () => {
+    expect(canDisputeTransaction(buildRecord(), now)).toBe(true);
+    expect(canDisputeTransaction(buildRecord({ status: 'voided' }), now)).toBe(
+      true,
+    );
+  });
+
+  it('rejects pending, offline and already disputed records', () => {
+    expect(canDisputeTransaction(buildRecord({ status: 'pending' }), now)).toBe(
+      false,
+    );
+    expect(canDisputeTransaction(buildRecord({ id: 'temp-1' }), now)).toBe(
+      false,
+    );
+    expect(
+      canDisputeTransaction(
+        buildRecord({ disputeId: 'dsp_1', disputeStatus: 'rejected' }),
+        now,
+      ),
+    ).toBe(false);
+  });
+
+  it('closes the window after 30 days', () => {
+    expect(
+      canDisputeTransaction(
+        buildRecord({ createdAt: new Date(now - 31 * DAY_MS).toISOString() }),
+        now,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('isDisputeActive', () => {
+  it('treats open and in-review disputes as active', () => {
+    expect(isDisputeActive('open')).toBe(true);
+    expect(isDisputeActive('in_review')).toBe(true);
+    expect(isDisputeActive('resolved')).toBe(false);
+    expect(isDisputeActive(undefined)).toBe(false);
+  });
+});
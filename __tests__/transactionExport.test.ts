@@ -0,0 +1,181 @@
+import { buildTransactionExport } from '../src/utils/transactionExport';
+import { NativeModules, Platform, Share } from 'react-native';
+import {
+  collectTransactionHistory,
+  shareTransactionExport,
+  toTransactionExportDataUrl,
+} from '../src/services/transactionExportService';
+import type { TransactionRecord } from '../src/types/transactions';
+
+const t = (key: string) => key.split('.').pop() ?? key;
+
+const baseRecord: TransactionRecord = {
+  id: 'base',
+  memberToken: 'member',
+  status: 'completed',
+  createdAt: '2024-04-01T03:00:00.000Z',
+  discountPercentage: 10,
+  discountAmount: 100,
+  netAmount: 900,
+  grossAmount: 1000,
+  currency: 'THB',
+  membershipTier: 'Gold',
+  vendorTier: null,
+  message: null,
+  vendorName: 'Vendor A',
+  memberName: 'สมชาย, "Som"',
+  membership: null,
+  errorMessage: null,
+};
+
+const records: TransactionRecord[] = [
+  { ...baseRecord, id: 'later', createdAt: '2024-04-03T03:00:00.000Z' },
+  { ...baseRecord, id: 'earlier' },
+  { ...baseRecord, id: 'too-old', createdAt: '2024-03-01T03:00:00.000Z' },
+];
+
+describe('transaction export', () => {
+  it('writes the selected columns as RFC 4180 CSV with a byte order mark', () => {
+    const file = buildTransactionExport(
+      records,
+      {
+        format: 'csv',
+        columns: ['netAmount', 'id', 'memberName'],
+        from: '2024-04-01T00:00:00.000Z',
+      },
+      'vendor',
+      t,
+      new Date('2024-04-05T00:00:00.000Z'),
+    );
+
+    expect(file.filename).toBe('tcn-transactions-vendor-2024-04-05.csv');
+    expect(file.count).toBe(2);
+    expect(file.content).toBe(
+      '\uFEFFid,memberName,netAmount\r\n' +
+        'earlier,"สมชาย, ""Som""",900.00\r\n' +
+        'later,"สมชาย, ""Som""",900.00\r\n',
+    );
+  });
+
+  it('neutralises spreadsheet formulas but keeps negative amounts', () => {
+    const file = buildTransactionExport(
+      [
+        {
+          ...baseRecord,
+          id: 'formula',
+          memberName: '=HYPERLINK("http://x")',
+          netAmount: -50,
+        },
+      ],
+      { format: 'csv', columns: ['id', 'memberName', 'netAmount'] },
+      'vendor',
+      t,
+      new Date('2024-04-05T00:00:00.000Z'),
+    );
+
+    expect(file.content).toBe(
+      '\uFEFFid,memberName,netAmount\r\n' +
+        'formula,"\'=HYPERLINK(""http://x"")",-50.00\r\n',
+    );
+  });
+
+  it('writes JSON objects keyed by column', () => {
+    const file = buildTransactionExport(
+      records,
+      { format: 'json', columns: ['id', 'status', 'discountAmount'] },
+      'member',
+      t,
+    );
+
+    expect(file.mimeType).toBe('application/json');
+    expect(JSON.parse(file.content)).toEqual([
+      { id: 'too-old', status: 'completed', discountAmount: 100 },
+      { id: 'earlier', status: 'completed', discountAmount: 100 },
+      { id: 'later', status: 'completed', discountAmount: 100 },
+    ]);
+  });
+
+  it('collects every history page and stops when pages repeat', async () => {
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce({
+        records: [records[0]],
+        nextCursor: 'next',
+        nextPage: null,
+        hasMore: true,
+        total: null,
+      })
+      .mockResolvedValue({
+        records: [records[1]],
+        nextCursor: 'next',
+        nextPage: null,
+        hasMore: true,
+        total: null,
+      });
+
+    const collected = await collectTransactionHistory(fetcher, 'token', {
+      from: '2024-04-01T00:00:00.000Z',
+    });
+
+    expect(collected.records.map(record => record.id)).toEqual([
+      'later',
+      'earlier',
+    ]);
+    expect(collected.truncated).toBe(false);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(fetcher).toHaveBeenLastCalledWith(
+      'token',
+      expect.objectContaining({
+        cursor: 'next',
+        page: null,
+        from: '2024-04-01T00:00:00.000Z',
+      }),
+    );
+  });
+
+  it('shares the export as a file attachment rather than message text', async () => {
+    const share = jest
+      .spyOn(Share, 'share')
+      .mockResolvedValue({ action: Share.sharedAction });
+    const file = {
+      filename: 'tcn-transactions-vendor-2024-05-03.csv',
+      mimeType: 'text/csv',
+      content: 'Member\nสมชาย',
+      count: 1,
+    };
+
+    const url = toTransactionExportDataUrl(file);
+    // UTF-8 bytes of the content, so the Thai name is not mangled.
+    expect(url).toBe('data:text/csv;base64,TWVtYmVyCuC4quC4oeC4iuC4suC4og==');
+
+    await shareTransactionExport(file);
+    expect(share).toHaveBeenCalledWith(
+      { title: file.filename, url },
+      { subject: file.filename },
+    );
+    share.mockRestore();
+  });
+
+  it('shares a cached file through the native module on Android', async () => {
+    const shareFile = jest.fn().mockResolvedValue(undefined);
+    const share = jest.spyOn(Share, 'share');
+    jest.replaceProperty(Platform, 'OS', 'android');
+    NativeModules.TransactionExportShare = { shareFile };
+
+    await shareTransactionExport({
+      filename: 'tcn-transactions-vendor-2024-05-03.csv',
+      mimeType: 'text/csv',
+      content: 'Member\nสมชาย',
+      count: 1,
+    });
+
+    expect(shareFile).toHaveBeenCalledWith(
+      'tcn-transactions-vendor-2024-05-03.csv',
+      'text/csv',
+      'Member\nสมชาย',
+    );
+    expect(share).not.toHaveBeenCalled();
+    delete NativeModules.TransactionExportShare;
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  enqueueTransactionOutboxEntry,
+  getTransactionOutboxRetryDelay,
+  loadTransactionOutbox,
+  processTransactionOutbox,
+  removeTransactionOutboxEntry,
+} from '../src/services/transactionOutboxService';
+import { TRANSACTION_OUTBOX_CONFIG } from '../src/config/transactionOutboxConfig';
+import type {
+  RecordTransactionRequest,
+  TransactionRecord,
+} from '../src/types/transactions';
+
+jest.mock('../src/services/transactionService', () => ({
+  recordTransaction: jest.fn(),
+  isRetryableTransactionError: jest.fn(() => true),
+}));
+
+const { recordTransaction } = jest.requireMock(
+  '../src/services/transactionService',
+);
+
+const request: RecordTransactionRequest = {
+  memberToken: 'member-token',
+  grossAmount: 500,
+  currency: 'THB',
+  vendorId: 42,
+};
+
+const record: TransactionRecord = {
+  id: 'local-1',
+  memberToken: 'member-token',
+  status: 'failed',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  discountPercentage: 10,
+  discountAmount: 50,
+  netAmount: 450,
+  grossAmount: 500,
+  vendorId: 42,
+  errorMessage: 'E3101: Network request failed',
+  retryable: true,
+};
+
+describe('transactionOutboxService', () => {
+  beforeEach(async () => {
+    (recordTransaction as jest.Mock).mockReset();
+    await AsyncStorage.removeItem(TRANSACTION_OUTBOX_CONFIG.storageKey);
+  });
+
+  it('caps the exponential retry delay', () => {
+    expect(getTransactionOutboxRetryDelay(1)).toBe(
+      TRANSACTION_OUTBOX_CONFIG.baseRetryDelayMs,
+    );
+    expect(getTransactionOutboxRetryDelay(2)).toBe(
+      TRANSACTION_OUTBOX_CONFIG.baseRetryDelayMs * 2,
+    );
+    expect(getTransactionOutboxRetryDelay(50)).toBe(
+      TRANSACTION_OUTBOX_CONFIG.maxRetryDelayMs,
+    );
+  });
+
+  it('persists queued entries as pending records', async () => {
+    await enqueueTransactionOutboxEntry(record, request, record.errorMessage);
+
+    const entries = await loadTransactionOutbox();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      id: 'local-1',
+      attempts: 1,
+      lastError: 'E3101: Network request failed',
+      record: { status: 'pending', errorMessage: null },
+    });
+
+    await removeTransactionOutboxEntry('local-1');
+    expect(await loadTransactionOutbox()).toEqual([]);
+  });
+
+  it('removes entries once the server records them', async () => {
+    await enqueueTransactionOutboxEntry(record, request);
+    (recordTransaction as jest.Mock).mockResolvedValue({
+      ...record,
+      id: 'remote-9',
+      status: 'completed',
+      errorMessage: null,
+    });
+
+    const results = await processTransactionOutbox({ force: true });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].outcome).toBe('completed');
+    expect(results[0].record.id).toBe('remote-9');
+    expect(await loadTransactionOutbox()).toEqual([]);
+  });
+
+  it('reschedules retryable failures and skips entries that are not due', async () => {
+    await enqueueTransactionOutboxEntry(record, request);
+    (recordTransaction as jest.Mock).mockResolvedValue(record);
+
+    expect(await processTransactionOutbox()).toEqual([]);
+
+    const results = await processTransactionOutbox({ force: true });
+    expect(results[0].outcome).toBe('retry');
+
+    const [entry] = await loadTransactionOutbox();
+    expect(entry.attempts).toBe(2);
+  });
+
+  it('drops entries the server rejects permanently', async () => {
+    await enqueueTransactionOutboxEntry(record, request);
+    (recordTransaction as jest.Mock).mockResolvedValue({
+      ...record,
+      errorMessage: 'E3101: Discount limit reached',
+      retryable: false,
+    });
+
+    const results = await processTransactionOutbox({ force: true });
+
+    expect(results[0].outcome).toBe('failed');
+    expect(results[0].record.status).toBe('failed');
+    expect(await loadTransactionOutbox()).toEqual([]);
+  });
+
+  it('does not count replays still awaiting member approval as completed', async () => {
+    await enqueueTransactionOutboxEntry(record, request);
+    (recordTransaction as jest.Mock).mockResolvedValue({
+      ...record,
+      id: 'remote-9',
+      status: 'pending',
+      approvalStatus: 'awaiting_member',
+      errorMessage: null,
+      retryable: undefined,
+    });
+
+    const results = await processTransactionOutbox({ force: true });
+
+    expect(results[0].outcome).toBe('failed');
+    expect(results[0].record).toMatchObject({
+      id: 'remote-9',
+      status: 'failed',
+      approvalStatus: 'expired',
+    });
+    expect(results[0].record.errorMessage).toContain('E3115');
+    expect(await loadTransactionOutbox()).toEqual([]);
+  });
+
+  it('only processes entries for the requested vendor', async () => {
+    await enqueueTransactionOutboxEntry(record, request);
+
+    const results = await processTransactionOutbox({
+      force: true,
+      vendorId: 7,
+    });
+
+    expect(results).toEqual([]);
+    expect(recordTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,13 @@
-import { fetchMemberTransactions, recordTransaction } from '../src/services/transactionService';
-import type { RecordTransactionRequest } from '../src/types/transactions';
+import {
+  fetchMemberTransactions,
+  recordTransaction,
+  refundTransaction,
+  voidTransaction,
+} from '../src/services/transactionService';
+import type {
+  RecordTransactionRequest,
+  TransactionRecord,
+} from '../src/types/transactions';
 
 jest.mock('../src/services/wordpressCookieService', () => ({
   buildWordPressRequestInit: jest.fn(async (init: RequestInit) => init),
@@ -7,11 +15,15 @@ jest.mock('../src/services/wordpressCookieService', () => ({
 }));
 
 jest.mock('../src/services/wordpressAuthService', () => ({
+  ensureValidSession: jest.fn(),
   ensureValidSessionToken: jest.fn(),
   validateMemberQrCode: jest.fn(),
 }));
 
 const { ensureValidSessionToken } = jest.requireMock('../src/services/wordpressAuthService');
+const { buildWordPressRequestInit } = jest.requireMock(
+  '../src/services/wordpressCookieService',
+);
 
 describe('transactionService error handling', () => {
   const originalFetch = global.fetch;
@@ -68,4 +80,204 @@ describe('transactionService error handling', () => {
     expect(result.errorMessage).toMatch(/^E3101:/);
     expect(global.fetch).toHaveBeenCalled();
   });
+
+  it('sends the idempotency key as a header and in the body metadata', async () => {
+    const failingResponse = {
+      ok: false,
+      status: 503,
+      headers: { get: () => 'application/json' },
+      json: async () => ({ message: 'Service unavailable' }),
+    } as unknown as Response;
+
+    global.fetch = jest.fn().mockResolvedValue(failingResponse);
+    (buildWordPressRequestInit as jest.Mock).mockImplementation(
+      async (init: RequestInit) => init,
+    );
+
+    const result = await recordTransaction({
+      memberToken: 'member-token',
+      grossAmount: 100,
+      currency: 'THB',
+      idempotencyKey: 'rdm-123',
+      metadata: { source: 'test' },
+    });
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(init.headers['Idempotency-Key']).toBe('rdm-123');
+    expect(body.metadata).toEqual({ source: 'test', idempotency_key: 'rdm-123' });
+    expect(result).toMatchObject({
+      id: 'temp-rdm-123',
+      idempotencyKey: 'rdm-123',
+      retryable: true,
+    });
+  });
+
+  it('sends basket line items in the metadata and discounts only eligible lines', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      headers: { get: () => 'application/json' },
+      json: async () => ({ message: 'Service unavailable' }),
+    } as unknown as Response);
+    (buildWordPressRequestInit as jest.Mock).mockImplementation(
+      async (init: RequestInit) => init,
+    );
+
+    const result = await recordTransaction({
+      memberToken: 'member-token',
+      grossAmount: 0,
+      currency: 'THB',
+      membershipTier: 'Black',
+      vendorTier: 'Sapphire',
+      lineItems: [
+        {
+          id: 'food',
+          description: 'Pad thai',
+          quantity: 2,
+          unitPrice: 150,
+          discountable: true,
+        },
+        {
+          id: 'beer',
+          description: 'Beer',
+          quantity: 1,
+          unitPrice: 200,
+          discountable: false,
+        },
+      ],
+    });
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(body.gross_amount).toBe(500);
+    expect(body.metadata.discountable_amount).toBe(300);
+    expect(body.metadata.line_items).toEqual([
+      {
+        id: 'food',
+        description: 'Pad thai',
+        quantity: 2,
+        unit_price: 150,
+        discountable: true,
+      },
+      {
+        id: 'beer',
+        description: 'Beer',
+        quantity: 1,
+        unit_price: 200,
+        discountable: false,
+      },
+    ]);
+    expect(result).toMatchObject({
+      status: 'failed',
+      grossAmount: 500,
+      discountableAmount: 300,
+      discountAmount: 30,
+      netAmount: 470,
+    });
+    expect(result.lineItems).toHaveLength(2);
+  });
+
+  describe('reversals', () => {
+    const settledRecord: TransactionRecord = {
+      id: '42',
+      memberToken: 'member-token',
+      status: 'completed',
+      createdAt: new Date().toISOString(),
+      discountPercentage: 10,
+      discountAmount: 20,
+      netAmount: 180,
+      grossAmount: 200,
+      currency: 'THB',
+      membershipTier: 'Gold',
+      vendorTier: null,
+      message: null,
+      vendorName: null,
+      memberName: null,
+      membership: null,
+      errorMessage: null,
+    };
+
+    it('rejects a void once the undo window has closed without calling the API', async () => {
+      global.fetch = jest.fn();
+
+      await expect(
+        voidTransaction(
+          { ...settledRecord, createdAt: '2024-01-01T00:00:00.000Z' },
+          { reason: 'wrong_amount' },
+        ),
+      ).rejects.toMatchObject({
+        code: 'E3107',
+        id: 'TRANSACTION_REVERSAL_NOT_ALLOWED',
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('marks a partial refund and accumulates the refunded amount', async () => {
+      const response = {
+        ok: true,
+        status: 200,
+        headers: { get: () => 'application/json' },
+        json: async () => ({ success: true }),
+      } as unknown as Response;
+      global.fetch = jest.fn().mockResolvedValue(response);
+      (buildWordPressRequestInit as jest.Mock).mockImplementation(
+        async (init: RequestInit) => init,
+      );
+
+      const result = await refundTransaction(settledRecord, {
+        reason: 'customer_cancelled',
+        amount: 60,
+      });
+
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/discounts\/transactions\/42\/refund$/);
+      expect(JSON.parse(init.body)).toMatchObject({
+        amount: 60,
+        reason: 'customer_cancelled',
+      });
+      expect(result).toMatchObject({
+        id: '42',
+        status: 'partially_refunded',
+        refundedAmount: 60,
+        reversalReason: 'customer_cancelled',
+      });
+    });
+  });
+
+  it('sends history filters and pagination and reports the next page', async () => {
+    const response = {
+      ok: true,
+      status: 200,
+      headers: { get: () => 'application/json' },
+      json: async () => ({
+        transactions: [{ id: 'txn-26', status: 'completed' }],
+        pagination: { page: 2, total_pages: 3, total: 60 },
+      }),
+    } as unknown as Response;
+    global.fetch = jest.fn().mockResolvedValue(response);
+    (buildWordPressRequestInit as jest.Mock).mockImplementation(
+      async (init: RequestInit) => init,
+    );
+
+    const page = await fetchMemberTransactions(null, {
+      page: 2,
+      perPage: 25,
+      statuses: ['completed', 'refunded'],
+      membershipTier: 'Gold',
+      minAmount: 100,
+    });
+
+    const [url] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toContain(
+      'per_page=25&page=2&status=completed%2Crefunded&membership_tier=Gold&min_amount=100',
+    );
+    expect(page).toMatchObject({
+      hasMore: true,
+      nextPage: 3,
+      nextCursor: null,
+      total: 60,
+    });
+    expect(page.records.map(record => record.id)).toEqual(['txn-26']);
+  });
 });
@@ -0,0 +1,178 @@
+import { fetchMlmMember } from '../src/services/mlmMemberService';
+import { DEFAULT_MEMBERSHIP_PLANS } from '../src/services/membershipService';
+import {
+  buildUpgradeProgress,
+  getUpgradeRuleNote,
+  resolveUpgradeRules,
+} from '../src/utils/upgradeProgress';
+import { GenealogyNode } from '../src/types/mlm';
+import { MembershipPlan } from '../src/types/auth';
+
+jest.mock('../src/services/wordpressCookieService', () => ({
+  buildWordPressRequestInit: jest.fn(async (init: RequestInit) => init),
+  syncWordPressCookiesFromResponse: jest.fn(),
+}));
+
+jest.mock('../src/services/wordpressAuthService', () => ({
+  ensureValidSessionToken: jest.fn(),
+}));
+
+const { ensureValidSessionToken } = jest.requireMock(
+  '../src/services/wordpressAuthService',
+);
+
+const node = (
+  id: number,
+  level: string | null,
+  children: GenealogyNode[] = [],
+  depth = 1,
+): GenealogyNode => ({
+  id,
+  name: `Member ${id}`,
+  level,
+  recruits: children.length,
+  depth,
+  children,
+});
+
+const tree = node(
+  1,
+  'platinum',
+  [
+    node(2, 'gold', [node(4, 'blue', [], 2), node(5, 'black', [], 2)]),
+    node(3, 'blue'),
+  ],
+  0,
+);
+
+describe('upgrade progress', () => {
+  const rules = resolveUpgradeRules(DEFAULT_MEMBERSHIP_PLANS);
+
+  it('uses the plugin promotions by default', () => {
+    expect(rules.gold).toEqual({
+      nextTier: 'platinum',
+      metric: 'directRecruits',
+      threshold: 2,
+    });
+    expect(rules.platinum).toMatchObject({ nextTier: 'black', threshold: 2 });
+    expect(rules.blue).toBeUndefined();
+  });
+
+  it('applies overrides from plan metadata', () => {
+    const plans: MembershipPlan[] = [
+      {
+        id: 'gold-membership',
+        name: 'Gold',
+        price: 0,
+        currency: 'THB',
+        metadata: {
+          wordpressPlanId: 'gold',
+          auto_upgrade_threshold: '3',
+          auto_upgrade_metric: 'active_network',
+          auto_upgrade_note: { en: 'Paid recruits only.', th: 'เฉพาะสมาชิก' },
+        },
+      },
+    ];
+
+    expect(resolveUpgradeRules(plans).gold).toEqual({
+      nextTier: 'platinum',
+      metric: 'activeNetwork',
+      threshold: 3,
+    });
+    expect(getUpgradeRuleNote(plans, 'gold', 'en')).toBe('Paid recruits only.');
+    expect(getUpgradeRuleNote(plans, 'platinum', 'en')).toBeNull();
+  });
+
+  it('counts direct recruits for Gold members', () => {
+    const progress = buildUpgradeProgress({
+      tier: 'Gold',
+      directRecruits: 1,
+      tree,
+      rules,
+    });
+
+    expect(progress).toMatchObject({
+      tier: 'gold',
+      current: 2,
+      ratio: 1,
+      remaining: 0,
+    });
+    expect(progress.recruits).toEqual([
+      { id: 2, name: 'Member 2', level: 'gold', active: true },
+      { id: 3, name: 'Member 3', level: 'blue', active: false },
+    ]);
+  });
+
+  it('counts only paid members across the network for Platinum', () => {
+    const progress = buildUpgradeProgress({
+      tier: 'platinum',
+      directRecruits: 2,
+      tree,
+      rules,
+    });
+
+    expect(progress).toMatchObject({ current: 2, remaining: 0 });
+    expect(
+      buildUpgradeProgress({
+        tier: 'platinum',
+        directRecruits: 2,
+        tree: null,
+        rules,
+      }),
+    ).toMatchObject({ current: 0, ratio: 0, remaining: 2 });
+  });
+
+  it('has no rule for the top tier', () => {
+    expect(
+      buildUpgradeProgress({ tier: 'black', directRecruits: 4, tree, rules }),
+    ).toMatchObject({ rule: null, ratio: 0, remaining: 0 });
+  });
+});
+
+describe('fetchMlmMember', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('reads the member counters', async () => {
+    (ensureValidSessionToken as jest.Mock).mockResolvedValue('secure-token');
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'application/json' },
+      json: async () => ({
+        user: {
+          id: 123,
+          display_name: 'Member Example',
+          membership_level: 'Gold',
+          direct_recruits: '1',
+          sponsor_id: 42,
+        },
+        commissions: { total: 0, paid: 0, pending: 0 },
+        ledger: [],
+      }),
+    });
+
+    await expect(fetchMlmMember()).resolves.toEqual({
+      id: 123,
+      name: 'Member Example',
+      level: 'gold',
+      directRecruits: 1,
+      sponsorId: 42,
+    });
+  });
+
+  it('fails with E3009 when the request fails', async () => {
+    (ensureValidSessionToken as jest.Mock).mockResolvedValue('secure-token');
+    globalThis.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      headers: { get: () => 'application/json' },
+      json: async () => ({}),
+    });
+
+    await expect(fetchMlmMember()).rejects.toMatchObject({ code: 'E3009' });
+  });
+});
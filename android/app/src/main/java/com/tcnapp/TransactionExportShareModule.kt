@@ -0,0 +1,64 @@
+package com.tcnapp
+
+import android.content.ClipData
+import android.content.Intent
+import androidx.core.content.FileProvider
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.io.File
+
+/**
+ * Writes a transaction export to the cache directory and opens the share sheet
+ * with a content URI, so the receiving app gets a real CSV/JSON attachment.
+ */
+class TransactionExportShareModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = NAME
+
+  @ReactMethod
+  fun shareFile(filename: String, mimeType: String, content: String, promise: Promise) {
+    try {
+      val directory = File(reactApplicationContext.cacheDir, EXPORT_DIRECTORY)
+      directory.mkdirs()
+      // Only the latest export is kept; older ones were already shared.
+      directory.listFiles()?.forEach { it.delete() }
+
+      val file = File(directory, File(filename).name)
+      file.writeText(content, Charsets.UTF_8)
+      val uri =
+          FileProvider.getUriForFile(
+              reactApplicationContext,
+              "${reactApplicationContext.packageName}.exports",
+              file,
+          )
+
+      val send =
+          Intent(Intent.ACTION_SEND).apply {
+            type = mimeType
+            putExtra(Intent.EXTRA_STREAM, uri)
+            putExtra(Intent.EXTRA_SUBJECT, file.name)
+            clipData = ClipData.newRawUri(file.name, uri)
+            addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION)
+          }
+      val chooser = Intent.createChooser(send, file.name)
+      val activity = reactApplicationContext.currentActivity
+      if (activity != null) {
+        activity.startActivity(chooser)
+      } else {
+        chooser.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+        reactApplicationContext.startActivity(chooser)
+      }
+      promise.resolve(null)
+    } catch (error: Exception) {
+      promise.reject("E_EXPORT_SHARE", error)
+    }
+  }
+
+  companion object {
+    const val NAME = "TransactionExportShare"
+    private const val EXPORT_DIRECTORY = "exports"
+  }
+}
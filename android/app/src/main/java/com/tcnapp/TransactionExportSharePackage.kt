@@ -0,0 +1,17 @@
+package com.tcnapp
+
+import com.facebook.react.ReactPackage
+import com.facebook.react.bridge.NativeModule
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.uimanager.ViewManager
+
+class TransactionExportSharePackage : ReactPackage {
+
+  override fun createNativeModules(
+      reactContext: ReactApplicationContext
+  ): List<NativeModule> = listOf(TransactionExportShareModule(reactContext))
+
+  override fun createViewManagers(
+      reactContext: ReactApplicationContext
+  ): List<ViewManager<*, *>> = emptyList()
+}
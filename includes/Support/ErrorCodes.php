@@ -34,6 +34,9 @@ class ErrorCodes {
     public const TRANSACTION_MEMBER_LOOKUP_FAILED = 'E3102';
     public const TRANSACTION_DISCOUNT_REFRESH_FAILED = 'E3103';
     public const TRANSACTION_HISTORY_FETCH_FAILED = 'E3104';
+    public const TRANSACTION_VOID_FAILED = 'E3105';
+    public const TRANSACTION_REFUND_FAILED = 'E3106';
+    public const TRANSACTION_REVERSAL_NOT_ALLOWED = 'E3107';
 
     public const ADMIN_DASHBOARD_LOAD_FAILED = 'E3200';
     public const ADMIN_VENDOR_APPROVE_FAILED = 'E3201';
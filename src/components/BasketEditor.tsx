@@ -0,0 +1,219 @@
+import React from 'react';
+import {
+  Pressable,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { BasketLineItem } from '../types/transactions';
+import { createBasketLineItem, getLineItemTotal } from '../utils/basket';
+
+interface BasketEditorProps {
+  items: BasketLineItem[];
+  onChange: (items: BasketLineItem[]) => void;
+  formatCurrency: (value: number) => string;
+  editable?: boolean;
+}
+
+const parseNumber = (value: string): number => {
+  const parsed = Number.parseFloat(
+    value.replace(',', '.').replace(/[^0-9.]/g, ''),
+  );
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+export const BasketEditor: React.FC<BasketEditorProps> = ({
+  items,
+  onChange,
+  formatCurrency,
+  editable = true,
+}) => {
+  const { t } = useLocalization();
+
+  const updateItem = (id: string, changes: Partial<BasketLineItem>) => {
+    onChange(
+      items.map(item => (item.id === id ? { ...item, ...changes } : item)),
+    );
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  return (
+    <View style={styles.container} testID="vendor-basket-editor">
+      {items.map((item, index) => (
+        <View
+          key={item.id}
+          style={styles.line}
+          testID={`vendor-basket-line-${index}`}
+        >
+          <TextInput
+            value={item.description}
+            onChangeText={description => updateItem(item.id, { description })}
+            placeholder={t('vendor.screen.basket.descriptionPlaceholder')}
+            editable={editable}
+            style={styles.input}
+            testID={`vendor-basket-description-${index}`}
+          />
+          <View style={styles.numberRow}>
+            <View style={styles.numberField}>
+              <Text style={styles.fieldLabel}>
+                {t('vendor.screen.basket.quantity')}
+              </Text>
+              <TextInput
+                defaultValue={String(item.quantity)}
+                onChangeText={value =>
+                  updateItem(item.id, { quantity: parseNumber(value) })
+                }
+                keyboardType="decimal-pad"
+                inputMode="decimal"
+                editable={editable}
+                style={styles.input}
+                testID={`vendor-basket-quantity-${index}`}
+              />
+            </View>
+            <View style={styles.numberField}>
+              <Text style={styles.fieldLabel}>
+                {t('vendor.screen.basket.unitPrice')}
+              </Text>
+              <TextInput
+                defaultValue={item.unitPrice ? String(item.unitPrice) : ''}
+                onChangeText={value =>
+                  updateItem(item.id, { unitPrice: parseNumber(value) })
+                }
+                keyboardType="decimal-pad"
+                inputMode="decimal"
+                placeholder="0.00"
+                editable={editable}
+                style={styles.input}
+                testID={`vendor-basket-price-${index}`}
+              />
+            </View>
+          </View>
+          <View style={styles.lineFooter}>
+            <View style={styles.switchRow}>
+              <Switch
+                value={item.discountable}
+                onValueChange={discountable =>
+                  updateItem(item.id, { discountable })
+                }
+                disabled={!editable}
+                testID={`vendor-basket-discountable-${index}`}
+              />
+              <Text style={styles.switchLabel}>
+                {item.discountable
+                  ? t('vendor.screen.basket.discountable')
+                  : t('vendor.screen.basket.excluded')}
+              </Text>
+            </View>
+            <Text style={styles.lineTotal}>
+              {formatCurrency(getLineItemTotal(item))}
+            </Text>
+          </View>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => removeItem(item.id)}
+            disabled={!editable}
+            style={styles.linkButton}
+            testID={`vendor-basket-remove-${index}`}
+          >
+            <Text style={styles.removeText}>
+              {t('vendor.screen.basket.remove')}
+            </Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable
+        accessibilityRole="button"
+        onPress={() => onChange([...items, createBasketLineItem()])}
+        disabled={!editable}
+        style={styles.addButton}
+        testID="vendor-basket-add"
+      >
+        <Text style={styles.addButtonText}>
+          {t('vendor.screen.basket.add')}
+        </Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  line: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    backgroundColor: COLORS.surfaceMuted,
+  },
+  numberRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  numberField: {
+    flex: 1,
+    gap: 4,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  lineFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  switchLabel: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  lineTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  linkButton: {
+    alignSelf: 'flex-start',
+  },
+  removeText: {
+    fontSize: 13,
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  addButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,441 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { CASHIER_CONFIG } from '../config/cashierConfig';
+import { ensureAppError } from '../errors';
+import { VendorCashier } from '../types/vendor';
+
+interface CashierSwitcherModalProps {
+  visible: boolean;
+  cashiers: VendorCashier[];
+  activeCashierId: string | null;
+  onClose: () => void;
+  onUnlock: (cashierId: string, pin: string) => Promise<void>;
+  /** `supervisorPin` is the vendor account PIN that authorises the change. */
+  onCreate: (name: string, pin: string, supervisorPin: string) => Promise<void>;
+  onRemove: (cashierId: string, supervisorPin: string) => Promise<void>;
+  onSignOut: () => Promise<void>;
+}
+
+export const CashierSwitcherModal: React.FC<CashierSwitcherModalProps> = ({
+  visible,
+  cashiers,
+  activeCashierId,
+  onClose,
+  onUnlock,
+  onCreate,
+  onRemove,
+  onSignOut,
+}) => {
+  const { t, translateError } = useLocalization();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [supervisorPin, setSupervisorPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedId(null);
+      setPin('');
+      setIsAdding(false);
+      setNewName('');
+      setNewPin('');
+      setIsRemoving(false);
+      setSupervisorPin('');
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const showAddForm = isAdding || cashiers.length === 0;
+  const isSupervisorPinValid =
+    supervisorPin.length >= CASHIER_CONFIG.minPinLength;
+
+  const run = async (action: () => Promise<void>, fallbackKey: string) => {
+    if (loading) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      const appError = ensureAppError(actionError, 'UNKNOWN');
+      setError(translateError(appError) ?? t(fallbackKey));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = () => {
+    if (!selectedId) {
+      return;
+    }
+    void run(
+      () => onUnlock(selectedId, pin),
+      'vendor.screen.cashier.errors.pin',
+    );
+  };
+
+  const handleCreate = () => {
+    void run(async () => {
+      await onCreate(newName, newPin, supervisorPin);
+      setIsAdding(false);
+      setNewName('');
+      setNewPin('');
+      setSupervisorPin('');
+    }, 'vendor.screen.cashier.errors.save');
+  };
+
+  const handleRemove = () => {
+    if (!selectedId) {
+      return;
+    }
+    if (!isRemoving) {
+      setIsRemoving(true);
+      setIsAdding(false);
+      setSupervisorPin('');
+      setError(null);
+      return;
+    }
+    void run(async () => {
+      await onRemove(selectedId, supervisorPin);
+      setSelectedId(null);
+      setPin('');
+      setIsRemoving(false);
+      setSupervisorPin('');
+    }, 'vendor.screen.cashier.errors.save');
+  };
+
+  const renderSupervisorPin = () => (
+    <>
+      <Text style={styles.label}>
+        {t('vendor.screen.cashier.supervisorPin')}
+      </Text>
+      <TextInput
+        value={supervisorPin}
+        onChangeText={setSupervisorPin}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={12}
+        editable={!loading}
+        style={styles.input}
+        testID="vendor-cashier-supervisor-pin"
+      />
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="vendor-cashier-modal">
+          <Text style={styles.title}>{t('vendor.screen.cashier.title')}</Text>
+          <Text style={styles.description}>
+            {t('vendor.screen.cashier.description')}
+          </Text>
+
+          {cashiers.length ? (
+            <View style={styles.chipList}>
+              {cashiers.map(cashier => {
+                const selected = cashier.id === selectedId;
+                const active = cashier.id === activeCashierId;
+                return (
+                  <Pressable
+                    key={cashier.id}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => {
+                      setSelectedId(cashier.id);
+                      setPin('');
+                      setIsRemoving(false);
+                      setSupervisorPin('');
+                      setError(null);
+                    }}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    testID={`vendor-cashier-option-${cashier.id}`}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        selected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {active
+                        ? t('vendor.screen.cashier.activeOption', {
+                            replace: { name: cashier.name },
+                          })
+                        : cashier.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : (
+            <Text style={styles.description}>
+              {t('vendor.screen.cashier.empty')}
+            </Text>
+          )}
+
+          {selectedId ? (
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>{t('vendor.screen.cashier.pin')}</Text>
+              <TextInput
+                value={pin}
+                onChangeText={setPin}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={12}
+                editable={!loading}
+                style={styles.input}
+                testID="vendor-cashier-pin"
+              />
+              <Pressable
+                style={[
+                  styles.primaryButton,
+                  (loading || pin.length < CASHIER_CONFIG.minPinLength) &&
+                    styles.primaryButtonDisabled,
+                ]}
+                onPress={handleUnlock}
+                disabled={loading || pin.length < CASHIER_CONFIG.minPinLength}
+                accessibilityRole="button"
+                testID="vendor-cashier-unlock"
+              >
+                {loading ? (
+                  <ActivityIndicator color={COLORS.textOnPrimary} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>
+                    {t('vendor.screen.cashier.unlock')}
+                  </Text>
+                )}
+              </Pressable>
+              {isRemoving ? renderSupervisorPin() : null}
+              <Pressable
+                onPress={handleRemove}
+                disabled={loading || (isRemoving && !isSupervisorPinValid)}
+                accessibilityRole="button"
+                style={styles.secondaryButton}
+                testID="vendor-cashier-remove"
+              >
+                <Text style={styles.destructiveText}>
+                  {t(
+                    isRemoving
+                      ? 'vendor.screen.cashier.confirmRemove'
+                      : 'vendor.screen.cashier.remove',
+                  )}
+                </Text>
+              </Pressable>
+            </View>
+          ) : null}
+
+          {showAddForm ? (
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>
+                {t('vendor.screen.cashier.newName')}
+              </Text>
+              <TextInput
+                value={newName}
+                onChangeText={setNewName}
+                maxLength={CASHIER_CONFIG.maxNameLength}
+                editable={!loading}
+                style={styles.input}
+                testID="vendor-cashier-new-name"
+              />
+              <Text style={styles.label}>
+                {t('vendor.screen.cashier.newPin')}
+              </Text>
+              <TextInput
+                value={newPin}
+                onChangeText={setNewPin}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={12}
+                editable={!loading}
+                style={styles.input}
+                testID="vendor-cashier-new-pin"
+              />
+              {renderSupervisorPin()}
+              <Pressable
+                style={[
+                  styles.primaryButton,
+                  (loading || !isSupervisorPinValid) &&
+                    styles.primaryButtonDisabled,
+                ]}
+                onPress={handleCreate}
+                disabled={loading || !isSupervisorPinValid}
+                accessibilityRole="button"
+                testID="vendor-cashier-create"
+              >
+                <Text style={styles.primaryButtonText}>
+                  {t('vendor.screen.cashier.create')}
+                </Text>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable
+              onPress={() => {
+                setIsAdding(true);
+                setIsRemoving(false);
+                setSupervisorPin('');
+              }}
+              accessibilityRole="button"
+              style={styles.secondaryButton}
+              testID="vendor-cashier-add"
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('vendor.screen.cashier.add')}
+              </Text>
+            </Pressable>
+          )}
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          {activeCashierId ? (
+            <Pressable
+              onPress={() =>
+                void run(onSignOut, 'vendor.screen.cashier.errors.save')
+              }
+              disabled={loading}
+              accessibilityRole="button"
+              style={styles.secondaryButton}
+              testID="vendor-cashier-sign-out"
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('vendor.screen.cashier.signOut')}
+              </Text>
+            </Pressable>
+          ) : null}
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('vendor.screen.cashier.close')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  destructiveText: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
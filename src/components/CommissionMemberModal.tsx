@@ -0,0 +1,180 @@
+import React from 'react';
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { CommissionMemberSummary } from '../utils/commissions';
+import { getTierColor } from '../utils/genealogy';
+
+interface CommissionMemberModalProps {
+  member: CommissionMemberSummary | null;
+  formatAmount: (value: number) => string;
+  formatDate: (value: string) => string;
+  onClose: () => void;
+}
+
+/** Drill-down from a ledger row to the member whose purchases earned it. */
+export const CommissionMemberModal: React.FC<CommissionMemberModalProps> = ({
+  member,
+  formatAmount,
+  formatDate,
+  onClose,
+}) => {
+  const { t } = useLocalization();
+
+  return (
+    <Modal
+      visible={Boolean(member)}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="commission-member-modal">
+          {member ? (
+            <>
+              <Text style={styles.title}>
+                {member.memberName ??
+                  t('commissions.member.unknown', {
+                    replace: { id: member.memberId ?? '—' },
+                  })}
+              </Text>
+              {member.membershipLevel ? (
+                <Text
+                  style={[
+                    styles.tier,
+                    { color: getTierColor(member.membershipLevel) },
+                  ]}
+                >
+                  {member.membershipLevel.toUpperCase()}
+                </Text>
+              ) : null}
+              <Text style={styles.description}>
+                {t('commissions.member.total', {
+                  replace: { amount: formatAmount(member.total) },
+                })}
+              </Text>
+              <ScrollView style={styles.list}>
+                {member.entries.map(entry => (
+                  <View key={entry.id} style={styles.row}>
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowTitle}>
+                        {t(`commissions.levels.${entry.level}`)}
+                      </Text>
+                      <Text style={styles.rowMeta}>
+                        {[
+                          formatDate(entry.createdAt),
+                          entry.orderId
+                            ? t('commissions.member.order', {
+                                replace: { id: entry.orderId },
+                              })
+                            : null,
+                          t(`commissions.status.${entry.status}`),
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </Text>
+                    </View>
+                    <Text style={styles.rowAmount}>
+                      {formatAmount(entry.amount)}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          ) : null}
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+            testID="commission-member-close"
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('commissions.member.close')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '80%',
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  tier: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.mutedBorder,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  rowAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  secondaryButton: {
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { DiscountRuleEvaluation } from '../types/discountRules';
+
+interface DiscountRuleBreakdownProps {
+  evaluation: DiscountRuleEvaluation;
+  formatCurrency: (value: number) => string;
+}
+
+export const DiscountRuleBreakdown: React.FC<DiscountRuleBreakdownProps> = ({
+  evaluation,
+  formatCurrency,
+}) => {
+  const { t } = useLocalization();
+
+  return (
+    <View style={styles.container} testID="vendor-discount-rules">
+      <Text style={styles.title}>{t('vendor.screen.rules.title')}</Text>
+      {evaluation.lines.map(line => (
+        <View key={`${line.kind}-${line.id}`} style={styles.row}>
+          <Text style={styles.label} numberOfLines={1}>
+            {line.kind === 'tier'
+              ? t('vendor.screen.rules.tier', { replace: { tier: line.label } })
+              : line.kind === 'cap'
+              ? t('vendor.screen.rules.cap')
+              : line.label}
+          </Text>
+          <Text style={styles.amount}>
+            {line.amount < 0
+              ? `+${formatCurrency(Math.abs(line.amount))}`
+              : `-${formatCurrency(line.amount)}`}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 2,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  amount: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+});
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TRANSACTION_DISPUTE_CONFIG } from '../config/transactionDisputeConfig';
+import {
+  RespondToDisputeRequest,
+  TransactionDispute,
+  TransactionDisputeRole,
+  TransactionDisputeStatus,
+} from '../types/transactions';
+import { ensureAppError } from '../errors';
+
+interface DisputeResponseModalProps {
+  dispute: TransactionDispute | null;
+  role: TransactionDisputeRole;
+  onClose: () => void;
+  onSubmit: (request: RespondToDisputeRequest) => Promise<void>;
+}
+
+export const DisputeResponseModal: React.FC<DisputeResponseModalProps> = ({
+  dispute,
+  role,
+  onClose,
+  onSubmit,
+}) => {
+  const { t, translateError } = useLocalization();
+  const [message, setMessage] = useState('');
+  const [status, setStatus] = useState<TransactionDisputeStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const visible = Boolean(dispute);
+
+  useEffect(() => {
+    if (!visible) {
+      setMessage('');
+      setStatus(null);
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (loading) {
+      return;
+    }
+    if (!message.trim()) {
+      setError(t('disputes.respond.errors.message'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSubmit({ message: message.trim(), status });
+      onClose();
+    } catch (submitError) {
+      const appError = ensureAppError(
+        submitError,
+        'TRANSACTION_DISPUTE_RESPONSE_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusOptions = [
+    null,
+    ...TRANSACTION_DISPUTE_CONFIG.statusOptions[role].filter(
+      option => option !== dispute?.status,
+    ),
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="dispute-response-modal">
+          <Text style={styles.title}>{t('disputes.respond.title')}</Text>
+          {dispute ? (
+            <Text style={styles.description}>
+              {t(`disputes.reasons.${dispute.reason}`)}
+            </Text>
+          ) : null}
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('disputes.respond.messageLabel')}
+            </Text>
+            <TextInput
+              value={message}
+              onChangeText={setMessage}
+              editable={!loading}
+              multiline
+              maxLength={TRANSACTION_DISPUTE_CONFIG.maxNoteLength}
+              style={[styles.input, styles.messageInput]}
+              testID="dispute-response-message"
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('disputes.respond.statusLabel')}
+            </Text>
+            <View style={styles.chipList}>
+              {statusOptions.map(option => {
+                const selected = option === status;
+                return (
+                  <Pressable
+                    key={option ?? 'unchanged'}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => setStatus(option)}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    testID={`dispute-response-status-${option ?? 'unchanged'}`}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        selected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {option
+                        ? t(`disputes.status.${option}`)
+                        : t('disputes.respond.keepStatus')}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              loading && styles.primaryButtonDisabled,
+            ]}
+            onPress={() => void handleSubmit()}
+            disabled={loading}
+            accessibilityRole="button"
+            testID="dispute-response-submit"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('disputes.respond.submit')}
+              </Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('disputes.respond.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  messageInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { ensureAppError } from '../errors';
+import { FraudSignal } from '../types/fraud';
+
+interface FraudOverrideModalProps {
+  visible: boolean;
+  signals: FraudSignal[];
+  onCancel: () => void;
+  onApprove: (pin: string) => Promise<void>;
+}
+
+export const FraudOverrideModal: React.FC<FraudOverrideModalProps> = ({
+  visible,
+  signals,
+  onCancel,
+  onApprove,
+}) => {
+  const { t, translateError } = useLocalization();
+  const [pin, setPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setPin('');
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleApprove = async () => {
+    if (loading || !pin) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      await onApprove(pin);
+    } catch (approveError) {
+      const appError = ensureAppError(approveError, 'UNKNOWN');
+      setError(translateError(appError) ?? t('vendor.screen.fraud.errors.pin'));
+      setPin('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="vendor-fraud-modal">
+          <Text style={styles.title}>{t('vendor.screen.fraud.title')}</Text>
+          <Text style={styles.description}>
+            {t('vendor.screen.fraud.description')}
+          </Text>
+
+          <View style={styles.signalList}>
+            {signals.map(signal => (
+              <Text
+                key={signal.type}
+                style={styles.signal}
+                testID={`vendor-fraud-signal-${signal.type}`}
+              >
+                {t(`vendor.screen.fraud.signals.${signal.type}`, {
+                  replace: {
+                    observed: signal.observed,
+                    threshold: signal.threshold,
+                  },
+                })}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('vendor.screen.fraud.pin')}</Text>
+            <TextInput
+              value={pin}
+              onChangeText={setPin}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={12}
+              editable={!loading}
+              style={styles.input}
+              testID="vendor-fraud-pin"
+            />
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              (loading || !pin) && styles.primaryButtonDisabled,
+            ]}
+            onPress={() => void handleApprove()}
+            disabled={loading || !pin}
+            accessibilityRole="button"
+            testID="vendor-fraud-approve"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('vendor.screen.fraud.approve')}
+              </Text>
+            )}
+          </Pressable>
+          <Pressable
+            onPress={onCancel}
+            disabled={loading}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+            testID="vendor-fraud-cancel"
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('vendor.screen.fraud.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  signalList: {
+    gap: 6,
+  },
+  signal: {
+    fontSize: 14,
+    color: COLORS.error,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
@@ -8,10 +8,17 @@ import {
   ViewStyle,
 } from 'react-native';
 import QRCode from 'react-native-qrcode-svg';
+import Svg, { Circle } from 'react-native-svg';
 import { useLocalization } from '../contexts/LocalizationContext';
 import { MemberQrCode } from '../types/auth';
 import { COLORS } from '../config/theme';
 import deviceLog from '../utils/deviceLog';
+import { useRotatingMemberQr } from '../hooks/useRotatingMemberQr';
+
+const RING_SIZE = 36;
+const RING_STROKE = 4;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
 
 type MemberQrCardProps = {
   qrCode: MemberQrCode | null | undefined;
@@ -25,11 +32,18 @@ export const MemberQrCard: React.FC<MemberQrCardProps> = ({
   style,
 }) => {
   const { t } = useLocalization();
-  const qrValue = qrCode?.payload ?? qrCode?.token ?? null;
+  const {
+    value: qrValue,
+    rotating,
+    windowSeconds,
+    msRemaining,
+  } = useRotatingMemberQr(qrCode);
+  const hasQrValue = Boolean(qrValue);
 
   useEffect(() => {
     deviceLog.debug('memberQrCard.state', {
-      hasQrValue: Boolean(qrValue),
+      hasQrValue,
+      rotating,
       tokenSuffix:
         qrCode?.token && qrCode.token.length > 4
           ? qrCode.token.slice(-4)
@@ -37,7 +51,13 @@ export const MemberQrCard: React.FC<MemberQrCardProps> = ({
       issuedAt: qrCode?.issuedAt ?? null,
       expiresAt: qrCode?.expiresAt ?? null,
     });
-  }, [qrCode?.expiresAt, qrCode?.issuedAt, qrCode?.token, qrValue]);
+  }, [
+    hasQrValue,
+    qrCode?.expiresAt,
+    qrCode?.issuedAt,
+    qrCode?.token,
+    rotating,
+  ]);
 
   const roleLabel = useMemo(() => {
     const normalized = (accountType ?? '').toLowerCase();
@@ -88,13 +108,52 @@ export const MemberQrCard: React.FC<MemberQrCardProps> = ({
         <View style={styles.qrWrapper} testID="member-qr-code">
           <QRCode value={qrValue} size={180} backgroundColor="transparent" />
           <Text style={styles.qrHint}>{t('profile.qr.hint')}</Text>
+          {rotating ? (
+            <View style={styles.countdown} testID="member-qr-countdown">
+              <Svg width={RING_SIZE} height={RING_SIZE}>
+                <Circle
+                  cx={RING_SIZE / 2}
+                  cy={RING_SIZE / 2}
+                  r={RING_RADIUS}
+                  stroke={COLORS.border}
+                  strokeWidth={RING_STROKE}
+                  fill="none"
+                />
+                <Circle
+                  cx={RING_SIZE / 2}
+                  cy={RING_SIZE / 2}
+                  r={RING_RADIUS}
+                  stroke={COLORS.primary}
+                  strokeWidth={RING_STROKE}
+                  strokeLinecap="round"
+                  strokeDasharray={RING_CIRCUMFERENCE}
+                  strokeDashoffset={
+                    RING_CIRCUMFERENCE *
+                    (1 - msRemaining / (windowSeconds * 1000))
+                  }
+                  fill="none"
+                  transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+                />
+              </Svg>
+              <View style={styles.countdownText}>
+                <Text style={styles.countdownLabel}>
+                  {t('profile.qr.rotating', {
+                    replace: { seconds: Math.ceil(msRemaining / 1000) },
+                  })}
+                </Text>
+                <Text style={styles.qrHint}>
+                  {t('profile.qr.rotatingHint')}
+                </Text>
+              </View>
+            </View>
+          ) : null}
         </View>
       ) : (
         <Text style={styles.empty} testID="member-qr-empty">
           {t('profile.qr.empty')}
         </Text>
       )}
-      {qrCode?.token ? (
+      {qrCode?.token && !rotating ? (
         <Text style={styles.token} numberOfLines={1} testID="member-qr-token">
           {t('profile.qr.tokenLabel', { replace: { token: qrCode.token } })}
         </Text>
@@ -156,6 +215,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: COLORS.textSecondary,
   },
+  countdown: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  countdownText: {
+    flexShrink: 1,
+    gap: 2,
+  },
+  countdownLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
   empty: {
     fontSize: 14,
     color: COLORS.textSecondary,
@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { ensureAppError } from '../errors';
+import {
+  MemberSearchCandidate,
+  MemberSearchField,
+  MemberSearchQuery,
+} from '../types/transactions';
+
+const SEARCH_FIELDS: MemberSearchField[] = ['member_number', 'phone', 'email'];
+
+const KEYBOARD_TYPES = {
+  member_number: 'default',
+  phone: 'phone-pad',
+  email: 'email-address',
+} as const;
+
+interface MemberSearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSearch: (query: MemberSearchQuery) => Promise<MemberSearchCandidate[]>;
+  onSelect: (candidate: MemberSearchCandidate) => void;
+}
+
+export const MemberSearchModal: React.FC<MemberSearchModalProps> = ({
+  visible,
+  onClose,
+  onSearch,
+  onSelect,
+}) => {
+  const { t, translateError } = useLocalization();
+  const [field, setField] = useState<MemberSearchField>('member_number');
+  const [value, setValue] = useState('');
+  const [candidates, setCandidates] = useState<MemberSearchCandidate[] | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setField('member_number');
+      setValue('');
+      setCandidates(null);
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSearch = async () => {
+    if (loading || !value.trim()) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setCandidates(await onSearch({ field, value }));
+    } catch (searchError) {
+      const appError = ensureAppError(
+        searchError,
+        'TRANSACTION_MEMBER_SEARCH_FAILED',
+      );
+      setError(
+        translateError(appError) ?? t('vendor.screen.search.errors.failed'),
+      );
+      setCandidates(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="vendor-member-search-modal">
+          <Text style={styles.title}>{t('vendor.screen.search.title')}</Text>
+          <Text style={styles.description}>
+            {t('vendor.screen.search.description')}
+          </Text>
+
+          <View style={styles.chipList}>
+            {SEARCH_FIELDS.map(option => {
+              const selected = option === field;
+              return (
+                <Pressable
+                  key={option}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  onPress={() => {
+                    setField(option);
+                    setCandidates(null);
+                    setError(null);
+                  }}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  testID={`vendor-member-search-field-${option}`}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selected && styles.chipTextSelected,
+                    ]}
+                  >
+                    {t(`vendor.screen.search.fields.${option}`)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <TextInput
+            value={value}
+            onChangeText={setValue}
+            onSubmitEditing={() => void handleSearch()}
+            keyboardType={KEYBOARD_TYPES[field]}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!loading}
+            placeholder={t(`vendor.screen.search.placeholders.${field}`)}
+            style={styles.input}
+            testID="vendor-member-search-input"
+          />
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              (loading || !value.trim()) && styles.primaryButtonDisabled,
+            ]}
+            onPress={() => void handleSearch()}
+            disabled={loading || !value.trim()}
+            accessibilityRole="button"
+            testID="vendor-member-search-submit"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('vendor.screen.search.submit')}
+              </Text>
+            )}
+          </Pressable>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          {candidates ? (
+            candidates.length ? (
+              <View style={styles.candidateList}>
+                {candidates.map(candidate => (
+                  <Pressable
+                    key={candidate.token}
+                    accessibilityRole="button"
+                    onPress={() => onSelect(candidate)}
+                    style={styles.candidate}
+                    testID={`vendor-member-search-candidate-${candidate.token}`}
+                  >
+                    <Text style={styles.initials}>{candidate.initials}</Text>
+                    <View style={styles.candidateDetails}>
+                      {candidate.membershipTier ? (
+                        <Text style={styles.candidateText}>
+                          {candidate.membershipTier}
+                        </Text>
+                      ) : null}
+                      {candidate.lastDigits ? (
+                        <Text style={styles.candidateMeta}>
+                          {t('vendor.screen.search.lastDigits', {
+                            replace: { digits: candidate.lastDigits },
+                          })}
+                        </Text>
+                      ) : null}
+                    </View>
+                  </Pressable>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.description}>
+                {t('vendor.screen.search.noResults')}
+              </Text>
+            )
+          ) : null}
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('vendor.screen.search.close')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  candidateList: {
+    gap: 8,
+  },
+  candidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.mutedBorder,
+  },
+  initials: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    overflow: 'hidden',
+    textAlign: 'center',
+    lineHeight: 40,
+    fontWeight: '700',
+    color: COLORS.textOnPrimary,
+    backgroundColor: COLORS.primary,
+  },
+  candidateDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  candidateText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  candidateMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
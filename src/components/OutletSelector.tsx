@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { VendorOutlet } from '../types/vendor';
+import { getBusinessDate } from '../utils/settlementReport';
+
+interface OutletSelectorProps {
+  outlets: VendorOutlet[];
+  selectedOutlet: VendorOutlet | null;
+  onSelect: (outletId: string) => void;
+  disabled?: boolean;
+}
+
+const getTodayHours = (outlet: VendorOutlet, now: Date) => {
+  const day = new Date(`${getBusinessDate(now)}T00:00:00.000Z`).getUTCDay();
+  return outlet.openingHours.filter(hours => hours.day === day);
+};
+
+export const OutletSelector: React.FC<OutletSelectorProps> = ({
+  outlets,
+  selectedOutlet,
+  onSelect,
+  disabled = false,
+}) => {
+  const { t } = useLocalization();
+
+  const todayHours = useMemo(() => {
+    if (!selectedOutlet) {
+      return null;
+    }
+    const hours = getTodayHours(selectedOutlet, new Date());
+    return hours.length
+      ? hours.map(entry => `${entry.opens}–${entry.closes}`).join(', ')
+      : selectedOutlet.openingHours.length
+      ? t('vendor.screen.outlet.closedToday')
+      : null;
+  }, [selectedOutlet, t]);
+
+  if (!outlets.length) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} testID="vendor-outlet-selector">
+      <Text style={styles.label}>
+        {selectedOutlet
+          ? t('vendor.screen.outlet.current', {
+              replace: { name: selectedOutlet.name },
+            })
+          : t('vendor.screen.outlet.choose')}
+      </Text>
+      {selectedOutlet?.address ? (
+        <Text style={styles.meta}>{selectedOutlet.address}</Text>
+      ) : null}
+      {todayHours ? (
+        <Text style={styles.meta}>
+          {t('vendor.screen.outlet.hours', { replace: { hours: todayHours } })}
+        </Text>
+      ) : null}
+      {outlets.length > 1 ? (
+        <View style={styles.chipList}>
+          {outlets.map(outlet => {
+            const selected = outlet.id === selectedOutlet?.id;
+            return (
+              <Pressable
+                key={outlet.id}
+                accessibilityRole="button"
+                accessibilityState={{ selected, disabled }}
+                disabled={disabled}
+                onPress={() => onSelect(outlet.id)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                testID={`vendor-outlet-option-${outlet.id}`}
+              >
+                <Text
+                  style={[styles.chipText, selected && styles.chipTextSelected]}
+                >
+                  {outlet.name}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.surface,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  meta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+});
@@ -1,7 +1,9 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   PermissionsAndroid,
   Platform,
+  Pressable,
   StyleProp,
   StyleSheet,
   Text,
@@ -9,7 +11,13 @@ import {
   ViewStyle,
 } from 'react-native';
 import { CameraScreen } from 'react-native-camera-kit';
+import { launchImageLibrary } from 'react-native-image-picker';
 import deviceLog from '../utils/deviceLog';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { QR_IMAGE_IMPORT_CONFIG } from '../config/qrImageImportConfig';
+import { createAppError, ensureAppError } from '../errors';
+import { decodeQrCodesFromBase64 } from '../utils/qrImageDecoder';
 
 type QrScannerProps = {
   onScan: (text: string) => void;
@@ -19,6 +27,10 @@ type QrScannerProps = {
 const ANDROID_CAMERA_PERMISSION = PermissionsAndroid.PERMISSIONS.CAMERA;
 
 export const QrScanner: React.FC<QrScannerProps> = ({ onScan, style }) => {
+  const { t, translateError } = useLocalization();
+  const [isImporting, setIsImporting] = useState(false);
+  const [photoCodes, setPhotoCodes] = useState<string[] | null>(null);
+  const [photoError, setPhotoError] = useState<string | null>(null);
   const [permission, setPermission] = useState<'granted' | 'denied' | 'unknown'>(
     Platform.OS === 'android' ? 'unknown' : 'granted',
   );
@@ -115,6 +127,114 @@ export const QrScanner: React.FC<QrScannerProps> = ({ onScan, style }) => {
     [onScan],
   );
 
+  // Fallback for broken cameras and codes shared as screenshots. Decoded
+  // codes go through the same onScan pipeline as live camera reads.
+  const handleImportPhoto = useCallback(async () => {
+    setPhotoError(null);
+    setPhotoCodes(null);
+    try {
+      const result = await launchImageLibrary({
+        mediaType: 'photo',
+        selectionLimit: 1,
+        includeBase64: true,
+        ...QR_IMAGE_IMPORT_CONFIG.picker,
+      });
+      if (result.didCancel) {
+        return;
+      }
+      const base64 = result.assets?.[0]?.base64;
+      if (result.errorCode || !base64) {
+        throw createAppError('TRANSACTION_QR_IMAGE_PICK_FAILED', {
+          metadata: { errorCode: result.errorCode ?? null },
+        });
+      }
+
+      setIsImporting(true);
+      // Let the spinner render before decoding blocks the JS thread.
+      await new Promise<void>(resolve => setTimeout(resolve, 0));
+      const codes = decodeQrCodesFromBase64(base64);
+      deviceLog.info('qrScanner.photo.decoded', { count: codes.length });
+      if (codes.length === 1) {
+        onScan(codes[0]);
+      } else {
+        setPhotoCodes(codes);
+      }
+    } catch (error) {
+      const appError = ensureAppError(
+        error,
+        'TRANSACTION_QR_IMAGE_PICK_FAILED',
+      );
+      deviceLog.warn('qrScanner.photo.error', { code: appError.code });
+      setPhotoError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setIsImporting(false);
+    }
+  }, [onScan, translateError]);
+
+  const handleChoosePhotoCode = useCallback(
+    (code: string) => {
+      setPhotoCodes(null);
+      onScan(code);
+    },
+    [onScan],
+  );
+
+  const photoImport = (
+    <View style={styles.photoImport}>
+      <Pressable
+        accessibilityRole="button"
+        onPress={() => void handleImportPhoto()}
+        disabled={isImporting}
+        style={styles.photoButton}
+        testID="qr-scanner-import-photo"
+      >
+        {isImporting ? (
+          <ActivityIndicator color={COLORS.primary} />
+        ) : (
+          <Text style={styles.photoButtonText}>
+            {t('vendor.screen.qr.photo.button')}
+          </Text>
+        )}
+      </Pressable>
+      {photoError ? (
+        <Text style={styles.photoError} testID="qr-scanner-photo-error">
+          {photoError}
+        </Text>
+      ) : null}
+      {photoCodes ? (
+        <View style={styles.photoCodes} testID="qr-scanner-photo-codes">
+          <Text style={styles.photoHint}>
+            {t('vendor.screen.qr.photo.choose')}
+          </Text>
+          {photoCodes.map((code, index) => (
+            <Pressable
+              key={code}
+              accessibilityRole="button"
+              onPress={() => handleChoosePhotoCode(code)}
+              style={styles.photoButton}
+              testID={`qr-scanner-photo-code-${index}`}
+            >
+              <Text style={styles.photoButtonText}>
+                {t('vendor.screen.qr.photo.option', {
+                  replace: { index: index + 1, suffix: code.slice(-4) },
+                })}
+              </Text>
+            </Pressable>
+          ))}
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => setPhotoCodes(null)}
+            style={styles.photoCancel}
+          >
+            <Text style={styles.photoHint}>
+              {t('vendor.screen.qr.photo.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+
   if (Platform.OS === 'android' && permission !== 'granted') {
     if (blockedPermissionLoggedRef.current !== permission) {
       deviceLog.info('qrScanner.permission.blocked', {
@@ -130,6 +250,7 @@ export const QrScanner: React.FC<QrScannerProps> = ({ onScan, style }) => {
             Camera permission is required to scan QR codes.
           </Text>
         </View>
+        {photoImport}
       </View>
     );
   }
@@ -142,6 +263,7 @@ export const QrScanner: React.FC<QrScannerProps> = ({ onScan, style }) => {
             QR scanning is not available on this device.
           </Text>
         </View>
+        {photoImport}
       </View>
     );
   }
@@ -156,6 +278,7 @@ export const QrScanner: React.FC<QrScannerProps> = ({ onScan, style }) => {
         showFrame
         onReadCode={handleNativeScan}
       />
+      {photoImport}
     </View>
   );
 };
@@ -176,6 +299,39 @@ const styles = StyleSheet.create({
   permissionText: {
     textAlign: 'center',
   },
+  photoImport: {
+    padding: 12,
+    gap: 8,
+  },
+  photoButton: {
+    minHeight: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    backgroundColor: COLORS.surface,
+  },
+  photoButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  photoCodes: {
+    gap: 8,
+  },
+  photoHint: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  photoCancel: {
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  photoError: {
+    fontSize: 13,
+    color: COLORS.error,
+  },
 });
 
 export default QrScanner;
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { ensureAppError } from '../errors';
+import {
+  MemberApprovalDecision,
+  RedemptionApprovalRequest,
+} from '../types/transactions';
+
+interface RedemptionApprovalPromptProps {
+  request: RedemptionApprovalRequest | null;
+  formatCurrency: (value: number) => string;
+  onRespond: (
+    transactionId: string,
+    decision: MemberApprovalDecision,
+  ) => Promise<void>;
+}
+
+export const RedemptionApprovalPrompt: React.FC<
+  RedemptionApprovalPromptProps
+> = ({ request, formatCurrency, onRespond }) => {
+  const { t, translateError } = useLocalization();
+  const [pending, setPending] = useState<MemberApprovalDecision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const transactionId = request?.transactionId ?? null;
+
+  useEffect(() => {
+    setPending(null);
+    setError(null);
+  }, [transactionId]);
+
+  if (!request) {
+    return null;
+  }
+
+  const handleRespond = async (decision: MemberApprovalDecision) => {
+    if (pending) {
+      return;
+    }
+    setPending(decision);
+    setError(null);
+    try {
+      await onRespond(request.transactionId, decision);
+    } catch (respondError) {
+      const appError = ensureAppError(
+        respondError,
+        'TRANSACTION_APPROVAL_FAILED',
+      );
+      setError(translateError(appError) ?? t('home.approval.errors.failed'));
+      setPending(null);
+    }
+  };
+
+  const rows = [
+    { key: 'gross', value: request.grossAmount },
+    { key: 'discount', value: request.discountAmount },
+    { key: 'net', value: request.netAmount },
+  ];
+
+  return (
+    <Modal visible transparent animationType="fade">
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="member-approval-prompt">
+          <Text style={styles.title}>{t('home.approval.title')}</Text>
+          <Text style={styles.description}>
+            {t('home.approval.description')}
+          </Text>
+
+          <View style={styles.summary}>
+            <Text style={styles.vendor}>
+              {request.vendorName ?? t('home.transactions.defaultVendor')}
+            </Text>
+            {request.outletName ? (
+              <Text style={styles.description}>{request.outletName}</Text>
+            ) : null}
+            {rows.map(row => (
+              <View key={row.key} style={styles.row}>
+                <Text style={styles.rowLabel}>
+                  {t(`home.approval.${row.key}`)}
+                </Text>
+                <Text style={styles.rowValue}>
+                  {request.currency
+                    ? `${formatCurrency(row.value)} ${request.currency}`
+                    : formatCurrency(row.value)}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[styles.primaryButton, pending && styles.buttonDisabled]}
+            onPress={() => void handleRespond('approve')}
+            disabled={Boolean(pending)}
+            accessibilityRole="button"
+            testID="member-approval-approve"
+          >
+            {pending === 'approve' ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('home.approval.approve')}
+              </Text>
+            )}
+          </Pressable>
+          <Pressable
+            style={[styles.secondaryButton, pending && styles.buttonDisabled]}
+            onPress={() => void handleRespond('decline')}
+            disabled={Boolean(pending)}
+            accessibilityRole="button"
+            testID="member-approval-decline"
+          >
+            {pending === 'decline' ? (
+              <ActivityIndicator color={COLORS.error} />
+            ) : (
+              <Text style={styles.secondaryButtonText}>
+                {t('home.approval.decline')}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  summary: {
+    gap: 8,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.mutedBorder,
+  },
+  vendor: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  Platform,
+  Pressable,
+  Share,
+  StyleProp,
+  StyleSheet,
+  Text,
+  View,
+  ViewStyle,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import deviceLog from '../utils/deviceLog';
+import {
+  buildReferralLink,
+  buildReferralQrPayload,
+  buildReferralWebLink,
+} from '../utils/referral';
+
+type ReferralCardProps = {
+  code: string | null;
+  style?: StyleProp<ViewStyle>;
+};
+
+/** The member's referral code as a QR plus a shareable invite. */
+export const ReferralCard: React.FC<ReferralCardProps> = ({ code, style }) => {
+  const { t } = useLocalization();
+  const links = useMemo(
+    () =>
+      code
+        ? {
+            app: buildReferralLink(code),
+            web: buildReferralWebLink(code),
+            qr: buildReferralQrPayload(code),
+          }
+        : null,
+    [code],
+  );
+
+  const handleShare = useCallback(async () => {
+    if (!code || !links) {
+      return;
+    }
+    try {
+      const result = await Share.share({
+        message: t('profile.referral.shareMessage', {
+          replace: { code, link: links.app, webLink: links.web },
+        }),
+      });
+      deviceLog.info('profile.referral.shared', { action: result.action });
+    } catch (error) {
+      deviceLog.warn('profile.referral.share.error', {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [code, links, t]);
+
+  return (
+    <View style={[styles.container, style]} testID="referral-card">
+      <Text style={styles.title}>{t('profile.referral.title')}</Text>
+      <Text style={styles.subtitle}>{t('profile.referral.subtitle')}</Text>
+      {code && links ? (
+        <>
+          <View style={styles.metaRow}>
+            <Text style={styles.metaLabel}>
+              {t('profile.referral.codeLabel')}
+            </Text>
+            <Text style={styles.code} testID="referral-code">
+              {code}
+            </Text>
+          </View>
+          <View style={styles.qrWrapper} testID="referral-qr-code">
+            <QRCode value={links.qr} size={160} backgroundColor="transparent" />
+            <Text style={styles.hint}>{t('profile.referral.qrHint')}</Text>
+          </View>
+          <Text style={styles.link} numberOfLines={1}>
+            {links.app}
+          </Text>
+          <Pressable
+            onPress={() => {
+              void handleShare();
+            }}
+            accessibilityRole="button"
+            style={styles.shareButton}
+            testID="referral-share"
+          >
+            <Text style={styles.shareButtonText}>
+              {t('profile.referral.share')}
+            </Text>
+          </Pressable>
+        </>
+      ) : (
+        <Text style={styles.hint}>{t('profile.referral.empty')}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  metaLabel: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    fontWeight: '500',
+  },
+  code: {
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  qrWrapper: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  link: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    fontFamily: Platform.select({ ios: 'Courier', default: 'monospace' }),
+  },
+  shareButton: {
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shareButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,10 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import {
   ActivityIndicator,
   Modal,
@@ -13,20 +19,31 @@ import { useLocalization } from '../contexts/LocalizationContext';
 import { RegisterAccountType, RegisterOptions } from '../types/auth';
 import { COLORS } from '../config/theme';
 import { PasswordVisibilityToggle } from './PasswordVisibilityToggle';
-import { fetchVendorTiers } from '../services/vendorService';
+import {
+  getDiscountMatrixSnapshot,
+  refreshDiscountMatrix,
+} from '../services/discountMatrixService';
 import { VendorTierDefinition } from '../types/vendor';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { QrScanner } from './QrScanner';
+import { lookupReferralSponsor } from '../services/referralService';
+import { ReferralSponsor } from '../types/mlm';
+import { normalizeReferralCode, parseReferralQr } from '../utils/referral';
+import { ensureAppError } from '../errors';
 
 interface RegisterModalProps {
   visible: boolean;
   onClose: () => void;
   onSubmit: (options: RegisterOptions) => Promise<string | undefined>;
+  /** Referral code from a deep link or QR, validated when the form opens. */
+  sponsorCode?: string | null;
 }
 
 export const RegisterModal: React.FC<RegisterModalProps> = ({
   visible,
   onClose,
   onSubmit,
+  sponsorCode: linkedSponsorCode,
 }) => {
   const { t, translateError } = useLocalization();
   const [username, setUsername] = useState('');
@@ -48,6 +65,13 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [sponsorInput, setSponsorInput] = useState('');
+  const [sponsor, setSponsor] = useState<ReferralSponsor | null>(null);
+  const [isCheckingSponsor, setIsCheckingSponsor] = useState(false);
+  const [sponsorError, setSponsorError] = useState<string | null>(null);
+  const [isScanningSponsor, setIsScanningSponsor] = useState(false);
+  // Only the latest lookup may update the sponsor.
+  const sponsorRequestRef = useRef(0);
   const layout = useResponsiveLayout();
 
   useEffect(() => {
@@ -68,21 +92,100 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
       setLoading(false);
       setError(null);
       setSuccessMessage(null);
+      setSponsorInput('');
+      setSponsor(null);
+      setIsCheckingSponsor(false);
+      setSponsorError(null);
+      setIsScanningSponsor(false);
+      sponsorRequestRef.current += 1;
     }
   }, [visible]);
 
-  const fallbackVendorTiers = useMemo<VendorTierDefinition[]>(
-    () => [
+  const validateSponsor = useCallback(
+    async (code: string): Promise<ReferralSponsor | null> => {
+      const requestId = sponsorRequestRef.current + 1;
+      sponsorRequestRef.current = requestId;
+      setSponsor(null);
+      setSponsorError(null);
+      setIsCheckingSponsor(true);
+      try {
+        const resolved = await lookupReferralSponsor(code);
+        if (sponsorRequestRef.current !== requestId) {
+          return null;
+        }
+        setSponsor(resolved);
+        setSponsorInput(resolved.code);
+        return resolved;
+      } catch (lookupError) {
+        if (sponsorRequestRef.current === requestId) {
+          const appError = ensureAppError(
+            lookupError,
+            'MLM_REFERRAL_LOOKUP_FAILED',
+            { propagateMessage: true },
+          );
+          setSponsorError(
+            translateError(appError) ?? appError.toDisplayString(),
+          );
+        }
+        return null;
+      } finally {
+        if (sponsorRequestRef.current === requestId) {
+          setIsCheckingSponsor(false);
+        }
+      }
+    },
+    [translateError],
+  );
+
+  useEffect(() => {
+    if (!visible || !linkedSponsorCode) {
+      return;
+    }
+    setAccountType('member');
+    setSponsorInput(linkedSponsorCode);
+    void validateSponsor(linkedSponsorCode);
+  }, [linkedSponsorCode, validateSponsor, visible]);
+
+  const handleSponsorChange = useCallback((value: string) => {
+    sponsorRequestRef.current += 1;
+    setSponsorInput(value);
+    setSponsor(null);
+    setSponsorError(null);
+    setIsCheckingSponsor(false);
+  }, []);
+
+  const handleSponsorScan = useCallback(
+    (text: string) => {
+      setIsScanningSponsor(false);
+      try {
+        const code = parseReferralQr(text);
+        setSponsorInput(code);
+        void validateSponsor(code);
+      } catch (scanError) {
+        const appError = ensureAppError(
+          scanError,
+          'MLM_REFERRAL_QR_UNSUPPORTED',
+        );
+        setSponsorError(translateError(appError) ?? appError.toDisplayString());
+      }
+    },
+    [translateError, validateSponsor],
+  );
+
+  // Rates come from the cached server matrix (or the bundled copy) so the
+  // offline list never disagrees with what the vendor will be charged.
+  const fallbackVendorTiers = useMemo<VendorTierDefinition[]>(() => {
+    const snapshot = getDiscountMatrixSnapshot();
+    if (snapshot.tiers?.length) {
+      return snapshot.tiers;
+    }
+    return [
       {
         id: 'sapphire',
         slug: 'sapphire',
         name: 'Sapphire',
         description: t('auth.registerModal.vendorTierSapphireDescription'),
-        discountRates: {
-          gold: 2.5,
-          platinum: 5,
-          black: 10,
-        },
+        discountRates: snapshot.matrix.sapphire ?? null,
         promotionSummary: t(
           'auth.registerModal.vendorTierSapphirePromotions',
         ),
@@ -94,20 +197,15 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
         slug: 'diamond',
         name: 'Diamond',
         description: t('auth.registerModal.vendorTierDiamondDescription'),
-        discountRates: {
-          gold: 5,
-          platinum: 10,
-          black: 20,
-        },
+        discountRates: snapshot.matrix.diamond ?? null,
         promotionSummary: t(
           'auth.registerModal.vendorTierDiamondPromotions',
         ),
         benefits: null,
         metadata: null,
       },
-    ],
-    [t],
-  );
+    ];
+  }, [t]);
 
   useEffect(() => {
     if (!visible || accountType !== 'vendor' || successMessage !== null) {
@@ -118,12 +216,14 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
     setIsLoadingVendorTiers(true);
     setVendorTierError(null);
 
-    fetchVendorTiers()
-      .then(tiers => {
+    refreshDiscountMatrix()
+      .then(snapshot => {
         if (!isMounted) {
           return;
         }
-        const list = tiers.length ? tiers : fallbackVendorTiers;
+        const list = snapshot.tiers?.length
+          ? snapshot.tiers
+          : fallbackVendorTiers;
         setVendorTiers(list);
         if (list.length === 1) {
           setSelectedVendorTier(list[0].slug);
@@ -143,7 +243,8 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
             ? fetchError.message
             : t('auth.registerModal.vendorTierError'),
         );
-        setVendorTiers(fallbackVendorTiers);
+        const cachedTiers = getDiscountMatrixSnapshot().tiers;
+        setVendorTiers(cachedTiers?.length ? cachedTiers : fallbackVendorTiers);
       })
       .finally(() => {
         if (isMounted) {
@@ -188,6 +289,18 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
       return;
     }
 
+    // A sponsor code is optional, but one that was entered must be valid.
+    let resolvedSponsor: ReferralSponsor | null = null;
+    if (accountType === 'member' && sponsorInput.trim()) {
+      resolvedSponsor =
+        sponsor && sponsor.code === normalizeReferralCode(sponsorInput)
+          ? sponsor
+          : await validateSponsor(sponsorInput);
+      if (!resolvedSponsor) {
+        return;
+      }
+    }
+
     setLoading(true);
     setError(null);
 
@@ -200,6 +313,8 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
         lastName: trimmedLastName || undefined,
         accountType,
         vendorTier: selectedVendorTier ?? undefined,
+        sponsorCode: resolvedSponsor?.code,
+        sponsorId: resolvedSponsor?.id,
       });
       if (accountType === 'vendor') {
         setSuccessMessage(
@@ -246,6 +361,7 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
     !password ||
     !confirmPassword ||
     successMessage !== null ||
+    isCheckingSponsor ||
     (accountType === 'vendor' && !selectedVendorTier);
 
   const containerStyles = useMemo(() => {
@@ -347,7 +463,7 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
                 />
                 <PasswordVisibilityToggle
                   visible={passwordVisible}
-                  onToggle={() => setPasswordVisible(visible => !visible)}
+                  onToggle={() => setPasswordVisible(current => !current)}
                   labelShow={t('auth.forms.showPassword')}
                   labelHide={t('auth.forms.hidePassword')}
                   style={styles.togglePasswordButton}
@@ -377,7 +493,7 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
                 <PasswordVisibilityToggle
                   visible={confirmPasswordVisible}
                   onToggle={() =>
-                    setConfirmPasswordVisible(visible => !visible)
+                    setConfirmPasswordVisible(current => !current)
                   }
                   labelShow={t('auth.forms.showPassword')}
                   labelHide={t('auth.forms.hidePassword')}
@@ -464,6 +580,71 @@ export const RegisterModal: React.FC<RegisterModalProps> = ({
               ) : null}
             </View>
 
+            {accountType === 'member' ? (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>
+                  {t('auth.registerModal.sponsorLabel')}
+                </Text>
+                <TextInput
+                  value={sponsorInput}
+                  onChangeText={handleSponsorChange}
+                  onEndEditing={() => {
+                    if (sponsorInput.trim() && !sponsor) {
+                      void validateSponsor(sponsorInput);
+                    }
+                  }}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  editable={!loading && successMessage === null}
+                  style={styles.input}
+                  placeholder={t('auth.registerModal.sponsorPlaceholder')}
+                  testID="register-sponsor-input"
+                />
+                {isCheckingSponsor ? (
+                  <Text style={styles.notice}>
+                    {t('auth.registerModal.sponsorChecking')}
+                  </Text>
+                ) : null}
+                {sponsor ? (
+                  <Text style={styles.sponsorConfirmed}>
+                    {t('auth.registerModal.sponsorConfirmed', {
+                      replace: { name: sponsor.name },
+                    })}
+                  </Text>
+                ) : null}
+                {sponsorError ? (
+                  <Text style={styles.error}>{sponsorError}</Text>
+                ) : null}
+                {linkedSponsorCode && sponsor?.code === linkedSponsorCode ? (
+                  <Text style={styles.helperText}>
+                    {t('auth.registerModal.sponsorLinked')}
+                  </Text>
+                ) : null}
+                {successMessage === null ? (
+                  <Pressable
+                    onPress={() => setIsScanningSponsor(current => !current)}
+                    disabled={loading}
+                    accessibilityRole="button"
+                    style={styles.secondaryButton}
+                  >
+                    <Text style={styles.secondaryButtonText}>
+                      {isScanningSponsor
+                        ? t('auth.registerModal.sponsorScanClose')
+                        : t('auth.registerModal.sponsorScan')}
+                    </Text>
+                  </Pressable>
+                ) : null}
+                {isScanningSponsor ? (
+                  <View style={styles.sponsorScanner}>
+                    <QrScanner
+                      onScan={handleSponsorScan}
+                      style={styles.sponsorScannerView}
+                    />
+                  </View>
+                ) : null}
+              </View>
+            ) : null}
+
             {accountType === 'vendor' ? (
               <View style={styles.formGroup}>
                 <Text style={styles.label}>
@@ -744,4 +925,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  sponsorConfirmed: {
+    color: COLORS.success,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sponsorScanner: {
+    height: 280,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  sponsorScannerView: {
+    flex: 1,
+  },
 });
@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TRANSACTION_DISPUTE_CONFIG } from '../config/transactionDisputeConfig';
+import {
+  CreateTransactionDisputeRequest,
+  TransactionDisputePhoto,
+  TransactionDisputeReason,
+  TransactionRecord,
+} from '../types/transactions';
+import { ensureAppError } from '../errors';
+import deviceLog from '../utils/deviceLog';
+
+interface TransactionDisputeModalProps {
+  transaction: TransactionRecord | null;
+  onClose: () => void;
+  onSubmit: (request: CreateTransactionDisputeRequest) => Promise<void>;
+}
+
+export const TransactionDisputeModal: React.FC<
+  TransactionDisputeModalProps
+> = ({ transaction, onClose, onSubmit }) => {
+  const { t, translateError } = useLocalization();
+  const [reason, setReason] = useState<TransactionDisputeReason | null>(null);
+  const [note, setNote] = useState('');
+  const [photo, setPhoto] = useState<TransactionDisputePhoto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const visible = Boolean(transaction);
+
+  useEffect(() => {
+    if (!visible) {
+      setReason(null);
+      setNote('');
+      setPhoto(null);
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handlePickPhoto = async () => {
+    try {
+      const result = await launchImageLibrary({
+        mediaType: 'photo',
+        selectionLimit: 1,
+        ...TRANSACTION_DISPUTE_CONFIG.photo,
+      });
+      const asset = result.assets?.[0];
+      if (result.didCancel || !asset?.uri) {
+        return;
+      }
+      setPhoto({
+        uri: asset.uri,
+        fileName: asset.fileName ?? null,
+        mimeType: asset.type ?? null,
+      });
+    } catch (pickError) {
+      deviceLog.warn('disputes.photo.pick.error', {
+        message:
+          pickError instanceof Error ? pickError.message : String(pickError),
+      });
+      setError(t('disputes.form.errors.photo'));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (loading) {
+      return;
+    }
+    if (!reason) {
+      setError(t('disputes.form.errors.reason'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSubmit({ reason, note: note.trim() || null, photo });
+      onClose();
+    } catch (submitError) {
+      const appError = ensureAppError(
+        submitError,
+        'TRANSACTION_DISPUTE_SUBMIT_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={styles.card}
+          testID="transaction-dispute-modal"
+        >
+          <Text style={styles.title}>{t('disputes.form.title')}</Text>
+          <Text style={styles.description}>
+            {t('disputes.form.description', {
+              replace: {
+                vendor:
+                  transaction?.vendorName?.trim() ||
+                  t('analytics.shared.unknownVendor'),
+                amount: Number(transaction?.netAmount ?? 0).toFixed(2),
+              },
+            })}
+          </Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('disputes.form.reasonLabel')}</Text>
+            <View style={styles.reasonList}>
+              {TRANSACTION_DISPUTE_CONFIG.reasons.map(option => {
+                const selected = option === reason;
+                return (
+                  <Pressable
+                    key={option}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => setReason(option)}
+                    style={[
+                      styles.reasonChip,
+                      selected && styles.reasonChipSelected,
+                    ]}
+                    testID={`transaction-dispute-reason-${option}`}
+                  >
+                    <Text
+                      style={[
+                        styles.reasonChipText,
+                        selected && styles.reasonChipTextSelected,
+                      ]}
+                    >
+                      {t(`disputes.reasons.${option}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('disputes.form.noteLabel')}</Text>
+            <TextInput
+              value={note}
+              onChangeText={setNote}
+              editable={!loading}
+              multiline
+              maxLength={TRANSACTION_DISPUTE_CONFIG.maxNoteLength}
+              placeholder={t('disputes.form.notePlaceholder')}
+              style={[styles.input, styles.noteInput]}
+              testID="transaction-dispute-note"
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('disputes.form.photoLabel')}</Text>
+            {photo ? (
+              <View style={styles.photoRow}>
+                <Image source={{ uri: photo.uri }} style={styles.photo} />
+                <Pressable
+                  accessibilityRole="button"
+                  onPress={() => setPhoto(null)}
+                  disabled={loading}
+                  testID="transaction-dispute-photo-remove"
+                >
+                  <Text style={styles.secondaryButtonText}>
+                    {t('disputes.form.removePhoto')}
+                  </Text>
+                </Pressable>
+              </View>
+            ) : (
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => void handlePickPhoto()}
+                disabled={loading}
+                style={styles.photoButton}
+                testID="transaction-dispute-photo"
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('disputes.form.addPhoto')}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              loading && styles.primaryButtonDisabled,
+            ]}
+            onPress={() => void handleSubmit()}
+            disabled={loading}
+            accessibilityRole="button"
+            testID="transaction-dispute-submit"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('disputes.form.submit')}
+              </Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('disputes.form.cancel')}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  scroll: {
+    width: '100%',
+    maxWidth: 420,
+    flexGrow: 0,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+  },
+  card: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  reasonList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  reasonChipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  reasonChipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  noteInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: 12,
+    backgroundColor: COLORS.mutedBorder,
+  },
+  photoButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
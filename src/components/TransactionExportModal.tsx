@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TRANSACTION_EXPORT_CONFIG } from '../config/transactionExportConfig';
+import { TRANSACTION_HISTORY_CONFIG } from '../config/transactionHistoryConfig';
+import {
+  TransactionExportColumn,
+  TransactionExportFile,
+  TransactionExportFormat,
+  TransactionExportRequest,
+} from '../types/transactions';
+import { ensureAppError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORMATS: TransactionExportFormat[] = ['csv', 'json'];
+
+interface TransactionExportModalProps {
+  visible: boolean;
+  defaultColumns: TransactionExportColumn[];
+  onClose: () => void;
+  onExport: (
+    request: TransactionExportRequest,
+  ) => Promise<TransactionExportFile>;
+}
+
+export const TransactionExportModal: React.FC<TransactionExportModalProps> = ({
+  visible,
+  defaultColumns,
+  onClose,
+  onExport,
+}) => {
+  const { t, translateError } = useLocalization();
+  const [format, setFormat] = useState<TransactionExportFormat>('csv');
+  const [columns, setColumns] =
+    useState<TransactionExportColumn[]>(defaultColumns);
+  const [rangeDays, setRangeDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setFormat('csv');
+      setColumns(defaultColumns);
+      setRangeDays(null);
+      setLoading(false);
+      setError(null);
+      setWarning(null);
+    }
+  }, [defaultColumns, visible]);
+
+  const toggleColumn = (column: TransactionExportColumn) => {
+    setColumns(current =>
+      current.includes(column)
+        ? current.filter(item => item !== column)
+        : [...current, column],
+    );
+  };
+
+  const handleExport = async () => {
+    if (loading) {
+      return;
+    }
+    if (!columns.length) {
+      setError(t('analytics.export.errors.columns'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setWarning(null);
+    try {
+      const file = await onExport({
+        format,
+        columns,
+        from: rangeDays
+          ? new Date(Date.now() - rangeDays * DAY_MS).toISOString()
+          : null,
+        to: null,
+      });
+      if (file.truncated) {
+        // Keep the modal open so the vendor sees the file is incomplete.
+        setWarning(
+          t('analytics.export.truncated', { replace: { count: file.count } }),
+        );
+        return;
+      }
+      onClose();
+    } catch (exportError) {
+      const appError = ensureAppError(
+        exportError,
+        'TRANSACTION_EXPORT_FAILED',
+        {
+          propagateMessage: true,
+        },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipSelected]}
+      testID={`transaction-export-${key}`}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="transaction-export-modal">
+          <Text style={styles.title}>{t('analytics.export.title')}</Text>
+          <Text style={styles.description}>
+            {t('analytics.export.description')}
+          </Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('analytics.export.formatLabel')}
+            </Text>
+            <View style={styles.chipRow}>
+              {FORMATS.map(option =>
+                renderChip(
+                  `format-${option}`,
+                  t(`analytics.export.formats.${option}`),
+                  format === option,
+                  () => setFormat(option),
+                ),
+              )}
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t('analytics.export.rangeLabel')}</Text>
+            <View style={styles.chipRow}>
+              {renderChip(
+                'range-all',
+                t('analytics.filters.range.all'),
+                rangeDays === null,
+                () => setRangeDays(null),
+              )}
+              {TRANSACTION_HISTORY_CONFIG.rangePresetsDays.map(days =>
+                renderChip(
+                  `range-${days}`,
+                  t('analytics.filters.range.days', {
+                    replace: { count: days },
+                  }),
+                  rangeDays === days,
+                  () => setRangeDays(days),
+                ),
+              )}
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('analytics.export.columnsLabel')}
+            </Text>
+            <View style={styles.chipRow}>
+              {TRANSACTION_EXPORT_CONFIG.columns.map(column =>
+                renderChip(
+                  `column-${column}`,
+                  t(`analytics.export.columns.${column}`),
+                  columns.includes(column),
+                  () => toggleColumn(column),
+                ),
+              )}
+            </View>
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+          {warning ? (
+            <Text style={styles.warning} testID="transaction-export-truncated">
+              {warning}
+            </Text>
+          ) : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              loading && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleExport}
+            disabled={loading}
+            accessibilityRole="button"
+            testID="transaction-export-confirm"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('analytics.export.confirm')}
+              </Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('analytics.export.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 480,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+  warning: {
+    color: COLORS.warningText,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TRANSACTION_HISTORY_CONFIG } from '../config/transactionHistoryConfig';
+import {
+  MembershipTier,
+  TransactionHistoryFilters,
+  TransactionStatus,
+} from '../types/transactions';
+import { VendorOutlet } from '../types/vendor';
+
+const FILTERABLE_STATUSES: TransactionStatus[] = [
+  'completed',
+  'pending',
+  'failed',
+  'voided',
+  'refunded',
+  'partially_refunded',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TransactionFilterBarProps {
+  filters: TransactionHistoryFilters;
+  onChange: (filters: TransactionHistoryFilters) => void;
+  showTierFilter?: boolean;
+  /** Outlets of a multi-branch vendor; a filter row shows for two or more. */
+  outlets?: VendorOutlet[];
+}
+
+const parseAmount = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Number(trimmed.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export const TransactionFilterBar: React.FC<TransactionFilterBarProps> = ({
+  filters,
+  onChange,
+  showTierFilter = true,
+  outlets = [],
+}) => {
+  const { t } = useLocalization();
+  const [rangeDays, setRangeDays] = useState<number | null>(null);
+  const [minAmount, setMinAmount] = useState(
+    filters.minAmount != null ? String(filters.minAmount) : '',
+  );
+  const [maxAmount, setMaxAmount] = useState(
+    filters.maxAmount != null ? String(filters.maxAmount) : '',
+  );
+
+  const selectRange = (days: number | null) => {
+    setRangeDays(days);
+    onChange({
+      ...filters,
+      from: days ? new Date(Date.now() - days * DAY_MS).toISOString() : null,
+      to: null,
+    });
+  };
+
+  const toggleStatus = (status: TransactionStatus) => {
+    const current = filters.statuses ?? [];
+    const statuses = current.includes(status)
+      ? current.filter(item => item !== status)
+      : [...current, status];
+    onChange({ ...filters, statuses: statuses.length ? statuses : null });
+  };
+
+  const selectTier = (tier: MembershipTier) => {
+    onChange({
+      ...filters,
+      membershipTier: filters.membershipTier === tier ? null : tier,
+    });
+  };
+
+  const selectOutlet = (outletId: string) => {
+    onChange({
+      ...filters,
+      outletId: filters.outletId === outletId ? null : outletId,
+    });
+  };
+
+  const applyAmounts = () => {
+    const min = parseAmount(minAmount);
+    const max = parseAmount(maxAmount);
+    if (
+      min === (filters.minAmount ?? null) &&
+      max === (filters.maxAmount ?? null)
+    ) {
+      return;
+    }
+    onChange({ ...filters, minAmount: min, maxAmount: max });
+  };
+
+  const clear = () => {
+    setRangeDays(null);
+    setMinAmount('');
+    setMaxAmount('');
+    onChange({});
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipSelected]}
+      testID={`transaction-filter-${key}`}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container} testID="transaction-filter-bar">
+      <View style={styles.chipRow}>
+        {renderChip(
+          'range-all',
+          t('analytics.filters.range.all'),
+          rangeDays === null,
+          () => selectRange(null),
+        )}
+        {TRANSACTION_HISTORY_CONFIG.rangePresetsDays.map(days =>
+          renderChip(
+            `range-${days}`,
+            t('analytics.filters.range.days', { replace: { count: days } }),
+            rangeDays === days,
+            () => selectRange(days),
+          ),
+        )}
+      </View>
+      <Text style={styles.label}>{t('analytics.filters.status')}</Text>
+      <View style={styles.chipRow}>
+        {FILTERABLE_STATUSES.map(status =>
+          renderChip(
+            `status-${status}`,
+            t(`analytics.status.${status}`),
+            Boolean(filters.statuses?.includes(status)),
+            () => toggleStatus(status),
+          ),
+        )}
+      </View>
+      {showTierFilter ? (
+        <>
+          <Text style={styles.label}>{t('analytics.filters.tier')}</Text>
+          <View style={styles.chipRow}>
+            {TRANSACTION_HISTORY_CONFIG.membershipTiers.map(tier =>
+              renderChip(
+                `tier-${tier}`,
+                tier,
+                filters.membershipTier === tier,
+                () => selectTier(tier),
+              ),
+            )}
+          </View>
+        </>
+      ) : null}
+      {outlets.length > 1 ? (
+        <>
+          <Text style={styles.label}>{t('analytics.filters.outlet')}</Text>
+          <View style={styles.chipRow}>
+            {outlets.map(outlet =>
+              renderChip(
+                `outlet-${outlet.id}`,
+                outlet.name,
+                filters.outletId === outlet.id,
+                () => selectOutlet(outlet.id),
+              ),
+            )}
+          </View>
+        </>
+      ) : null}
+      <View style={styles.amountRow}>
+        <TextInput
+          value={minAmount}
+          onChangeText={setMinAmount}
+          onEndEditing={applyAmounts}
+          onSubmitEditing={applyAmounts}
+          keyboardType="decimal-pad"
+          placeholder={t('analytics.filters.minAmount')}
+          style={styles.input}
+          testID="transaction-filter-min"
+        />
+        <TextInput
+          value={maxAmount}
+          onChangeText={setMaxAmount}
+          onEndEditing={applyAmounts}
+          onSubmitEditing={applyAmounts}
+          keyboardType="decimal-pad"
+          placeholder={t('analytics.filters.maxAmount')}
+          style={styles.input}
+          testID="transaction-filter-max"
+        />
+      </View>
+      <Pressable
+        accessibilityRole="button"
+        onPress={clear}
+        style={styles.clearButton}
+      >
+        <Text style={styles.clearButtonText}>
+          {t('analytics.filters.clear')}
+        </Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  clearButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  clearButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { BasketLineItem } from '../types/transactions';
+import { getLineItemTotal } from '../utils/basket';
+
+interface TransactionLineItemsProps {
+  items?: BasketLineItem[] | null;
+  testID?: string;
+}
+
+export const TransactionLineItems: React.FC<TransactionLineItemsProps> = ({
+  items,
+  testID,
+}) => {
+  const { t } = useLocalization();
+
+  if (!items?.length) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} testID={testID}>
+      {items.map(item => (
+        <View key={item.id} style={styles.row}>
+          <Text style={styles.description} numberOfLines={1}>
+            {t('vendor.screen.basket.lineSummary', {
+              replace: {
+                quantity: item.quantity,
+                description:
+                  item.description || t('vendor.screen.basket.untitled'),
+              },
+            })}
+            {item.discountable
+              ? ''
+              : ` · ${t('vendor.screen.basket.excluded')}`}
+          </Text>
+          <Text style={styles.amount}>{getLineItemTotal(item).toFixed(2)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  description: {
+    flex: 1,
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  amount: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+});
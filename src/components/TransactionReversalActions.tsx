@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TransactionRecord } from '../types/transactions';
+import {
+  formatReversalCountdown,
+  getReversalEligibility,
+} from '../utils/transactionReversal';
+import { TransactionReversalMode } from './TransactionReversalModal';
+
+interface TransactionReversalActionsProps {
+  transaction: TransactionRecord;
+  onRequestReversal: (
+    transaction: TransactionRecord,
+    mode: TransactionReversalMode,
+  ) => void;
+}
+
+export const TransactionReversalActions: React.FC<
+  TransactionReversalActionsProps
+> = ({ transaction, onRequestReversal }) => {
+  const { t } = useLocalization();
+  const [now, setNow] = useState(() => Date.now());
+  const eligibility = useMemo(
+    () => getReversalEligibility(transaction, now),
+    [now, transaction],
+  );
+
+  // Tick once a second while the undo window is open so the countdown stays
+  // accurate and the button disappears as soon as the window closes.
+  useEffect(() => {
+    if (!eligibility.canVoid) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [eligibility.canVoid]);
+
+  const reasonLabel = transaction.reversalReason
+    ? t(`vendor.screen.reversal.reasons.${transaction.reversalReason}`)
+    : '';
+
+  return (
+    <View style={styles.container}>
+      {transaction.status === 'voided' ? (
+        <Text style={styles.note}>
+          {t('vendor.screen.reversal.voided', {
+            replace: { reason: reasonLabel },
+          })}
+        </Text>
+      ) : null}
+      {transaction.status === 'refunded' ||
+      transaction.status === 'partially_refunded' ? (
+        <Text style={styles.note}>
+          {t('vendor.screen.reversal.refunded', {
+            replace: {
+              amount: Number(transaction.refundedAmount ?? 0).toFixed(2),
+              reason: reasonLabel,
+            },
+          })}
+        </Text>
+      ) : null}
+      {eligibility.canVoid || eligibility.canRefund ? (
+        <View style={styles.actions}>
+          {eligibility.canVoid ? (
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => onRequestReversal(transaction, 'void')}
+              style={styles.actionButton}
+              testID={`transaction-undo-${transaction.id}`}
+            >
+              <Text style={styles.actionText}>
+                {t('vendor.screen.reversal.undo', {
+                  replace: {
+                    time: formatReversalCountdown(eligibility.voidRemainingMs),
+                  },
+                })}
+              </Text>
+            </Pressable>
+          ) : null}
+          {eligibility.canRefund ? (
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => onRequestReversal(transaction, 'refund')}
+              style={styles.actionButton}
+              testID={`transaction-refund-${transaction.id}`}
+            >
+              <Text style={styles.actionText}>
+                {t('vendor.screen.reversal.refund')}
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  note: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  actionText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { TRANSACTION_REVERSAL_CONFIG } from '../config/transactionReversalConfig';
+import {
+  RefundTransactionRequest,
+  TransactionRecord,
+  TransactionReversalReason,
+} from '../types/transactions';
+import { getRefundableAmount } from '../utils/transactionReversal';
+import { ensureAppError } from '../errors';
+
+export type TransactionReversalMode = 'void' | 'refund';
+
+interface TransactionReversalModalProps {
+  visible: boolean;
+  mode: TransactionReversalMode;
+  transaction: TransactionRecord | null;
+  onClose: () => void;
+  onSubmit: (request: RefundTransactionRequest) => Promise<void>;
+}
+
+export const TransactionReversalModal: React.FC<
+  TransactionReversalModalProps
+> = ({ visible, mode, transaction, onClose, onSubmit }) => {
+  const { t, translateError } = useLocalization();
+  const [reason, setReason] = useState<TransactionReversalReason | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setReason(null);
+      setAmount('');
+      setNote('');
+      setLoading(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const refundableAmount = useMemo(
+    () => (transaction ? getRefundableAmount(transaction) : 0),
+    [transaction],
+  );
+
+  const handleSubmit = async () => {
+    if (loading) {
+      return;
+    }
+    if (!reason) {
+      setError(t('vendor.screen.reversal.errors.reason'));
+      return;
+    }
+
+    let refundAmount: number | null = null;
+    if (mode === 'refund' && amount.trim().length > 0) {
+      refundAmount = Number(amount.replace(',', '.'));
+      if (
+        !Number.isFinite(refundAmount) ||
+        refundAmount <= 0 ||
+        refundAmount > refundableAmount
+      ) {
+        setError(
+          t('vendor.screen.reversal.errors.amount', {
+            replace: { max: refundableAmount.toFixed(2) },
+          }),
+        );
+        return;
+      }
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSubmit({
+        reason,
+        note: note.trim() || null,
+        amount: refundAmount,
+      });
+      onClose();
+    } catch (submitError) {
+      const appError = ensureAppError(
+        submitError,
+        mode === 'void'
+          ? 'TRANSACTION_VOID_FAILED'
+          : 'TRANSACTION_REFUND_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="transaction-reversal-modal">
+          <Text style={styles.title}>
+            {mode === 'void'
+              ? t('vendor.screen.reversal.voidTitle')
+              : t('vendor.screen.reversal.refundTitle')}
+          </Text>
+          <Text style={styles.description}>
+            {mode === 'void'
+              ? t('vendor.screen.reversal.voidHint')
+              : t('vendor.screen.reversal.refundHint', {
+                  replace: { amount: refundableAmount.toFixed(2) },
+                })}
+          </Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('vendor.screen.reversal.reasonLabel')}
+            </Text>
+            <View style={styles.reasonList}>
+              {TRANSACTION_REVERSAL_CONFIG.reasons.map(option => {
+                const selected = option === reason;
+                return (
+                  <Pressable
+                    key={option}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => setReason(option)}
+                    style={[
+                      styles.reasonChip,
+                      selected && styles.reasonChipSelected,
+                    ]}
+                    testID={`transaction-reversal-reason-${option}`}
+                  >
+                    <Text
+                      style={[
+                        styles.reasonChipText,
+                        selected && styles.reasonChipTextSelected,
+                      ]}
+                    >
+                      {t(`vendor.screen.reversal.reasons.${option}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {mode === 'refund' ? (
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>
+                {t('vendor.screen.reversal.amountLabel')}
+              </Text>
+              <TextInput
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                editable={!loading}
+                style={styles.input}
+                placeholder={t('vendor.screen.reversal.amountPlaceholder')}
+                testID="transaction-reversal-amount"
+              />
+            </View>
+          ) : null}
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('vendor.screen.reversal.noteLabel')}
+            </Text>
+            <TextInput
+              value={note}
+              onChangeText={setNote}
+              editable={!loading}
+              style={styles.input}
+              testID="transaction-reversal-note"
+            />
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              loading && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={loading}
+            accessibilityRole="button"
+            testID="transaction-reversal-confirm"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {mode === 'void'
+                  ? t('vendor.screen.reversal.confirmVoid')
+                  : t('vendor.screen.reversal.confirmRefund')}
+              </Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('vendor.screen.reversal.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  formGroup: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  reasonList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reasonChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  reasonChipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  reasonChipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
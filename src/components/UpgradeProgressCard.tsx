@@ -0,0 +1,332 @@
+import React, { useMemo } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { useUpgradeProgress } from '../hooks/useUpgradeProgress';
+import { MembershipPlan } from '../types/auth';
+import { getTierColor } from '../utils/genealogy';
+import { getUpgradeRuleNote } from '../utils/upgradeProgress';
+
+interface UpgradeProgressCardProps {
+  /** Plan catalogue already loaded by the screen, if any. */
+  plans?: MembershipPlan[];
+}
+
+const formatTier = (tier: string) => tier.toUpperCase();
+
+/**
+ * Shows how close the member is to the next automatic promotion and which
+ * recruits count towards it.
+ */
+export const UpgradeProgressCard: React.FC<UpgradeProgressCardProps> = ({
+  plans: providedPlans,
+}) => {
+  const { t, language } = useLocalization();
+  const { progress, rules, plans, isLoading, error, refresh } =
+    useUpgradeProgress(providedPlans);
+
+  const ruleLines = useMemo(
+    () =>
+      Object.entries(rules).map(([from, rule]) => ({
+        key: from,
+        text: t(`upgradeProgress.rules.${rule.metric}`, {
+          replace: {
+            from: formatTier(from),
+            to: formatTier(rule.nextTier),
+            threshold: rule.threshold,
+          },
+        }),
+      })),
+    [rules, t],
+  );
+  const note = useMemo(
+    () => getUpgradeRuleNote(plans, progress?.tier ?? null, language),
+    [language, plans, progress?.tier],
+  );
+  const isTopTier = Boolean(
+    progress?.tier &&
+      !progress.rule &&
+      Object.values(rules).some(rule => rule.nextTier === progress.tier),
+  );
+
+  const renderStatus = () => {
+    if (!progress) {
+      return null;
+    }
+    if (!progress.rule) {
+      return (
+        <Text style={styles.meta}>
+          {t(isTopTier ? 'upgradeProgress.topTier' : 'upgradeProgress.noRule')}
+        </Text>
+      );
+    }
+
+    const nextTier = formatTier(progress.rule.nextTier);
+    return (
+      <View style={styles.progressBlock}>
+        <View style={styles.row}>
+          <Text style={styles.label}>
+            {t(`upgradeProgress.metrics.${progress.rule.metric}`)}
+          </Text>
+          <Text style={styles.value}>
+            {t('upgradeProgress.progress', {
+              replace: {
+                current: progress.current,
+                threshold: progress.rule.threshold,
+              },
+            })}
+          </Text>
+        </View>
+        <View
+          style={styles.track}
+          accessibilityRole="progressbar"
+          accessibilityValue={{
+            min: 0,
+            max: progress.rule.threshold,
+            now: Math.min(progress.current, progress.rule.threshold),
+          }}
+          testID="upgrade-progress-bar"
+        >
+          <View
+            style={[
+              styles.fill,
+              {
+                width: `${Math.round(progress.ratio * 100)}%`,
+                backgroundColor: getTierColor(progress.rule.nextTier),
+              },
+            ]}
+          />
+        </View>
+        <Text style={styles.meta}>
+          {progress.remaining > 0
+            ? t('upgradeProgress.remaining', {
+                replace: { count: progress.remaining, tier: nextTier },
+              })
+            : t('upgradeProgress.reached', { replace: { tier: nextTier } })}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card} testID="upgrade-progress-card">
+      <Text style={styles.heading}>{t('upgradeProgress.title')}</Text>
+
+      {isLoading && !progress ? (
+        <View style={styles.row}>
+          <ActivityIndicator color={COLORS.primary} />
+          <Text style={styles.meta}>{t('upgradeProgress.loading')}</Text>
+        </View>
+      ) : null}
+
+      {error ? (
+        <View style={styles.progressBlock}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Pressable
+            onPress={() => {
+              void refresh();
+            }}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('upgradeProgress.retry')}
+            </Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {progress ? (
+        <View style={styles.row}>
+          <View style={styles.tierColumn}>
+            <Text style={styles.label}>{t('upgradeProgress.currentTier')}</Text>
+            <Text style={[styles.tier, { color: getTierColor(progress.tier) }]}>
+              {progress.tier ? formatTier(progress.tier) : '—'}
+            </Text>
+          </View>
+          {progress.rule ? (
+            <View style={[styles.tierColumn, styles.tierColumnEnd]}>
+              <Text style={styles.label}>{t('upgradeProgress.nextTier')}</Text>
+              <Text
+                style={[
+                  styles.tier,
+                  { color: getTierColor(progress.rule.nextTier) },
+                ]}
+              >
+                {formatTier(progress.rule.nextTier)}
+              </Text>
+            </View>
+          ) : null}
+        </View>
+      ) : null}
+
+      {renderStatus()}
+
+      {progress ? (
+        <View style={styles.progressBlock}>
+          <Text style={styles.subheading}>
+            {t('upgradeProgress.recruits.title')}
+          </Text>
+          <Text style={styles.meta}>{t('upgradeProgress.recruits.hint')}</Text>
+          {progress.recruits.length ? (
+            progress.recruits.map(recruit => (
+              <View key={recruit.id} style={styles.recruitRow}>
+                <View
+                  style={[
+                    styles.tierDot,
+                    { backgroundColor: getTierColor(recruit.level) },
+                  ]}
+                />
+                <Text style={styles.recruitName} numberOfLines={1}>
+                  {recruit.name}
+                </Text>
+                <Text
+                  style={[
+                    styles.badge,
+                    recruit.active ? styles.badgeActive : styles.badgeInactive,
+                  ]}
+                >
+                  {t(
+                    recruit.active
+                      ? 'upgradeProgress.recruits.active'
+                      : 'upgradeProgress.recruits.inactive',
+                  )}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.meta}>
+              {t('upgradeProgress.recruits.empty')}
+            </Text>
+          )}
+        </View>
+      ) : null}
+
+      <View style={styles.progressBlock}>
+        <Text style={styles.subheading}>{t('upgradeProgress.rulesTitle')}</Text>
+        {ruleLines.map(line => (
+          <Text key={line.key} style={styles.meta}>
+            {line.text}
+          </Text>
+        ))}
+        {note ? <Text style={styles.meta}>{note}</Text> : null}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    padding: 20,
+    borderRadius: 16,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  subheading: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tierColumn: {
+    gap: 4,
+  },
+  tierColumnEnd: {
+    alignItems: 'flex-end',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  tier: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  progressBlock: {
+    gap: 8,
+  },
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.surfaceMuted,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  meta: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  recruitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tierDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  recruitName: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.textPrimary,
+  },
+  badge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  badgeActive: {
+    backgroundColor: COLORS.successBackground,
+    color: COLORS.successText,
+  },
+  badgeInactive: {
+    backgroundColor: COLORS.surfaceMuted,
+    color: COLORS.textSecondary,
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.errorText,
+  },
+  secondaryButton: {
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
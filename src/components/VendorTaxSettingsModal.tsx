@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { COLORS } from '../config/theme';
+import { DiscountApplication, VendorTaxSettings } from '../types/transactions';
+
+interface VendorTaxSettingsModalProps {
+  visible: boolean;
+  settings: VendorTaxSettings;
+  onClose: () => void;
+  onSave: (settings: VendorTaxSettings) => Promise<void>;
+}
+
+const DISCOUNT_APPLICATIONS: DiscountApplication[] = [
+  'before_service_charge',
+  'after_service_charge',
+];
+
+const parseRate = (value: string): number | null => {
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100
+    ? parsed
+    : null;
+};
+
+export const VendorTaxSettingsModal: React.FC<VendorTaxSettingsModalProps> = ({
+  visible,
+  settings,
+  onClose,
+  onSave,
+}) => {
+  const { t } = useLocalization();
+  const [serviceChargeRate, setServiceChargeRate] = useState('');
+  const [vatRate, setVatRate] = useState('');
+  const [pricesIncludeVat, setPricesIncludeVat] = useState(true);
+  const [discountApplication, setDiscountApplication] =
+    useState<DiscountApplication>('before_service_charge');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setServiceChargeRate(String(settings.serviceChargeRate));
+      setVatRate(String(settings.vatRate));
+      setPricesIncludeVat(settings.pricesIncludeVat);
+      setDiscountApplication(settings.discountApplication);
+      setLoading(false);
+      setError(null);
+    }
+  }, [settings, visible]);
+
+  const handleSave = async () => {
+    if (loading) {
+      return;
+    }
+    const parsedService = parseRate(serviceChargeRate);
+    const parsedVat = parseRate(vatRate);
+    if (parsedService === null || parsedVat === null) {
+      setError(t('vendor.screen.tax.errors.rate'));
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await onSave({
+        serviceChargeRate: parsedService,
+        vatRate: parsedVat,
+        pricesIncludeVat,
+        discountApplication,
+      });
+    } catch {
+      setError(t('vendor.screen.tax.errors.save'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card} testID="vendor-tax-settings-modal">
+          <Text style={styles.title}>{t('vendor.screen.tax.title')}</Text>
+          <Text style={styles.description}>
+            {t('vendor.screen.tax.description')}
+          </Text>
+
+          <View style={styles.row}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>
+                {t('vendor.screen.tax.serviceChargeRate')}
+              </Text>
+              <TextInput
+                value={serviceChargeRate}
+                onChangeText={setServiceChargeRate}
+                keyboardType="decimal-pad"
+                editable={!loading}
+                style={styles.input}
+                testID="vendor-tax-service-rate"
+              />
+            </View>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>{t('vendor.screen.tax.vatRate')}</Text>
+              <TextInput
+                value={vatRate}
+                onChangeText={setVatRate}
+                keyboardType="decimal-pad"
+                editable={!loading}
+                style={styles.input}
+                testID="vendor-tax-vat-rate"
+              />
+            </View>
+          </View>
+
+          <View style={styles.switchRow}>
+            <Switch
+              value={pricesIncludeVat}
+              onValueChange={setPricesIncludeVat}
+              disabled={loading}
+              testID="vendor-tax-prices-include-vat"
+            />
+            <Text style={styles.switchLabel}>
+              {t('vendor.screen.tax.pricesIncludeVat')}
+            </Text>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>
+              {t('vendor.screen.tax.applicationLabel')}
+            </Text>
+            <View style={styles.chipList}>
+              {DISCOUNT_APPLICATIONS.map(option => {
+                const selected = option === discountApplication;
+                return (
+                  <Pressable
+                    key={option}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => setDiscountApplication(option)}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    testID={`vendor-tax-application-${option}`}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        selected && styles.chipTextSelected,
+                      ]}
+                    >
+                      {t(`vendor.screen.tax.applications.${option}`)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <Pressable
+            style={[
+              styles.primaryButton,
+              loading && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={loading}
+            accessibilityRole="button"
+            testID="vendor-tax-settings-save"
+          >
+            {loading ? (
+              <ActivityIndicator color={COLORS.textOnPrimary} />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('vendor.screen.tax.save')}
+              </Text>
+            )}
+          </Pressable>
+
+          <Pressable
+            onPress={onClose}
+            accessibilityRole="button"
+            style={styles.secondaryButton}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('vendor.screen.tax.cancel')}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlaySoft,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    borderRadius: 20,
+    backgroundColor: COLORS.surface,
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  formGroup: {
+    flex: 1,
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textOnMuted,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.textPrimary,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  error: {
+    color: COLORS.error,
+    fontSize: 14,
+  },
+});
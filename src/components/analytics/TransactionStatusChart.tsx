@@ -14,7 +14,14 @@ interface TransactionStatusChartProps
   totalLabel: string;
 }
 
-const STATUS_COLORS = [COLORS.primary, COLORS.warning, COLORS.error];
+const STATUS_COLORS = [
+  COLORS.primary,
+  COLORS.warning,
+  COLORS.error,
+  COLORS.textTertiary,
+  COLORS.infoText,
+  COLORS.highlightBorder,
+];
 
 export const TransactionStatusChart: React.FC<TransactionStatusChartProps> = ({
   title,
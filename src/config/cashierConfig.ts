@@ -0,0 +1,10 @@
+export const CASHIER_CONFIG = {
+  storageKey: '@tcnapp/vendor-cashiers',
+  minPinLength: 4,
+  maxNameLength: 40,
+  /** Wrong PINs allowed before a cashier profile is locked. */
+  maxPinAttempts: 5,
+  lockoutMs: 5 * 60 * 1000,
+};
+
+export type CashierConfig = typeof CASHIER_CONFIG;
@@ -0,0 +1,6 @@
+export const DISCOUNT_MATRIX_CONFIG = {
+  storageKey: '@tcnapp/discount-matrix',
+  maxAgeMs: 6 * 60 * 60_000,
+};
+
+export type DiscountMatrixConfig = typeof DISCOUNT_MATRIX_CONFIG;
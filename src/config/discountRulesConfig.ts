@@ -0,0 +1,8 @@
+export const DISCOUNT_RULES_CONFIG = {
+  // Campaign schedules are written in Bangkok local time.
+  utcOffsetMinutes: 7 * 60,
+  // Stacked campaigns never take more than this share of the eligible amount.
+  maxTotalPercentage: 100,
+};
+
+export type DiscountRulesConfig = typeof DISCOUNT_RULES_CONFIG;
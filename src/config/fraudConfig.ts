@@ -0,0 +1,17 @@
+export const FRAUD_CONFIG = {
+  /** Scans of one QR token inside this window count as repeats. */
+  repeatScanWindowMs: 2 * 60 * 1000,
+  maxScansPerWindow: 2,
+  /** Redemptions per member at this vendor before velocity is flagged. */
+  velocityWindowMs: 30 * 60 * 1000,
+  maxRedemptionsPerWindow: 2,
+  /** Sales above `multiplier × rolling average` are flagged. */
+  amountOutlierMultiplier: 4,
+  rollingSampleSize: 50,
+  minSamplesForAverage: 5,
+  failedLookupWindowMs: 60 * 1000,
+  /** Scan events older than this are dropped from the in-memory log. */
+  scanLogRetentionMs: 30 * 60 * 1000,
+};
+
+export type FraudConfig = typeof FRAUD_CONFIG;
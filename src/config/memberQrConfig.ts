@@ -0,0 +1,24 @@
+export const MEMBER_QR_CONFIG = {
+  /** Marks a signed, rotating payload; anything else is a legacy token. */
+  payloadPrefix: 'tcnq1',
+  defaultWindowSeconds: 30,
+  minWindowSeconds: 30,
+  maxWindowSeconds: 60,
+  /** Earlier windows still accepted, to cover slow scans. */
+  allowedPastWindows: 1,
+  /** Later windows accepted when the member's clock runs ahead. */
+  allowedFutureWindows: 1,
+  /** Hex characters of the HMAC kept in the payload. */
+  signatureLength: 32,
+  /** Hex characters of the SHA-256 token reference kept in the payload. */
+  referenceLength: 32,
+  /**
+   * Refuse bare static tokens at the till. Off while members without a
+   * rotation seed (offline fallback, older server responses) still show a
+   * static code; turn on once the server issues seeds to every member.
+   */
+  requireSignedPayloads: false,
+  replayRetentionMs: 5 * 60 * 1000,
+};
+
+export type MemberQrConfig = typeof MEMBER_QR_CONFIG;
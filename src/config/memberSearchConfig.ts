@@ -0,0 +1,9 @@
+export const MEMBER_SEARCH_CONFIG = {
+  storageKey: '@tcnapp/member-search-attempts',
+  /** Manual searches allowed per vendor inside the rolling window. */
+  maxSearchesPerWindow: 10,
+  windowMs: 15 * 60 * 1000,
+  maxCandidates: 5,
+};
+
+export type MemberSearchConfig = typeof MEMBER_SEARCH_CONFIG;
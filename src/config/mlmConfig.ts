@@ -0,0 +1,40 @@
+import { WORDPRESS_CONFIG } from './authConfig';
+import type { MembershipUpgradeRule } from '../types/mlm';
+
+export const MLM_CONFIG = {
+  baseUrl: WORDPRESS_CONFIG.baseUrl,
+  endpoints: {
+    genealogy: '/wp-json/tcn-mlm/v1/genealogy',
+    commissions: '/wp-json/tcn-mlm/v1/commissions',
+    member: '/wp-json/tcn-mlm/v1/member',
+    sponsor: '/wp-json/tcn-mlm/v1/sponsor',
+  },
+  genealogy: {
+    // The server accepts depth 1–5 and defaults to 3.
+    minDepth: 1,
+    maxDepth: 5,
+    defaultDepth: 3,
+  },
+  commissions: {
+    defaultCurrency: 'THB',
+    chartMonths: 6,
+  },
+  // Mirrors the plugin's automatic promotions. Plan metadata can override
+  // these through `auto_upgrade_to`, `auto_upgrade_metric` and
+  // `auto_upgrade_threshold`.
+  upgradeRules: {
+    gold: { nextTier: 'platinum', metric: 'directRecruits', threshold: 2 },
+    platinum: { nextTier: 'black', metric: 'activeNetwork', threshold: 2 },
+  } as Record<string, MembershipUpgradeRule>,
+  // Levels that do not count as active when counting a member's network.
+  inactiveLevels: ['blue'],
+  // Keyed by the lowercase membership level slug the server returns.
+  tierColors: {
+    blue: '#2563EB',
+    gold: '#CA8A04',
+    platinum: '#64748B',
+    black: '#0F172A',
+  } as Record<string, string>,
+};
+
+export type MlmConfig = typeof MLM_CONFIG;
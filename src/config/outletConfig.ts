@@ -0,0 +1,8 @@
+export const OUTLET_CONFIG = {
+  /** Outlets last loaded for each vendor, used while offline. */
+  cacheKey: '@tcnapp/vendor-outlets',
+  /** Outlet chosen on this device for each vendor. */
+  selectionKey: '@tcnapp/vendor-outlet-selection',
+};
+
+export type OutletConfig = typeof OUTLET_CONFIG;
@@ -0,0 +1,14 @@
+export const QR_IMAGE_IMPORT_CONFIG = {
+  /** Downscaled by the picker so decoding in JS stays fast. */
+  picker: {
+    maxWidth: 1280,
+    maxHeight: 1280,
+    quality: 0.9 as const,
+  },
+  /** Codes read from one image before the search stops. */
+  maxCodesPerImage: 5,
+  /** Extra pixels painted over a found code before the next pass. */
+  maskPadding: 8,
+};
+
+export type QrImageImportConfig = typeof QR_IMAGE_IMPORT_CONFIG;
@@ -0,0 +1,18 @@
+import { TcnQrType } from '../types/qr';
+
+export const QR_PAYLOAD_CONFIG = {
+  scheme: 'tcn://',
+  currentVersion: 2,
+  /** Versions this build can decode. Raw member tokens count as version 1. */
+  supportedVersions: [2],
+  /** Hex characters of the SHA-256 checksum appended as `?c=`. */
+  checksumLength: 6,
+  typeSegments: {
+    member: 'm',
+    vendor_promo: 'p',
+    referral: 'r',
+    event_ticket: 'e',
+  } as Record<TcnQrType, string>,
+};
+
+export type QrPayloadConfig = typeof QR_PAYLOAD_CONFIG;
@@ -0,0 +1,15 @@
+export const REDEMPTION_APPROVAL_CONFIG = {
+  /** Turns member-side confirmation of redemptions on or off. */
+  enabled: true,
+  /** Vendor tiers whose redemptions always need member approval. */
+  vendorTiers: [] as string[],
+  /** Gross amount in THB at or above which approval is required. */
+  minGrossAmount: 3000 as number | null,
+  /** How long the vendor waits before the pending redemption lapses. */
+  timeoutMs: 2 * 60 * 1000,
+  vendorPollIntervalMs: 3000,
+  /** Member app fallback when push notifications are unavailable. */
+  memberPollIntervalMs: 20 * 1000,
+};
+
+export type RedemptionApprovalConfig = typeof REDEMPTION_APPROVAL_CONFIG;
@@ -0,0 +1,14 @@
+import { TransactionStatus } from '../types/transactions';
+
+export const REDEMPTION_ELIGIBILITY_CONFIG = {
+  // Entitlements that lapse within this window show a warning first.
+  expiringSoonMs: 30 * 60_000,
+  // Local records in these states count against the member's limits.
+  countedStatuses: [
+    'pending',
+    'completed',
+    'partially_refunded',
+  ] as TransactionStatus[],
+};
+
+export type RedemptionEligibilityConfig = typeof REDEMPTION_ELIGIBILITY_CONFIG;
@@ -0,0 +1,17 @@
+import { WORDPRESS_CONFIG } from './authConfig';
+
+export const REFERRAL_CONFIG = {
+  /** Deep link scheme registered in the Android manifest and Info.plist. */
+  appScheme: 'tcnapp://',
+  registerPath: 'register',
+  queryParam: 'ref',
+  // The plugin stores `tcn_sponsor` in a cookie for web signups.
+  webBaseUrl: WORDPRESS_CONFIG.baseUrl,
+  webQueryParam: 'tcn_sponsor',
+  codePattern: /^[A-Z0-9-]{1,32}$/,
+  storageKey: '@tcnapp/referral/pending',
+  // A code captured before install stays usable this long.
+  pendingTtlMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+export type ReferralConfig = typeof REFERRAL_CONFIG;
@@ -0,0 +1,8 @@
+export const SCAN_QUEUE_CONFIG = {
+  /** Repeat reads of one QR token inside this window are ignored. */
+  duplicateScanWindowMs: 8000,
+  /** Pending checkouts kept before new scans are turned away. */
+  maxQueueLength: 20,
+};
+
+export type ScanQueueConfig = typeof SCAN_QUEUE_CONFIG;
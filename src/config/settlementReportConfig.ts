@@ -0,0 +1,11 @@
+export const SETTLEMENT_REPORT_CONFIG = {
+  storageKey: '@tcnapp/settlement-reports',
+  timezone: 'Asia/Bangkok',
+  // Thailand does not observe daylight saving, so a fixed offset is exact.
+  utcOffsetMinutes: 7 * 60,
+  defaultCurrency: 'THB',
+  maxStoredReports: 62,
+  historyPageSize: 100,
+};
+
+export type SettlementReportConfig = typeof SETTLEMENT_REPORT_CONFIG;
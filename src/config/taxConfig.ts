@@ -0,0 +1,17 @@
+import { VendorTaxSettings } from '../types/transactions';
+
+export const TAX_CONFIG = {
+  storageKey: '@tcnapp/vendor-tax-settings',
+  standardVatRate: 7,
+  standardServiceChargeRate: 10,
+  // Retail vendors quote VAT-inclusive prices without a service charge, which
+  // keeps totals identical to the amount typed at the till.
+  defaultSettings: {
+    serviceChargeRate: 0,
+    vatRate: 7,
+    pricesIncludeVat: true,
+    discountApplication: 'before_service_charge',
+  } as VendorTaxSettings,
+};
+
+export type TaxConfig = typeof TAX_CONFIG;
@@ -0,0 +1,29 @@
+import {
+  TransactionDisputeReason,
+  TransactionDisputeRole,
+  TransactionDisputeStatus,
+} from '../types/transactions';
+
+export const TRANSACTION_DISPUTE_CONFIG = {
+  /** How long after a redemption the member can still dispute it. */
+  disputeWindowMs: 30 * 24 * 60 * 60_000,
+  maxNoteLength: 500,
+  reasons: [
+    'not_me',
+    'wrong_amount',
+    'discount_not_applied',
+  ] as TransactionDisputeReason[],
+  /** Statuses each role may move a dispute to when responding. */
+  statusOptions: {
+    member: [],
+    vendor: ['in_review', 'resolved'],
+    admin: ['in_review', 'resolved', 'rejected'],
+  } as Record<TransactionDisputeRole, TransactionDisputeStatus[]>,
+  photo: {
+    maxWidth: 1600,
+    maxHeight: 1600,
+    quality: 0.8 as const,
+  },
+};
+
+export type TransactionDisputeConfig = typeof TRANSACTION_DISPUTE_CONFIG;
@@ -0,0 +1,45 @@
+import { TransactionExportColumn } from '../types/transactions';
+
+export const TRANSACTION_EXPORT_CONFIG = {
+  pageSize: 100,
+  maxPages: 40,
+  filenamePrefix: 'tcn-transactions',
+  columns: [
+    'id',
+    'createdAt',
+    'status',
+    'memberName',
+    'membershipTier',
+    'vendorName',
+    'grossAmount',
+    'discountPercentage',
+    'discountAmount',
+    'netAmount',
+    'refundedAmount',
+    'currency',
+    'reversalReason',
+  ] as TransactionExportColumn[],
+  defaultColumns: {
+    vendor: [
+      'id',
+      'createdAt',
+      'status',
+      'memberName',
+      'membershipTier',
+      'grossAmount',
+      'discountAmount',
+      'netAmount',
+      'refundedAmount',
+    ] as TransactionExportColumn[],
+    member: [
+      'createdAt',
+      'vendorName',
+      'status',
+      'grossAmount',
+      'discountAmount',
+      'netAmount',
+    ] as TransactionExportColumn[],
+  },
+};
+
+export type TransactionExportConfig = typeof TRANSACTION_EXPORT_CONFIG;
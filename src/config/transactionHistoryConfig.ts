@@ -0,0 +1,10 @@
+import { MembershipTier } from '../types/transactions';
+
+export const TRANSACTION_HISTORY_CONFIG = {
+  pageSize: 25,
+  loadMoreThresholdPx: 240,
+  rangePresetsDays: [7, 30, 90],
+  membershipTiers: ['Gold', 'Platinum', 'Black'] as MembershipTier[],
+};
+
+export type TransactionHistoryConfig = typeof TRANSACTION_HISTORY_CONFIG;
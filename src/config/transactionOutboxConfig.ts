@@ -0,0 +1,8 @@
+export const TRANSACTION_OUTBOX_CONFIG = {
+  storageKey: '@tcnapp/transaction-outbox',
+  baseRetryDelayMs: 5_000,
+  maxRetryDelayMs: 10 * 60_000,
+  foregroundRetryDelayMs: 1_000,
+};
+
+export type TransactionOutboxConfig = typeof TRANSACTION_OUTBOX_CONFIG;
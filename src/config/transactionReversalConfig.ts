@@ -0,0 +1,15 @@
+import { TransactionReversalReason } from '../types/transactions';
+
+export const TRANSACTION_REVERSAL_CONFIG = {
+  voidWindowMs: 15 * 60_000,
+  refundWindowMs: 7 * 24 * 60 * 60_000,
+  reasons: [
+    'wrong_amount',
+    'wrong_member',
+    'customer_cancelled',
+    'duplicate',
+    'other',
+  ] as TransactionReversalReason[],
+};
+
+export type TransactionReversalConfig = typeof TRANSACTION_REVERSAL_CONFIG;
@@ -246,13 +246,8 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({
         return null;
       }
 
-      if (user.qrToken) {
-        return {
-          token: user.qrToken,
-          payload: user.qrPayload ?? null,
-        };
-      }
-
+      // Always ask the server first: the rotation seed is never persisted,
+      // so the stored token is only a fallback for offline starts.
       try {
         const qrCode = await ensureMemberQrCode({
           token: snapshot.token,
@@ -291,6 +286,13 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({
         });
       }
 
+      if (user.qrToken) {
+        return {
+          token: user.qrToken,
+          payload: user.qrPayload ?? null,
+        };
+      }
+
       return null;
     },
     [],
@@ -1068,6 +1070,7 @@ export const AuthProvider: React.FC<React.PropsWithChildren> = ({
         deviceLog.info('Member account registered', {
           username: options.username,
           membershipPlan: options.membershipPlan ?? defaultMembershipPlan ?? null,
+          hasSponsor: Boolean(options.sponsorCode || options.sponsorId),
         });
       }
       return message;
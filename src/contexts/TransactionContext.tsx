@@ -1,13 +1,37 @@
 import React, {
   PropsWithChildren,
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useMemo,
   useReducer,
+  useState,
 } from 'react';
+import { AppState } from 'react-native';
 import { useAuthContext } from './AuthContext';
-import { TransactionRecord } from '../types/transactions';
+import {
+  CreateTransactionDisputeRequest,
+  RecordTransactionRequest,
+  RefundTransactionRequest,
+  TransactionDispute,
+  TransactionOutboxEntry,
+  TransactionRecord,
+  VoidTransactionRequest,
+} from '../types/transactions';
+import {
+  createTransactionDispute,
+  refundTransaction as refundTransactionRequest,
+  voidTransaction as voidTransactionRequest,
+} from '../services/transactionService';
+import {
+  enqueueTransactionOutboxEntry,
+  loadTransactionOutbox,
+  processTransactionOutbox,
+  removeTransactionOutboxEntry,
+  TransactionOutboxResult,
+} from '../services/transactionOutboxService';
+import { TRANSACTION_OUTBOX_CONFIG } from '../config/transactionOutboxConfig';
 import deviceLog from '../utils/deviceLog';
 import { createAppError } from '../errors';
 
@@ -20,23 +44,64 @@ type TransactionAction =
   | { type: 'UPDATE'; payload: { id: string; record: TransactionRecord } }
   | { type: 'PATCH'; payload: { id: string; updates: Partial<TransactionRecord> } }
   | { type: 'SET_ALL'; payload: TransactionRecord[] }
+  | { type: 'MERGE'; payload: TransactionRecord[] }
   | { type: 'RESET' };
 
 const initialState: TransactionState = {
   transactions: [],
 };
 
+const isSameRedemption = (
+  left: TransactionRecord,
+  right: TransactionRecord,
+): boolean =>
+  left.id === right.id ||
+  (Boolean(left.idempotencyKey) &&
+    left.idempotencyKey === right.idempotencyKey);
+
+// A redemption is a single ledger row no matter how many times it was
+// retried, so collapse records that share an id or idempotency key. The record
+// at `preferredIndex` wins, otherwise the first occurrence is kept.
+const dedupeTransactions = (
+  records: TransactionRecord[],
+  preferredIndex?: number,
+): TransactionRecord[] => {
+  const preferred =
+    preferredIndex != null ? records[preferredIndex] : undefined;
+  const kept: TransactionRecord[] = [];
+
+  records.forEach((record, index) => {
+    if (preferred && index !== preferredIndex && isSameRedemption(record, preferred)) {
+      return;
+    }
+    if (kept.some(existing => isSameRedemption(existing, record))) {
+      return;
+    }
+    kept.push(record);
+  });
+
+  return kept;
+};
+
 const transactionReducer = (
   state: TransactionState,
   action: TransactionAction,
 ): TransactionState => {
   switch (action.type) {
     case 'ADD': {
-      const existingIndex = state.transactions.findIndex(
-        transaction => transaction.id === action.payload.id,
+      const existingIndex = state.transactions.findIndex(transaction =>
+        isSameRedemption(transaction, action.payload),
       );
 
       if (existingIndex !== -1) {
+        const existing = state.transactions[existingIndex];
+        if (
+          existing.status === 'completed' &&
+          existing.idempotencyKey &&
+          existing.idempotencyKey === action.payload.idempotencyKey
+        ) {
+          return state;
+        }
         const updated = [...state.transactions];
         updated[existingIndex] = action.payload;
         return { transactions: updated };
@@ -54,7 +119,7 @@ const transactionReducer = (
 
       const updated = [...state.transactions];
       updated[index] = action.payload.record;
-      return { transactions: updated };
+      return { transactions: dedupeTransactions(updated, index) };
     }
     case 'PATCH': {
       const index = state.transactions.findIndex(
@@ -79,17 +144,26 @@ const transactionReducer = (
 
       updated[index] = nextRecord;
 
-      const deduped = updated.filter((transaction, idx) => {
-        if (idx === index) {
-          return true;
+      return { transactions: dedupeTransactions(updated, index) };
+    }
+    case 'SET_ALL':
+      return { transactions: dedupeTransactions(action.payload) };
+    case 'MERGE': {
+      // Pages arrive oldest-last, so fresh copies of known rows replace them in
+      // place and unseen rows are appended after the current list.
+      const incoming = [...action.payload];
+      const updated = state.transactions.map(existing => {
+        const index = incoming.findIndex(record =>
+          isSameRedemption(existing, record),
+        );
+        if (index === -1) {
+          return existing;
         }
-        return transaction.id !== nextRecord.id;
+        const [match] = incoming.splice(index, 1);
+        return match;
       });
-
-      return { transactions: deduped };
+      return { transactions: dedupeTransactions([...updated, ...incoming]) };
     }
-    case 'SET_ALL':
-      return { transactions: [...action.payload] };
     case 'RESET':
       return initialState;
     default:
@@ -109,6 +183,29 @@ type TransactionContextValue = {
     updates: Partial<TransactionRecord>,
   ) => TransactionRecord | null;
   setTransactions: (records: TransactionRecord[]) => void;
+  mergeTransactions: (records: TransactionRecord[]) => void;
+  findTransactionByIdempotencyKey: (
+    idempotencyKey: string,
+  ) => TransactionRecord | null;
+  outbox: TransactionOutboxEntry[];
+  queueTransaction: (
+    record: TransactionRecord,
+    request: RecordTransactionRequest,
+  ) => Promise<void>;
+  retryOutboxEntry: (id?: string) => Promise<void>;
+  discardOutboxEntry: (id: string) => Promise<void>;
+  voidTransaction: (
+    id: string,
+    request: VoidTransactionRequest,
+  ) => Promise<TransactionRecord>;
+  refundTransaction: (
+    id: string,
+    request: RefundTransactionRequest,
+  ) => Promise<TransactionRecord>;
+  disputeTransaction: (
+    id: string,
+    request: CreateTransactionDisputeRequest,
+  ) => Promise<TransactionDispute>;
 };
 
 const TransactionContext = createContext<TransactionContextValue | undefined>(
@@ -119,9 +216,14 @@ export const TransactionProvider: React.FC<PropsWithChildren> = ({
   children,
 }) => {
   const [state, dispatch] = useReducer(transactionReducer, initialState);
+  const [allOutboxEntries, setAllOutboxEntries] = useState<
+    TransactionOutboxEntry[]
+  >([]);
   const {
-    state: { isAuthenticated },
+    state: { isAuthenticated, user },
+    getSessionToken,
   } = useAuthContext();
+  const ownerId = user?.id ?? null;
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -130,6 +232,225 @@ export const TransactionProvider: React.FC<PropsWithChildren> = ({
     }
   }, [isAuthenticated]);
 
+  const outbox = useMemo(
+    () =>
+      isAuthenticated
+        ? allOutboxEntries.filter(entry => entry.request.vendorId === ownerId)
+        : [],
+    [allOutboxEntries, isAuthenticated, ownerId],
+  );
+
+  const applyOutboxResults = useCallback(
+    (results: TransactionOutboxResult[]) => {
+      results.forEach(({ entry, record, outcome }) => {
+        if (outcome === 'retry') {
+          return;
+        }
+        deviceLog.info('transactions.outbox.settled', {
+          id: entry.id,
+          outcome,
+          recordId: record.id,
+        });
+        dispatch({
+          type: 'PATCH',
+          payload: {
+            id: entry.id,
+            updates: { ...record, id: record.id ?? entry.id },
+          },
+        });
+      });
+    },
+    [],
+  );
+
+  const flushOutbox = useCallback(
+    async (options: { ids?: string[]; force?: boolean } = {}) => {
+      if (!isAuthenticated) {
+        return;
+      }
+      try {
+        const authToken = await getSessionToken();
+        const results = await processTransactionOutbox({
+          authToken,
+          vendorId: ownerId,
+          ids: options.ids,
+          force: options.force,
+        });
+        applyOutboxResults(results);
+      } catch (error) {
+        deviceLog.warn('transactions.outbox.flushError', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        setAllOutboxEntries(await loadTransactionOutbox());
+      }
+    },
+    [applyOutboxResults, getSessionToken, isAuthenticated, ownerId],
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let cancelled = false;
+    loadTransactionOutbox()
+      .then(entries => {
+        if (cancelled) {
+          return;
+        }
+        setAllOutboxEntries(entries);
+        entries
+          .filter(entry => entry.request.vendorId === ownerId)
+          .forEach(entry => dispatch({ type: 'ADD', payload: entry.record }));
+      })
+      .catch(error => {
+        deviceLog.warn('transactions.outbox.loadError', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, ownerId]);
+
+  // Retry as soon as the next entry falls due, and whenever the app returns to
+  // the foreground since connectivity usually changes while backgrounded.
+  useEffect(() => {
+    if (!outbox.length) {
+      return;
+    }
+
+    const nextDue = Math.min(
+      ...outbox.map(entry => new Date(entry.nextAttemptAt).getTime()),
+    );
+    const delay = Math.max(
+      TRANSACTION_OUTBOX_CONFIG.foregroundRetryDelayMs,
+      nextDue - Date.now(),
+    );
+    const timer = setTimeout(() => {
+      void flushOutbox();
+    }, delay);
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        void flushOutbox({ force: true });
+      }
+    });
+
+    return () => {
+      clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [flushOutbox, outbox]);
+
+  const queueTransaction = useCallback(
+    async (record: TransactionRecord, request: RecordTransactionRequest) => {
+      deviceLog.info('transactions.outbox.queue', { id: record.id });
+      dispatch({
+        type: 'PATCH',
+        payload: {
+          id: record.id,
+          updates: { status: 'pending', errorMessage: null },
+        },
+      });
+      setAllOutboxEntries(
+        await enqueueTransactionOutboxEntry(record, request, record.errorMessage),
+      );
+    },
+    [],
+  );
+
+  const retryOutboxEntry = useCallback(
+    async (id?: string) => {
+      deviceLog.info('transactions.outbox.retry', { id: id ?? 'all' });
+      await flushOutbox({ ids: id ? [id] : undefined, force: true });
+    },
+    [flushOutbox],
+  );
+
+  const discardOutboxEntry = useCallback(async (id: string) => {
+    deviceLog.info('transactions.outbox.discard', { id });
+    setAllOutboxEntries(await removeTransactionOutboxEntry(id));
+    dispatch({
+      type: 'PATCH',
+      payload: { id, updates: { status: 'failed', retryable: false } },
+    });
+  }, []);
+
+  const reverseTransaction = useCallback(
+    async (
+      id: string,
+      reverse: (
+        record: TransactionRecord,
+        authToken: string | null,
+      ) => Promise<TransactionRecord>,
+    ) => {
+      const existing = state.transactions.find(
+        transaction => transaction.id === id,
+      );
+      if (!existing) {
+        throw createAppError('TRANSACTION_REVERSAL_NOT_ALLOWED', {
+          metadata: { id },
+        });
+      }
+      const authToken = await getSessionToken();
+      const reversed = await reverse(existing, authToken);
+      deviceLog.info('transactions.reversed', {
+        id,
+        status: reversed.status,
+      });
+      dispatch({ type: 'PATCH', payload: { id, updates: reversed } });
+      return reversed;
+    },
+    [getSessionToken, state.transactions],
+  );
+
+  const voidTransaction = useCallback(
+    (id: string, request: VoidTransactionRequest) =>
+      reverseTransaction(id, (record, authToken) =>
+        voidTransactionRequest(record, request, authToken),
+      ),
+    [reverseTransaction],
+  );
+
+  const refundTransaction = useCallback(
+    (id: string, request: RefundTransactionRequest) =>
+      reverseTransaction(id, (record, authToken) =>
+        refundTransactionRequest(record, request, authToken),
+      ),
+    [reverseTransaction],
+  );
+
+  const disputeTransaction = useCallback(
+    async (id: string, request: CreateTransactionDisputeRequest) => {
+      const existing = state.transactions.find(
+        transaction => transaction.id === id,
+      );
+      if (!existing) {
+        throw createAppError('TRANSACTION_DISPUTE_NOT_ALLOWED', {
+          metadata: { id },
+        });
+      }
+      const authToken = await getSessionToken();
+      const dispute = await createTransactionDispute(
+        existing,
+        request,
+        authToken,
+      );
+      dispatch({
+        type: 'PATCH',
+        payload: {
+          id,
+          updates: { disputeId: dispute.id, disputeStatus: dispute.status },
+        },
+      });
+      return dispute;
+    },
+    [getSessionToken, state.transactions],
+  );
+
   const value = useMemo<TransactionContextValue>(
     () => ({
       transactions: state.transactions,
@@ -170,8 +491,32 @@ export const TransactionProvider: React.FC<PropsWithChildren> = ({
         deviceLog.info('transactions.setAll', { count: records.length });
         dispatch({ type: 'SET_ALL', payload: records });
       },
+      mergeTransactions: records => {
+        deviceLog.info('transactions.merge', { count: records.length });
+        dispatch({ type: 'MERGE', payload: records });
+      },
+      findTransactionByIdempotencyKey: idempotencyKey =>
+        state.transactions.find(
+          transaction => transaction.idempotencyKey === idempotencyKey,
+        ) ?? null,
+      outbox,
+      queueTransaction,
+      retryOutboxEntry,
+      discardOutboxEntry,
+      voidTransaction,
+      refundTransaction,
+      disputeTransaction,
     }),
-    [state.transactions],
+    [
+      discardOutboxEntry,
+      disputeTransaction,
+      outbox,
+      queueTransaction,
+      refundTransaction,
+      retryOutboxEntry,
+      state.transactions,
+      voidTransaction,
+    ],
   );
 
   return (
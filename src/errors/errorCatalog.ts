@@ -353,6 +353,54 @@ export const ERROR_CATALOG = {
       'Generic fallback when the membership checkout flow fails.',
     translationKey: 'membership.screen.checkoutError',
   },
+  MLM_GENEALOGY_FETCH_FAILED: {
+    id: 'MLM_GENEALOGY_FETCH_FAILED',
+    code: 'E3007',
+    defaultMessage: 'Unable to load your network.',
+    description:
+      'The tcn-mlm genealogy endpoint failed or returned a payload without a root node.',
+    translationKey: 'genealogy.errors.load',
+  },
+  MLM_COMMISSIONS_FETCH_FAILED: {
+    id: 'MLM_COMMISSIONS_FETCH_FAILED',
+    code: 'E3008',
+    defaultMessage: 'Unable to load your commissions.',
+    description:
+      'The tcn-mlm commissions endpoint failed or returned an invalid payload.',
+    translationKey: 'commissions.errors.load',
+  },
+  MLM_MEMBER_FETCH_FAILED: {
+    id: 'MLM_MEMBER_FETCH_FAILED',
+    code: 'E3009',
+    defaultMessage: 'Unable to load your upgrade progress.',
+    description:
+      'The tcn-mlm member endpoint failed or returned a payload without a user.',
+    translationKey: 'upgradeProgress.errors.load',
+  },
+  MLM_REFERRAL_CODE_INVALID: {
+    id: 'MLM_REFERRAL_CODE_INVALID',
+    code: 'E3010',
+    defaultMessage: 'This referral code is not valid.',
+    description:
+      'The referral code is malformed or the tcn-mlm sponsor endpoint does not know it.',
+    translationKey: 'errors.referralInvalid',
+  },
+  MLM_REFERRAL_LOOKUP_FAILED: {
+    id: 'MLM_REFERRAL_LOOKUP_FAILED',
+    code: 'E3011',
+    defaultMessage: 'Unable to check the referral code.',
+    description:
+      'The tcn-mlm sponsor endpoint failed while validating a referral code.',
+    translationKey: 'errors.referralLookup',
+  },
+  MLM_REFERRAL_QR_UNSUPPORTED: {
+    id: 'MLM_REFERRAL_QR_UNSUPPORTED',
+    code: 'E3012',
+    defaultMessage: 'This QR code is not a referral code.',
+    description:
+      'A QR code scanned from the registration form carried another TCN code type.',
+    translationKey: 'errors.referralNotQr',
+  },
   TRANSACTION_FETCH_FAILED: {
     id: 'TRANSACTION_FETCH_FAILED',
     code: 'E3100',
@@ -391,6 +439,211 @@ export const ERROR_CATALOG = {
       'Fetching member or vendor transaction history failed.',
     translationKey: 'analytics.errors.fetch',
   },
+  TRANSACTION_VOID_FAILED: {
+    id: 'TRANSACTION_VOID_FAILED',
+    code: 'E3105',
+    defaultMessage: 'Unable to void this transaction.',
+    description:
+      'Voiding a recorded vendor transaction failed.',
+    translationKey: 'vendor.screen.reversal.errors.void',
+  },
+  TRANSACTION_REFUND_FAILED: {
+    id: 'TRANSACTION_REFUND_FAILED',
+    code: 'E3106',
+    defaultMessage: 'Unable to refund this transaction.',
+    description:
+      'Refunding all or part of a recorded vendor transaction failed.',
+    translationKey: 'vendor.screen.reversal.errors.refund',
+  },
+  TRANSACTION_REVERSAL_NOT_ALLOWED: {
+    id: 'TRANSACTION_REVERSAL_NOT_ALLOWED',
+    code: 'E3107',
+    defaultMessage: 'This transaction can no longer be reversed.',
+    description:
+      'The undo window has closed, the record is not settled, or the refund amount exceeds what remains.',
+    translationKey: 'vendor.screen.reversal.errors.notAllowed',
+  },
+  TRANSACTION_SETTLEMENT_REPORT_FAILED: {
+    id: 'TRANSACTION_SETTLEMENT_REPORT_FAILED',
+    code: 'E3108',
+    defaultMessage: 'Unable to generate the settlement report.',
+    description:
+      'Loading the business day history for an end-of-day settlement report failed.',
+    translationKey: 'settlement.errors.generate',
+  },
+  TRANSACTION_EXPORT_FAILED: {
+    id: 'TRANSACTION_EXPORT_FAILED',
+    code: 'E3109',
+    defaultMessage: 'Unable to export transactions.',
+    description:
+      'Collecting the transaction history for a CSV or JSON export failed.',
+    translationKey: 'analytics.export.errors.failed',
+  },
+  TRANSACTION_MEMBER_SEARCH_FAILED: {
+    id: 'TRANSACTION_MEMBER_SEARCH_FAILED',
+    code: 'E3110',
+    defaultMessage: 'Unable to search for members.',
+    description:
+      'The manual member search endpoint failed or returned an invalid payload.',
+    translationKey: 'vendor.screen.search.errors.failed',
+  },
+  TRANSACTION_MEMBER_SEARCH_RATE_LIMITED: {
+    id: 'TRANSACTION_MEMBER_SEARCH_RATE_LIMITED',
+    code: 'E3111',
+    defaultMessage: 'Too many member searches. Try again in a few minutes.',
+    description:
+      'The device or server search limit was reached; manual lookups are throttled to prevent member enumeration.',
+    translationKey: 'vendor.screen.search.errors.rateLimited',
+  },
+  TRANSACTION_MEMBER_SEARCH_QUERY_INVALID: {
+    id: 'TRANSACTION_MEMBER_SEARCH_QUERY_INVALID',
+    code: 'E3112',
+    defaultMessage:
+      'Enter a full member number, phone number or email address.',
+    description:
+      'The search value did not match the selected field. Partial values are rejected so members cannot be enumerated.',
+    translationKey: 'vendor.screen.search.errors.query',
+  },
+  TRANSACTION_APPROVAL_FAILED: {
+    id: 'TRANSACTION_APPROVAL_FAILED',
+    code: 'E3113',
+    defaultMessage: 'Unable to update the redemption approval.',
+    description:
+      'Loading pending approvals or sending the member decision for a redemption failed.',
+    translationKey: 'home.approval.errors.failed',
+  },
+  TRANSACTION_APPROVAL_DECLINED: {
+    id: 'TRANSACTION_APPROVAL_DECLINED',
+    code: 'E3114',
+    defaultMessage: 'The member declined this redemption.',
+    description:
+      'The member rejected a redemption that needed their confirmation.',
+    translationKey: 'vendor.screen.approval.declined',
+  },
+  TRANSACTION_APPROVAL_TIMEOUT: {
+    id: 'TRANSACTION_APPROVAL_TIMEOUT',
+    code: 'E3115',
+    defaultMessage: 'The member did not confirm the redemption in time.',
+    description:
+      'No member decision arrived before the approval window closed, or the server expired the request.',
+    translationKey: 'vendor.screen.approval.timeout',
+  },
+  TRANSACTION_DISPUTE_NOT_ALLOWED: {
+    id: 'TRANSACTION_DISPUTE_NOT_ALLOWED',
+    code: 'E3116',
+    defaultMessage: 'This transaction can no longer be disputed.',
+    description:
+      'The redemption is not settled, already has a dispute, or is outside the dispute window.',
+    translationKey: 'disputes.errors.notAllowed',
+  },
+  TRANSACTION_DISPUTE_SUBMIT_FAILED: {
+    id: 'TRANSACTION_DISPUTE_SUBMIT_FAILED',
+    code: 'E3117',
+    defaultMessage: 'Unable to submit the dispute.',
+    description:
+      'The dispute or its photo could not be uploaded to the disputes endpoint.',
+    translationKey: 'disputes.errors.submit',
+  },
+  TRANSACTION_DISPUTE_FETCH_FAILED: {
+    id: 'TRANSACTION_DISPUTE_FETCH_FAILED',
+    code: 'E3118',
+    defaultMessage: 'Unable to load disputes.',
+    description: 'The disputes list request failed or returned an error.',
+    translationKey: 'disputes.errors.fetch',
+  },
+  TRANSACTION_DISPUTE_RESPONSE_FAILED: {
+    id: 'TRANSACTION_DISPUTE_RESPONSE_FAILED',
+    code: 'E3119',
+    defaultMessage: 'Unable to send the dispute response.',
+    description:
+      'The vendor or admin reply could not be saved, or the requested status change was refused.',
+    translationKey: 'disputes.errors.respond',
+  },
+  TRANSACTION_MEMBER_QR_EXPIRED: {
+    id: 'TRANSACTION_MEMBER_QR_EXPIRED',
+    code: 'E3120',
+    defaultMessage:
+      'This QR code has expired. Ask the member to show it again.',
+    description:
+      'The time window in the scanned member QR is outside the accepted drift, usually a screenshot or an old code.',
+    translationKey: 'vendor.screen.qr.errors.expired',
+  },
+  TRANSACTION_MEMBER_QR_REPLAYED: {
+    id: 'TRANSACTION_MEMBER_QR_REPLAYED',
+    code: 'E3121',
+    defaultMessage:
+      'This QR code was already used. Ask the member for a new one.',
+    description:
+      'The same signed member QR window was already redeemed on this device.',
+    translationKey: 'vendor.screen.qr.errors.replayed',
+  },
+  TRANSACTION_MEMBER_QR_SIGNATURE_INVALID: {
+    id: 'TRANSACTION_MEMBER_QR_SIGNATURE_INVALID',
+    code: 'E3122',
+    defaultMessage: 'This QR code could not be verified.',
+    description:
+      'The scanned member QR has a malformed signature, or the server rejected its HMAC.',
+    translationKey: 'vendor.screen.qr.errors.signature',
+  },
+  TRANSACTION_QR_CHECKSUM_INVALID: {
+    id: 'TRANSACTION_QR_CHECKSUM_INVALID',
+    code: 'E3123',
+    defaultMessage: 'The QR code did not scan cleanly. Try again.',
+    description:
+      'The checksum of a versioned TCN QR payload did not match its contents, usually a camera misread.',
+    translationKey: 'vendor.screen.qr.errors.checksum',
+  },
+  TRANSACTION_QR_UNSUPPORTED: {
+    id: 'TRANSACTION_QR_UNSUPPORTED',
+    code: 'E3124',
+    defaultMessage: 'This QR code is not supported by this version of the app.',
+    description:
+      'The scanned tcn:// payload has an unknown type or a version this build cannot decode.',
+    translationKey: 'vendor.screen.qr.errors.unsupported',
+  },
+  TRANSACTION_QR_IMAGE_PICK_FAILED: {
+    id: 'TRANSACTION_QR_IMAGE_PICK_FAILED',
+    code: 'E3125',
+    defaultMessage: 'Unable to open your photos. Please try again.',
+    description:
+      'The image picker failed or returned no image data for a QR photo import.',
+    translationKey: 'vendor.screen.qr.photo.errors.pick',
+  },
+  TRANSACTION_QR_IMAGE_UNREADABLE: {
+    id: 'TRANSACTION_QR_IMAGE_UNREADABLE',
+    code: 'E3126',
+    defaultMessage: 'This photo could not be read. Use a PNG or JPEG image.',
+    description:
+      'The imported photo is not a PNG or JPEG, or its pixels could not be decoded.',
+    translationKey: 'vendor.screen.qr.photo.errors.unreadable',
+  },
+  TRANSACTION_QR_IMAGE_NOT_FOUND: {
+    id: 'TRANSACTION_QR_IMAGE_NOT_FOUND',
+    code: 'E3127',
+    defaultMessage:
+      'No QR code was found in this photo. Try a sharper or closer image.',
+    description:
+      'The imported photo decoded correctly but contained no readable QR code.',
+    translationKey: 'vendor.screen.qr.photo.errors.notFound',
+  },
+  TRANSACTION_MEMBER_QR_UNSIGNED: {
+    id: 'TRANSACTION_MEMBER_QR_UNSIGNED',
+    code: 'E3128',
+    defaultMessage:
+      'This member code is out of date. Ask the member to open their QR code in the app.',
+    description:
+      'A bare static member token was scanned or typed while rotating QR codes are required.',
+    translationKey: 'vendor.screen.qr.errors.unsigned',
+  },
+  TRANSACTION_SETTLEMENT_HISTORY_TRUNCATED: {
+    id: 'TRANSACTION_SETTLEMENT_HISTORY_TRUNCATED',
+    code: 'E3129',
+    defaultMessage:
+      'This day has too many transactions to settle on the device. Use the web dashboard.',
+    description:
+      'The business day history hit the page limit, so the settlement report was not locked with partial totals.',
+    translationKey: 'settlement.errors.truncated',
+  },
   ADMIN_DASHBOARD_LOAD_FAILED: {
     id: 'ADMIN_DASHBOARD_LOAD_FAILED',
     code: 'E3200',
@@ -431,6 +684,70 @@ export const ERROR_CATALOG = {
     description:
       'Vendor tier list endpoint failed or returned an invalid payload.',
   },
+  VENDOR_CASHIER_PIN_INCORRECT: {
+    id: 'VENDOR_CASHIER_PIN_INCORRECT',
+    code: 'E3302',
+    defaultMessage: 'Incorrect cashier PIN.',
+    description: 'The PIN entered while switching cashier did not match.',
+    translationKey: 'vendor.screen.cashier.errors.pin',
+  },
+  VENDOR_CASHIER_NAME_INVALID: {
+    id: 'VENDOR_CASHIER_NAME_INVALID',
+    code: 'E3303',
+    defaultMessage: 'Enter a cashier name that is not already in use.',
+    description:
+      'A cashier profile was created with an empty or duplicate name.',
+    translationKey: 'vendor.screen.cashier.errors.name',
+  },
+  VENDOR_OUTLETS_FETCH_FAILED: {
+    id: 'VENDOR_OUTLETS_FETCH_FAILED',
+    code: 'E3304',
+    defaultMessage: 'Unable to load outlets.',
+    description:
+      'Vendor outlet list endpoint failed or returned an invalid payload.',
+  },
+  VENDOR_FRAUD_OVERRIDE_REJECTED: {
+    id: 'VENDOR_FRAUD_OVERRIDE_REJECTED',
+    code: 'E3305',
+    defaultMessage: 'Supervisor PIN is incorrect.',
+    description:
+      'A flagged redemption was not approved because the supervisor PIN did not match.',
+    translationKey: 'vendor.screen.fraud.errors.pin',
+  },
+  VENDOR_SUPERVISOR_PIN_MISSING: {
+    id: 'VENDOR_SUPERVISOR_PIN_MISSING',
+    code: 'E3306',
+    defaultMessage:
+      'Set a quick login PIN on the vendor account to approve flagged sales and manage cashiers.',
+    description:
+      'Flagged redemptions and cashier changes need the vendor account PIN, but none is registered on this device.',
+    translationKey: 'vendor.screen.fraud.errors.noPin',
+  },
+  VENDOR_SUPERVISOR_PIN_INCORRECT: {
+    id: 'VENDOR_SUPERVISOR_PIN_INCORRECT',
+    code: 'E3307',
+    defaultMessage: 'Supervisor PIN is incorrect.',
+    description:
+      'A cashier was not added or removed because the vendor account PIN did not match.',
+    translationKey: 'vendor.screen.cashier.errors.supervisor',
+  },
+  VENDOR_CASHIER_LOCKED: {
+    id: 'VENDOR_CASHIER_LOCKED',
+    code: 'E3308',
+    defaultMessage: 'Too many incorrect PINs. Try again in a few minutes.',
+    description:
+      'The cashier profile is cooling down after repeated wrong PINs on this device.',
+    translationKey: 'vendor.screen.cashier.errors.locked',
+  },
+  VENDOR_SUPERVISOR_LOCKED: {
+    id: 'VENDOR_SUPERVISOR_LOCKED',
+    code: 'E3309',
+    defaultMessage:
+      'Too many incorrect supervisor PINs. Try again in a few minutes.',
+    description:
+      'Supervisor actions on this device are cooling down after repeated wrong vendor account PINs.',
+    translationKey: 'vendor.screen.cashier.errors.supervisorLocked',
+  },
   NOTIFICATIONS_APP_ID_MISSING: {
     id: 'NOTIFICATIONS_APP_ID_MISSING',
     code: 'E4000',
@@ -488,6 +805,14 @@ export const ERROR_CATALOG = {
       'Developer integration error: Localization hook accessed outside provider chain.',
     severity: 'error',
   },
+  PROVIDER_REFERRAL_MISSING: {
+    id: 'PROVIDER_REFERRAL_MISSING',
+    code: 'E9005',
+    defaultMessage: 'useReferral must be used within a ReferralProvider.',
+    description:
+      'Developer integration error: Referral hook accessed outside provider chain.',
+    severity: 'error',
+  },
 } as const satisfies Record<string, ErrorDescriptor>;
 
 export type ErrorId = keyof typeof ERROR_CATALOG;
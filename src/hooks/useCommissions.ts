@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { fetchCommissions } from '../services/commissionService';
+import { CommissionLedger } from '../types/mlm';
+import { ensureAppError } from '../errors';
+
+export interface UseCommissionsResult {
+  ledger: CommissionLedger | null;
+  isLoading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refresh: () => Promise<void>;
+}
+
+export const useCommissions = (): UseCommissionsResult => {
+  const { getSessionToken } = useAuthContext();
+  const { translateError } = useLocalization();
+  const [ledger, setLedger] = useState<CommissionLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      setLedger(await fetchCommissions(token));
+      setLastUpdated(new Date());
+    } catch (fetchError) {
+      const appError = ensureAppError(
+        fetchError,
+        'MLM_COMMISSIONS_FETCH_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSessionToken, translateError]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { ledger, isLoading, error, lastUpdated, refresh };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLocalization } from '../contexts/LocalizationContext';
+import {
+  fetchDisputes,
+  respondToDispute,
+} from '../services/transactionService';
+import {
+  RespondToDisputeRequest,
+  TransactionDispute,
+  TransactionDisputeRole,
+  TransactionDisputeStatus,
+} from '../types/transactions';
+import { ensureAppError } from '../errors';
+
+export interface UseDisputesResult {
+  disputes: TransactionDispute[];
+  /** Status the list is narrowed to, or null for every dispute. */
+  statusFilter: TransactionDisputeStatus | null;
+  setStatusFilter: (status: TransactionDisputeStatus | null) => void;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  respond: (
+    dispute: TransactionDispute,
+    request: RespondToDisputeRequest,
+  ) => Promise<TransactionDispute>;
+}
+
+export const useDisputes = (
+  role: TransactionDisputeRole,
+): UseDisputesResult => {
+  const { getSessionToken } = useAuthContext();
+  const { translateError } = useLocalization();
+  const [disputes, setDisputes] = useState<TransactionDispute[]>([]);
+  const [statusFilter, setStatusFilter] =
+    useState<TransactionDisputeStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const loaded = await fetchDisputes(
+        role,
+        token,
+        statusFilter ? [statusFilter] : [],
+      );
+      setDisputes(
+        [...loaded].sort(
+          (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt),
+        ),
+      );
+    } catch (fetchError) {
+      const appError = ensureAppError(
+        fetchError,
+        'TRANSACTION_DISPUTE_FETCH_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSessionToken, role, statusFilter, translateError]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const respond = useCallback(
+    async (dispute: TransactionDispute, request: RespondToDisputeRequest) => {
+      const token = await getSessionToken();
+      const updated = await respondToDispute(dispute, request, token);
+      setDisputes(previous =>
+        previous
+          .map(item => (item.id === updated.id ? updated : item))
+          .filter(item => !statusFilter || item.status === statusFilter),
+      );
+      return updated;
+    },
+    [getSessionToken, statusFilter],
+  );
+
+  return {
+    disputes,
+    statusFilter,
+    setStatusFilter,
+    isLoading,
+    error,
+    refresh,
+    respond,
+  };
+};
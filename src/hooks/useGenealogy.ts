@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { fetchGenealogy } from '../services/genealogyService';
+import { GenealogyNode, GenealogyTree } from '../types/mlm';
+import { clampGenealogyDepth } from '../utils/genealogy';
+import { ensureAppError } from '../errors';
+
+export interface UseGenealogyResult {
+  tree: GenealogyTree | null;
+  /** Depth picked in the selector. Expanding nodes may load deeper. */
+  depth: number;
+  setDepth: (depth: number) => void;
+  isLoading: boolean;
+  /** Node whose recruits are being fetched, if any. */
+  loadingNodeId: number | null;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /**
+   * Fetches the level below `node`. Resolves false when the server depth
+   * limit has been reached.
+   */
+  loadChildren: (node: GenealogyNode) => Promise<boolean>;
+}
+
+export const useGenealogy = (): UseGenealogyResult => {
+  const { getSessionToken } = useAuthContext();
+  const { translateError } = useLocalization();
+  const [tree, setTree] = useState<GenealogyTree | null>(null);
+  const [depth, setDepthState] = useState<number>(
+    MLM_CONFIG.genealogy.defaultDepth,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingNodeId, setLoadingNodeId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update the tree.
+  const requestRef = useRef(0);
+
+  const load = useCallback(
+    async (requestedDepth: number) => {
+      const requestId = requestRef.current + 1;
+      requestRef.current = requestId;
+      setError(null);
+      try {
+        const token = await getSessionToken();
+        const loaded = await fetchGenealogy(requestedDepth, token);
+        if (requestRef.current === requestId) {
+          setTree(loaded);
+        }
+      } catch (fetchError) {
+        if (requestRef.current === requestId) {
+          const appError = ensureAppError(
+            fetchError,
+            'MLM_GENEALOGY_FETCH_FAILED',
+            { propagateMessage: true },
+          );
+          setError(translateError(appError) ?? appError.toDisplayString());
+        }
+      }
+    },
+    [getSessionToken, translateError],
+  );
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      await load(depth);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [depth, load]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const setDepth = useCallback((next: number) => {
+    setDepthState(clampGenealogyDepth(next));
+  }, []);
+
+  const loadChildren = useCallback(
+    async (node: GenealogyNode) => {
+      const required = node.depth + 1;
+      if (required > MLM_CONFIG.genealogy.maxDepth) {
+        return false;
+      }
+      if (tree && tree.depth >= required) {
+        return true;
+      }
+      // The endpoint only serves the signed-in member's tree, so deeper
+      // levels are loaded by asking for the whole tree at a larger depth.
+      setLoadingNodeId(node.id);
+      try {
+        await load(required);
+      } finally {
+        setLoadingNodeId(null);
+      }
+      return true;
+    },
+    [load, tree],
+  );
+
+  return {
+    tree,
+    depth,
+    setDepth,
+    isLoading,
+    loadingNodeId,
+    error,
+    refresh,
+    loadChildren,
+  };
+};
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useOneSignalNotifications } from '../notifications/OneSignalProvider';
+import {
+  fetchPendingApprovals,
+  respondToRedemptionApproval,
+} from '../services/transactionService';
+import { REDEMPTION_APPROVAL_CONFIG } from '../config/redemptionApprovalConfig';
+import {
+  MemberApprovalDecision,
+  RedemptionApprovalRequest,
+} from '../types/transactions';
+import deviceLog from '../utils/deviceLog';
+
+export interface UseRedemptionApprovalsResult {
+  /** Redemptions waiting for this member, oldest first. */
+  requests: RedemptionApprovalRequest[];
+  respond: (
+    transactionId: string,
+    decision: MemberApprovalDecision,
+  ) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const isOpen = (request: RedemptionApprovalRequest) =>
+  !request.expiresAt || Date.parse(request.expiresAt) > Date.now();
+
+/**
+ * Loads redemptions the member still has to confirm. Push notifications
+ * trigger an immediate refresh; polling covers devices without push.
+ */
+export const useRedemptionApprovals = (): UseRedemptionApprovalsResult => {
+  const {
+    state: { isAuthenticated },
+    getSessionToken,
+  } = useAuthContext();
+  const { activeNotification } = useOneSignalNotifications();
+  const [requests, setRequests] = useState<RedemptionApprovalRequest[]>([]);
+  const enabled = REDEMPTION_APPROVAL_CONFIG.enabled && isAuthenticated;
+
+  const refresh = useCallback(async () => {
+    if (!enabled) {
+      setRequests([]);
+      return;
+    }
+    try {
+      const pending = await fetchPendingApprovals(await getSessionToken());
+      setRequests(
+        pending
+          .filter(isOpen)
+          .sort(
+            (a, b) => Date.parse(a.requestedAt) - Date.parse(b.requestedAt),
+          ),
+      );
+    } catch (error) {
+      deviceLog.debug('memberApproval.fetch.error', {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [enabled, getSessionToken]);
+
+  useEffect(() => {
+    void refresh();
+    if (!enabled) {
+      return;
+    }
+    const interval = setInterval(
+      () => void refresh(),
+      REDEMPTION_APPROVAL_CONFIG.memberPollIntervalMs,
+    );
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  useEffect(() => {
+    if (activeNotification?.category === 'approval') {
+      void refresh();
+    }
+  }, [activeNotification, refresh]);
+
+  const respond = useCallback(
+    async (transactionId: string, decision: MemberApprovalDecision) => {
+      await respondToRedemptionApproval(
+        transactionId,
+        decision,
+        await getSessionToken(),
+      );
+      setRequests(previous =>
+        previous.filter(request => request.transactionId !== transactionId),
+      );
+    },
+    [getSessionToken],
+  );
+
+  return { requests, respond, refresh };
+};
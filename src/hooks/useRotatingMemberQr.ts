@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { MemberQrCode } from '../types/auth';
+import {
+  clampWindowSeconds,
+  encodeSignedMemberQr,
+  getMsUntilRotation,
+} from '../utils/memberQr';
+import { encodeTcnQr, isTcnQrPayload } from '../utils/qrPayload';
+
+export interface RotatingMemberQr {
+  /**
+   * Versioned `tcn://m/v2/...` value to render, or null when nothing can be
+   * shown.
+   */
+  value: string | null;
+  rotating: boolean;
+  windowSeconds: number;
+  msRemaining: number;
+}
+
+/**
+ * Re-signs the member payload every second so the card always shows the
+ * code for the current window. Codes without a rotation seed are static.
+ */
+export const useRotatingMemberQr = (
+  qrCode: MemberQrCode | null | undefined,
+): RotatingMemberQr => {
+  const [now, setNow] = useState(() => Date.now());
+  const rotation = qrCode?.rotation ?? null;
+
+  useEffect(() => {
+    if (!rotation) {
+      return undefined;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [rotation]);
+
+  if (!qrCode) {
+    return { value: null, rotating: false, windowSeconds: 0, msRemaining: 0 };
+  }
+
+  if (!rotation) {
+    // Servers that already issue versioned payloads are shown as-is.
+    const value = qrCode.payload ?? qrCode.token ?? null;
+    return {
+      value:
+        value && !isTcnQrPayload(value) ? encodeTcnQr('member', value) : value,
+      rotating: false,
+      windowSeconds: 0,
+      msRemaining: 0,
+    };
+  }
+
+  const windowSeconds = clampWindowSeconds(rotation.windowSeconds);
+  return {
+    value: encodeTcnQr(
+      'member',
+      encodeSignedMemberQr(qrCode.token, rotation, now),
+    ),
+    rotating: true,
+    windowSeconds,
+    msRemaining: getMsUntilRotation(windowSeconds, now),
+  };
+};
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MemberLookupResult, ScanQueueEntry } from '../types/transactions';
+import {
+  admitScan,
+  createScanQueueEntry,
+  resolveScanQueueEntry,
+  ScanAdmission,
+} from '../utils/scanQueue';
+import { getMemberQrToken } from '../utils/memberQr';
+import deviceLog from '../utils/deviceLog';
+
+export interface UseScanQueueOptions {
+  validate: (token: string) => Promise<MemberLookupResult>;
+  describeError: (error: unknown) => string;
+}
+
+export interface UseScanQueueResult {
+  entries: ScanQueueEntry[];
+  /** Queues a scanned token and validates it in the background. */
+  enqueue: (token: string) => ScanAdmission;
+  remove: (entryId: string) => void;
+  clear: () => void;
+}
+
+export const useScanQueue = ({
+  validate,
+  describeError,
+}: UseScanQueueOptions): UseScanQueueResult => {
+  const [entries, setEntries] = useState<ScanQueueEntry[]>([]);
+  const entriesRef = useRef<ScanQueueEntry[]>([]);
+  const lastSeenRef = useRef<Record<string, number>>({});
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const update = useCallback(
+    (updater: (previous: ScanQueueEntry[]) => ScanQueueEntry[]) => {
+      entriesRef.current = updater(entriesRef.current);
+      setEntries(entriesRef.current);
+    },
+    [],
+  );
+
+  /**
+   * Applies a finished validation to its entry. Lookups that resolve after
+   * the screen unmounted or the entry was removed are dropped.
+   */
+  const settle = useCallback(
+    (entryId: string, resolve: (entry: ScanQueueEntry) => ScanQueueEntry) => {
+      if (
+        !isMountedRef.current ||
+        !entriesRef.current.some(item => item.id === entryId)
+      ) {
+        deviceLog.debug('vendor.scanQueue.staleResult', { id: entryId });
+        return;
+      }
+      update(previous =>
+        previous.map(item => (item.id === entryId ? resolve(item) : item)),
+      );
+    },
+    [update],
+  );
+
+  const enqueue = useCallback(
+    (token: string): ScanAdmission => {
+      const trimmed = token.trim();
+      const member = getMemberQrToken(trimmed);
+      const now = new Date();
+      const admission = admitScan(
+        entriesRef.current,
+        lastSeenRef.current[member],
+        trimmed,
+        now.getTime(),
+      );
+      lastSeenRef.current[member] = now.getTime();
+      if (admission !== 'accepted') {
+        if (admission === 'full') {
+          deviceLog.info('vendor.scanQueue.full', {
+            size: entriesRef.current.length,
+          });
+        }
+        return admission;
+      }
+
+      const entry = createScanQueueEntry(trimmed, now);
+      update(previous => [...previous, entry]);
+      deviceLog.debug('vendor.scanQueue.enqueued', {
+        id: entry.id,
+        size: entriesRef.current.length,
+      });
+
+      validate(trimmed)
+        .then(result => {
+          settle(entry.id, item =>
+            resolveScanQueueEntry(item, result, new Date()),
+          );
+        })
+        .catch(error => {
+          settle(entry.id, item => ({
+            ...item,
+            status: 'error',
+            errorMessage: describeError(error),
+          }));
+        });
+      return admission;
+    },
+    [describeError, settle, update, validate],
+  );
+
+  const remove = useCallback(
+    (entryId: string) => {
+      update(previous => previous.filter(entry => entry.id !== entryId));
+    },
+    [update],
+  );
+
+  const clear = useCallback(() => {
+    update(() => []);
+    lastSeenRef.current = {};
+  }, [update]);
+
+  return { entries, enqueue, remove, clear };
+};
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useTransactionContext } from '../contexts/TransactionContext';
 import { useLocalization } from '../contexts/LocalizationContext';
@@ -6,21 +6,45 @@ import {
   fetchMemberTransactions,
   fetchVendorTransactions,
 } from '../services/transactionService';
-import { TransactionRecord } from '../types/transactions';
 import {
+  collectTransactionHistory,
+  shareTransactionExport,
+} from '../services/transactionExportService';
+import {
+  CreateTransactionDisputeRequest,
+  RefundTransactionRequest,
+  TransactionDispute,
+  TransactionExportFile,
+  TransactionExportRequest,
+  TransactionHistoryFilters,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+  TransactionRecord,
+  VoidTransactionRequest,
+} from '../types/transactions';
+import {
+  CashierPerformanceDatum,
   MonthlySavingsDatum,
+  OutletPerformanceDatum,
   VendorPerformanceDatum,
   StatusBreakdownDatum,
+  buildCashierBreakdown,
   buildMonthlySavings,
+  buildOutletBreakdown,
   buildStatusBreakdown,
   buildVendorPerformance,
   calculateCompletedCount,
   calculateTotalSavings,
 } from '../utils/transactionAnalytics';
+import {
+  TransactionExportScope,
+  buildTransactionExport,
+} from '../utils/transactionExport';
 import { ensureAppError } from '../errors';
 
 interface UseTransactionsAnalyticsOptions {
   preservePending?: boolean;
+  exportScope?: TransactionExportScope;
 }
 
 export interface UseTransactionsAnalyticsResult {
@@ -28,6 +52,8 @@ export interface UseTransactionsAnalyticsResult {
   monthlySavings: MonthlySavingsDatum[];
   topVendors: VendorPerformanceDatum[];
   statusBreakdown: StatusBreakdownDatum[];
+  cashierBreakdown: CashierPerformanceDatum[];
+  outletBreakdown: OutletPerformanceDatum[];
   totalSavings: number;
   completedCount: number;
   isLoading: boolean;
@@ -35,6 +61,27 @@ export interface UseTransactionsAnalyticsResult {
   error: string | null;
   lastUpdated: Date | null;
   refresh: () => Promise<void>;
+  filters: TransactionHistoryFilters;
+  setFilters: (filters: TransactionHistoryFilters) => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  totalCount: number | null;
+  loadMore: () => Promise<void>;
+  voidTransaction: (
+    id: string,
+    request: VoidTransactionRequest,
+  ) => Promise<TransactionRecord>;
+  refundTransaction: (
+    id: string,
+    request: RefundTransactionRequest,
+  ) => Promise<TransactionRecord>;
+  disputeTransaction: (
+    id: string,
+    request: CreateTransactionDisputeRequest,
+  ) => Promise<TransactionDispute>;
+  exportHistory: (
+    request: TransactionExportRequest,
+  ) => Promise<TransactionExportFile>;
 }
 
 const sortTransactionsByDate = (
@@ -43,9 +90,7 @@ const sortTransactionsByDate = (
   return [...records].sort((a, b) => {
     const left = new Date(a.createdAt).getTime();
     const right = new Date(b.createdAt).getTime();
-    return Number.isFinite(right) && Number.isFinite(left)
-      ? right - left
-      : 0;
+    return Number.isFinite(right) && Number.isFinite(left) ? right - left : 0;
   });
 };
 
@@ -67,47 +112,208 @@ const mergeTransactions = (
   return sortTransactionsByDate(Array.from(byId.values()));
 };
 
+interface HistoryCursor {
+  cursor: string | null;
+  page: number | null;
+  hasMore: boolean;
+  total: number | null;
+}
+
+const INITIAL_CURSOR: HistoryCursor = {
+  cursor: null,
+  page: null,
+  hasMore: false,
+  total: null,
+};
+
+const toHistoryCursor = (page: TransactionHistoryPage): HistoryCursor => ({
+  cursor: page.nextCursor,
+  page: page.nextPage,
+  hasMore: page.hasMore,
+  total: page.total,
+});
+
+const hasActiveFilters = (filters: TransactionHistoryFilters): boolean =>
+  Object.values(filters).some(value =>
+    Array.isArray(value) ? value.length > 0 : value != null && value !== '',
+  );
+
 const useTransactionsAnalytics = (
-  fetcher: (token?: string | null) => Promise<TransactionRecord[]>,
+  fetcher: (
+    token?: string | null,
+    query?: TransactionHistoryQuery,
+  ) => Promise<TransactionHistoryPage>,
   options: UseTransactionsAnalyticsOptions = {},
 ): UseTransactionsAnalyticsResult => {
   const { getSessionToken } = useAuthContext();
-  const { transactions, setTransactions } = useTransactionContext();
-  const { translateError } = useLocalization();
+  const {
+    transactions,
+    mergeTransactions: mergeTransactionPage,
+    voidTransaction,
+    refundTransaction,
+    disputeTransaction,
+  } = useTransactionContext();
+  const { t, translateError } = useLocalization();
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [filters, setFilters] = useState<TransactionHistoryFilters>({});
+  // The loaded history pages stay local to the hook. Only unfiltered pages are
+  // merged into the shared list, which the dashboard aggregates and the scan
+  // screen's eligibility and fraud checks read, so a filter or a fresh first
+  // page never hides the rest of the vendor's history from them.
+  const [history, setHistory] = useState<TransactionRecord[]>([]);
+  const [historyCursor, setHistoryCursor] =
+    useState<HistoryCursor>(INITIAL_CURSOR);
+  const hasRequestedInitialLoad = useRef(false);
+  const appliedFilters = useRef(filters);
+
+  const reportError = useCallback(
+    (fetchError: unknown) => {
+      const appError = ensureAppError(fetchError, 'TRANSACTION_FETCH_FAILED', {
+        propagateMessage: true,
+      });
+      const message = translateError(appError) ?? appError.toDisplayString();
+      setError(message);
+    },
+    [translateError],
+  );
 
   const refresh = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
       const token = await getSessionToken();
-      const remote = await fetcher(token);
-      const pending = options.preservePending
-        ? transactions.filter(record => record.status !== 'completed')
-        : [];
-      const merged = options.preservePending
-        ? mergeTransactions(remote, pending)
-        : sortTransactionsByDate(remote);
-      setTransactions(merged);
+      const page = await fetcher(token, { ...filters, page: 1 });
+      if (!hasActiveFilters(filters)) {
+        mergeTransactionPage(page.records);
+      }
+      setHistory(sortTransactionsByDate(page.records));
+      setHistoryCursor(toHistoryCursor(page));
       setLastUpdated(new Date());
     } catch (fetchError) {
-      const appError = ensureAppError(fetchError, 'TRANSACTION_FETCH_FAILED', {
-        propagateMessage: true,
-      });
-      const message = translateError(appError) ?? appError.toDisplayString();
-      setError(message);
+      reportError(fetchError);
     } finally {
       setIsLoading(false);
     }
-  }, [fetcher, getSessionToken, options.preservePending, setTransactions, transactions, translateError]);
+  }, [fetcher, filters, getSessionToken, mergeTransactionPage, reportError]);
+
+  const loadMore = useCallback(async () => {
+    if (!historyCursor.hasMore || isLoading || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    try {
+      const token = await getSessionToken();
+      const page = await fetcher(token, {
+        ...filters,
+        cursor: historyCursor.cursor,
+        page: historyCursor.cursor ? null : historyCursor.page,
+      });
+      const knownIds = new Set(history.map(record => record.id));
+      const unseen = page.records.filter(record => !knownIds.has(record.id));
+      if (!hasActiveFilters(filters)) {
+        mergeTransactionPage(page.records);
+      }
+      setHistory(current => mergeTransactions(current, page.records));
+      // Stop paging if the server ignores pagination and keeps sending the
+      // same rows, otherwise the list would request pages forever.
+      setHistoryCursor({
+        ...toHistoryCursor(page),
+        hasMore: page.hasMore && unseen.length > 0,
+      });
+    } catch (fetchError) {
+      reportError(fetchError);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [
+    fetcher,
+    filters,
+    getSessionToken,
+    history,
+    historyCursor,
+    isLoading,
+    isLoadingMore,
+    mergeTransactionPage,
+    reportError,
+  ]);
+
+  const exportHistory = useCallback(
+    async (request: TransactionExportRequest) => {
+      try {
+        const token = await getSessionToken();
+        const { records: remote, truncated } = await collectTransactionHistory(
+          fetcher,
+          token,
+          { from: request.from ?? null, to: request.to ?? null },
+        );
+        const records = options.preservePending
+          ? mergeTransactions(
+              remote,
+              transactions.filter(
+                record =>
+                  record.status === 'pending' || record.status === 'failed',
+              ),
+            )
+          : remote;
+        const file = {
+          ...buildTransactionExport(
+            records,
+            request,
+            options.exportScope ?? 'member',
+            t,
+          ),
+          truncated,
+        };
+        await shareTransactionExport(file);
+        return file;
+      } catch (exportError) {
+        throw ensureAppError(exportError, 'TRANSACTION_EXPORT_FAILED', {
+          propagateMessage: true,
+        });
+      }
+    },
+    [
+      fetcher,
+      getSessionToken,
+      options.exportScope,
+      options.preservePending,
+      t,
+      transactions,
+    ],
+  );
 
   useEffect(() => {
-    if (!transactions.length) {
+    if (!hasRequestedInitialLoad.current) {
+      hasRequestedInitialLoad.current = true;
       void refresh();
     }
-  }, [refresh, transactions.length]);
+  }, [refresh]);
+
+  // Voids, refunds and new sales land in the shared list first, so show the
+  // latest copy of each loaded row and, without filters, the local sales the
+  // server has not returned yet.
+  const visibleTransactions = useMemo(() => {
+    const latest = new Map(transactions.map(record => [record.id, record]));
+    const loaded = history.map(record => latest.get(record.id) ?? record);
+    if (hasActiveFilters(filters)) {
+      return loaded;
+    }
+    return options.preservePending
+      ? mergeTransactions(loaded, transactions)
+      : loaded;
+  }, [filters, history, options.preservePending, transactions]);
+
+  useEffect(() => {
+    if (appliedFilters.current === filters) {
+      return;
+    }
+    appliedFilters.current = filters;
+    void refresh();
+  }, [filters, refresh]);
 
   const monthlySavings = useMemo(
     () => buildMonthlySavings(transactions),
@@ -121,6 +327,14 @@ const useTransactionsAnalytics = (
     () => buildStatusBreakdown(transactions),
     [transactions],
   );
+  const cashierBreakdown = useMemo(
+    () => buildCashierBreakdown(transactions),
+    [transactions],
+  );
+  const outletBreakdown = useMemo(
+    () => buildOutletBreakdown(transactions),
+    [transactions],
+  );
   const totalSavings = useMemo(
     () => calculateTotalSavings(transactions),
     [transactions],
@@ -131,10 +345,12 @@ const useTransactionsAnalytics = (
   );
 
   return {
-    transactions,
+    transactions: visibleTransactions,
     monthlySavings,
     topVendors,
     statusBreakdown,
+    cashierBreakdown,
+    outletBreakdown,
     totalSavings,
     completedCount,
     isLoading,
@@ -142,15 +358,28 @@ const useTransactionsAnalytics = (
     error,
     lastUpdated,
     refresh,
+    filters,
+    setFilters,
+    hasMore: historyCursor.hasMore,
+    isLoadingMore,
+    totalCount: historyCursor.total,
+    loadMore,
+    voidTransaction,
+    refundTransaction,
+    disputeTransaction,
+    exportHistory,
   };
 };
 
 export const useMemberTransactions = (): UseTransactionsAnalyticsResult => {
-  return useTransactionsAnalytics(fetchMemberTransactions);
+  return useTransactionsAnalytics(fetchMemberTransactions, {
+    exportScope: 'member',
+  });
 };
 
 export const useVendorTransactions = (): UseTransactionsAnalyticsResult => {
   return useTransactionsAnalytics(fetchVendorTransactions, {
     preservePending: true,
+    exportScope: 'vendor',
   });
 };
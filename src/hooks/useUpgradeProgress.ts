@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { fetchGenealogy } from '../services/genealogyService';
+import {
+  DEFAULT_MEMBERSHIP_PLANS,
+  fetchMembershipPlans,
+} from '../services/membershipService';
+import { fetchMlmMember } from '../services/mlmMemberService';
+import { MembershipPlan } from '../types/auth';
+import {
+  GenealogyNode,
+  MembershipUpgradeRule,
+  MlmMemberProfile,
+  UpgradeProgress,
+} from '../types/mlm';
+import {
+  buildUpgradeProgress,
+  resolveUpgradeRules,
+} from '../utils/upgradeProgress';
+import deviceLog from '../utils/deviceLog';
+import { ensureAppError } from '../errors';
+
+export interface UseUpgradeProgressResult {
+  member: MlmMemberProfile | null;
+  progress: UpgradeProgress | null;
+  rules: Record<string, MembershipUpgradeRule>;
+  /** Plans the rules were read from, for the metadata note. */
+  plans: MembershipPlan[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Loads the member counters and their network. Screens that already load the
+ * plan catalogue pass it in, even while it is empty; otherwise it is fetched
+ * here.
+ */
+export const useUpgradeProgress = (
+  providedPlans?: MembershipPlan[],
+): UseUpgradeProgressResult => {
+  const { getSessionToken } = useAuthContext();
+  const { translateError } = useLocalization();
+  const [member, setMember] = useState<MlmMemberProfile | null>(null);
+  const [tree, setTree] = useState<GenealogyNode | null>(null);
+  const [fetchedPlans, setFetchedPlans] = useState<MembershipPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const shouldFetchPlans = providedPlans === undefined;
+
+  const plans = useMemo(
+    () =>
+      providedPlans?.length
+        ? providedPlans
+        : fetchedPlans.length
+        ? fetchedPlans
+        : DEFAULT_MEMBERSHIP_PLANS,
+    [fetchedPlans, providedPlans],
+  );
+  const rules = useMemo(() => resolveUpgradeRules(plans), [plans]);
+  // Read inside refresh so a late plan catalogue does not refetch the member.
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = await getSessionToken();
+      const loaded = await fetchMlmMember(token);
+      setMember(loaded);
+
+      // The progress card still works from the member counters when the
+      // network cannot be loaded, so that failure is only logged.
+      try {
+        const depth =
+          loaded.level &&
+          rulesRef.current[loaded.level]?.metric === 'activeNetwork'
+            ? MLM_CONFIG.genealogy.maxDepth
+            : MLM_CONFIG.genealogy.minDepth;
+        setTree((await fetchGenealogy(depth, token)).root);
+      } catch (treeError) {
+        const appError = ensureAppError(
+          treeError,
+          'MLM_GENEALOGY_FETCH_FAILED',
+        );
+        deviceLog.warn('upgradeProgress.genealogy.error', {
+          code: appError.code,
+        });
+        setTree(null);
+      }
+
+      if (shouldFetchPlans) {
+        try {
+          setFetchedPlans(await fetchMembershipPlans(token ?? undefined));
+        } catch (planError) {
+          const appError = ensureAppError(
+            planError,
+            'MEMBERSHIP_PLANS_FETCH_FAILED',
+          );
+          deviceLog.warn('upgradeProgress.plans.error', {
+            code: appError.code,
+          });
+        }
+      }
+    } catch (fetchError) {
+      const appError = ensureAppError(fetchError, 'MLM_MEMBER_FETCH_FAILED', {
+        propagateMessage: true,
+      });
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getSessionToken, shouldFetchPlans, translateError]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const progress = useMemo(
+    () =>
+      member
+        ? buildUpgradeProgress({
+            tier: member.level,
+            directRecruits: member.directRecruits,
+            tree,
+            rules,
+          })
+        : null,
+    [member, rules, tree],
+  );
+
+  return { member, progress, rules, plans, isLoading, error, refresh };
+};
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuthContext } from '../contexts/AuthContext';
+import {
+  getCachedOutlets,
+  getSelectedOutletId,
+  loadOutlets,
+  resolveSelectedOutlet,
+  saveSelectedOutletId,
+} from '../services/outletService';
+import { VendorOutlet } from '../types/vendor';
+
+export interface UseVendorOutletsResult {
+  outlets: VendorOutlet[];
+  /** Outlet this device redeems for, persisted across launches. */
+  selectedOutlet: VendorOutlet | null;
+  selectOutlet: (outletId: string | null) => Promise<void>;
+  isLoading: boolean;
+}
+
+export const useVendorOutlets = (): UseVendorOutletsResult => {
+  const {
+    state: { user },
+    getSessionToken,
+  } = useAuthContext();
+  const vendorId = user?.id ?? null;
+  const [outlets, setOutlets] = useState<VendorOutlet[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([getCachedOutlets(vendorId), getSelectedOutletId(vendorId)])
+      .then(([cached, storedId]) => {
+        if (!cancelled) {
+          setOutlets(cached);
+          setSelectedId(storedId);
+        }
+        return getSessionToken().then(token => loadOutlets(vendorId, token));
+      })
+      .then(loaded => {
+        if (!cancelled) {
+          setOutlets(loaded);
+        }
+      })
+      .catch(() => {
+        // The cached list stays in place when the session or network fails.
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getSessionToken, vendorId]);
+
+  const selectOutlet = useCallback(
+    async (outletId: string | null) => {
+      setSelectedId(outletId);
+      await saveSelectedOutletId(vendorId, outletId);
+    },
+    [vendorId],
+  );
+
+  const selectedOutlet = useMemo(
+    () => resolveSelectedOutlet(outlets, selectedId),
+    [outlets, selectedId],
+  );
+
+  return { outlets, selectedOutlet, selectOutlet, isLoading };
+};
@@ -132,6 +132,13 @@ export const translations: Record<Language, TranslationDictionary> = {
         success: 'Account created successfully. Please log in to continue.',
         successVendor:
           'Thank you! Your vendor application is pending review. We will notify you once an administrator activates your account.',
+        sponsorLabel: 'Sponsor referral code',
+        sponsorPlaceholder: 'Optional',
+        sponsorChecking: 'Checking referral code…',
+        sponsorConfirmed: 'Sponsor: {{name}}',
+        sponsorLinked: 'Filled in from your invite.',
+        sponsorScan: 'Scan referral QR',
+        sponsorScanClose: 'Close scanner',
       },
       postLoginDiagnostics: {
         title: 'Verifying your connection',
@@ -237,6 +244,10 @@ export const translations: Record<Language, TranslationDictionary> = {
         openAdminConsole: 'Open admin console',
         openAdminConsoleMessage:
           'Review user accounts, approve vendors, and manage statuses.',
+        viewGenealogy: 'My network',
+        viewGenealogyMessage: 'See the members in your sponsor tree.',
+        viewCommissions: 'My earnings',
+        viewCommissionsMessage: 'Track commissions from your recruits.',
         comingSoonTitle: 'Coming soon',
       },
       transactions: {
@@ -249,12 +260,29 @@ export const translations: Record<Language, TranslationDictionary> = {
           pending: 'Pending',
           completed: 'Completed',
           failed: 'Failed',
+          voided: 'Voided',
+          refunded: 'Refunded',
+          partially_refunded: 'Partially refunded',
+        },
+      },
+      approval: {
+        title: 'Confirm this redemption',
+        description:
+          'A vendor is applying your member discount. Approve only if you are at the counter.',
+        gross: 'Bill total',
+        discount: 'Your discount',
+        net: 'You pay',
+        approve: 'Approve',
+        decline: 'Decline',
+        errors: {
+          failed: 'We could not send your answer. Please try again.',
         },
       },
       notifications: {
         heading: 'Notifications',
         promotionTitle: 'New offer available',
         renewalTitle: 'Membership reminder',
+        approvalTitle: 'Redemption waiting for you',
         genericTitle: 'Latest update',
         viewDetails: 'View details',
         dismiss: 'Dismiss',
@@ -390,12 +418,238 @@ export const translations: Record<Language, TranslationDictionary> = {
           estimatedNet:
             'Estimated total after discount: {{total}} THB',
           submit: 'Record transaction',
+          queued:
+            'No connection to the server. The transaction was saved and will be sent automatically.',
           errors: {
             invalidAmount: 'Enter a valid gross amount before submitting.',
             submit: 'Unable to record the transaction. Please try again.',
             noMember: 'Validate a member before recording a transaction.',
+            duplicate:
+              'This redemption has already been recorded. Scan the member again to start a new one.',
+            inProgress:
+              'This redemption is already being sent. Please wait for it to finish.',
+          },
+        },
+        basket: {
+          title: 'Basket',
+          itemise: 'Itemise basket',
+          add: 'Add item',
+          remove: 'Remove',
+          descriptionPlaceholder: 'Item description',
+          quantity: 'Qty',
+          unitPrice: 'Unit price',
+          discountable: 'Discount applies',
+          excluded: 'No discount',
+          untitled: 'Item',
+          lineSummary: '{{quantity}} × {{description}}',
+          summary:
+            'Basket {{gross}} · Eligible {{eligible}} · Excluded {{excluded}}',
+        },
+        outlet: {
+          choose: 'Choose the outlet this device is at',
+          current: 'Outlet: {{name}}',
+          hours: 'Today {{hours}}',
+          closedToday: 'Closed today',
+          required: 'Choose an outlet before scanning members.',
+        },
+        cashier: {
+          none: 'No cashier signed in',
+          active: 'Cashier: {{name}}',
+          activeOption: '{{name}} (active)',
+          switch: 'Switch cashier',
+          title: 'Cashiers',
+          description:
+            'Each cashier unlocks the till with their own PIN so sales are attributed to them.',
+          empty: 'No cashiers yet. Add the first one below.',
+          pin: 'Cashier PIN',
+          unlock: 'Unlock',
+          remove: 'Remove cashier',
+          add: 'Add cashier',
+          newName: 'Name',
+          newPin: 'PIN (at least 4 digits)',
+          create: 'Save cashier',
+          supervisorPin: 'Supervisor PIN (vendor account)',
+          confirmRemove: 'Confirm removal',
+          signOut: 'Sign out current cashier',
+          close: 'Close',
+          required: 'Choose a cashier before recording a sale.',
+          errors: {
+            pin: 'Incorrect cashier PIN.',
+            name: 'Enter a cashier name that is not already in use.',
+            save: 'Unable to update cashiers. Please try again.',
+            supervisor: 'Supervisor PIN is incorrect.',
+            locked: 'Too many incorrect PINs. Try again in a few minutes.',
+            supervisorLocked:
+              'Too many incorrect supervisor PINs. Try again in a few minutes.',
+          },
+        },
+        qr: {
+          errors: {
+            expired:
+              'This QR code has expired. Ask the member to show it again.',
+            replayed:
+              'This QR code was already used. Ask the member for a new one.',
+            signature: 'This QR code could not be verified.',
+            unsigned:
+              'This member code is out of date. Ask the member to open their QR code in the app.',
+            checksum: 'The QR code did not scan cleanly. Try again.',
+            unsupported:
+              'This QR code is not supported by this version of the app.',
+          },
+          types: {
+            vendor_promo:
+              'This is a vendor promotion code. Scan the member card to apply a discount.',
+            referral:
+              'This is a referral code. Members use it when they sign up, not at the till.',
+            event_ticket:
+              'This is an event ticket. Tickets are checked at the event entrance.',
+          },
+          promo: {
+            applied:
+              'Promotion {{code}} will be applied to the next sale. Scan the member card to continue.',
+            clear: 'Remove promotion',
+          },
+          referral: {
+            saved:
+              'Referral code {{code}} saved. It will be filled in when someone signs up on this device.',
+          },
+          photo: {
+            button: 'Import from photo',
+            reading: 'Reading photo…',
+            choose: 'This photo has several QR codes. Choose one:',
+            option: 'Code {{index}} · ends {{suffix}}',
+            cancel: 'Cancel',
+            errors: {
+              pick: 'Unable to open your photos. Please try again.',
+              unreadable:
+                'This photo could not be read. Use a PNG or JPEG image.',
+              notFound:
+                'No QR code was found in this photo. Try a sharper or closer image.',
+            },
+          },
+        },
+        search: {
+          open: 'QR not scanning? Find member',
+          title: 'Find a member',
+          description:
+            'Ask the member for their full member number, phone or email. Searches are limited and logged.',
+          fields: {
+            member_number: 'Member number',
+            phone: 'Phone',
+            email: 'Email',
+          },
+          placeholders: {
+            member_number: 'e.g. TCN-104233',
+            phone: 'e.g. 081 234 5678',
+            email: 'name@example.com',
+          },
+          submit: 'Search',
+          lastDigits: 'Ending in {{digits}}',
+          noResults: 'No member matches those details.',
+          close: 'Close',
+          errors: {
+            failed: 'Unable to search for members.',
+            rateLimited:
+              'Too many member searches. Try again in a few minutes.',
+            query: 'Enter a full member number, phone number or email address.',
+          },
+        },
+        queue: {
+          continuousOff: 'Continuous scanning: off',
+          continuousOn: 'Continuous scanning: on',
+          title: 'Checkout queue ({{count}})',
+          empty: 'Keep scanning — members appear here while they are checked.',
+          unknownMember: 'Member …{{suffix}}',
+          validating: 'Checking membership…',
+          ready: 'Ready to check out',
+          checkout: 'Check out',
+          remove: 'Remove',
+          full: 'The queue is full. Check out or remove members before scanning more.',
+        },
+        fraud: {
+          title: 'Supervisor approval needed',
+          description:
+            'This redemption looks unusual. A supervisor must enter the vendor PIN to record it.',
+          pin: 'Supervisor PIN',
+          approve: 'Approve and record',
+          cancel: 'Cancel redemption',
+          signals: {
+            repeat_scan:
+              'This QR code was scanned {{observed}} times in the last few minutes.',
+            member_velocity:
+              'This member already redeemed {{observed}} times in the last 30 minutes.',
+            amount_outlier:
+              'Bill of {{observed}} THB is far above the usual amount (limit {{threshold}} THB).',
+            after_failed_lookup:
+              'Scanned right after {{observed}} failed lookup(s) on this device.',
+          },
+          errors: {
+            pin: 'Supervisor PIN is incorrect.',
+            noPin:
+              'Set a quick login PIN on this device before approving flagged redemptions or managing cashiers.',
           },
         },
+        approval: {
+          waiting: 'Waiting for the member to approve on their phone…',
+          countdown: 'Expires in {{time}}',
+          declined: 'The member declined this redemption.',
+          timeout:
+            'The member did not respond in time. The redemption was not applied.',
+        },
+        tax: {
+          open: 'Tax & service charge (service {{service}}% · VAT {{vat}}%)',
+          title: 'Tax & service charge',
+          description:
+            'Set the service charge and VAT rates applied to bills at this outlet.',
+          serviceChargeRate: 'Service charge (%)',
+          vatRate: 'VAT (%)',
+          pricesIncludeVat: 'Prices already include VAT',
+          applicationLabel: 'Apply discount',
+          applications: {
+            before_service_charge: 'Before service charge',
+            after_service_charge: 'After service charge',
+          },
+          serviceCharge: 'Service charge {{rate}}%: {{amount}}',
+          vatIncluded: 'Includes VAT {{rate}}%: {{amount}}',
+          vatAdded: 'VAT {{rate}}%: {{amount}}',
+          totalPayable: 'Total payable: {{total}}',
+          recordSummary: 'Service {{service}} · VAT {{vat}} · Payable {{total}}',
+          save: 'Save',
+          cancel: 'Cancel',
+          errors: {
+            rate: 'Enter a rate between 0 and 100.',
+            save: 'Unable to save tax settings.',
+          },
+        },
+        rules: {
+          title: 'Promotions applied',
+          tier: '{{tier}} member discount',
+          cap: 'Promotion cap',
+        },
+        eligibility: {
+          reasons: {
+            daily_limit_reached:
+              'This member has used all of today’s discount redemptions.',
+            total_limit_reached:
+              'This member has no discount redemptions left.',
+            expired: 'This discount has expired.',
+            not_yet_valid: 'This discount is not valid yet.',
+            last_daily_use:
+              'This is the member’s last discount redemption for today.',
+            last_use: 'This is the member’s final discount redemption.',
+            expiring_soon: 'This discount expires in {{time}}.',
+          },
+          countdown: 'Next redemption allowed in {{time}}',
+          usage: 'Used today: {{today}} · Total used: {{total}}',
+        },
+        outbox: {
+          title: 'Waiting to send',
+          hint: 'These transactions are stored on this device and retry automatically when the connection returns.',
+          attempts: 'Attempt {{count}}',
+          summary: 'Original {{gross}} THB · Queued at {{time}}',
+          retry: 'Retry now',
+          discard: 'Discard',
+        },
         recent: {
           title: 'Recent transactions',
           empty: 'No recent transactions yet.',
@@ -405,6 +659,41 @@ export const translations: Record<Language, TranslationDictionary> = {
             pending: 'Pending',
             completed: 'Completed',
             failed: 'Failed',
+            voided: 'Voided',
+            refunded: 'Refunded',
+            partially_refunded: 'Partially refunded',
+          },
+        },
+        reversal: {
+          undo: 'Undo ({{time}})',
+          refund: 'Refund',
+          voidTitle: 'Void transaction',
+          voidHint:
+            'Voiding cancels the whole redemption. It is only available for a short time after recording.',
+          refundTitle: 'Refund transaction',
+          refundHint: 'Up to {{amount}} THB can still be refunded.',
+          reasonLabel: 'Reason',
+          reasons: {
+            wrong_amount: 'Wrong amount',
+            wrong_member: 'Wrong member',
+            customer_cancelled: 'Customer cancelled',
+            duplicate: 'Duplicate charge',
+            other: 'Other',
+          },
+          amountLabel: 'Refund amount (THB)',
+          amountPlaceholder: 'Leave empty for a full refund',
+          noteLabel: 'Note (optional)',
+          confirmVoid: 'Void transaction',
+          confirmRefund: 'Issue refund',
+          cancel: 'Cancel',
+          refunded: 'Refunded {{amount}} THB · {{reason}}',
+          voided: 'Voided · {{reason}}',
+          errors: {
+            void: 'Unable to void this transaction.',
+            refund: 'Unable to refund this transaction.',
+            notAllowed: 'This transaction can no longer be reversed.',
+            reason: 'Select a reason before continuing.',
+            amount: 'Enter an amount between 0.01 and {{max}} THB.',
           },
         },
         logout: 'Sign out',
@@ -426,6 +715,9 @@ export const translations: Record<Language, TranslationDictionary> = {
         completed: 'Completed',
         pending: 'Pending',
         failed: 'Failed',
+        voided: 'Voided',
+        refunded: 'Refunded',
+        partially_refunded: 'Partially refunded',
       },
       member: {
         title: 'Savings analytics',
@@ -437,6 +729,17 @@ export const translations: Record<Language, TranslationDictionary> = {
         subtitle: 'Review member activity and savings at your location.',
         empty: 'Record transactions to see your analytics summary.',
       },
+      cashiers: {
+        title: 'Sales by cashier',
+        unassigned: 'No cashier',
+        summary: '{{count}} sales · {{gross}} THB · {{discount}} THB discount',
+        empty: 'No settled sales to break down yet.',
+      },
+      outlets: {
+        title: 'Outlet comparison',
+        unassigned: 'No outlet',
+        share: '{{share}}% of sales',
+      },
       charts: {
         monthlySavings: {
           title: 'Monthly savings',
@@ -450,14 +753,299 @@ export const translations: Record<Language, TranslationDictionary> = {
         },
         transactionStatus: {
           title: 'Transaction status',
-          tooltip: 'Completed vs pending vs failed transactions.',
+          tooltip: 'Completed, pending, failed and reversed transactions.',
           empty: 'No transaction history to chart yet.',
         },
       },
+      filters: {
+        range: {
+          all: 'All time',
+          days: 'Last {{count}} days',
+        },
+        status: 'Status',
+        tier: 'Membership tier',
+        minAmount: 'Min amount (THB)',
+        maxAmount: 'Max amount (THB)',
+        outlet: 'Outlet',
+        clear: 'Clear filters',
+      },
+      history: {
+        title: 'Transaction history',
+        empty: 'No transactions match these filters.',
+        loadingMore: 'Loading more transactions…',
+        end: 'You have reached the end of your history.',
+        count: 'Showing {{shown}} of {{total}}',
+        summary: 'Paid {{net}} THB · Saved {{discount}} THB',
+        cashier: 'Cashier: {{name}}',
+        outlet: 'Outlet: {{name}}',
+      },
+      export: {
+        open: 'Export',
+        title: 'Export transactions',
+        description:
+          'Choose a format, date range and columns, then share the file.',
+        formatLabel: 'Format',
+        rangeLabel: 'Date range',
+        columnsLabel: 'Columns',
+        formats: {
+          csv: 'CSV (Excel)',
+          json: 'JSON',
+        },
+        columns: {
+          id: 'Transaction ID',
+          createdAt: 'Date',
+          status: 'Status',
+          memberName: 'Member',
+          membershipTier: 'Tier',
+          vendorName: 'Vendor',
+          grossAmount: 'Gross',
+          discountPercentage: 'Discount %',
+          discountAmount: 'Discount',
+          netAmount: 'Net',
+          refundedAmount: 'Refunded',
+          currency: 'Currency',
+          reversalReason: 'Reversal reason',
+        },
+        confirm: 'Export and share',
+        cancel: 'Cancel',
+        truncated:
+          'Shared {{count}} transactions, but older history was left out. Choose a shorter date range to export the rest.',
+        errors: {
+          columns: 'Select at least one column.',
+          failed: 'Unable to export transactions.',
+        },
+      },
       errors: {
         fetch: 'Unable to load transactions.',
       },
     },
+    settlement: {
+      title: 'End-of-day settlement',
+      subtitle:
+        'Totals for the Bangkok business day. Reports lock once the day has ended.',
+      previousDay: 'Previous day',
+      nextDay: 'Next day',
+      generate: 'Generate Z-report',
+      notGenerated: 'No report has been generated for this day yet.',
+      lockedAt: 'Locked at {{timestamp}}',
+      provisional:
+        'Provisional as of {{timestamp}}. The report locks after the business day ends and every queued sale has been sent.',
+      open: 'Z-report',
+      shareTitle: 'Z-report {{date}}',
+      shareCsv: 'Share CSV',
+      shareHtml: 'Share HTML',
+      showPrintPreview: 'Show print preview',
+      hidePrintPreview: 'Hide print preview',
+      empty: 'No sales on this day.',
+      unknownTier: 'No tier',
+      totals: 'Total',
+      countLabel: '{{count}} sales',
+      tierSummary:
+        'Gross {{gross}} · Discount {{discount}} · Net {{net}} · Refunded {{refunded}}',
+      columns: {
+        count: 'Count',
+        gross: 'Gross',
+        discount: 'Discount',
+        net: 'Net',
+        refunded: 'Refunded',
+        settled: 'Settled',
+        id: 'Transaction ID',
+        time: 'Time',
+        member: 'Member',
+        tier: 'Tier',
+        reason: 'Reason',
+        status: 'Status',
+      },
+      fields: {
+        businessDate: 'Business date',
+        timezone: 'Time zone',
+        generatedAt: 'Generated at',
+        currency: 'Currency',
+        firstTransaction: 'First transaction',
+        lastTransaction: 'Last transaction',
+      },
+      sections: {
+        byTier: 'Totals by tier',
+        statusCounts: 'Transactions by status',
+        failed: 'Failed transactions',
+        voided: 'Voided transactions',
+      },
+      errors: {
+        generate: 'Unable to generate the settlement report.',
+        truncated:
+          'This day has too many transactions to settle on the device. Use the web dashboard.',
+      },
+    },
+    disputes: {
+      report: 'Report a problem',
+      rowStatus: 'Dispute: {{status}}',
+      reasons: {
+        not_me: 'This was not me',
+        wrong_amount: 'Wrong amount',
+        discount_not_applied: 'Discount not applied',
+      },
+      status: {
+        open: 'Open',
+        in_review: 'In review',
+        resolved: 'Resolved',
+        rejected: 'Rejected',
+      },
+      roles: {
+        member: 'Member',
+        vendor: 'Vendor',
+        admin: 'TCN support',
+      },
+      form: {
+        title: 'Report a problem',
+        description:
+          'Tell us what went wrong with your {{amount}} THB purchase at {{vendor}}.',
+        reasonLabel: 'What happened?',
+        noteLabel: 'Details (optional)',
+        notePlaceholder:
+          'Anything that helps the vendor and our team review it',
+        photoLabel: 'Photo of the receipt (optional)',
+        addPhoto: 'Attach photo',
+        removePhoto: 'Remove photo',
+        submit: 'Submit dispute',
+        cancel: 'Cancel',
+        errors: {
+          reason: 'Select what went wrong before submitting.',
+          photo: 'Unable to open your photos. Please try again.',
+        },
+      },
+      respond: {
+        title: 'Respond to dispute',
+        messageLabel: 'Message to the member',
+        statusLabel: 'Update status',
+        keepStatus: 'Keep current status',
+        submit: 'Send response',
+        cancel: 'Cancel',
+        errors: {
+          message: 'Write a message before sending.',
+        },
+      },
+      inbox: {
+        open: 'Disputes',
+        title: 'Disputes',
+        subtitle: {
+          vendor: 'Members who flagged one of your sales.',
+          admin: 'Every dispute raised by members across all vendors.',
+        },
+        all: 'All',
+        empty: 'No disputes to show.',
+        member: 'Member',
+        parties: '{{member}} · {{vendor}}',
+        transaction: 'Sale on {{date}} · Net {{net}} · Discount {{discount}}',
+        opened: 'Opened {{date}}',
+        respond: 'Respond',
+      },
+      errors: {
+        notAllowed: 'This transaction can no longer be disputed.',
+        submit: 'Unable to submit the dispute.',
+        fetch: 'Unable to load disputes.',
+        respond: 'Unable to send the dispute response.',
+      },
+    },
+    genealogy: {
+      title: 'My network',
+      subtitle: 'Members you and your recruits have sponsored.',
+      you: 'You',
+      noTier: 'No tier',
+      recruits: '{{count}} recruits',
+      searchPlaceholder: 'Search by name',
+      depthLabel: 'Levels',
+      empty: 'You have not sponsored any members yet.',
+      noMatches: 'No members match your search.',
+      depthLimit: 'Deeper levels are not available in the app.',
+      details: {
+        tier: 'Tier: {{tier}}',
+        level: 'Level {{level}} in your network',
+        downline: '{{count}} members loaded below',
+        hint: 'Select a member to see their details.',
+      },
+      errors: {
+        load: 'Unable to load your network.',
+      },
+    },
+    commissions: {
+      title: 'My earnings',
+      subtitle: 'Commissions from members you and your network recruited.',
+      summary: {
+        total: 'Total earned',
+        paid: 'Paid out',
+        pending: 'Pending',
+      },
+      charts: {
+        monthly: {
+          title: 'Monthly earnings',
+          tooltip: 'Paid and pending commissions per month.',
+          empty: 'No commissions in the last months.',
+        },
+        levels: {
+          title: 'Direct vs passive',
+          tooltip: 'Split of earnings by commission level.',
+          empty: 'No commissions yet.',
+        },
+      },
+      ledger: {
+        title: 'Commission ledger',
+        allStatuses: 'All statuses',
+        allLevels: 'All levels',
+        empty: 'No commissions match these filters.',
+        loading: 'Loading commissions…',
+      },
+      status: {
+        pending: 'Pending',
+        paid: 'Paid',
+        cancelled: 'Cancelled',
+      },
+      levels: {
+        direct: 'Direct',
+        passive: 'Passive',
+      },
+      member: {
+        unknown: 'Member #{{id}}',
+        total: 'You earned {{amount}} from this member.',
+        order: 'Order #{{id}}',
+        close: 'Close',
+      },
+      errors: {
+        load: 'Unable to load your commissions.',
+      },
+    },
+    upgradeProgress: {
+      title: 'Automatic upgrade',
+      currentTier: 'Current tier',
+      nextTier: 'Next tier',
+      progress: '{{current}} of {{threshold}}',
+      remaining: '{{count}} more to reach {{tier}}.',
+      reached: 'Target reached. {{tier}} is applied automatically.',
+      topTier: 'You are on the highest automatic tier.',
+      noRule: 'Your current tier has no automatic upgrade.',
+      rulesTitle: 'How it works',
+      rules: {
+        directRecruits:
+          '{{from}} members move up to {{to}} automatically after recruiting {{threshold}} direct members.',
+        activeNetwork:
+          '{{from}} members move up to {{to}} automatically once {{threshold}} members of their network are active.',
+      },
+      metrics: {
+        directRecruits: 'Direct recruits',
+        activeNetwork: 'Active network members',
+      },
+      recruits: {
+        title: 'Your recruits',
+        hint: 'Recruits on a paid tier count as active.',
+        empty: 'No recruits yet.',
+        active: 'Active',
+        inactive: 'Not active',
+      },
+      loading: 'Loading upgrade progress…',
+      retry: 'Try again',
+      errors: {
+        load: 'Unable to load your upgrade progress.',
+      },
+    },
     profile: {
       title: 'Your profile',
       subtitle: 'Manage your account security preferences.',
@@ -496,6 +1084,8 @@ export const translations: Record<Language, TranslationDictionary> = {
         tokenLabel: 'Token: {{token}}',
         issuedAt: 'Issued {{date}}',
         expiresAt: 'Expires {{date}}',
+        rotating: 'New code in {{seconds}}s',
+        rotatingHint: 'This code changes regularly. Screenshots will not work.',
         accountTypes: {
           member: 'Member account',
           vendor: 'Vendor account',
@@ -503,6 +1093,17 @@ export const translations: Record<Language, TranslationDictionary> = {
           admin: 'Admin account',
         },
       },
+      referral: {
+        title: 'Invite members',
+        subtitle:
+          'Members who sign up with your code join your network as your direct recruits.',
+        codeLabel: 'Your referral code',
+        qrHint: 'Scan this code in the app while creating an account.',
+        share: 'Share invite',
+        shareMessage:
+          'Join me on The Consumer Network with referral code {{code}}: {{link}}\nNo app yet? Sign up here: {{webLink}}',
+        empty: 'Your referral code appears once your account is ready.',
+      },
       password: {
         heading: 'Change password',
         description: 'Update the password you use to sign in.',
@@ -599,6 +1200,9 @@ export const translations: Record<Language, TranslationDictionary> = {
       vendorRejected: 'Your vendor application has been rejected.',
       vendorSuspended:
         'Your vendor account has been suspended. Contact support for assistance.',
+      referralInvalid: 'That referral code is not valid.',
+      referralLookup: 'Unable to check the referral code. Please try again.',
+      referralNotQr: 'This QR code is not a referral code.',
     },
   },
   th: {
@@ -724,6 +1328,13 @@ export const translations: Record<Language, TranslationDictionary> = {
         success: 'สร้างบัญชีเรียบร้อย กรุณาเข้าสู่ระบบเพื่อเริ่มต้น.',
         successVendor:
           'ขอบคุณ! คำขอสมัครเป็นร้านค้าของคุณกำลังรอการตรวจสอบ เราจะแจ้งให้ทราบเมื่อเปิดใช้งาน.',
+        sponsorLabel: 'รหัสแนะนำของผู้แนะนำ',
+        sponsorPlaceholder: 'ไม่บังคับ',
+        sponsorChecking: 'กำลังตรวจสอบรหัสแนะนำ…',
+        sponsorConfirmed: 'ผู้แนะนำ: {{name}}',
+        sponsorLinked: 'กรอกให้จากคำเชิญของคุณ',
+        sponsorScan: 'สแกน QR รหัสแนะนำ',
+        sponsorScanClose: 'ปิดตัวสแกน',
       },
       postLoginDiagnostics: {
         title: 'กำลังตรวจสอบการเชื่อมต่อของคุณ',
@@ -825,6 +1436,10 @@ export const translations: Record<Language, TranslationDictionary> = {
         openAdminConsole: 'เปิดคอนโซลผู้ดูแล',
         openAdminConsoleMessage:
           'ตรวจสอบบัญชีผู้ใช้ อนุมัติร้านค้า และจัดการสถานะ.',
+        viewGenealogy: 'เครือข่ายของฉัน',
+        viewGenealogyMessage: 'ดูสมาชิกในสายการแนะนำของคุณ',
+        viewCommissions: 'รายได้ของฉัน',
+        viewCommissionsMessage: 'ติดตามค่าคอมมิชชันจากผู้ที่คุณแนะนำ',
         comingSoonTitle: 'เร็ว ๆ นี้',
       },
       transactions: {
@@ -837,12 +1452,29 @@ export const translations: Record<Language, TranslationDictionary> = {
           pending: 'รอดำเนินการ',
           completed: 'เสร็จสมบูรณ์',
           failed: 'ไม่สำเร็จ',
+          voided: 'ยกเลิกแล้ว',
+          refunded: 'คืนเงินแล้ว',
+          partially_refunded: 'คืนเงินบางส่วน',
+        },
+      },
+      approval: {
+        title: 'ยืนยันการใช้ส่วนลดนี้',
+        description:
+          'ร้านค้ากำลังใช้ส่วนลดสมาชิกของคุณ โปรดอนุมัติเฉพาะเมื่อคุณอยู่ที่เคาน์เตอร์',
+        gross: 'ยอดรวม',
+        discount: 'ส่วนลดของคุณ',
+        net: 'ยอดที่ต้องชำระ',
+        approve: 'อนุมัติ',
+        decline: 'ปฏิเสธ',
+        errors: {
+          failed: 'ไม่สามารถส่งคำตอบได้ กรุณาลองอีกครั้ง',
         },
       },
       notifications: {
         heading: 'การแจ้งเตือน',
         promotionTitle: 'มีข้อเสนอใหม่',
         renewalTitle: 'แจ้งเตือนการต่ออายุสมาชิก',
+        approvalTitle: 'มีรายการรอการยืนยันจากคุณ',
         genericTitle: 'อัปเดตล่าสุด',
         viewDetails: 'ดูรายละเอียด',
         dismiss: 'ปิด',
@@ -975,12 +1607,225 @@ export const translations: Record<Language, TranslationDictionary> = {
           estimatedNet:
             'ยอดหลังหักส่วนลดโดยประมาณ: {{total}} บาท',
           submit: 'บันทึกรายการ',
+          queued:
+            'ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้ ระบบบันทึกรายการไว้และจะส่งให้อัตโนมัติ.',
           errors: {
             invalidAmount: 'กรุณากรอกยอดก่อนส่วนลดที่ถูกต้อง.',
             submit: 'ไม่สามารถบันทึกรายการได้ โปรดลองอีกครั้ง.',
             noMember: 'กรุณายืนยันสมาชิกก่อนบันทึกรายการ.',
+            duplicate:
+              'รายการนี้ถูกบันทึกแล้ว กรุณาสแกนสมาชิกอีกครั้งเพื่อเริ่มรายการใหม่.',
+            inProgress: 'รายการนี้กำลังถูกส่ง โปรดรอจนกว่าจะเสร็จสิ้น.',
+          },
+        },
+        basket: {
+          title: 'ตะกร้าสินค้า',
+          itemise: 'แยกรายการสินค้า',
+          add: 'เพิ่มสินค้า',
+          remove: 'ลบ',
+          descriptionPlaceholder: 'รายละเอียดสินค้า',
+          quantity: 'จำนวน',
+          unitPrice: 'ราคาต่อหน่วย',
+          discountable: 'ได้รับส่วนลด',
+          excluded: 'ไม่ร่วมส่วนลด',
+          untitled: 'สินค้า',
+          lineSummary: '{{quantity}} × {{description}}',
+          summary:
+            'ยอดตะกร้า {{gross}} · ร่วมส่วนลด {{eligible}} · ไม่ร่วมส่วนลด {{excluded}}',
+        },
+        outlet: {
+          choose: 'เลือกสาขาที่ใช้อุปกรณ์นี้',
+          current: 'สาขา: {{name}}',
+          hours: 'วันนี้ {{hours}}',
+          closedToday: 'วันนี้ปิดทำการ',
+          required: 'เลือกสาขาก่อนสแกนสมาชิก',
+        },
+        cashier: {
+          none: 'ยังไม่มีแคชเชียร์เข้าสู่ระบบ',
+          active: 'แคชเชียร์: {{name}}',
+          activeOption: '{{name}} (ใช้งานอยู่)',
+          switch: 'เปลี่ยนแคชเชียร์',
+          title: 'แคชเชียร์',
+          description:
+            'แคชเชียร์แต่ละคนปลดล็อกเครื่องด้วย PIN ของตนเอง เพื่อให้ยอดขายระบุผู้ทำรายการได้',
+          empty: 'ยังไม่มีแคชเชียร์ เพิ่มคนแรกได้ด้านล่าง',
+          pin: 'PIN แคชเชียร์',
+          unlock: 'ปลดล็อก',
+          remove: 'ลบแคชเชียร์',
+          add: 'เพิ่มแคชเชียร์',
+          newName: 'ชื่อ',
+          newPin: 'PIN (อย่างน้อย 4 หลัก)',
+          create: 'บันทึกแคชเชียร์',
+          supervisorPin: 'PIN ผู้ควบคุม (บัญชีร้านค้า)',
+          confirmRemove: 'ยืนยันการลบ',
+          signOut: 'ออกจากระบบแคชเชียร์ปัจจุบัน',
+          close: 'ปิด',
+          required: 'เลือกแคชเชียร์ก่อนบันทึกการขาย',
+          errors: {
+            pin: 'PIN แคชเชียร์ไม่ถูกต้อง',
+            name: 'กรุณากรอกชื่อแคชเชียร์ที่ยังไม่ถูกใช้',
+            save: 'ไม่สามารถอัปเดตแคชเชียร์ได้ กรุณาลองอีกครั้ง',
+            supervisor: 'PIN ผู้ควบคุมไม่ถูกต้อง',
+            locked: 'ใส่ PIN ผิดหลายครั้งเกินไป กรุณาลองใหม่ในอีกไม่กี่นาที',
+            supervisorLocked:
+              'ใส่ PIN ผู้ควบคุมผิดหลายครั้งเกินไป กรุณาลองใหม่ในอีกไม่กี่นาที',
           },
         },
+        qr: {
+          errors: {
+            expired: 'รหัส QR นี้หมดอายุแล้ว กรุณาให้สมาชิกแสดงรหัสใหม่',
+            replayed: 'รหัส QR นี้ถูกใช้ไปแล้ว กรุณาขอรหัสใหม่จากสมาชิก',
+            signature: 'ไม่สามารถยืนยันรหัส QR นี้ได้',
+            unsigned: 'รหัสสมาชิกนี้ล้าสมัย โปรดให้สมาชิกเปิดรหัส QR ในแอป',
+            checksum: 'สแกนรหัส QR ไม่สมบูรณ์ กรุณาลองอีกครั้ง',
+            unsupported: 'แอปเวอร์ชันนี้ไม่รองรับรหัส QR นี้',
+          },
+          types: {
+            vendor_promo:
+              'นี่คือรหัสโปรโมชันของร้านค้า กรุณาสแกนบัตรสมาชิกเพื่อใช้ส่วนลด',
+            referral: 'นี่คือรหัสแนะนำ สมาชิกใช้ตอนสมัคร ไม่ใช่ที่จุดชำระเงิน',
+            event_ticket: 'นี่คือบัตรเข้างาน กรุณาตรวจบัตรที่ทางเข้างาน',
+          },
+          promo: {
+            applied:
+              'โปรโมชัน {{code}} จะใช้กับการขายครั้งถัดไป กรุณาสแกนบัตรสมาชิกเพื่อดำเนินการต่อ',
+            clear: 'นำโปรโมชันออก',
+          },
+          referral: {
+            saved:
+              'บันทึกรหัสแนะนำ {{code}} แล้ว ระบบจะกรอกให้เมื่อมีผู้สมัครบนอุปกรณ์นี้',
+          },
+          photo: {
+            button: 'นำเข้าจากรูปภาพ',
+            reading: 'กำลังอ่านรูปภาพ…',
+            choose: 'รูปนี้มีรหัส QR หลายรหัส กรุณาเลือกหนึ่งรหัส:',
+            option: 'รหัสที่ {{index}} · ลงท้าย {{suffix}}',
+            cancel: 'ยกเลิก',
+            errors: {
+              pick: 'ไม่สามารถเปิดรูปภาพได้ กรุณาลองอีกครั้ง',
+              unreadable: 'ไม่สามารถอ่านรูปนี้ได้ กรุณาใช้ไฟล์ PNG หรือ JPEG',
+              notFound: 'ไม่พบรหัส QR ในรูปนี้ ลองใช้รูปที่ชัดหรือใกล้ขึ้น',
+            },
+          },
+        },
+        search: {
+          open: 'สแกน QR ไม่ได้? ค้นหาสมาชิก',
+          title: 'ค้นหาสมาชิก',
+          description:
+            'ขอหมายเลขสมาชิก เบอร์โทรศัพท์ หรืออีเมลแบบเต็มจากสมาชิก การค้นหามีการจำกัดและบันทึกไว้',
+          fields: {
+            member_number: 'หมายเลขสมาชิก',
+            phone: 'โทรศัพท์',
+            email: 'อีเมล',
+          },
+          placeholders: {
+            member_number: 'เช่น TCN-104233',
+            phone: 'เช่น 081 234 5678',
+            email: 'name@example.com',
+          },
+          submit: 'ค้นหา',
+          lastDigits: 'ลงท้ายด้วย {{digits}}',
+          noResults: 'ไม่พบสมาชิกที่ตรงกับข้อมูลนี้',
+          close: 'ปิด',
+          errors: {
+            failed: 'ไม่สามารถค้นหาสมาชิกได้',
+            rateLimited: 'ค้นหาสมาชิกบ่อยเกินไป โปรดลองใหม่ในอีกไม่กี่นาที',
+            query: 'กรอกหมายเลขสมาชิก เบอร์โทรศัพท์ หรืออีเมลให้ครบถ้วน',
+          },
+        },
+        queue: {
+          continuousOff: 'สแกนต่อเนื่อง: ปิด',
+          continuousOn: 'สแกนต่อเนื่อง: เปิด',
+          title: 'คิวรอชำระเงิน ({{count}})',
+          empty: 'สแกนต่อได้เลย สมาชิกจะแสดงที่นี่ระหว่างตรวจสอบ',
+          unknownMember: 'สมาชิก …{{suffix}}',
+          validating: 'กำลังตรวจสอบสมาชิก…',
+          ready: 'พร้อมชำระเงิน',
+          checkout: 'ชำระเงิน',
+          remove: 'นำออก',
+          full: 'คิวเต็มแล้ว ชำระเงินหรือนำสมาชิกออกก่อนสแกนเพิ่ม',
+        },
+        fraud: {
+          title: 'ต้องได้รับการอนุมัติจากหัวหน้า',
+          description:
+            'รายการนี้ดูผิดปกติ หัวหน้าต้องป้อน PIN ของร้านค้าเพื่อบันทึกรายการ',
+          pin: 'PIN หัวหน้า',
+          approve: 'อนุมัติและบันทึก',
+          cancel: 'ยกเลิกรายการ',
+          signals: {
+            repeat_scan:
+              'QR นี้ถูกสแกน {{observed}} ครั้งในไม่กี่นาทีที่ผ่านมา',
+            member_velocity:
+              'สมาชิกนี้ใช้สิทธิ์ไปแล้ว {{observed}} ครั้งใน 30 นาทีที่ผ่านมา',
+            amount_outlier:
+              'ยอด {{observed}} บาท สูงกว่ายอดปกติมาก (เกณฑ์ {{threshold}} บาท)',
+            after_failed_lookup:
+              'สแกนหลังจากค้นหาไม่สำเร็จ {{observed}} ครั้งบนอุปกรณ์นี้',
+          },
+          errors: {
+            pin: 'PIN หัวหน้าไม่ถูกต้อง',
+            noPin:
+              'ตั้ง PIN เข้าสู่ระบบด่วนบนอุปกรณ์นี้ก่อนอนุมัติรายการที่ถูกแจ้งเตือนหรือจัดการแคชเชียร์',
+          },
+        },
+        approval: {
+          waiting: 'กำลังรอสมาชิกอนุมัติบนโทรศัพท์…',
+          countdown: 'หมดเวลาใน {{time}}',
+          declined: 'สมาชิกปฏิเสธรายการนี้',
+          timeout: 'สมาชิกไม่ตอบกลับภายในเวลาที่กำหนด รายการนี้ไม่ถูกบันทึก',
+        },
+        tax: {
+          open: 'ภาษีและค่าบริการ (ค่าบริการ {{service}}% · VAT {{vat}}%)',
+          title: 'ภาษีและค่าบริการ',
+          description:
+            'ตั้งค่าอัตราค่าบริการและภาษีมูลค่าเพิ่มที่ใช้กับบิลของร้านนี้.',
+          serviceChargeRate: 'ค่าบริการ (%)',
+          vatRate: 'VAT (%)',
+          pricesIncludeVat: 'ราคาสินค้ารวม VAT แล้ว',
+          applicationLabel: 'คิดส่วนลด',
+          applications: {
+            before_service_charge: 'ก่อนคิดค่าบริการ',
+            after_service_charge: 'หลังคิดค่าบริการ',
+          },
+          serviceCharge: 'ค่าบริการ {{rate}}%: {{amount}}',
+          vatIncluded: 'รวม VAT {{rate}}%: {{amount}}',
+          vatAdded: 'VAT {{rate}}%: {{amount}}',
+          totalPayable: 'ยอดชำระทั้งหมด: {{total}}',
+          recordSummary:
+            'ค่าบริการ {{service}} · VAT {{vat}} · ยอดชำระ {{total}}',
+          save: 'บันทึก',
+          cancel: 'ยกเลิก',
+          errors: {
+            rate: 'กรุณาระบุอัตราระหว่าง 0 ถึง 100.',
+            save: 'ไม่สามารถบันทึกการตั้งค่าภาษีได้.',
+          },
+        },
+        rules: {
+          title: 'โปรโมชันที่ใช้',
+          tier: 'ส่วนลดสมาชิก {{tier}}',
+          cap: 'เพดานโปรโมชัน',
+        },
+        eligibility: {
+          reasons: {
+            daily_limit_reached: 'สมาชิกใช้สิทธิ์ส่วนลดของวันนี้ครบแล้ว.',
+            total_limit_reached: 'สมาชิกไม่มีสิทธิ์ส่วนลดเหลือแล้ว.',
+            expired: 'ส่วนลดนี้หมดอายุแล้ว.',
+            not_yet_valid: 'ส่วนลดนี้ยังไม่เริ่มใช้งาน.',
+            last_daily_use: 'นี่คือสิทธิ์ส่วนลดครั้งสุดท้ายของวันนี้.',
+            last_use: 'นี่คือสิทธิ์ส่วนลดครั้งสุดท้ายของสมาชิก.',
+            expiring_soon: 'ส่วนลดนี้จะหมดอายุใน {{time}}.',
+          },
+          countdown: 'ใช้สิทธิ์ครั้งถัดไปได้ใน {{time}}',
+          usage: 'ใช้วันนี้: {{today}} · ใช้ทั้งหมด: {{total}}',
+        },
+        outbox: {
+          title: 'รอส่งข้อมูล',
+          hint: 'รายการเหล่านี้ถูกเก็บไว้ในอุปกรณ์และจะส่งใหม่อัตโนมัติเมื่อกลับมาเชื่อมต่อได้.',
+          attempts: 'ครั้งที่ {{count}}',
+          summary: 'ยอดเต็ม {{gross}} บาท · บันทึกเมื่อ {{time}}',
+          retry: 'ส่งอีกครั้ง',
+          discard: 'ยกเลิกรายการ',
+        },
         recent: {
           title: 'รายการล่าสุด',
           empty: 'ยังไม่มีรายการล่าสุด.',
@@ -990,6 +1835,41 @@ export const translations: Record<Language, TranslationDictionary> = {
             pending: 'รอดำเนินการ',
             completed: 'เสร็จสมบูรณ์',
             failed: 'ไม่สำเร็จ',
+            voided: 'ยกเลิกแล้ว',
+            refunded: 'คืนเงินแล้ว',
+            partially_refunded: 'คืนเงินบางส่วน',
+          },
+        },
+        reversal: {
+          undo: 'ยกเลิก ({{time}})',
+          refund: 'คืนเงิน',
+          voidTitle: 'ยกเลิกรายการ',
+          voidHint:
+            'การยกเลิกจะยกเลิกรายการทั้งหมด และทำได้ภายในช่วงเวลาสั้นๆ หลังบันทึกเท่านั้น.',
+          refundTitle: 'คืนเงินรายการ',
+          refundHint: 'สามารถคืนเงินได้อีกสูงสุด {{amount}} บาท.',
+          reasonLabel: 'เหตุผล',
+          reasons: {
+            wrong_amount: 'ยอดเงินไม่ถูกต้อง',
+            wrong_member: 'สมาชิกไม่ถูกต้อง',
+            customer_cancelled: 'ลูกค้ายกเลิก',
+            duplicate: 'เรียกเก็บซ้ำ',
+            other: 'อื่นๆ',
+          },
+          amountLabel: 'จำนวนเงินที่คืน (บาท)',
+          amountPlaceholder: 'เว้นว่างเพื่อคืนเงินเต็มจำนวน',
+          noteLabel: 'หมายเหตุ (ไม่บังคับ)',
+          confirmVoid: 'ยกเลิกรายการ',
+          confirmRefund: 'ยืนยันการคืนเงิน',
+          cancel: 'ปิด',
+          refunded: 'คืนเงินแล้ว {{amount}} บาท · {{reason}}',
+          voided: 'ยกเลิกแล้ว · {{reason}}',
+          errors: {
+            void: 'ไม่สามารถยกเลิกรายการนี้ได้.',
+            refund: 'ไม่สามารถคืนเงินรายการนี้ได้.',
+            notAllowed: 'รายการนี้ไม่สามารถยกเลิกหรือคืนเงินได้แล้ว.',
+            reason: 'กรุณาเลือกเหตุผลก่อนดำเนินการต่อ.',
+            amount: 'กรุณากรอกจำนวนเงินระหว่าง 0.01 ถึง {{max}} บาท.',
           },
         },
         logout: 'ออกจากระบบ',
@@ -1011,6 +1891,9 @@ export const translations: Record<Language, TranslationDictionary> = {
         completed: 'เสร็จสมบูรณ์',
         pending: 'รอดำเนินการ',
         failed: 'ไม่สำเร็จ',
+        voided: 'ยกเลิกแล้ว',
+        refunded: 'คืนเงินแล้ว',
+        partially_refunded: 'คืนเงินบางส่วน',
       },
       member: {
         title: 'การวิเคราะห์การประหยัด',
@@ -1022,6 +1905,17 @@ export const translations: Record<Language, TranslationDictionary> = {
         subtitle: 'ตรวจสอบกิจกรรมของสมาชิกและยอดส่วนลดที่สาขาของคุณ',
         empty: 'บันทึกรายการเพื่อดูภาพรวมการวิเคราะห์ของคุณ',
       },
+      cashiers: {
+        title: 'ยอดขายแยกตามแคชเชียร์',
+        unassigned: 'ไม่ระบุแคชเชียร์',
+        summary: '{{count}} รายการ · {{gross}} บาท · ส่วนลด {{discount}} บาท',
+        empty: 'ยังไม่มียอดขายที่ชำระแล้วให้แสดง',
+      },
+      outlets: {
+        title: 'เปรียบเทียบสาขา',
+        unassigned: 'ไม่ระบุสาขา',
+        share: '{{share}}% ของยอดขาย',
+      },
       charts: {
         monthlySavings: {
           title: 'ยอดประหยัดรายเดือน',
@@ -1036,14 +1930,296 @@ export const translations: Record<Language, TranslationDictionary> = {
         transactionStatus: {
           title: 'สถานะธุรกรรม',
           tooltip:
-            'เปรียบเทียบรายการที่เสร็จสมบูรณ์ รอดำเนินการ และไม่สำเร็จ',
+            'เปรียบเทียบรายการที่เสร็จสมบูรณ์ รอดำเนินการ ไม่สำเร็จ และที่ยกเลิกหรือคืนเงิน',
           empty: 'ยังไม่มีประวัติธุรกรรมสำหรับสร้างกราฟ',
         },
       },
+      filters: {
+        range: {
+          all: 'ทั้งหมด',
+          days: '{{count}} วันล่าสุด',
+        },
+        status: 'สถานะ',
+        tier: 'ระดับสมาชิก',
+        minAmount: 'ยอดต่ำสุด (บาท)',
+        maxAmount: 'ยอดสูงสุด (บาท)',
+        outlet: 'สาขา',
+        clear: 'ล้างตัวกรอง',
+      },
+      history: {
+        title: 'ประวัติธุรกรรม',
+        empty: 'ไม่พบรายการที่ตรงกับตัวกรอง',
+        loadingMore: 'กำลังโหลดรายการเพิ่มเติม…',
+        end: 'แสดงประวัติครบทั้งหมดแล้ว',
+        count: 'แสดง {{shown}} จาก {{total}} รายการ',
+        summary: 'ชำระ {{net}} บาท · ประหยัด {{discount}} บาท',
+        cashier: 'แคชเชียร์: {{name}}',
+        outlet: 'สาขา: {{name}}',
+      },
+      export: {
+        open: 'ส่งออก',
+        title: 'ส่งออกรายการ',
+        description: 'เลือกรูปแบบ ช่วงวันที่ และคอลัมน์ แล้วแชร์ไฟล์',
+        formatLabel: 'รูปแบบ',
+        rangeLabel: 'ช่วงวันที่',
+        columnsLabel: 'คอลัมน์',
+        formats: {
+          csv: 'CSV (Excel)',
+          json: 'JSON',
+        },
+        columns: {
+          id: 'รหัสรายการ',
+          createdAt: 'วันที่',
+          status: 'สถานะ',
+          memberName: 'สมาชิก',
+          membershipTier: 'ระดับ',
+          vendorName: 'ร้านค้า',
+          grossAmount: 'ยอดรวม',
+          discountPercentage: 'ส่วนลด %',
+          discountAmount: 'ส่วนลด',
+          netAmount: 'สุทธิ',
+          refundedAmount: 'คืนเงิน',
+          currency: 'สกุลเงิน',
+          reversalReason: 'เหตุผลการยกเลิก',
+        },
+        confirm: 'ส่งออกและแชร์',
+        cancel: 'ยกเลิก',
+        truncated:
+          'แชร์ {{count}} รายการแล้ว แต่ไม่รวมประวัติที่เก่ากว่า กรุณาเลือกช่วงวันที่สั้นลงเพื่อส่งออกส่วนที่เหลือ',
+        errors: {
+          columns: 'กรุณาเลือกอย่างน้อยหนึ่งคอลัมน์',
+          failed: 'ไม่สามารถส่งออกรายการได้',
+        },
+      },
       errors: {
         fetch: 'ไม่สามารถโหลดข้อมูลรายการได้',
       },
     },
+    settlement: {
+      title: 'รายงานปิดยอดประจำวัน',
+      subtitle: 'สรุปยอดขายประจำวันตามเวลากรุงเทพฯ และล็อกรายงานเมื่อสิ้นวันทำการ',
+      previousDay: 'วันก่อนหน้า',
+      nextDay: 'วันถัดไป',
+      generate: 'สร้างรายงานปิดยอด',
+      notGenerated: 'ยังไม่ได้สร้างรายงานสำหรับวันนี้',
+      lockedAt: 'ล็อกเมื่อ {{timestamp}}',
+      provisional:
+        'ยอดชั่วคราว ณ {{timestamp}} รายงานจะล็อกหลังสิ้นวันทำการและส่งรายการที่รอคิวครบแล้ว',
+      open: 'รายงานปิดยอด',
+      shareTitle: 'รายงานปิดยอด {{date}}',
+      shareCsv: 'แชร์ CSV',
+      shareHtml: 'แชร์ HTML',
+      showPrintPreview: 'แสดงตัวอย่างก่อนพิมพ์',
+      hidePrintPreview: 'ซ่อนตัวอย่างก่อนพิมพ์',
+      empty: 'ไม่มียอดขายในวันนี้',
+      unknownTier: 'ไม่ระบุระดับ',
+      totals: 'รวม',
+      countLabel: '{{count}} รายการ',
+      tierSummary:
+        'ยอดรวม {{gross}} · ส่วนลด {{discount}} · สุทธิ {{net}} · คืนเงิน {{refunded}}',
+      columns: {
+        count: 'จำนวน',
+        gross: 'ยอดรวม',
+        discount: 'ส่วนลด',
+        net: 'สุทธิ',
+        refunded: 'คืนเงิน',
+        settled: 'ยอดที่ต้องชำระ',
+        id: 'รหัสรายการ',
+        time: 'เวลา',
+        member: 'สมาชิก',
+        tier: 'ระดับ',
+        reason: 'เหตุผล',
+        status: 'สถานะ',
+      },
+      fields: {
+        businessDate: 'วันที่ทำการ',
+        timezone: 'เขตเวลา',
+        generatedAt: 'สร้างเมื่อ',
+        currency: 'สกุลเงิน',
+        firstTransaction: 'รายการแรก',
+        lastTransaction: 'รายการสุดท้าย',
+      },
+      sections: {
+        byTier: 'ยอดตามระดับสมาชิก',
+        statusCounts: 'จำนวนตามสถานะ',
+        failed: 'รายการที่ล้มเหลว',
+        voided: 'รายการที่ยกเลิก',
+      },
+      errors: {
+        generate: 'ไม่สามารถสร้างรายงานปิดยอดได้',
+        truncated:
+          'วันนี้มีรายการมากเกินกว่าจะปิดยอดบนอุปกรณ์ได้ กรุณาใช้แดชบอร์ดบนเว็บ',
+      },
+    },
+    disputes: {
+      report: 'แจ้งปัญหา',
+      rowStatus: 'ข้อโต้แย้ง: {{status}}',
+      reasons: {
+        not_me: 'ไม่ใช่รายการของฉัน',
+        wrong_amount: 'ยอดเงินไม่ถูกต้อง',
+        discount_not_applied: 'ไม่ได้รับส่วนลด',
+      },
+      status: {
+        open: 'เปิดอยู่',
+        in_review: 'กำลังตรวจสอบ',
+        resolved: 'แก้ไขแล้ว',
+        rejected: 'ถูกปฏิเสธ',
+      },
+      roles: {
+        member: 'สมาชิก',
+        vendor: 'ร้านค้า',
+        admin: 'ฝ่ายสนับสนุน TCN',
+      },
+      form: {
+        title: 'แจ้งปัญหา',
+        description:
+          'บอกเราว่าเกิดอะไรขึ้นกับรายการ {{amount}} บาท ที่ {{vendor}}',
+        reasonLabel: 'เกิดอะไรขึ้น?',
+        noteLabel: 'รายละเอียด (ไม่บังคับ)',
+        notePlaceholder: 'ข้อมูลที่ช่วยให้ร้านค้าและทีมงานตรวจสอบได้',
+        photoLabel: 'รูปใบเสร็จ (ไม่บังคับ)',
+        addPhoto: 'แนบรูปภาพ',
+        removePhoto: 'ลบรูปภาพ',
+        submit: 'ส่งข้อโต้แย้ง',
+        cancel: 'ยกเลิก',
+        errors: {
+          reason: 'โปรดเลือกปัญหาก่อนส่ง',
+          photo: 'ไม่สามารถเปิดรูปภาพได้ กรุณาลองอีกครั้ง',
+        },
+      },
+      respond: {
+        title: 'ตอบกลับข้อโต้แย้ง',
+        messageLabel: 'ข้อความถึงสมาชิก',
+        statusLabel: 'อัปเดตสถานะ',
+        keepStatus: 'คงสถานะเดิม',
+        submit: 'ส่งคำตอบ',
+        cancel: 'ยกเลิก',
+        errors: {
+          message: 'โปรดพิมพ์ข้อความก่อนส่ง',
+        },
+      },
+      inbox: {
+        open: 'ข้อโต้แย้ง',
+        title: 'ข้อโต้แย้ง',
+        subtitle: {
+          vendor: 'สมาชิกที่แจ้งปัญหาเกี่ยวกับรายการขายของคุณ',
+          admin: 'ข้อโต้แย้งทั้งหมดจากสมาชิกของทุกร้านค้า',
+        },
+        all: 'ทั้งหมด',
+        empty: 'ไม่มีข้อโต้แย้ง',
+        member: 'สมาชิก',
+        parties: '{{member}} · {{vendor}}',
+        transaction: 'ขายเมื่อ {{date}} · สุทธิ {{net}} · ส่วนลด {{discount}}',
+        opened: 'เปิดเมื่อ {{date}}',
+        respond: 'ตอบกลับ',
+      },
+      errors: {
+        notAllowed: 'รายการนี้ไม่สามารถโต้แย้งได้แล้ว',
+        submit: 'ไม่สามารถส่งข้อโต้แย้งได้',
+        fetch: 'ไม่สามารถโหลดข้อโต้แย้งได้',
+        respond: 'ไม่สามารถส่งคำตอบได้',
+      },
+    },
+    genealogy: {
+      title: 'เครือข่ายของฉัน',
+      subtitle: 'สมาชิกที่คุณและผู้ที่คุณแนะนำได้สนับสนุน',
+      you: 'คุณ',
+      noTier: 'ไม่มีระดับ',
+      recruits: 'แนะนำ {{count}} คน',
+      searchPlaceholder: 'ค้นหาตามชื่อ',
+      depthLabel: 'จำนวนชั้น',
+      empty: 'คุณยังไม่ได้แนะนำสมาชิก',
+      noMatches: 'ไม่พบสมาชิกที่ตรงกับการค้นหา',
+      depthLimit: 'ไม่สามารถแสดงชั้นที่ลึกกว่านี้ในแอปได้',
+      details: {
+        tier: 'ระดับ: {{tier}}',
+        level: 'ชั้นที่ {{level}} ในเครือข่ายของคุณ',
+        downline: 'โหลดสมาชิกด้านล่างแล้ว {{count}} คน',
+        hint: 'เลือกสมาชิกเพื่อดูรายละเอียด',
+      },
+      errors: {
+        load: 'ไม่สามารถโหลดเครือข่ายของคุณได้',
+      },
+    },
+    commissions: {
+      title: 'รายได้ของฉัน',
+      subtitle: 'ค่าคอมมิชชันจากสมาชิกที่คุณและเครือข่ายของคุณแนะนำ',
+      summary: {
+        total: 'รายได้ทั้งหมด',
+        paid: 'จ่ายแล้ว',
+        pending: 'รอจ่าย',
+      },
+      charts: {
+        monthly: {
+          title: 'รายได้รายเดือน',
+          tooltip: 'ค่าคอมมิชชันที่จ่ายแล้วและรอจ่ายในแต่ละเดือน',
+          empty: 'ไม่มีค่าคอมมิชชันในช่วงเดือนที่ผ่านมา',
+        },
+        levels: {
+          title: 'ทางตรงและทางอ้อม',
+          tooltip: 'สัดส่วนรายได้ตามระดับค่าคอมมิชชัน',
+          empty: 'ยังไม่มีค่าคอมมิชชัน',
+        },
+      },
+      ledger: {
+        title: 'รายการค่าคอมมิชชัน',
+        allStatuses: 'ทุกสถานะ',
+        allLevels: 'ทุกระดับ',
+        empty: 'ไม่มีค่าคอมมิชชันที่ตรงกับตัวกรอง',
+        loading: 'กำลังโหลดค่าคอมมิชชัน…',
+      },
+      status: {
+        pending: 'รอจ่าย',
+        paid: 'จ่ายแล้ว',
+        cancelled: 'ยกเลิก',
+      },
+      levels: {
+        direct: 'ทางตรง',
+        passive: 'ทางอ้อม',
+      },
+      member: {
+        unknown: 'สมาชิก #{{id}}',
+        total: 'คุณได้รับ {{amount}} จากสมาชิกนี้',
+        order: 'คำสั่งซื้อ #{{id}}',
+        close: 'ปิด',
+      },
+      errors: {
+        load: 'ไม่สามารถโหลดค่าคอมมิชชันของคุณได้',
+      },
+    },
+    upgradeProgress: {
+      title: 'การอัปเกรดอัตโนมัติ',
+      currentTier: 'ระดับปัจจุบัน',
+      nextTier: 'ระดับถัดไป',
+      progress: '{{current}} จาก {{threshold}}',
+      remaining: 'อีก {{count}} เพื่อเลื่อนเป็น {{tier}}',
+      reached: 'ครบตามเป้าหมายแล้ว ระบบจะเลื่อนเป็น {{tier}} ให้อัตโนมัติ',
+      topTier: 'คุณอยู่ในระดับสูงสุดของการอัปเกรดอัตโนมัติแล้ว',
+      noRule: 'ระดับปัจจุบันของคุณไม่มีการอัปเกรดอัตโนมัติ',
+      rulesTitle: 'เงื่อนไขการอัปเกรด',
+      rules: {
+        directRecruits:
+          'สมาชิก {{from}} จะเลื่อนเป็น {{to}} อัตโนมัติเมื่อแนะนำสมาชิกโดยตรงครบ {{threshold}} คน',
+        activeNetwork:
+          'สมาชิก {{from}} จะเลื่อนเป็น {{to}} อัตโนมัติเมื่อมีสมาชิกที่ใช้งานอยู่ในเครือข่ายครบ {{threshold}} คน',
+      },
+      metrics: {
+        directRecruits: 'สมาชิกที่แนะนำโดยตรง',
+        activeNetwork: 'สมาชิกที่ใช้งานอยู่ในเครือข่าย',
+      },
+      recruits: {
+        title: 'สมาชิกที่คุณแนะนำ',
+        hint: 'สมาชิกที่ถือระดับแบบชำระเงินจะนับเป็นสมาชิกที่ใช้งานอยู่',
+        empty: 'ยังไม่มีสมาชิกที่แนะนำ',
+        active: 'ใช้งานอยู่',
+        inactive: 'ยังไม่ใช้งาน',
+      },
+      loading: 'กำลังโหลดความคืบหน้าการอัปเกรด…',
+      retry: 'ลองอีกครั้ง',
+      errors: {
+        load: 'ไม่สามารถโหลดความคืบหน้าการอัปเกรดของคุณได้',
+      },
+    },
     profile: {
       title: 'โปรไฟล์ของคุณ',
       subtitle: 'จัดการการตั้งค่าความปลอดภัยของบัญชีคุณ.',
@@ -1079,6 +2255,8 @@ export const translations: Record<Language, TranslationDictionary> = {
         tokenLabel: 'โทเคน: {{token}}',
         issuedAt: 'ออกเมื่อ {{date}}',
         expiresAt: 'หมดอายุ {{date}}',
+        rotating: 'รหัสใหม่ใน {{seconds}} วินาที',
+        rotatingHint: 'รหัสนี้เปลี่ยนเป็นระยะ ภาพหน้าจอจะใช้ไม่ได้',
         accountTypes: {
           member: 'บัญชีสมาชิก',
           vendor: 'บัญชีร้านค้า',
@@ -1086,6 +2264,17 @@ export const translations: Record<Language, TranslationDictionary> = {
           admin: 'บัญชีผู้ดูแล',
         },
       },
+      referral: {
+        title: 'ชวนสมาชิก',
+        subtitle:
+          'สมาชิกที่สมัครด้วยรหัสของคุณจะเข้าร่วมเครือข่ายของคุณในฐานะสมาชิกที่คุณแนะนำโดยตรง',
+        codeLabel: 'รหัสแนะนำของคุณ',
+        qrHint: 'สแกนรหัสนี้ในแอปขณะสร้างบัญชี',
+        share: 'แชร์คำเชิญ',
+        shareMessage:
+          'มาร่วม The Consumer Network กับฉันด้วยรหัสแนะนำ {{code}}: {{link}}\nยังไม่มีแอป? สมัครที่นี่: {{webLink}}',
+        empty: 'รหัสแนะนำของคุณจะปรากฏเมื่อบัญชีพร้อมใช้งาน',
+      },
       password: {
         heading: 'เปลี่ยนรหัสผ่าน',
         description: 'อัปเดตรหัสผ่านที่คุณใช้ในการเข้าสู่ระบบ.',
@@ -1181,6 +2370,9 @@ export const translations: Record<Language, TranslationDictionary> = {
       vendorPending: 'บัญชีร้านค้าของคุณกำลังรอการอนุมัติ.',
       vendorRejected: 'คำขอสมัครเป็นร้านค้าของคุณถูกปฏิเสธ.',
       vendorSuspended: 'บัญชีร้านค้าของคุณถูกระงับ โปรดติดต่อฝ่ายสนับสนุน.',
+      referralInvalid: 'รหัสแนะนำนี้ไม่ถูกต้อง',
+      referralLookup: 'ไม่สามารถตรวจสอบรหัสแนะนำได้',
+      referralNotQr: 'QR นี้ไม่ใช่รหัสแนะนำ',
     },
   },
 };
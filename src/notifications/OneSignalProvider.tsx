@@ -9,7 +9,7 @@ import { createAppError } from '../errors';
 
 export type NotificationTarget = 'vendors' | 'membership';
 
-export type NotificationCategory = 'promotion' | 'renewal' | 'general';
+export type NotificationCategory = 'promotion' | 'renewal' | 'approval' | 'general';
 
 export interface NotificationPayload {
   title?: string;
@@ -64,6 +64,11 @@ const normalizeCategory = (rawCategory: unknown): NotificationCategory => {
     return 'renewal';
   }
 
+  // Redemption approvals are transactional and ignore marketing preferences.
+  if (rawCategory === 'approval' || rawCategory === 'redemption_approval') {
+    return 'approval';
+  }
+
   return 'general';
 };
 
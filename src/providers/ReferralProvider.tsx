@@ -0,0 +1,127 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { Linking } from 'react-native';
+import {
+  clearPendingReferral,
+  loadPendingReferral,
+  savePendingReferral,
+} from '../services/referralService';
+import { REFERRAL_CONFIG } from '../config/referralConfig';
+import { PendingReferral, ReferralSource } from '../types/mlm';
+import { normalizeReferralCode, parseReferralQr } from '../utils/referral';
+import deviceLog from '../utils/deviceLog';
+import { createAppError } from '../errors';
+
+interface ReferralContextValue {
+  /** Code captured from a link or QR that registration has not used yet. */
+  pendingReferral: PendingReferral | null;
+  captureReferral: (code: string, source: ReferralSource) => Promise<void>;
+  clearReferral: () => Promise<void>;
+}
+
+const ReferralContext = createContext<ReferralContextValue | undefined>(
+  undefined,
+);
+
+/**
+ * Listens for `tcnapp://register?ref=CODE` links and referral QR payloads.
+ * The code is persisted so it survives the app being closed between opening
+ * the link and signing up.
+ */
+export const ReferralProvider: React.FC<React.PropsWithChildren> = ({
+  children,
+}) => {
+  const [pendingReferral, setPendingReferral] =
+    useState<PendingReferral | null>(null);
+
+  const captureReferral = useCallback(
+    async (rawCode: string, source: ReferralSource) => {
+      const code = normalizeReferralCode(rawCode);
+      if (!code) {
+        deviceLog.warn('referral.capture.invalid', { source });
+        return;
+      }
+      deviceLog.info('referral.capture', { source });
+      setPendingReferral(await savePendingReferral(code, source));
+    },
+    [],
+  );
+
+  const clearReferral = useCallback(async () => {
+    setPendingReferral(null);
+    await clearPendingReferral();
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    // Referral QR payloads open the app through the `tcn` scheme, so they
+    // arrive here as URLs too. Every other deep link is ignored.
+    const handleUrl = (url: string | null) => {
+      if (!url) {
+        return;
+      }
+      try {
+        const code = parseReferralQr(url);
+        void captureReferral(
+          code,
+          url.toLowerCase().startsWith(REFERRAL_CONFIG.appScheme)
+            ? 'link'
+            : 'qr',
+        );
+      } catch (error) {
+        deviceLog.debug('referral.url.ignored');
+      }
+    };
+
+    const hydrate = async () => {
+      const stored = await loadPendingReferral();
+      if (isMounted && stored) {
+        setPendingReferral(current => current ?? stored);
+      }
+      try {
+        // Cold start: the link that launched the app.
+        handleUrl(await Linking.getInitialURL());
+      } catch (error) {
+        deviceLog.warn('referral.initialUrl.error', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    void hydrate();
+    const subscription = Linking.addEventListener('url', event =>
+      handleUrl(event.url),
+    );
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, [captureReferral]);
+
+  const contextValue = useMemo<ReferralContextValue>(
+    () => ({ pendingReferral, captureReferral, clearReferral }),
+    [captureReferral, clearReferral, pendingReferral],
+  );
+
+  return (
+    <ReferralContext.Provider value={contextValue}>
+      {children}
+    </ReferralContext.Provider>
+  );
+};
+
+export const useReferral = (): ReferralContextValue => {
+  const context = useContext(ReferralContext);
+  if (!context) {
+    throw createAppError('PROVIDER_REFERRAL_MISSING');
+  }
+  return context;
+};
@@ -24,6 +24,7 @@ import { createAppError, ensureAppError } from '../errors';
 
 interface AdminDashboardScreenProps {
   onOpenMemberExperience?: () => void;
+  onOpenDisputes?: () => void;
 }
 
 type ActiveAction = {
@@ -62,6 +63,7 @@ const resolveStatusStyle = (status: string | null) => {
 
 export const AdminDashboardScreen: React.FC<AdminDashboardScreenProps> = ({
   onOpenMemberExperience,
+  onOpenDisputes,
 }) => {
   const { state, getSessionToken } = useAuthContext();
   const { t, translateError } = useLocalization();
@@ -261,17 +263,31 @@ export const AdminDashboardScreen: React.FC<AdminDashboardScreenProps> = ({
               <Text style={styles.operator}>{headerName}</Text>
             ) : null}
           </View>
-          {onOpenMemberExperience ? (
-            <Pressable
-              onPress={onOpenMemberExperience}
-              style={styles.secondaryButton}
-              accessibilityRole="button"
-            >
-              <Text style={styles.secondaryButtonText}>
-                {t('admin.dashboard.viewMemberApp')}
-              </Text>
-            </Pressable>
-          ) : null}
+          <View style={styles.headerActions}>
+            {onOpenMemberExperience ? (
+              <Pressable
+                onPress={onOpenMemberExperience}
+                style={styles.secondaryButton}
+                accessibilityRole="button"
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('admin.dashboard.viewMemberApp')}
+                </Text>
+              </Pressable>
+            ) : null}
+            {onOpenDisputes ? (
+              <Pressable
+                onPress={onOpenDisputes}
+                style={styles.secondaryButton}
+                accessibilityRole="button"
+                testID="admin-dashboard-disputes"
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('disputes.inbox.open')}
+                </Text>
+              </Pressable>
+            ) : null}
+          </View>
         </View>
 
         <View style={styles.summaryCard}>
@@ -458,6 +474,9 @@ const styles = StyleSheet.create({
     alignItems: 'flex-start',
     gap: 12,
   },
+  headerActions: {
+    gap: 8,
+  },
   headerText: {
     flex: 1,
     gap: 8,
@@ -0,0 +1,518 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { useCommissions } from '../hooks/useCommissions';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { MonthlySavingsChart } from '../components/analytics/MonthlySavingsChart';
+import { TransactionStatusChart } from '../components/analytics/TransactionStatusChart';
+import { CommissionMemberModal } from '../components/CommissionMemberModal';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { COLORS } from '../config/theme';
+import {
+  CommissionEntry,
+  CommissionLevel,
+  CommissionStatus,
+} from '../types/mlm';
+import {
+  buildCommissionLevelTotals,
+  buildMonthlyCommissions,
+  CommissionMemberSummary,
+  filterCommissionLedger,
+  summarizeCommissionMember,
+} from '../utils/commissions';
+import deviceLog from '../utils/deviceLog';
+
+interface CommissionsScreenProps {
+  onBack?: () => void;
+}
+
+const STATUS_FILTERS: (CommissionStatus | null)[] = [
+  null,
+  'pending',
+  'paid',
+  'cancelled',
+];
+
+const LEVEL_FILTERS: (CommissionLevel | null)[] = [null, 'direct', 'passive'];
+
+/**
+ * Earnings from recruiting: totals, monthly chart and the commission ledger.
+ * Rows open the member whose purchase earned the commission.
+ */
+export const CommissionsScreen: React.FC<CommissionsScreenProps> = ({
+  onBack,
+}) => {
+  const { t, language } = useLocalization();
+  const locale = language === 'th' ? 'th-TH' : 'en-US';
+  const layout = useResponsiveLayout();
+  const { ledger, isLoading, error, lastUpdated, refresh } = useCommissions();
+  const [statusFilter, setStatusFilter] = useState<CommissionStatus | null>(
+    null,
+  );
+  const [levelFilter, setLevelFilter] = useState<CommissionLevel | null>(null);
+  const [selectedMember, setSelectedMember] =
+    useState<CommissionMemberSummary | null>(null);
+
+  const entries = useMemo(() => ledger?.entries ?? [], [ledger]);
+  const currency =
+    entries[0]?.currency ?? MLM_CONFIG.commissions.defaultCurrency;
+
+  const formatAmount = useCallback(
+    (value: number) =>
+      `${value.toLocaleString(locale, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })} ${currency}`,
+    [currency, locale],
+  );
+
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [locale],
+  );
+
+  const formatDate = useCallback(
+    (value: string) => {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? '' : dateFormatter.format(date);
+    },
+    [dateFormatter],
+  );
+
+  const monthFormatter = useMemo(
+    () => new Intl.DateTimeFormat(locale, { month: 'short' }),
+    [locale],
+  );
+
+  const monthlyData = useMemo(
+    () =>
+      buildMonthlyCommissions(entries).map(bucket => ({
+        label: monthFormatter.format(bucket.date),
+        value: Number(bucket.total.toFixed(2)),
+      })),
+    [entries, monthFormatter],
+  );
+
+  const levelData = useMemo(() => {
+    const totals = buildCommissionLevelTotals(entries);
+    return (['direct', 'passive'] as CommissionLevel[]).map(level => ({
+      label: t(`commissions.levels.${level}`),
+      value: Number(totals[level].toFixed(2)),
+    }));
+  }, [entries, t]);
+
+  const visibleEntries = useMemo(
+    () =>
+      filterCommissionLedger(entries, {
+        status: statusFilter,
+        level: levelFilter,
+      }),
+    [entries, levelFilter, statusFilter],
+  );
+
+  const handleOpenEntry = useCallback(
+    (entry: CommissionEntry) => {
+      deviceLog.info('commissions.member.open', {
+        entryId: entry.id,
+        memberId: entry.memberId,
+      });
+      setSelectedMember(summarizeCommissionMember(entries, entry));
+    },
+    [entries],
+  );
+
+  const summary = ledger?.summary ?? null;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          {
+            padding: layout.contentPadding,
+            maxWidth: layout.maxContentWidth,
+          },
+        ]}
+      >
+        <View style={styles.header}>
+          <View style={styles.headerTextGroup}>
+            <Text style={styles.title}>{t('commissions.title')}</Text>
+            <Text style={styles.subtitle}>{t('commissions.subtitle')}</Text>
+          </View>
+          <View style={styles.headerActions}>
+            {onBack ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onBack}
+                style={styles.secondaryButton}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('analytics.shared.back')}
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => void refresh()}
+              style={styles.secondaryButton}
+              testID="commissions-refresh"
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('analytics.shared.refresh')}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <View
+          style={[
+            styles.summaryRow,
+            layout.width < 520 ? styles.summaryRowStacked : null,
+          ]}
+        >
+          {(['total', 'paid', 'pending'] as const).map(key => (
+            <View
+              key={key}
+              style={styles.summaryCard}
+              testID={`commissions-summary-${key}`}
+            >
+              <Text style={styles.summaryLabel}>
+                {t(`commissions.summary.${key}`)}
+              </Text>
+              <Text style={styles.summaryValue}>
+                {summary ? formatAmount(summary[key]) : '—'}
+              </Text>
+            </View>
+          ))}
+        </View>
+        {lastUpdated ? (
+          <Text style={styles.meta}>
+            {t('analytics.shared.lastUpdated', {
+              replace: { timestamp: lastUpdated.toLocaleString(locale) },
+            })}
+          </Text>
+        ) : null}
+
+        <View style={layout.isTablet ? styles.chartRow : styles.chartStack}>
+          <View style={layout.isTablet ? styles.chartColumn : null}>
+            <MonthlySavingsChart
+              title={t('commissions.charts.monthly.title')}
+              tooltip={t('commissions.charts.monthly.tooltip')}
+              data={
+                monthlyData.some(point => point.value > 0) ? monthlyData : []
+              }
+              isLoading={isLoading && !ledger}
+              emptyMessage={t('commissions.charts.monthly.empty')}
+            />
+          </View>
+          <View style={layout.isTablet ? styles.chartColumn : null}>
+            <TransactionStatusChart
+              title={t('commissions.charts.levels.title')}
+              tooltip={t('commissions.charts.levels.tooltip')}
+              data={levelData}
+              isLoading={isLoading && !ledger}
+              emptyMessage={t('commissions.charts.levels.empty')}
+              totalLabel={formatAmount(
+                levelData.reduce((total, point) => total + point.value, 0),
+              )}
+            />
+          </View>
+        </View>
+
+        <View style={styles.card} testID="commissions-ledger">
+          <Text style={styles.cardTitle}>{t('commissions.ledger.title')}</Text>
+          <View style={styles.chipList}>
+            {STATUS_FILTERS.map(option => {
+              const selected = option === statusFilter;
+              return (
+                <Pressable
+                  key={option ?? 'all'}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  onPress={() => setStatusFilter(option)}
+                  style={[styles.chip, selected ? styles.chipSelected : null]}
+                  testID={`commissions-status-${option ?? 'all'}`}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selected ? styles.chipTextSelected : null,
+                    ]}
+                  >
+                    {option
+                      ? t(`commissions.status.${option}`)
+                      : t('commissions.ledger.allStatuses')}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <View style={styles.chipList}>
+            {LEVEL_FILTERS.map(option => {
+              const selected = option === levelFilter;
+              return (
+                <Pressable
+                  key={option ?? 'all'}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  onPress={() => setLevelFilter(option)}
+                  style={[styles.chip, selected ? styles.chipSelected : null]}
+                  testID={`commissions-level-${option ?? 'all'}`}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selected ? styles.chipTextSelected : null,
+                    ]}
+                  >
+                    {option
+                      ? t(`commissions.levels.${option}`)
+                      : t('commissions.ledger.allLevels')}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {visibleEntries.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {isLoading
+                ? t('commissions.ledger.loading')
+                : t('commissions.ledger.empty')}
+            </Text>
+          ) : (
+            visibleEntries.map(entry => (
+              <Pressable
+                key={entry.id}
+                accessibilityRole="button"
+                onPress={() => handleOpenEntry(entry)}
+                style={styles.ledgerRow}
+                testID={`commissions-entry-${entry.id}`}
+              >
+                <View style={styles.ledgerText}>
+                  <Text style={styles.ledgerTitle}>
+                    {entry.memberName ??
+                      t('commissions.member.unknown', {
+                        replace: { id: entry.memberId ?? '—' },
+                      })}
+                  </Text>
+                  <Text style={styles.meta}>
+                    {[
+                      formatDate(entry.createdAt),
+                      t(`commissions.levels.${entry.level}`),
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                </View>
+                <View style={styles.ledgerAmount}>
+                  <Text style={styles.ledgerTitle}>
+                    {formatAmount(entry.amount)}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.statusPill,
+                      entry.status === 'paid'
+                        ? styles.statusPaid
+                        : entry.status === 'cancelled'
+                        ? styles.statusCancelled
+                        : styles.statusPending,
+                    ]}
+                  >
+                    {t(`commissions.status.${entry.status}`)}
+                  </Text>
+                </View>
+              </Pressable>
+            ))
+          )}
+        </View>
+      </ScrollView>
+      <CommissionMemberModal
+        member={selectedMember}
+        formatAmount={formatAmount}
+        formatDate={formatDate}
+        onClose={() => setSelectedMember(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  container: {
+    gap: 16,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 16,
+  },
+  headerTextGroup: {
+    flexShrink: 1,
+    gap: 8,
+  },
+  headerActions: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryRowStacked: {
+    flexDirection: 'column',
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 4,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  chartStack: {
+    gap: 16,
+  },
+  chartRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  chartColumn: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  ledgerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: COLORS.mutedBorder,
+  },
+  ledgerText: {
+    flex: 1,
+    gap: 2,
+  },
+  ledgerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  ledgerAmount: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  statusPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    borderRadius: 999,
+    overflow: 'hidden',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  statusPending: {
+    color: COLORS.warningText,
+    backgroundColor: COLORS.warningBackground,
+  },
+  statusPaid: {
+    color: COLORS.successText,
+    backgroundColor: COLORS.successBackground,
+  },
+  statusCancelled: {
+    color: COLORS.textSecondary,
+    backgroundColor: COLORS.surfaceMuted,
+  },
+  meta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: COLORS.errorText,
+    backgroundColor: COLORS.errorBackground,
+    padding: 12,
+    borderRadius: 12,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+});
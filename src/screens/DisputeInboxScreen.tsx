@@ -0,0 +1,411 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { useDisputes } from '../hooks/useDisputes';
+import { DisputeResponseModal } from '../components/DisputeResponseModal';
+import { COLORS } from '../config/theme';
+import {
+  RespondToDisputeRequest,
+  TransactionDispute,
+  TransactionDisputeStatus,
+} from '../types/transactions';
+import { isDisputeActive } from '../utils/transactionDispute';
+import deviceLog from '../utils/deviceLog';
+
+interface DisputeInboxScreenProps {
+  role: 'vendor' | 'admin';
+  onBack?: () => void;
+}
+
+const STATUS_FILTERS: (TransactionDisputeStatus | null)[] = [
+  null,
+  'open',
+  'in_review',
+  'resolved',
+  'rejected',
+];
+
+const formatCurrency = (value: number, locale: string) =>
+  value.toLocaleString(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * Lists member disputes for vendors (their own sales) and admins (every
+ * sale) and lets them reply or move a dispute towards resolution.
+ */
+export const DisputeInboxScreen: React.FC<DisputeInboxScreenProps> = ({
+  role,
+  onBack,
+}) => {
+  const { t, language } = useLocalization();
+  const locale = language === 'th' ? 'th-TH' : 'en-US';
+  const {
+    disputes,
+    statusFilter,
+    setStatusFilter,
+    isLoading,
+    error,
+    refresh,
+    respond,
+  } = useDisputes(role);
+  const [responseTarget, setResponseTarget] =
+    useState<TransactionDispute | null>(null);
+
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [locale],
+  );
+
+  const formatDate = useCallback(
+    (value: string | null) => {
+      const date = value ? new Date(value) : null;
+      return date && !Number.isNaN(date.getTime())
+        ? dateFormatter.format(date)
+        : '';
+    },
+    [dateFormatter],
+  );
+
+  const handleRespond = useCallback(
+    async (request: RespondToDisputeRequest) => {
+      if (!responseTarget) {
+        return;
+      }
+      await respond(responseTarget, request);
+      deviceLog.info(`disputes.${role}.responded`, {
+        id: responseTarget.id,
+        status: request.status ?? null,
+      });
+    },
+    [respond, responseTarget, role],
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerTextGroup}>
+            <Text style={styles.title}>{t('disputes.inbox.title')}</Text>
+            <Text style={styles.subtitle}>
+              {t(`disputes.inbox.subtitle.${role}`)}
+            </Text>
+          </View>
+          <View style={styles.headerActions}>
+            {onBack ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onBack}
+                style={styles.secondaryButton}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('analytics.shared.back')}
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => void refresh()}
+              style={styles.secondaryButton}
+              testID="dispute-inbox-refresh"
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('analytics.shared.refresh')}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.chipList}>
+          {STATUS_FILTERS.map(option => {
+            const selected = option === statusFilter;
+            return (
+              <Pressable
+                key={option ?? 'all'}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                onPress={() => setStatusFilter(option)}
+                style={[styles.chip, selected && styles.chipSelected]}
+                testID={`dispute-inbox-filter-${option ?? 'all'}`}
+              >
+                <Text
+                  style={[styles.chipText, selected && styles.chipTextSelected]}
+                >
+                  {option
+                    ? t(`disputes.status.${option}`)
+                    : t('disputes.inbox.all')}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {isLoading && !disputes.length ? (
+          <ActivityIndicator color={COLORS.primary} />
+        ) : disputes.length === 0 ? (
+          <Text style={styles.emptyText}>{t('disputes.inbox.empty')}</Text>
+        ) : (
+          disputes.map(dispute => (
+            <View
+              key={dispute.id}
+              style={styles.card}
+              testID={`dispute-${dispute.id}`}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>
+                  {t(`disputes.reasons.${dispute.reason}`)}
+                </Text>
+                <Text
+                  style={[
+                    styles.statusPill,
+                    isDisputeActive(dispute.status) && styles.statusPillActive,
+                  ]}
+                >
+                  {t(`disputes.status.${dispute.status}`)}
+                </Text>
+              </View>
+              <Text style={styles.meta}>
+                {t('disputes.inbox.parties', {
+                  replace: {
+                    member: dispute.memberName ?? t('disputes.inbox.member'),
+                    vendor:
+                      [dispute.vendorName, dispute.outletName]
+                        .filter(Boolean)
+                        .join(' · ') || t('analytics.shared.unknownVendor'),
+                  },
+                })}
+              </Text>
+              <Text style={styles.meta}>
+                {t('disputes.inbox.transaction', {
+                  replace: {
+                    date: formatDate(dispute.transactionCreatedAt),
+                    net: formatCurrency(dispute.netAmount ?? 0, locale),
+                    discount: formatCurrency(
+                      dispute.discountAmount ?? 0,
+                      locale,
+                    ),
+                  },
+                })}
+              </Text>
+              <Text style={styles.meta}>
+                {t('disputes.inbox.opened', {
+                  replace: { date: formatDate(dispute.createdAt) },
+                })}
+              </Text>
+              {dispute.note ? (
+                <Text style={styles.note}>{dispute.note}</Text>
+              ) : null}
+              {dispute.photoUrl ? (
+                <Image
+                  source={{ uri: dispute.photoUrl }}
+                  style={styles.photo}
+                  resizeMode="cover"
+                  testID={`dispute-photo-${dispute.id}`}
+                />
+              ) : null}
+              {dispute.messages.map(message => (
+                <View key={message.id} style={styles.message}>
+                  <Text style={styles.messageAuthor}>
+                    {message.authorName ??
+                      t(`disputes.roles.${message.authorRole}`)}
+                    {message.status
+                      ? ` · ${t(`disputes.status.${message.status}`)}`
+                      : ''}
+                  </Text>
+                  <Text style={styles.meta}>{message.message}</Text>
+                </View>
+              ))}
+              {isDisputeActive(dispute.status) || role === 'admin' ? (
+                <Pressable
+                  accessibilityRole="button"
+                  onPress={() => setResponseTarget(dispute)}
+                  style={styles.primaryButton}
+                  testID={`dispute-respond-${dispute.id}`}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {t('disputes.inbox.respond')}
+                  </Text>
+                </Pressable>
+              ) : null}
+            </View>
+          ))
+        )}
+      </ScrollView>
+      <DisputeResponseModal
+        dispute={responseTarget}
+        role={role}
+        onClose={() => setResponseTarget(null)}
+        onSubmit={handleRespond}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 16,
+  },
+  headerTextGroup: {
+    flexShrink: 1,
+    gap: 8,
+  },
+  headerActions: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  statusPill: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    overflow: 'hidden',
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    backgroundColor: COLORS.surfaceMuted,
+  },
+  statusPillActive: {
+    color: COLORS.warningText,
+    backgroundColor: COLORS.warningBackground,
+  },
+  meta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  note: {
+    fontSize: 14,
+    color: COLORS.textPrimary,
+  },
+  photo: {
+    width: '100%',
+    height: 180,
+    borderRadius: 12,
+    backgroundColor: COLORS.surfaceMuted,
+  },
+  message: {
+    gap: 2,
+    paddingLeft: 12,
+    borderLeftWidth: 2,
+    borderLeftColor: COLORS.mutedBorder,
+  },
+  messageAuthor: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  primaryButton: {
+    minHeight: 44,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: COLORS.errorText,
+    backgroundColor: COLORS.errorBackground,
+    padding: 12,
+    borderRadius: 12,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,458 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { useGenealogy } from '../hooks/useGenealogy';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { COLORS } from '../config/theme';
+import { GenealogyNode } from '../types/mlm';
+import {
+  countDownline,
+  filterGenealogyTree,
+  findGenealogyNode,
+  getTierColor,
+  hasUnloadedRecruits,
+} from '../utils/genealogy';
+import deviceLog from '../utils/deviceLog';
+
+interface GenealogyScreenProps {
+  onBack?: () => void;
+}
+
+const DEPTH_OPTIONS = Array.from(
+  {
+    length: MLM_CONFIG.genealogy.maxDepth - MLM_CONFIG.genealogy.minDepth + 1,
+  },
+  (_, index) => MLM_CONFIG.genealogy.minDepth + index,
+);
+
+/**
+ * Shows the member's sponsor tree. Nodes expand in place and fetch the next
+ * level when it was not part of the original response.
+ */
+export const GenealogyScreen: React.FC<GenealogyScreenProps> = ({ onBack }) => {
+  const { t } = useLocalization();
+  const layout = useResponsiveLayout();
+  const {
+    tree,
+    depth,
+    setDepth,
+    isLoading,
+    loadingNodeId,
+    error,
+    refresh,
+    loadChildren,
+  } = useGenealogy();
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(() => new Set());
+  const [limitedIds, setLimitedIds] = useState<Set<number>>(() => new Set());
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const isSearching = query.trim().length > 0;
+  const indentStep = layout.isTablet ? 24 : 16;
+
+  const visibleRoot = useMemo(
+    () => (tree ? filterGenealogyTree(tree.root, query) : null),
+    [query, tree],
+  );
+  const selectedNode = useMemo(
+    () =>
+      tree && selectedId !== null
+        ? findGenealogyNode(tree.root, selectedId)
+        : null,
+    [selectedId, tree],
+  );
+
+  const handleToggle = useCallback(
+    async (node: GenealogyNode) => {
+      setSelectedId(node.id);
+      if (expandedIds.has(node.id)) {
+        setExpandedIds(previous => {
+          const next = new Set(previous);
+          next.delete(node.id);
+          return next;
+        });
+        return;
+      }
+
+      setExpandedIds(previous => new Set(previous).add(node.id));
+      if (hasUnloadedRecruits(node)) {
+        deviceLog.info('genealogy.node.expand', {
+          id: node.id,
+          depth: node.depth,
+        });
+        const loaded = await loadChildren(node);
+        if (!loaded) {
+          setLimitedIds(previous => new Set(previous).add(node.id));
+        }
+      }
+    },
+    [expandedIds, loadChildren],
+  );
+
+  const renderNode = (node: GenealogyNode): React.ReactNode => {
+    const isRoot = node.depth === 0;
+    const isExpanded = isRoot || isSearching || expandedIds.has(node.id);
+    const canExpand = node.recruits > 0 || node.children.length > 0;
+    const tierColor = getTierColor(node.level);
+    return (
+      <View key={node.id}>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityState={{ expanded: canExpand ? isExpanded : undefined }}
+          disabled={isRoot}
+          onPress={() => void handleToggle(node)}
+          style={[
+            styles.nodeRow,
+            { marginLeft: Math.max(0, node.depth - 1) * indentStep },
+            { borderLeftColor: tierColor },
+            selectedId === node.id ? styles.nodeRowSelected : null,
+          ]}
+          testID={`genealogy-node-${node.id}`}
+        >
+          <Text style={styles.nodeToggle}>
+            {canExpand && !isRoot ? (isExpanded ? '▾' : '▸') : ' '}
+          </Text>
+          <View style={styles.nodeBody}>
+            <Text style={styles.nodeName}>
+              {isRoot ? t('genealogy.you') : node.name}
+            </Text>
+            <Text style={[styles.nodeTier, { color: tierColor }]}>
+              {node.level ? node.level.toUpperCase() : t('genealogy.noTier')}
+            </Text>
+          </View>
+          <Text style={styles.nodeRecruits}>
+            {t('genealogy.recruits', { replace: { count: node.recruits } })}
+          </Text>
+          {loadingNodeId === node.id ? (
+            <ActivityIndicator color={COLORS.primary} />
+          ) : null}
+        </Pressable>
+        {isExpanded && limitedIds.has(node.id) ? (
+          <Text
+            style={[styles.nodeHint, { marginLeft: node.depth * indentStep }]}
+          >
+            {t('genealogy.depthLimit')}
+          </Text>
+        ) : null}
+        {isExpanded ? node.children.map(renderNode) : null}
+      </View>
+    );
+  };
+
+  const details = selectedNode ? (
+    <View style={styles.card} testID="genealogy-details">
+      <Text style={styles.cardTitle}>{selectedNode.name}</Text>
+      <Text style={styles.meta}>
+        {t('genealogy.details.tier', {
+          replace: {
+            tier: selectedNode.level
+              ? selectedNode.level.toUpperCase()
+              : t('genealogy.noTier'),
+          },
+        })}
+      </Text>
+      <Text style={styles.meta}>
+        {t('genealogy.details.level', {
+          replace: { level: selectedNode.depth },
+        })}
+      </Text>
+      <Text style={styles.meta}>
+        {t('genealogy.recruits', {
+          replace: { count: selectedNode.recruits },
+        })}
+      </Text>
+      <Text style={styles.meta}>
+        {t('genealogy.details.downline', {
+          replace: { count: countDownline(selectedNode) },
+        })}
+      </Text>
+    </View>
+  ) : (
+    <View style={styles.card}>
+      <Text style={styles.emptyText}>{t('genealogy.details.hint')}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.container,
+          {
+            padding: layout.contentPadding,
+            maxWidth: layout.maxContentWidth,
+          },
+        ]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <View style={styles.headerTextGroup}>
+            <Text style={styles.title}>{t('genealogy.title')}</Text>
+            <Text style={styles.subtitle}>{t('genealogy.subtitle')}</Text>
+          </View>
+          <View style={styles.headerActions}>
+            {onBack ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onBack}
+                style={styles.secondaryButton}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {t('analytics.shared.back')}
+                </Text>
+              </Pressable>
+            ) : null}
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => void refresh()}
+              style={styles.secondaryButton}
+              testID="genealogy-refresh"
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('analytics.shared.refresh')}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('genealogy.searchPlaceholder')}
+          placeholderTextColor={COLORS.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.searchInput}
+          testID="genealogy-search"
+        />
+
+        <View style={styles.depthRow}>
+          <Text style={styles.meta}>{t('genealogy.depthLabel')}</Text>
+          <View style={styles.chipList}>
+            {DEPTH_OPTIONS.map(option => {
+              const selected = option === depth;
+              return (
+                <Pressable
+                  key={option}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                  onPress={() => setDepth(option)}
+                  style={[styles.chip, selected ? styles.chipSelected : null]}
+                  testID={`genealogy-depth-${option}`}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selected ? styles.chipTextSelected : null,
+                    ]}
+                  >
+                    {option}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <View style={layout.isTablet ? styles.columns : styles.stack}>
+          <View
+            style={[styles.card, layout.isTablet ? styles.treeColumn : null]}
+          >
+            {isLoading && !tree ? (
+              <ActivityIndicator color={COLORS.primary} />
+            ) : !tree || tree.root.recruits === 0 ? (
+              <Text style={styles.emptyText}>{t('genealogy.empty')}</Text>
+            ) : !visibleRoot ? (
+              <Text style={styles.emptyText}>{t('genealogy.noMatches')}</Text>
+            ) : (
+              renderNode(visibleRoot)
+            )}
+          </View>
+          {layout.isTablet ? (
+            <View style={styles.detailsColumn}>{details}</View>
+          ) : null}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  container: {
+    gap: 16,
+    width: '100%',
+    alignSelf: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 16,
+  },
+  headerTextGroup: {
+    flexShrink: 1,
+    gap: 8,
+  },
+  headerActions: {
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  searchInput: {
+    minHeight: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.mutedBorder,
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: 12,
+    color: COLORS.textPrimary,
+  },
+  depthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    minWidth: 40,
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.textOnPrimary,
+    fontWeight: '600',
+  },
+  stack: {
+    gap: 16,
+  },
+  columns: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 16,
+  },
+  treeColumn: {
+    flex: 3,
+  },
+  detailsColumn: {
+    flex: 2,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  nodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderLeftWidth: 4,
+    borderRadius: 8,
+    marginBottom: 4,
+    backgroundColor: COLORS.surfaceMuted,
+  },
+  nodeRowSelected: {
+    backgroundColor: COLORS.primaryMuted,
+  },
+  nodeToggle: {
+    width: 12,
+    color: COLORS.textSecondary,
+  },
+  nodeBody: {
+    flex: 1,
+    gap: 2,
+  },
+  nodeName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  nodeTier: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  nodeRecruits: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  nodeHint: {
+    fontSize: 12,
+    color: COLORS.textTertiary,
+    paddingVertical: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  errorText: {
+    color: COLORS.errorText,
+    backgroundColor: COLORS.errorBackground,
+    padding: 12,
+    borderRadius: 12,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+});
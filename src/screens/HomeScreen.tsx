@@ -14,6 +14,8 @@ import { LanguageSwitcher } from '../components/LanguageSwitcher';
 import { BenefitList } from '../components/BenefitList';
 import { MembershipCard } from '../components/MembershipCard';
 import { BrandLogo } from '../components/BrandLogo';
+import { RedemptionApprovalPrompt } from '../components/RedemptionApprovalPrompt';
+import { UpgradeProgressCard } from '../components/UpgradeProgressCard';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useLocalization } from '../contexts/LocalizationContext';
 import { useTransactionContext } from '../contexts/TransactionContext';
@@ -26,6 +28,7 @@ import {
   getUserInitials,
 } from '../utils/user';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useRedemptionApprovals } from '../hooks/useRedemptionApprovals';
 import deviceLog from '../utils/deviceLog';
 
 export const getMaxDiscount = (
@@ -50,7 +53,13 @@ export const getMaxDiscount = (
 };
 
 type QuickAction = {
-  key: 'vendors' | 'upgrade' | 'analytics' | 'admin';
+  key:
+    | 'vendors'
+    | 'upgrade'
+    | 'analytics'
+    | 'genealogy'
+    | 'commissions'
+    | 'admin';
   label: string;
   message: string;
 };
@@ -59,6 +68,8 @@ type HomeScreenProps = {
   onManageProfile?: () => void;
   onUpgradeMembership?: () => void;
   onViewAnalytics?: () => void;
+  onViewGenealogy?: () => void;
+  onViewCommissions?: () => void;
   onOpenAdminConsole?: () => void;
   onOpenMembershipDebug?: () => void;
 };
@@ -67,6 +78,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
   onManageProfile,
   onUpgradeMembership,
   onViewAnalytics,
+  onViewGenealogy,
+  onViewCommissions,
   onOpenAdminConsole,
   onOpenMembershipDebug,
 }) => {
@@ -84,6 +97,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
     pendingNavigationTarget,
     consumeNavigationTarget,
   } = useOneSignalNotifications();
+  const { requests: approvalRequests, respond: respondToApproval } =
+    useRedemptionApprovals();
   const fullName = useMemo(() => getUserFullName(user), [user]);
   const displayName = useMemo(() => getUserDisplayName(user), [user]);
   const greeting = useMemo(() => {
@@ -175,6 +190,22 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
       },
     ];
 
+    if (onViewGenealogy) {
+      actions.push({
+        key: 'genealogy',
+        label: t('home.quickActions.viewGenealogy'),
+        message: t('home.quickActions.viewGenealogyMessage'),
+      });
+    }
+
+    if (onViewCommissions) {
+      actions.push({
+        key: 'commissions',
+        label: t('home.quickActions.viewCommissions'),
+        message: t('home.quickActions.viewCommissionsMessage'),
+      });
+    }
+
     if (isAdminAccount && onOpenAdminConsole) {
       actions.unshift({
         key: 'admin',
@@ -184,7 +215,13 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
     }
 
     return actions;
-  }, [isAdminAccount, onOpenAdminConsole, t]);
+  }, [
+    isAdminAccount,
+    onOpenAdminConsole,
+    onViewCommissions,
+    onViewGenealogy,
+    t,
+  ]);
 
   const layout = useResponsiveLayout();
   const logEvent = useCallback(
@@ -300,12 +337,32 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
           onViewAnalytics();
           return;
         }
+      } else if (action.key === 'genealogy') {
+        if (onViewGenealogy) {
+          logEvent('navigation.genealogy');
+          onViewGenealogy();
+          return;
+        }
+      } else if (action.key === 'commissions') {
+        if (onViewCommissions) {
+          logEvent('navigation.commissions');
+          onViewCommissions();
+          return;
+        }
       }
 
       logEvent('quickAction.unavailable', { action: action.key });
       Alert.alert(t('home.quickActions.comingSoonTitle'), action.message);
     },
-    [logEvent, onOpenAdminConsole, onUpgradeMembership, onViewAnalytics, t],
+    [
+      logEvent,
+      onOpenAdminConsole,
+      onUpgradeMembership,
+      onViewAnalytics,
+      onViewCommissions,
+      onViewGenealogy,
+      t,
+    ],
   );
 
   const recentTransactions = useMemo(
@@ -336,6 +393,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
       return t('home.notifications.renewalTitle');
     }
 
+    if (activeNotification.category === 'approval') {
+      return t('home.notifications.approvalTitle');
+    }
+
     return t('home.notifications.genericTitle');
   }, [activeNotification, t]);
 
@@ -591,6 +652,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
           emptyState={t('home.membership.empty')}
         />
 
+        <UpgradeProgressCard />
+
         <BenefitList
           title={t('home.benefits.heading')}
           emptyLabel={t('home.benefits.empty')}
@@ -693,7 +756,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
                   ? styles.transactionStatusFailed
                   : transaction.status === 'completed'
                     ? styles.transactionStatusCompleted
-                    : styles.transactionStatusPending;
+                    : transaction.status === 'pending'
+                      ? styles.transactionStatusPending
+                      : styles.transactionStatusReversed;
               const vendorLabel = transaction.vendorName
                 ? transaction.vendorName
                 : t('home.transactions.defaultVendor');
@@ -745,6 +810,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({
           <Text style={styles.buttonText}>{t('home.logout')}</Text>
         </Pressable>
       </ScrollView>
+      <RedemptionApprovalPrompt
+        request={approvalRequests[0] ?? null}
+        formatCurrency={formatTransactionAmount}
+        onRespond={respondToApproval}
+      />
     </SafeAreaView>
   );
 };
@@ -1031,4 +1101,8 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.errorBackground,
     color: COLORS.errorText,
   },
+  transactionStatusReversed: {
+    backgroundColor: COLORS.infoBackground,
+    color: COLORS.infoText,
+  },
 });
@@ -1,4 +1,10 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import {
   Alert,
   Pressable,
@@ -19,6 +25,7 @@ import { WordPressLoginForm } from '../components/WordPressLoginForm';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useLocalization } from '../contexts/LocalizationContext';
 import { useAuthAvailability } from '../hooks/useAuthAvailability';
+import { useReferral } from '../providers/ReferralProvider';
 import { RegisterOptions } from '../types/auth';
 import { COLORS } from '../config/theme';
 import { getUserDisplayName } from '../utils/user';
@@ -65,6 +72,21 @@ export const LoginScreen: React.FC = () => {
   const [pinError, setPinError] = useState<string | null>(null);
   const [isForgotPasswordVisible, setForgotPasswordVisible] = useState(false);
   const [isRegisterVisible, setRegisterVisible] = useState(false);
+  const { pendingReferral, clearReferral } = useReferral();
+  // Each captured referral opens the registration form once.
+  const openedReferralRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (
+      !pendingReferral ||
+      openedReferralRef.current === pendingReferral.receivedAt
+    ) {
+      return;
+    }
+    openedReferralRef.current = pendingReferral.receivedAt;
+    logEvent('modal.register.referral', { source: pendingReferral.source });
+    setRegisterVisible(true);
+  }, [logEvent, pendingReferral]);
 
   useEffect(() => {
     logEvent('screen.entered', {
@@ -209,14 +231,18 @@ export const LoginScreen: React.FC = () => {
   );
 
   const handleRegisterAccount = useCallback(
-    (options: RegisterOptions) => {
+    async (options: RegisterOptions) => {
       logEvent('register.submitted', {
         hasEmail: Boolean(options.email),
         isVendor: options.accountType === 'vendor',
+        hasSponsor: Boolean(options.sponsorCode),
       });
-      return registerAccount(options);
+      const message = await registerAccount(options);
+      // The referral has been used; keep it otherwise so a retry still has it.
+      await clearReferral();
+      return message;
     },
-    [logEvent, registerAccount],
+    [clearReferral, logEvent, registerAccount],
   );
 
   const changeTab = useCallback(
@@ -454,6 +480,7 @@ export const LoginScreen: React.FC = () => {
     visible={isRegisterVisible}
     onClose={handleHideRegister}
     onSubmit={handleRegisterAccount}
+    sponsorCode={pendingReferral?.code ?? null}
   />
     </SafeAreaView>
   );
@@ -1,5 +1,8 @@
-import React, { useCallback, useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -13,8 +16,23 @@ import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
 import { MonthlySavingsChart } from '../components/analytics/MonthlySavingsChart';
 import { TopVendorsChart } from '../components/analytics/TopVendorsChart';
 import { TransactionStatusChart } from '../components/analytics/TransactionStatusChart';
+import { TransactionFilterBar } from '../components/TransactionFilterBar';
+import { TransactionLineItems } from '../components/TransactionLineItems';
+import { TransactionExportModal } from '../components/TransactionExportModal';
+import { TransactionDisputeModal } from '../components/TransactionDisputeModal';
 import { COLORS } from '../config/theme';
-import { TransactionStatus } from '../types/transactions';
+import { TRANSACTION_EXPORT_CONFIG } from '../config/transactionExportConfig';
+import { TRANSACTION_HISTORY_CONFIG } from '../config/transactionHistoryConfig';
+import { isNearScrollEnd } from '../utils/scroll';
+import {
+  CreateTransactionDisputeRequest,
+  TransactionRecord,
+  TransactionStatus,
+} from '../types/transactions';
+import {
+  canDisputeTransaction,
+  isDisputeActive,
+} from '../utils/transactionDispute';
 import deviceLog from '../utils/deviceLog';
 
 interface MemberDashboardScreenProps {
@@ -35,6 +53,7 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
   const locale = language === 'th' ? 'th-TH' : 'en-US';
   const layout = useResponsiveLayout();
   const {
+    transactions,
     monthlySavings,
     topVendors,
     statusBreakdown,
@@ -45,7 +64,19 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
     error,
     lastUpdated,
     refresh,
+    filters,
+    setFilters,
+    hasMore,
+    isLoadingMore,
+    totalCount,
+    loadMore,
+    exportHistory,
+    disputeTransaction,
   } = useMemberTransactions();
+  const [isExportVisible, setIsExportVisible] = useState(false);
+  const [disputeTarget, setDisputeTarget] = useState<TransactionRecord | null>(
+    null,
+  );
   const logEvent = useCallback(
     (event: string, payload?: Record<string, unknown>) => {
       deviceLog.info(`memberDashboard.${event}`, payload);
@@ -83,7 +114,14 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
   );
 
   const statusData = useMemo(() => {
-    const order: TransactionStatus[] = ['completed', 'pending', 'failed'];
+    const order: TransactionStatus[] = [
+      'completed',
+      'pending',
+      'failed',
+      'voided',
+      'refunded',
+      'partially_refunded',
+    ];
     return order.map(status => {
       const match = statusBreakdown.find(item => item.status === status);
       return {
@@ -117,6 +155,46 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
     void refresh();
   }, [logEvent, refresh]);
 
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (
+        hasMore &&
+        isNearScrollEnd(
+          event.nativeEvent,
+          TRANSACTION_HISTORY_CONFIG.loadMoreThresholdPx,
+        )
+      ) {
+        logEvent('history.loadMore', { loaded: transactions.length });
+        void loadMore();
+      }
+    },
+    [hasMore, loadMore, logEvent, transactions.length],
+  );
+
+  const dateFormatter = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }),
+    [locale],
+  );
+
+  const handleDisputeSubmit = useCallback(
+    async (request: CreateTransactionDisputeRequest) => {
+      if (!disputeTarget) {
+        return;
+      }
+      await disputeTransaction(disputeTarget.id, request);
+      logEvent('dispute.submitted', {
+        id: disputeTarget.id,
+        reason: request.reason,
+      });
+    },
+    [disputeTarget, disputeTransaction, logEvent],
+  );
+
   const handleBackPress = useCallback(() => {
     logEvent('navigation.back');
     onBack?.();
@@ -124,7 +202,11 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <ScrollView contentContainerStyle={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+      >
         <View style={[styles.header, { flexDirection: layout.isTablet ? 'row' : 'column' }]}>
           <View style={styles.headerTextGroup}>
             <Text style={styles.title}>{t('analytics.member.title')}</Text>
@@ -195,10 +277,131 @@ export const MemberDashboardScreen: React.FC<MemberDashboardScreenProps> = ({
             totalLabel={totalLabel}
           />
         </View>
+        <View style={styles.historyCard} testID="member-dashboard-history">
+          <View style={styles.historyHeader}>
+            <Text style={styles.historyTitle}>{t('analytics.history.title')}</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => {
+                logEvent('export.open');
+                setIsExportVisible(true);
+              }}
+              style={styles.backButton}
+              testID="member-dashboard-export"
+            >
+              <Text style={styles.backButtonText}>
+                {t('analytics.export.open')}
+              </Text>
+            </Pressable>
+          </View>
+          <TransactionFilterBar
+            filters={filters}
+            onChange={setFilters}
+            showTierFilter={false}
+          />
+          {totalCount != null ? (
+            <Text style={styles.historyMeta}>
+              {t('analytics.history.count', {
+                replace: { shown: transactions.length, total: totalCount },
+              })}
+            </Text>
+          ) : null}
+          {transactions.length === 0 && !isLoading ? (
+            <Text style={styles.historyMeta}>{t('analytics.history.empty')}</Text>
+          ) : (
+            transactions.map(transaction => {
+              const createdAt = new Date(transaction.createdAt);
+              return (
+                <View style={styles.historyRow} key={transaction.id}>
+                  <View style={styles.historyRowHeader}>
+                    <Text style={styles.historyRowTitle}>
+                      {transaction.vendorName?.trim() ||
+                        t('analytics.shared.unknownVendor')}
+                    </Text>
+                    <Text style={styles.historyMeta}>
+                      {t(`analytics.status.${transaction.status}`)}
+                    </Text>
+                  </View>
+                  <Text style={styles.historyMeta}>
+                    {Number.isNaN(createdAt.getTime())
+                      ? ''
+                      : dateFormatter.format(createdAt)}
+                  </Text>
+                  <Text style={styles.historyMeta}>
+                    {t('analytics.history.summary', {
+                      replace: {
+                        net: formatCurrency(transaction.netAmount ?? 0, locale),
+                        discount: formatCurrency(
+                          transaction.discountAmount ?? 0,
+                          locale,
+                        ),
+                      },
+                    })}
+                  </Text>
+                  <TransactionLineItems items={transaction.lineItems} />
+                  {transaction.disputeStatus ? (
+                    <Text
+                      style={[
+                        styles.disputeStatus,
+                        isDisputeActive(transaction.disputeStatus) &&
+                          styles.disputeStatusActive,
+                      ]}
+                      testID={`member-dispute-status-${transaction.id}`}
+                    >
+                      {t('disputes.rowStatus', {
+                        replace: {
+                          status: t(
+                            `disputes.status.${transaction.disputeStatus}`,
+                          ),
+                        },
+                      })}
+                    </Text>
+                  ) : canDisputeTransaction(transaction) ? (
+                    <Pressable
+                      accessibilityRole="button"
+                      onPress={() => {
+                        logEvent('dispute.open', { id: transaction.id });
+                        setDisputeTarget(transaction);
+                      }}
+                      style={styles.disputeButton}
+                      testID={`member-dispute-open-${transaction.id}`}
+                    >
+                      <Text style={styles.disputeButtonText}>
+                        {t('disputes.report')}
+                      </Text>
+                    </Pressable>
+                  ) : null}
+                </View>
+              );
+            })
+          )}
+          {isLoadingMore ? (
+            <View style={styles.loadingMore}>
+              <ActivityIndicator color={COLORS.primary} />
+              <Text style={styles.historyMeta}>
+                {t('analytics.history.loadingMore')}
+              </Text>
+            </View>
+          ) : null}
+          {!hasMore && transactions.length > 0 ? (
+            <Text style={styles.updatedText}>{t('analytics.history.end')}</Text>
+          ) : null}
+        </View>
         {isEmpty ? (
           <Text style={styles.emptyHint}>{t('analytics.member.empty')}</Text>
         ) : null}
       </ScrollView>
+      <TransactionExportModal
+        visible={isExportVisible}
+        defaultColumns={TRANSACTION_EXPORT_CONFIG.defaultColumns.member}
+        onClose={() => setIsExportVisible(false)}
+        onExport={exportHistory}
+      />
+      <TransactionDisputeModal
+        transaction={disputeTarget}
+        onClose={() => setDisputeTarget(null)}
+        onSubmit={handleDisputeSubmit}
+      />
     </SafeAreaView>
   );
 };
@@ -297,6 +500,67 @@ const styles = StyleSheet.create({
   cardGrid: {
     gap: 24,
   },
+  historyCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  historyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  historyRow: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    padding: 12,
+    gap: 4,
+  },
+  historyRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  historyRowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  historyMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  disputeStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  disputeStatusActive: {
+    color: COLORS.warningText,
+  },
+  disputeButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  disputeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  loadingMore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   emptyHint: {
     textAlign: 'center',
     color: COLORS.textSecondary,
@@ -28,6 +28,7 @@ import {
 import { MembershipPlan } from '../types/auth';
 import { COLORS } from '../config/theme';
 import { BrandLogo } from '../components/BrandLogo';
+import { UpgradeProgressCard } from '../components/UpgradeProgressCard';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
 import deviceLog from '../utils/deviceLog';
 import { createAppError, ensureAppError } from '../errors';
@@ -594,6 +595,8 @@ export const MembershipScreen: React.FC<MembershipScreenProps> = ({
           </Text>
         </View>
 
+        <UpgradeProgressCard plans={plans} />
+
         {loading ? (
           <View style={[styles.loadingState, responsiveStyles.loadingState]}>
             <ActivityIndicator color={COLORS.primary} />
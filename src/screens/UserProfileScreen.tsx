@@ -19,8 +19,10 @@ import { setBiometricLoginEnabled } from '../services/biometricPreferenceService
 import { COLORS } from '../config/theme';
 import { BrandLogo } from '../components/BrandLogo';
 import { MemberQrCard } from '../components/MemberQrCard';
+import { ReferralCard } from '../components/ReferralCard';
 import { launchImageLibrary } from 'react-native-image-picker';
 import { getUserDisplayName, getUserInitials } from '../utils/user';
+import { getReferralCode } from '../utils/referral';
 import { PasswordVisibilityToggle } from '../components/PasswordVisibilityToggle';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
 import deviceLog from '../utils/deviceLog';
@@ -646,6 +648,13 @@ export const UserProfileScreen: React.FC<UserProfileScreenProps> = ({
           />
         ) : null}
 
+        {(user?.accountType ?? '').toLowerCase() !== 'vendor' ? (
+          <ReferralCard
+            code={getReferralCode(user)}
+            style={[styles.section, responsiveStyles.section]}
+          />
+        ) : null}
+
         <View style={[styles.section, responsiveStyles.section]}>
           <Text style={styles.sectionTitle}>
             {t('profile.password.heading')}
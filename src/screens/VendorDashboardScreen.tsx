@@ -1,5 +1,8 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
   Pressable,
   ScrollView,
   StyleSheet,
@@ -10,14 +13,32 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalization } from '../contexts/LocalizationContext';
 import { useVendorTransactions } from '../hooks/useTransactionsAnalytics';
 import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useVendorOutlets } from '../hooks/useVendorOutlets';
 import { MonthlySavingsChart } from '../components/analytics/MonthlySavingsChart';
 import { TopVendorsChart } from '../components/analytics/TopVendorsChart';
 import { TransactionStatusChart } from '../components/analytics/TransactionStatusChart';
+import {
+  TransactionReversalMode,
+  TransactionReversalModal,
+} from '../components/TransactionReversalModal';
+import { TransactionReversalActions } from '../components/TransactionReversalActions';
+import { TransactionLineItems } from '../components/TransactionLineItems';
+import { TransactionFilterBar } from '../components/TransactionFilterBar';
+import { TransactionExportModal } from '../components/TransactionExportModal';
 import { COLORS } from '../config/theme';
-import { TransactionStatus } from '../types/transactions';
+import { TRANSACTION_EXPORT_CONFIG } from '../config/transactionExportConfig';
+import { TRANSACTION_HISTORY_CONFIG } from '../config/transactionHistoryConfig';
+import { isNearScrollEnd } from '../utils/scroll';
+import {
+  RefundTransactionRequest,
+  TransactionRecord,
+  TransactionStatus,
+} from '../types/transactions';
 
 interface VendorDashboardScreenProps {
   onBack?: () => void;
+  onOpenSettlementReport?: () => void;
+  onOpenDisputes?: () => void;
 }
 
 const formatCurrency = (value: number, locale: string) => {
@@ -29,14 +50,19 @@ const formatCurrency = (value: number, locale: string) => {
 
 export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
   onBack,
+  onOpenSettlementReport,
+  onOpenDisputes,
 }) => {
   const { t, language } = useLocalization();
   const locale = language === 'th' ? 'th-TH' : 'en-US';
   const layout = useResponsiveLayout();
   const {
+    transactions,
     monthlySavings,
     topVendors,
     statusBreakdown,
+    cashierBreakdown,
+    outletBreakdown,
     totalSavings,
     completedCount,
     isLoading,
@@ -44,7 +70,52 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
     error,
     lastUpdated,
     refresh,
+    filters,
+    setFilters,
+    hasMore,
+    isLoadingMore,
+    totalCount,
+    loadMore,
+    voidTransaction,
+    refundTransaction,
+    exportHistory,
   } = useVendorTransactions();
+  const { outlets } = useVendorOutlets();
+  const [isExportVisible, setIsExportVisible] = useState(false);
+  const [reversalTarget, setReversalTarget] = useState<{
+    transaction: TransactionRecord;
+    mode: TransactionReversalMode;
+  } | null>(null);
+
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (
+        hasMore &&
+        isNearScrollEnd(
+          event.nativeEvent,
+          TRANSACTION_HISTORY_CONFIG.loadMoreThresholdPx,
+        )
+      ) {
+        void loadMore();
+      }
+    },
+    [hasMore, loadMore],
+  );
+
+  const handleReversalSubmit = useCallback(
+    async (request: RefundTransactionRequest) => {
+      if (!reversalTarget) {
+        return;
+      }
+      const { transaction, mode } = reversalTarget;
+      if (mode === 'void') {
+        await voidTransaction(transaction.id, request);
+      } else {
+        await refundTransaction(transaction.id, request);
+      }
+    },
+    [refundTransaction, reversalTarget, voidTransaction],
+  );
 
   const monthFormatter = useMemo(
     () =>
@@ -76,7 +147,14 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
   );
 
   const statusData = useMemo(() => {
-    const order: TransactionStatus[] = ['completed', 'pending', 'failed'];
+    const order: TransactionStatus[] = [
+      'completed',
+      'pending',
+      'failed',
+      'voided',
+      'refunded',
+      'partially_refunded',
+    ];
     return order.map(status => {
       const match = statusBreakdown.find(item => item.status === status);
       return {
@@ -86,6 +164,30 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
     });
   }, [statusBreakdown, t]);
 
+  const hasCashiers = useMemo(
+    () => cashierBreakdown.some(item => item.cashierId != null),
+    [cashierBreakdown],
+  );
+
+  const outletComparison = useMemo(() => {
+    if (!outletBreakdown.some(item => item.outletId != null)) {
+      return [];
+    }
+    const totalGross = outletBreakdown.reduce(
+      (sum, item) => sum + item.grossAmount,
+      0,
+    );
+    return outletBreakdown.map(item => ({
+      ...item,
+      label:
+        item.outletName ??
+        outlets.find(outlet => outlet.id === item.outletId)?.name ??
+        item.outletId ??
+        t('analytics.outlets.unassigned'),
+      share: totalGross > 0 ? (item.grossAmount / totalGross) * 100 : 0,
+    }));
+  }, [outletBreakdown, outlets, t]);
+
   const pendingCount = useMemo(
     () => statusBreakdown.find(item => item.status === 'pending')?.count ?? 0,
     [statusBreakdown],
@@ -101,7 +203,11 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
 
   return (
     <SafeAreaView style={styles.safeArea}>
-      <ScrollView contentContainerStyle={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+      >
         <View style={[styles.header, { flexDirection: layout.isTablet ? 'row' : 'column' }]}>
           <View style={styles.headerTextGroup}>
             <Text style={styles.title}>{t('analytics.vendor.title')}</Text>
@@ -117,6 +223,28 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
                 <Text style={styles.backButtonText}>{t('analytics.shared.back')}</Text>
               </Pressable>
             ) : null}
+            {onOpenSettlementReport ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onOpenSettlementReport}
+                style={styles.backButton}
+                testID="vendor-dashboard-settlement"
+              >
+                <Text style={styles.backButtonText}>{t('settlement.open')}</Text>
+              </Pressable>
+            ) : null}
+            {onOpenDisputes ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onOpenDisputes}
+                style={styles.backButton}
+                testID="vendor-dashboard-disputes"
+              >
+                <Text style={styles.backButtonText}>
+                  {t('disputes.inbox.open')}
+                </Text>
+              </Pressable>
+            ) : null}
             <Pressable
               accessibilityRole="button"
               onPress={() => void refresh()}
@@ -172,10 +300,167 @@ export const VendorDashboardScreen: React.FC<VendorDashboardScreenProps> = ({
             totalLabel={totalLabel}
           />
         </View>
+        {outletComparison.length ? (
+          <View style={styles.recentCard} testID="vendor-dashboard-outlets">
+            <Text style={styles.recentTitle}>
+              {t('analytics.outlets.title')}
+            </Text>
+            {outletComparison.map(item => (
+              <View
+                style={styles.cashierRow}
+                key={item.outletId ?? 'unassigned'}
+              >
+                <View style={styles.recentRowHeader}>
+                  <Text style={styles.recentRowName}>{item.label}</Text>
+                  <Text style={styles.recentMeta}>
+                    {t('analytics.outlets.share', {
+                      replace: { share: item.share.toFixed(1) },
+                    })}
+                  </Text>
+                </View>
+                <Text style={styles.recentMeta}>
+                  {t('analytics.cashiers.summary', {
+                    replace: {
+                      count: item.transactionCount,
+                      gross: formatCurrency(item.grossAmount, locale),
+                      discount: formatCurrency(item.totalSavings, locale),
+                    },
+                  })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        {hasCashiers ? (
+          <View style={styles.recentCard} testID="vendor-dashboard-cashiers">
+            <Text style={styles.recentTitle}>
+              {t('analytics.cashiers.title')}
+            </Text>
+            {cashierBreakdown.map(item => (
+              <View
+                style={styles.cashierRow}
+                key={item.cashierId ?? 'unassigned'}
+              >
+                <Text style={styles.recentRowName}>
+                  {item.cashierName ?? t('analytics.cashiers.unassigned')}
+                </Text>
+                <Text style={styles.recentMeta}>
+                  {t('analytics.cashiers.summary', {
+                    replace: {
+                      count: item.transactionCount,
+                      gross: formatCurrency(item.grossAmount, locale),
+                      discount: formatCurrency(item.totalSavings, locale),
+                    },
+                  })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+        <View style={styles.recentCard} testID="vendor-dashboard-history">
+          <View style={styles.recentHeader}>
+            <Text style={styles.recentTitle}>{t('analytics.history.title')}</Text>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setIsExportVisible(true)}
+              style={styles.backButton}
+              testID="vendor-dashboard-export"
+            >
+              <Text style={styles.backButtonText}>
+                {t('analytics.export.open')}
+              </Text>
+            </Pressable>
+          </View>
+          <TransactionFilterBar
+            filters={filters}
+            onChange={setFilters}
+            outlets={outlets}
+          />
+          {totalCount != null ? (
+            <Text style={styles.recentMeta}>
+              {t('analytics.history.count', {
+                replace: { shown: transactions.length, total: totalCount },
+              })}
+            </Text>
+          ) : null}
+          {transactions.length === 0 && !isLoading ? (
+            <Text style={styles.recentMeta}>{t('analytics.history.empty')}</Text>
+          ) : (
+            transactions.map(transaction => (
+              <View style={styles.recentRow} key={transaction.id}>
+                <View style={styles.recentRowHeader}>
+                  <Text style={styles.recentRowName}>
+                    {transaction.memberName || transaction.memberToken}
+                  </Text>
+                  <Text style={styles.recentMeta}>
+                    {t(`vendor.screen.recent.status.${transaction.status}`)}
+                  </Text>
+                </View>
+                <Text style={styles.recentMeta}>
+                  {t('vendor.screen.recent.summary', {
+                    replace: {
+                      gross: formatCurrency(transaction.grossAmount ?? 0, locale),
+                      discount: formatCurrency(
+                        transaction.discountAmount ?? 0,
+                        locale,
+                      ),
+                      net: formatCurrency(transaction.netAmount ?? 0, locale),
+                    },
+                  })}
+                </Text>
+                {transaction.outletName ? (
+                  <Text style={styles.recentMeta}>
+                    {t('analytics.history.outlet', {
+                      replace: { name: transaction.outletName },
+                    })}
+                  </Text>
+                ) : null}
+                {transaction.cashierName ? (
+                  <Text style={styles.recentMeta}>
+                    {t('analytics.history.cashier', {
+                      replace: { name: transaction.cashierName },
+                    })}
+                  </Text>
+                ) : null}
+                <TransactionLineItems items={transaction.lineItems} />
+                <TransactionReversalActions
+                  transaction={transaction}
+                  onRequestReversal={(target, mode) =>
+                    setReversalTarget({ transaction: target, mode })
+                  }
+                />
+              </View>
+            ))
+          )}
+          {isLoadingMore ? (
+            <View style={styles.loadingMore}>
+              <ActivityIndicator color={COLORS.primary} />
+              <Text style={styles.recentMeta}>
+                {t('analytics.history.loadingMore')}
+              </Text>
+            </View>
+          ) : null}
+          {!hasMore && transactions.length > 0 ? (
+            <Text style={styles.updatedText}>{t('analytics.history.end')}</Text>
+          ) : null}
+        </View>
         {isEmpty ? (
           <Text style={styles.emptyHint}>{t('analytics.vendor.empty')}</Text>
         ) : null}
       </ScrollView>
+      <TransactionReversalModal
+        visible={Boolean(reversalTarget)}
+        mode={reversalTarget?.mode ?? 'void'}
+        transaction={reversalTarget?.transaction ?? null}
+        onClose={() => setReversalTarget(null)}
+        onSubmit={handleReversalSubmit}
+      />
+      <TransactionExportModal
+        visible={isExportVisible}
+        defaultColumns={TRANSACTION_EXPORT_CONFIG.defaultColumns.vendor}
+        onClose={() => setIsExportVisible(false)}
+        onExport={exportHistory}
+      />
     </SafeAreaView>
   );
 };
@@ -274,6 +559,56 @@ const styles = StyleSheet.create({
   cardGrid: {
     gap: 24,
   },
+  recentCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  recentTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  recentRow: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    padding: 12,
+    gap: 6,
+  },
+  cashierRow: {
+    gap: 2,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.mutedBorder,
+  },
+  recentRowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  recentRowName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  recentMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  loadingMore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   emptyHint: {
     textAlign: 'center',
     color: COLORS.textSecondary,
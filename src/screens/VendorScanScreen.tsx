@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Pressable,
@@ -14,19 +14,95 @@ import { useLocalization } from '../contexts/LocalizationContext';
 import { useTransactionContext } from '../contexts/TransactionContext';
 import {
   calculateDiscount,
+  isRetryableTransactionError,
   lookupMember,
   recordTransaction,
 } from '../services/transactionService';
-import { calculateDiscountForAmount } from '../utils/discount';
 import {
+  calculateDiscountForAmount,
+  calculateDiscountForDescriptor,
+} from '../utils/discount';
+import {
+  createBasketLineItem,
+  getBillableLineItems,
+  summarizeBasket,
+} from '../utils/basket';
+import {
+  buildRedemptionKey,
+  createRedemptionSessionId,
+} from '../utils/idempotency';
+import {
+  BasketLineItem,
   DiscountDescriptor,
   MemberLookupResult,
+  MemberSearchCandidate,
+  MemberSearchQuery,
+  RecordTransactionRequest,
+  RefundTransactionRequest,
+  ScanQueueEntry,
   TransactionRecord,
+  VendorTaxSettings,
 } from '../types/transactions';
 import { COLORS } from '../config/theme';
 import QrScanner from '../components/QrScanner';
+import {
+  TransactionReversalMode,
+  TransactionReversalModal,
+} from '../components/TransactionReversalModal';
+import { TransactionReversalActions } from '../components/TransactionReversalActions';
+import { BasketEditor } from '../components/BasketEditor';
+import { TransactionLineItems } from '../components/TransactionLineItems';
+import { VendorTaxSettingsModal } from '../components/VendorTaxSettingsModal';
+import { DiscountRuleBreakdown } from '../components/DiscountRuleBreakdown';
+import { CashierSwitcherModal } from '../components/CashierSwitcherModal';
+import {
+  clearActiveCashier,
+  createCashier,
+  getActiveCashier,
+  listCashiers,
+  removeCashier,
+  unlockCashier,
+} from '../services/cashierService';
+import { VendorCashier } from '../types/vendor';
+import { OutletSelector } from '../components/OutletSelector';
+import { FraudOverrideModal } from '../components/FraudOverrideModal';
+import { MemberSearchModal } from '../components/MemberSearchModal';
+import { searchMembersForVendor } from '../services/memberSearchService';
+import {
+  approveFraudOverride,
+  getRecentScanEvents,
+  recordScanEvent,
+} from '../services/fraudSignalService';
+import { assessRedemptionRisk } from '../utils/fraudSignals';
+import { requiresMemberApproval } from '../utils/redemptionApproval';
+import { waitForMemberApproval } from '../services/redemptionApprovalService';
+import { REDEMPTION_APPROVAL_CONFIG } from '../config/redemptionApprovalConfig';
+import { FraudOverride, FraudSignal } from '../types/fraud';
+import { useVendorOutlets } from '../hooks/useVendorOutlets';
+import {
+  markMemberQrUsed,
+  verifyScannedMemberQr,
+} from '../services/memberQrService';
+import { getMemberQrToken } from '../utils/memberQr';
+import { decodeTcnQr } from '../utils/qrPayload';
+import { normalizeReferralCode } from '../utils/referral';
+import { useReferral } from '../providers/ReferralProvider';
+import { useScanQueue } from '../hooks/useScanQueue';
+import {
+  loadVendorTaxSettings,
+  saveVendorTaxSettings,
+} from '../services/vendorTaxSettingsService';
+import { TAX_CONFIG } from '../config/taxConfig';
+import {
+  getDiscountMatrix,
+  refreshDiscountMatrix,
+} from '../services/discountMatrixService';
+import {
+  evaluateRedemptionEligibility,
+  formatCountdown,
+} from '../utils/redemptionEligibility';
 import deviceLog from '../utils/deviceLog';
-import { ensureAppError } from '../errors';
+import { ERROR_CATALOG, ensureAppError, isAppError } from '../errors';
 
 type VendorScanScreenProps = {
   onShowAnalytics?: () => void;
@@ -40,21 +116,174 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
     logout,
     getSessionToken,
   } = useAuthContext();
-  const { transactions, addTransaction, replaceTransaction, patchTransaction } =
-    useTransactionContext();
+  const {
+    transactions,
+    addTransaction,
+    replaceTransaction,
+    patchTransaction,
+    findTransactionByIdempotencyKey,
+    outbox,
+    queueTransaction,
+    retryOutboxEntry,
+    discardOutboxEntry,
+    voidTransaction,
+    refundTransaction,
+  } = useTransactionContext();
   const { t, translateError } = useLocalization();
+  const { captureReferral } = useReferral();
   const [manualToken, setManualToken] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [result, setResult] = useState<MemberLookupResult | null>(null);
+  // Member key of the code behind `result`, as recorded in the scan log.
+  const [scannedToken, setScannedToken] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
   const [grossAmount, setGrossAmount] = useState('');
+  const [lineItems, setLineItems] = useState<BasketLineItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [redemptionSessionId, setRedemptionSessionId] = useState<
+    string | null
+  >(null);
+  const [reversalTarget, setReversalTarget] = useState<{
+    transaction: TransactionRecord;
+    mode: TransactionReversalMode;
+  } | null>(null);
+  const [taxSettings, setTaxSettings] = useState<VendorTaxSettings>(
+    TAX_CONFIG.defaultSettings,
+  );
+  const [isTaxSettingsVisible, setIsTaxSettingsVisible] = useState(false);
+  const [discountMatrix, setDiscountMatrix] = useState(getDiscountMatrix);
+  const [lookedUpAt, setLookedUpAt] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [cashiers, setCashiers] = useState<VendorCashier[]>([]);
+  const [isContinuous, setIsContinuous] = useState(false);
+  const [isMemberSearchVisible, setIsMemberSearchVisible] = useState(false);
+  const [approvalDeadline, setApprovalDeadline] = useState<string | null>(
+    null,
+  );
+  const [fraudSignals, setFraudSignals] = useState<FraudSignal[] | null>(
+    null,
+  );
+  const [activeCashier, setActiveCashier] = useState<VendorCashier | null>(
+    null,
+  );
+  const [isCashierModalVisible, setIsCashierModalVisible] = useState(false);
+  const { outlets, selectedOutlet, selectOutlet } = useVendorOutlets();
   const vendorTier = user?.vendorTier ?? null;
   const vendorId = user?.id ?? null;
+  const outletId = selectedOutlet?.id ?? null;
+  const isOutletMissing = outlets.length > 1 && !selectedOutlet;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVendorTaxSettings(vendorId).then(settings => {
+      if (!cancelled) {
+        setTaxSettings(settings);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [vendorId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listCashiers(vendorId), getActiveCashier(vendorId)]).then(
+      ([storedCashiers, storedActive]) => {
+        if (!cancelled) {
+          setCashiers(storedCashiers);
+          setActiveCashier(storedActive);
+        }
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [vendorId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSessionToken()
+      .then(sessionToken => refreshDiscountMatrix(sessionToken))
+      .then(snapshot => {
+        if (!cancelled) {
+          setDiscountMatrix(snapshot.matrix);
+        }
+      })
+      .catch(() => {
+        // Keep quoting from the cached or bundled matrix while offline.
+        if (!cancelled) {
+          setDiscountMatrix(getDiscountMatrix());
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getSessionToken]);
+
+  const handleSaveTaxSettings = useCallback(
+    async (settings: VendorTaxSettings) => {
+      const saved = await saveVendorTaxSettings(vendorId, settings);
+      setTaxSettings(saved);
+      setIsTaxSettingsVisible(false);
+    },
+    [vendorId],
+  );
+
+  const handleUnlockCashier = useCallback(
+    async (cashierId: string, pin: string) => {
+      const cashier = await unlockCashier(vendorId, cashierId, pin);
+      setActiveCashier(cashier);
+      setSubmissionError(null);
+      setIsCashierModalVisible(false);
+    },
+    [vendorId],
+  );
+
+  const handleCreateCashier = useCallback(
+    async (name: string, pin: string, supervisorPin: string) => {
+      await createCashier(vendorId, name, pin, supervisorPin);
+      setCashiers(await listCashiers(vendorId));
+    },
+    [vendorId],
+  );
+
+  const handleRemoveCashier = useCallback(
+    async (cashierId: string, supervisorPin: string) => {
+      await removeCashier(vendorId, cashierId, supervisorPin);
+      setCashiers(await listCashiers(vendorId));
+      setActiveCashier(current => (current?.id === cashierId ? null : current));
+    },
+    [vendorId],
+  );
+
+  const handleCashierSignOut = useCallback(async () => {
+    await clearActiveCashier(vendorId);
+    setActiveCashier(null);
+  }, [vendorId]);
+
+  const handleSelectOutlet = useCallback(
+    (id: string) => {
+      if (id === outletId) {
+        return;
+      }
+      // Lookups are outlet scoped, so a member checked at another branch has
+      // to be scanned again.
+      setResult(null);
+      setRedemptionSessionId(null);
+      setGrossAmount('');
+      setLineItems([]);
+      setError(null);
+      setSubmissionError(null);
+      void selectOutlet(id);
+    },
+    [outletId, selectOutlet],
+  );
 
   const handleValidation = useCallback(
-    async (token: string) => {
+    async (token: string, { fromSearch = false } = {}) => {
       const trimmed = token.trim();
       if (!trimmed) {
         setError(t('vendor.screen.errors.empty'));
@@ -64,6 +293,11 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
         return;
       }
 
+      if (isOutletMissing) {
+        setError(t('vendor.screen.outlet.required'));
+        return;
+      }
+
       setIsValidating(true);
       setError(null);
       deviceLog.debug('vendor.validation.start', {
@@ -72,6 +306,12 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
       });
 
       try {
+        // Search results carry a server-issued lookup token, not a QR.
+        verifyScannedMemberQr(
+          trimmed,
+          undefined,
+          fromSearch ? { allowUnsigned: true } : undefined,
+        );
         const sessionToken = await getSessionToken();
         deviceLog.debug('vendor.validation.sessionToken', {
           hasToken: Boolean(sessionToken),
@@ -80,13 +320,27 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           trimmed,
           sessionToken,
           vendorId ?? undefined,
+          outletId,
         );
+        if (validation.valid) {
+          markMemberQrUsed(trimmed);
+        }
         deviceLog.debug('vendor.validation.result', {
           valid: validation.valid,
           membershipTier: validation.membershipTier ?? null,
           discount: validation.allowedDiscount ?? null,
         });
+        recordScanEvent(
+          getMemberQrToken(trimmed),
+          validation.valid ? 'valid' : 'invalid',
+        );
         setResult(validation);
+        setScannedToken(getMemberQrToken(trimmed));
+        setLookedUpAt(new Date().toISOString());
+        setNow(new Date());
+        setRedemptionSessionId(
+          validation.valid ? createRedemptionSessionId() : null,
+        );
         if (!validation.valid) {
           setError(
             validation.message ?? t('vendor.screen.status.invalidMessage'),
@@ -102,11 +356,13 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           'TRANSACTION_MEMBER_LOOKUP_FAILED',
           { propagateMessage: true },
         );
+        recordScanEvent(getMemberQrToken(trimmed), 'error');
         const message =
           translateError(appError) ?? appError.toDisplayString();
         setError(message);
         setSubmissionError(message);
         setResult(null);
+        setRedemptionSessionId(null);
         deviceLog.warn('vendor.validation.error', {
           code: appError.code,
           message: appError.displayMessage,
@@ -114,20 +370,147 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
       } finally {
         setIsValidating(false);
         setGrossAmount('');
+        setLineItems([]);
         deviceLog.debug('vendor.validation.complete', {
           tokenSuffix: trimmed.length > 4 ? trimmed.slice(-4) : trimmed,
         });
       }
     },
-    [getSessionToken, t, translateError, vendorId],
+    [getSessionToken, isOutletMissing, outletId, t, translateError, vendorId],
+  );
+
+  /**
+   * Decodes a scanned or pasted value. Member codes return the token to look
+   * up. Promotions are held for the next sale and referral codes are saved
+   * for the next sign-up; event tickets only get guidance.
+   */
+  const resolveMemberToken = useCallback(
+    (text: string): string | null => {
+      try {
+        const decoded = decodeTcnQr(text);
+        if (decoded.type === 'member') {
+          setNotice(null);
+          return decoded.value;
+        }
+        deviceLog.info('vendor.scanner.otherQr', {
+          type: decoded.type,
+          version: decoded.version,
+        });
+        if (decoded.type === 'vendor_promo' && decoded.value.trim()) {
+          setPromoCode(decoded.value.trim());
+          setError(null);
+          setNotice(null);
+          return null;
+        }
+        const referralCode =
+          decoded.type === 'referral'
+            ? normalizeReferralCode(decoded.value)
+            : null;
+        if (referralCode) {
+          void captureReferral(referralCode, 'qr');
+          setError(null);
+          setNotice(
+            t('vendor.screen.qr.referral.saved', {
+              replace: { code: referralCode },
+            }),
+          );
+          return null;
+        }
+        setNotice(null);
+        setError(t(`vendor.screen.qr.types.${decoded.type}`));
+        return null;
+      } catch (decodeError) {
+        const appError = ensureAppError(
+          decodeError,
+          'TRANSACTION_QR_UNSUPPORTED',
+        );
+        deviceLog.warn('vendor.scanner.decodeFailed', {
+          code: appError.code,
+        });
+        setError(translateError(appError) ?? appError.toDisplayString());
+        return null;
+      }
+    },
+    [captureReferral, t, translateError],
   );
 
   const handleManualSubmit = useCallback(() => {
     deviceLog.debug('vendor.manualValidation.triggered', {
       tokenLength: manualToken.trim().length,
     });
-    void handleValidation(manualToken);
-  }, [handleValidation, manualToken]);
+    const token = manualToken.trim() ? resolveMemberToken(manualToken) : '';
+    if (token != null) {
+      void handleValidation(token);
+    }
+  }, [handleValidation, manualToken, resolveMemberToken]);
+
+  const handleMemberSearch = useCallback(
+    async (query: MemberSearchQuery) =>
+      searchMembersForVendor(
+        vendorId,
+        query,
+        await getSessionToken(),
+        outletId,
+      ),
+    [getSessionToken, outletId, vendorId],
+  );
+
+  const handleSelectSearchCandidate = useCallback(
+    (candidate: MemberSearchCandidate) => {
+      setIsMemberSearchVisible(false);
+      setManualToken('');
+      void handleValidation(candidate.token, { fromSearch: true });
+    },
+    [handleValidation],
+  );
+
+  const validateQueued = useCallback(
+    async (token: string) => {
+      try {
+        verifyScannedMemberQr(token);
+        const sessionToken = await getSessionToken();
+        const validation = await lookupMember(
+          token,
+          sessionToken,
+          vendorId ?? undefined,
+          outletId,
+        );
+        if (validation.valid) {
+          markMemberQrUsed(token);
+        }
+        recordScanEvent(
+          getMemberQrToken(token),
+          validation.valid ? 'valid' : 'invalid',
+        );
+        return validation;
+      } catch (validationError) {
+        recordScanEvent(getMemberQrToken(token), 'error');
+        throw validationError;
+      }
+    },
+    [getSessionToken, outletId, vendorId],
+  );
+
+  const describeQueueError = useCallback(
+    (queueError: unknown) => {
+      const appError = ensureAppError(
+        queueError,
+        'TRANSACTION_MEMBER_LOOKUP_FAILED',
+        { propagateMessage: true },
+      );
+      return translateError(appError) ?? appError.toDisplayString();
+    },
+    [translateError],
+  );
+
+  const {
+    entries: queueEntries,
+    enqueue: enqueueScan,
+    remove: removeQueuedScan,
+  } = useScanQueue({
+    validate: validateQueued,
+    describeError: describeQueueError,
+  });
 
   const handleScan = useCallback(
     (text: string) => {
@@ -135,10 +518,57 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
         length: text.length,
         suffix: text.length > 4 ? text.slice(-4) : text,
       });
-      setManualToken(text);
-      void handleValidation(text);
+      const token = resolveMemberToken(text);
+      if (!token) {
+        return;
+      }
+      if (isContinuous) {
+        if (isOutletMissing) {
+          setError(t('vendor.screen.outlet.required'));
+          return;
+        }
+        if (enqueueScan(token) === 'full') {
+          setError(t('vendor.screen.queue.full'));
+        }
+        return;
+      }
+      setManualToken(token);
+      void handleValidation(token);
     },
-    [handleValidation],
+    [
+      enqueueScan,
+      handleValidation,
+      isContinuous,
+      isOutletMissing,
+      resolveMemberToken,
+      t,
+    ],
+  );
+
+  const handleToggleContinuous = useCallback(() => {
+    setIsContinuous(previous => !previous);
+    setError(null);
+    deviceLog.info('vendor.scanQueue.toggled', { enabled: !isContinuous });
+  }, [isContinuous]);
+
+  const handleCheckoutQueued = useCallback(
+    (entry: ScanQueueEntry) => {
+      if (!entry.result?.valid) {
+        return;
+      }
+      removeQueuedScan(entry.id);
+      setManualToken(entry.token);
+      setResult(entry.result);
+      setScannedToken(getMemberQrToken(entry.token));
+      setLookedUpAt(entry.lookedUpAt ?? new Date().toISOString());
+      setNow(new Date());
+      setRedemptionSessionId(createRedemptionSessionId());
+      setError(null);
+      setSubmissionError(null);
+      setGrossAmount('');
+      setLineItems([]);
+    },
+    [removeQueuedScan],
   );
 
   const statusLabel = useMemo(() => {
@@ -167,65 +597,143 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
   }, [result]);
 
   const discountDescriptor = result?.discountDescriptor ?? null;
+  const discountRules = result?.discountRules ?? null;
+  const memberUsage = result?.usage ?? null;
+
+  // Tick once a second while a countdown or expiry can change the outcome.
+  const needsClock = Boolean(
+    approvalDeadline ||
+      (result?.valid &&
+        (discountDescriptor?.startsAt ||
+          discountDescriptor?.expiresAt ||
+          discountDescriptor?.maxUsesPerDay != null)),
+  );
+  useEffect(() => {
+    if (!needsClock) {
+      return;
+    }
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [needsClock]);
+
+  const eligibility = useMemo(() => {
+    if (!result?.valid) {
+      return null;
+    }
+    return evaluateRedemptionEligibility({
+      lookup: result,
+      lookedUpAt,
+      records: [...transactions, ...outbox.map(entry => entry.record)],
+      now,
+    });
+  }, [lookedUpAt, now, outbox, result, transactions]);
+
+  const eligibilityMessage = useMemo(() => {
+    if (!eligibility?.reason) {
+      return null;
+    }
+    const remaining = eligibility.expiresAt
+      ? Date.parse(eligibility.expiresAt) - now.getTime()
+      : 0;
+    return t(`vendor.screen.eligibility.reasons.${eligibility.reason}`, {
+      replace: { time: formatCountdown(remaining) },
+    });
+  }, [eligibility, now, t]);
 
   const calculateWithDescriptor = useCallback(
-    (amount: number, descriptor: DiscountDescriptor | null) => {
+    (
+      amount: number,
+      descriptor: DiscountDescriptor | null,
+      discountableAmount?: number,
+    ) => {
+      const options = {
+        discountableAmount,
+        taxSettings,
+        rules: discountRules,
+        ruleContext: { usage: memberUsage },
+      };
       if (!descriptor) {
-        return calculateDiscountForAmount(amount, membershipTier, vendorTier);
-      }
-
-      const normalizedGross = Number.isFinite(amount) ? amount : 0;
-      if (descriptor.type === 'amount') {
-        const discountAmount = Number(descriptor.value.toFixed(2));
-        const discountPercentage = normalizedGross
-          ? Number(((discountAmount / normalizedGross) * 100).toFixed(2))
-          : 0;
-        const netAmount = Number(
-          (normalizedGross - discountAmount).toFixed(2),
+        return calculateDiscountForAmount(
+          amount,
+          membershipTier,
+          vendorTier,
+          discountMatrix,
+          options,
         );
-        return {
-          discountPercentage,
-          discountAmount,
-          netAmount,
-          grossAmount: Number(normalizedGross.toFixed(2)),
-        };
       }
-
-      const percentage =
-        descriptor.value > 1
-          ? Number(descriptor.value.toFixed(2))
-          : Number((descriptor.value * 100).toFixed(2));
-      const discountAmount = Number(
-        ((normalizedGross * percentage) / 100).toFixed(2),
-      );
-      const netAmount = Number(
-        (normalizedGross - discountAmount).toFixed(2),
-      );
-      return {
-        discountPercentage: percentage,
-        discountAmount,
-        netAmount,
-        grossAmount: Number(normalizedGross.toFixed(2)),
-      };
+      return calculateDiscountForDescriptor(amount, descriptor, options);
     },
-    [membershipTier, vendorTier],
+    [
+      discountMatrix,
+      discountRules,
+      memberUsage,
+      membershipTier,
+      taxSettings,
+      vendorTier,
+    ],
   );
 
+  const isItemised = lineItems.length > 0;
+  const basketSummary = useMemo(() => summarizeBasket(lineItems), [lineItems]);
+
   const grossAmountValue = useMemo(() => {
+    if (isItemised) {
+      return basketSummary.grossAmount;
+    }
     const sanitized = grossAmount.replace(/[^0-9.]/g, '');
     const normalized = Number.parseFloat(sanitized);
     return Number.isFinite(normalized) && normalized > 0 ? normalized : 0;
-  }, [grossAmount]);
+  }, [basketSummary.grossAmount, grossAmount, isItemised]);
+
+  const discountableAmountValue = isItemised
+    ? basketSummary.discountableAmount
+    : grossAmountValue;
 
   const localCalculation = useMemo(() => {
-    return calculateWithDescriptor(grossAmountValue, discountDescriptor);
-  }, [calculateWithDescriptor, discountDescriptor, grossAmountValue]);
+    return calculateWithDescriptor(
+      grossAmountValue,
+      discountDescriptor,
+      discountableAmountValue,
+    );
+  }, [
+    calculateWithDescriptor,
+    discountDescriptor,
+    discountableAmountValue,
+    grossAmountValue,
+  ]);
+
+  const handleItemiseBasket = useCallback(() => {
+    setLineItems([
+      createBasketLineItem({ unitPrice: grossAmountValue }),
+    ]);
+    deviceLog.debug('vendor.basket.itemised', { seed: grossAmountValue });
+  }, [grossAmountValue]);
 
   const recentTransactions = useMemo(
     () => transactions.slice(0, 5),
     [transactions],
   );
 
+  const handleReversalSubmit = useCallback(
+    async (request: RefundTransactionRequest) => {
+      if (!reversalTarget) {
+        return;
+      }
+      const { transaction, mode } = reversalTarget;
+      deviceLog.info('vendor.transaction.reverse', {
+        id: transaction.id,
+        mode,
+        reason: request.reason,
+      });
+      if (mode === 'void') {
+        await voidTransaction(transaction.id, request);
+      } else {
+        await refundTransaction(transaction.id, request);
+      }
+    },
+    [refundTransaction, reversalTarget, voidTransaction],
+  );
+
   const formatCurrency = useCallback(
     (value: number) =>
       Number.isFinite(value)
@@ -237,154 +745,406 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
     [],
   );
 
-  const handleTransactionSubmit = useCallback(async () => {
-    if (!result?.valid) {
-      setSubmissionError(t('vendor.screen.transaction.errors.noMember'));
-      return;
-    }
+  const handleTransactionSubmit = useCallback(
+    async (fraudOverride?: FraudOverride) => {
+      if (!result?.valid) {
+        setSubmissionError(t('vendor.screen.transaction.errors.noMember'));
+        return;
+      }
 
-    const parsedAmount = grossAmountValue;
+      if (eligibility?.status === 'blocked') {
+        setSubmissionError(eligibilityMessage);
+        deviceLog.info('vendor.transaction.submit.blocked', {
+          reason: eligibility.reason,
+        });
+        return;
+      }
 
-    if (!parsedAmount || parsedAmount <= 0) {
-      setSubmissionError(t('vendor.screen.transaction.errors.invalidAmount'));
-      return;
-    }
+      if (cashiers.length && !activeCashier) {
+        setSubmissionError(t('vendor.screen.cashier.required'));
+        return;
+      }
 
-    const optimisticCalculation = calculateWithDescriptor(
-      parsedAmount,
-      discountDescriptor,
-    );
+      if (isOutletMissing) {
+        setSubmissionError(t('vendor.screen.outlet.required'));
+        return;
+      }
 
-    const optimisticTransaction: TransactionRecord = {
-      id: `local-${Date.now()}`,
-      memberToken: result.token,
-      memberId: result.memberId ?? null,
-      memberName: result.memberName ?? null,
-      membership: result.membership ?? null,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      discountPercentage: optimisticCalculation.discountPercentage,
-      discountAmount: optimisticCalculation.discountAmount,
-      netAmount: optimisticCalculation.netAmount,
-      currency: 'THB',
-      membershipTier: membershipTier ?? null,
-      vendorTier: vendorTier ?? null,
-      message: null,
-      vendorName: user?.name ?? null,
-      vendorId,
-      errorMessage: null,
-      discountDescriptor: discountDescriptor ?? undefined,
-    };
+      const parsedAmount = grossAmountValue;
+      const billableItems = isItemised
+        ? getBillableLineItems(lineItems)
+        : [];
+      if (isItemised && !billableItems.length) {
+        setSubmissionError(
+          t('vendor.screen.transaction.errors.invalidAmount'),
+        );
+        return;
+      }
+
+      if (!parsedAmount || parsedAmount <= 0) {
+        setSubmissionError(
+          t('vendor.screen.transaction.errors.invalidAmount'),
+        );
+        return;
+      }
 
-    addTransaction(optimisticTransaction);
-    setIsSubmitting(true);
-    setSubmissionError(null);
+      const idempotencyKey = buildRedemptionKey(
+        redemptionSessionId ?? createRedemptionSessionId(),
+        parsedAmount,
+      );
+      const existingRedemption =
+        findTransactionByIdempotencyKey(idempotencyKey);
+      if (existingRedemption && existingRedemption.status !== 'failed') {
+        setSubmissionError(
+          existingRedemption.status === 'completed'
+            ? t('vendor.screen.transaction.errors.duplicate')
+            : t('vendor.screen.transaction.errors.inProgress'),
+        );
+        deviceLog.info('vendor.transaction.submit.duplicate', {
+          id: existingRedemption.id,
+          status: existingRedemption.status,
+        });
+        return;
+      }
 
-    try {
-      const sessionToken = await getSessionToken();
-      const remoteCalculation = await calculateDiscount(
-        {
+      if (!fraudOverride) {
+        const assessment = assessRedemptionRisk({
+          lookup: result,
+          scannedToken: scannedToken ?? getMemberQrToken(result.token),
           grossAmount: parsedAmount,
-          membershipTier: membershipTier ?? undefined,
-          vendorTier: vendorTier ?? undefined,
-          currency: 'THB',
-          memberToken: result.token,
-          memberId: result.memberId ?? undefined,
-          vendorId: vendorId ?? undefined,
-          discountDescriptor: discountDescriptor ?? undefined,
-        },
-        sessionToken,
-      );
+          records: [...transactions, ...outbox.map(entry => entry.record)],
+          scans: getRecentScanEvents(),
+        });
+        if (assessment.signals.length) {
+          setFraudSignals(assessment.signals);
+          deviceLog.warn('vendor.transaction.submit.flagged', {
+            signals: assessment.signals.map(signal => signal.type),
+            averageAmount: assessment.averageAmount,
+          });
+          return;
+        }
+      }
+
+      const needsApproval = requiresMemberApproval({
+        vendorTier,
+        grossAmount: parsedAmount,
+      });
 
-      setResult(previous =>
-        previous
-          ? {
-              ...previous,
-              allowedDiscount: remoteCalculation.discountPercentage,
-              discountDescriptor:
-                remoteCalculation.discountDescriptor ??
-                previous.discountDescriptor,
-            }
-          : previous,
+      const optimisticCalculation = calculateWithDescriptor(
+        parsedAmount,
+        discountDescriptor,
+        discountableAmountValue,
       );
 
-      const recorded = await recordTransaction(
-        {
-          memberToken: result.token,
-          memberId: result.memberId ?? undefined,
-          memberName: result.memberName ?? null,
-          membership: result.membership ?? null,
-          membershipTier: membershipTier ?? undefined,
-          vendorTier: vendorTier ?? undefined,
-          grossAmount: parsedAmount,
+      const optimisticTransaction: TransactionRecord = {
+        id: `local-${idempotencyKey}`,
+        memberToken: result.token,
+        memberId: result.memberId ?? null,
+        memberName: result.memberName ?? null,
+        membership: result.membership ?? null,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+        discountPercentage: optimisticCalculation.discountPercentage,
+        discountAmount: optimisticCalculation.discountAmount,
+        netAmount: optimisticCalculation.netAmount,
+        currency: 'THB',
+        membershipTier: membershipTier ?? null,
+        vendorTier: vendorTier ?? null,
+        message: null,
+        vendorName: user?.name ?? null,
+        vendorId,
+        errorMessage: null,
+        discountDescriptor: discountDescriptor ?? undefined,
+        idempotencyKey,
+        grossAmount: parsedAmount,
+        discountableAmount: isItemised ? discountableAmountValue : null,
+        lineItems: billableItems.length ? billableItems : null,
+        taxBreakdown: optimisticCalculation.taxBreakdown ?? null,
+        ruleEvaluation: optimisticCalculation.ruleEvaluation ?? null,
+        cashierId: activeCashier?.id ?? null,
+        cashierName: activeCashier?.name ?? null,
+        outletId,
+        outletName: selectedOutlet?.name ?? null,
+      };
+
+      // Built up front from the local calculation so a redemption that fails
+      // before the server answers can still be queued in the outbox.
+      let recordRequest: RecordTransactionRequest = {
+        memberToken: result.token,
+        memberId: result.memberId ?? undefined,
+        memberName: result.memberName ?? null,
+        membership: result.membership ?? null,
+        membershipTier: membershipTier ?? undefined,
+        vendorTier: vendorTier ?? undefined,
+        grossAmount: parsedAmount,
+        currency: 'THB',
+        discountPercentage: optimisticCalculation.discountPercentage,
+        discountAmount: optimisticCalculation.discountAmount,
+        netAmount: optimisticCalculation.netAmount,
+        vendorId: vendorId ?? undefined,
+        discountDescriptor: discountDescriptor ?? undefined,
+        idempotencyKey,
+        lineItems: billableItems.length ? billableItems : undefined,
+        taxSettings,
+        taxBreakdown: optimisticCalculation.taxBreakdown ?? undefined,
+        ruleEvaluation: optimisticCalculation.ruleEvaluation ?? undefined,
+        cashier: activeCashier
+          ? { id: activeCashier.id, name: activeCashier.name }
+          : undefined,
+        outletId,
+        outletName: selectedOutlet?.name ?? null,
+        fraudOverride: fraudOverride ?? null,
+        requireMemberApproval: needsApproval || undefined,
+        promoCode,
+      };
+      let isRecorded = false;
+
+      addTransaction(optimisticTransaction);
+      setIsSubmitting(true);
+      setSubmissionError(null);
+
+      try {
+        const sessionToken = await getSessionToken();
+        const remoteCalculation = await calculateDiscount(
+          {
+            grossAmount: parsedAmount,
+            membershipTier: membershipTier ?? undefined,
+            vendorTier: vendorTier ?? undefined,
+            currency: 'THB',
+            memberToken: result.token,
+            memberId: result.memberId ?? undefined,
+            vendorId: vendorId ?? undefined,
+            outletId,
+            discountDescriptor: discountDescriptor ?? undefined,
+            lineItems: billableItems.length ? billableItems : undefined,
+            taxSettings,
+            discountRules: discountRules ?? undefined,
+            usage: memberUsage ?? undefined,
+            promoCode,
+          },
+          sessionToken,
+        );
+
+        setResult(previous =>
+          previous
+            ? {
+                ...previous,
+                allowedDiscount: remoteCalculation.discountPercentage,
+                discountDescriptor:
+                  remoteCalculation.discountDescriptor ??
+                  previous.discountDescriptor,
+              }
+            : previous,
+        );
+
+        recordRequest = {
+          ...recordRequest,
           currency: remoteCalculation.currency ?? 'THB',
           discountPercentage: remoteCalculation.discountPercentage,
           discountAmount: remoteCalculation.discountAmount,
           netAmount: remoteCalculation.netAmount,
-          vendorId: vendorId ?? undefined,
           discountDescriptor:
             remoteCalculation.discountDescriptor ??
-            discountDescriptor ??
-            undefined,
-        },
-        sessionToken,
-      );
+            recordRequest.discountDescriptor,
+          taxBreakdown:
+            remoteCalculation.taxBreakdown ?? recordRequest.taxBreakdown,
+          ruleEvaluation:
+            remoteCalculation.ruleEvaluation ?? recordRequest.ruleEvaluation,
+        };
 
-      const finalRecord: TransactionRecord = {
-        ...optimisticTransaction,
-        ...remoteCalculation,
-        ...recorded,
-        id: recorded.id ?? optimisticTransaction.id,
-        status: recorded.status ?? 'completed',
-      };
+        let recorded = await recordTransaction(recordRequest, sessionToken);
+        isRecorded = true;
+
+        if (
+          needsApproval &&
+          recorded.status === 'pending' &&
+          recorded.approvalStatus === 'awaiting_member'
+        ) {
+          patchTransaction(optimisticTransaction.id, {
+            approvalStatus: 'awaiting_member',
+          });
+          setNow(new Date());
+          setApprovalDeadline(
+            new Date(
+              Date.now() + REDEMPTION_APPROVAL_CONFIG.timeoutMs,
+            ).toISOString(),
+          );
+          try {
+            await waitForMemberApproval(recorded.id, sessionToken);
+          } catch (approvalError) {
+            const declined =
+              isAppError(approvalError) &&
+              approvalError.code ===
+                ERROR_CATALOG.TRANSACTION_APPROVAL_DECLINED.code;
+            patchTransaction(optimisticTransaction.id, {
+              approvalStatus: declined ? 'declined' : 'expired',
+            });
+            throw approvalError;
+          } finally {
+            setApprovalDeadline(null);
+          }
+          recorded = {
+            ...recorded,
+            status: 'completed',
+            approvalStatus: 'approved',
+          };
+        }
+
+        const finalRecord: TransactionRecord = {
+          ...optimisticTransaction,
+          ...remoteCalculation,
+          ...recorded,
+          id: recorded.id ?? optimisticTransaction.id,
+          status: recorded.status ?? 'completed',
+        };
+
+        // Member approval needs the member at the till, so those sales are
+        // never left for the outbox to replay later.
+        if (
+          finalRecord.status === 'failed' &&
+          finalRecord.retryable &&
+          !needsApproval
+        ) {
+          replaceTransaction(optimisticTransaction.id, {
+            ...finalRecord,
+            id: optimisticTransaction.id,
+          });
+          await queueTransaction(
+            { ...finalRecord, id: optimisticTransaction.id },
+            recordRequest,
+          );
+          setSubmissionError(t('vendor.screen.transaction.queued'));
+          setGrossAmount('');
+          setLineItems([]);
+          setPromoCode(null);
+          deviceLog.info('vendor.transaction.submit.queued', {
+            id: optimisticTransaction.id,
+          });
+          return;
+        }
 
-      replaceTransaction(optimisticTransaction.id, finalRecord);
+        replaceTransaction(optimisticTransaction.id, finalRecord);
 
-      if (finalRecord.status === 'failed') {
+        if (finalRecord.status === 'failed') {
+          const message =
+            translateError(finalRecord.errorMessage) ??
+            finalRecord.errorMessage ??
+            t('vendor.screen.transaction.errors.submit');
+          setSubmissionError(message);
+        } else {
+          setGrossAmount('');
+          setLineItems([]);
+          setPromoCode(null);
+          if (isContinuous) {
+            // Clear the member so the vendor moves straight on to the
+            // next person waiting in the queue.
+            setResult(null);
+            setRedemptionSessionId(null);
+          }
+        }
+      } catch (recordError) {
+        const appError = ensureAppError(
+          recordError,
+          'TRANSACTION_RECORD_FAILED',
+          { propagateMessage: true },
+        );
+        // Offline, an expired session or a server outage before the record
+        // was accepted: keep the redemption and let the outbox replay it.
+        // Approval declines and timeouts happen after it was recorded, and
+        // sales needing approval are not queued at all.
+        if (
+          !isRecorded &&
+          !needsApproval &&
+          isRetryableTransactionError(appError)
+        ) {
+          await queueTransaction(
+            {
+              ...optimisticTransaction,
+              status: 'failed',
+              retryable: true,
+              errorMessage: appError.displayMessage,
+            },
+            recordRequest,
+          );
+          setSubmissionError(t('vendor.screen.transaction.queued'));
+          setGrossAmount('');
+          setLineItems([]);
+          setPromoCode(null);
+          deviceLog.info('vendor.transaction.submit.queued', {
+            id: optimisticTransaction.id,
+            code: appError.code,
+          });
+          return;
+        }
         const message =
-          translateError(finalRecord.errorMessage) ??
-          finalRecord.errorMessage ??
-          t('vendor.screen.transaction.errors.submit');
+          translateError(appError) ?? appError.toDisplayString();
+        patchTransaction(optimisticTransaction.id, {
+          status: 'failed',
+          errorMessage: message,
+        });
         setSubmissionError(message);
-      } else {
-        setGrossAmount('');
+        deviceLog.warn('vendor.transaction.submit.error', {
+          code: appError.code,
+          message: appError.displayMessage,
+        });
+      } finally {
+        setIsSubmitting(false);
       }
-    } catch (submissionError) {
-      const appError = ensureAppError(
-        submissionError,
-        'TRANSACTION_RECORD_FAILED',
-        { propagateMessage: true },
+    },
+    [
+      activeCashier,
+      addTransaction,
+      cashiers.length,
+      eligibility,
+      eligibilityMessage,
+      findTransactionByIdempotencyKey,
+      getSessionToken,
+      grossAmountValue,
+      isContinuous,
+      isOutletMissing,
+      outletId,
+      selectedOutlet?.name,
+      discountableAmountValue,
+      discountRules,
+      isItemised,
+      lineItems,
+      memberUsage,
+      membershipTier,
+      patchTransaction,
+      promoCode,
+      queueTransaction,
+      redemptionSessionId,
+      replaceTransaction,
+      result,
+      scannedToken,
+      t,
+      taxSettings,
+      translateError,
+      user?.name,
+      vendorId,
+      vendorTier,
+      calculateWithDescriptor,
+      discountDescriptor,
+      outbox,
+      transactions,
+    ],
+  );
+
+  const handleFraudApprove = useCallback(
+    async (pin: string) => {
+      if (!fraudSignals) {
+        return;
+      }
+      const override = await approveFraudOverride(
+        vendorId,
+        pin,
+        fraudSignals,
       );
-      const message =
-        translateError(appError) ?? appError.toDisplayString();
-      patchTransaction(optimisticTransaction.id, {
-        status: 'failed',
-        errorMessage: message,
-      });
-      setSubmissionError(message);
-      deviceLog.warn('vendor.transaction.submit.error', {
-        code: appError.code,
-        message: appError.displayMessage,
-      });
-    } finally {
-      setIsSubmitting(false);
-    }
-  }, [
-    addTransaction,
-    getSessionToken,
-    grossAmountValue,
-    membershipTier,
-    patchTransaction,
-    replaceTransaction,
-    result,
-    t,
-    translateError,
-    user?.name,
-    vendorId,
-    vendorTier,
-    calculateWithDescriptor,
-    discountDescriptor,
-  ]);
+      setFraudSignals(null);
+      await handleTransactionSubmit(override);
+    },
+    [fraudSignals, handleTransactionSubmit, vendorId],
+  );
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -407,6 +1167,52 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           </Pressable>
         ) : null}
 
+        <View style={styles.cashierBar} testID="vendor-cashier-bar">
+          <Text style={styles.cashierText}>
+            {activeCashier
+              ? t('vendor.screen.cashier.active', {
+                  replace: { name: activeCashier.name },
+                })
+              : t('vendor.screen.cashier.none')}
+          </Text>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() => setIsCashierModalVisible(true)}
+            style={styles.linkButton}
+            testID="vendor-cashier-switch"
+          >
+            <Text style={styles.linkButtonText}>
+              {t('vendor.screen.cashier.switch')}
+            </Text>
+          </Pressable>
+        </View>
+
+        <OutletSelector
+          outlets={outlets}
+          selectedOutlet={selectedOutlet}
+          onSelect={handleSelectOutlet}
+          disabled={isSubmitting || isValidating}
+        />
+
+        <Pressable
+          accessibilityRole="switch"
+          accessibilityState={{ checked: isContinuous }}
+          onPress={handleToggleContinuous}
+          style={[styles.modeToggle, isContinuous && styles.modeToggleActive]}
+          testID="vendor-continuous-toggle"
+        >
+          <Text
+            style={[
+              styles.modeToggleText,
+              isContinuous && styles.modeToggleTextActive,
+            ]}
+          >
+            {isContinuous
+              ? t('vendor.screen.queue.continuousOn')
+              : t('vendor.screen.queue.continuousOff')}
+          </Text>
+        </Pressable>
+
         <View style={styles.cameraContainer}>
           <QrScanner
             style={{ flex: 1 }}
@@ -414,6 +1220,70 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           />
         </View>
 
+        {isContinuous || queueEntries.length ? (
+          <View style={styles.recentCard} testID="vendor-scan-queue">
+            <Text style={styles.sectionTitle}>
+              {t('vendor.screen.queue.title', {
+                replace: { count: queueEntries.length },
+              })}
+            </Text>
+            {queueEntries.length ? (
+              queueEntries.map(entry => (
+                <View
+                  key={entry.id}
+                  style={styles.recentRow}
+                  testID={`vendor-scan-queue-${entry.id}`}
+                >
+                  <Text style={styles.recentRowName}>
+                    {entry.result?.memberName ??
+                      t('vendor.screen.queue.unknownMember', {
+                        replace: { suffix: entry.token.slice(-4) },
+                      })}
+                  </Text>
+                  <Text style={styles.recentRowMeta}>
+                    {entry.status === 'validating'
+                      ? t('vendor.screen.queue.validating')
+                      : entry.status === 'ready'
+                      ? entry.result?.membershipTier ??
+                        t('vendor.screen.queue.ready')
+                      : entry.errorMessage ??
+                        t('vendor.screen.status.invalidMessage')}
+                  </Text>
+                  <View style={styles.outboxActions}>
+                    {entry.status === 'ready' ? (
+                      <Pressable
+                        style={styles.outboxActionButton}
+                        accessibilityRole="button"
+                        onPress={() => handleCheckoutQueued(entry)}
+                        disabled={isSubmitting}
+                        testID={`vendor-scan-queue-checkout-${entry.id}`}
+                      >
+                        <Text style={styles.outlineButtonText}>
+                          {t('vendor.screen.queue.checkout')}
+                        </Text>
+                      </Pressable>
+                    ) : null}
+                    <Pressable
+                      style={styles.outboxActionButton}
+                      accessibilityRole="button"
+                      onPress={() => removeQueuedScan(entry.id)}
+                      testID={`vendor-scan-queue-remove-${entry.id}`}
+                    >
+                      <Text style={styles.outlineButtonText}>
+                        {t('vendor.screen.queue.remove')}
+                      </Text>
+                    </Pressable>
+                  </View>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.recentRowMeta}>
+                {t('vendor.screen.queue.empty')}
+              </Text>
+            )}
+          </View>
+        ) : null}
+
         <View style={styles.manualEntry}>
           <Text style={styles.sectionTitle}>{t('vendor.screen.manualTitle')}</Text>
           <TextInput
@@ -440,6 +1310,17 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
               </Text>
             )}
           </Pressable>
+          <Pressable
+            style={styles.linkButton}
+            onPress={() => setIsMemberSearchVisible(true)}
+            accessibilityRole="button"
+            disabled={isValidating || isOutletMissing}
+            testID="vendor-member-search-open"
+          >
+            <Text style={styles.linkButtonText}>
+              {t('vendor.screen.search.open')}
+            </Text>
+          </Pressable>
         </View>
 
         {error ? (
@@ -448,6 +1329,32 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           </Text>
         ) : null}
 
+        {notice ? (
+          <View style={styles.noticeCard} testID="vendor-qr-notice">
+            <Text style={styles.noticeText}>{notice}</Text>
+          </View>
+        ) : null}
+
+        {promoCode ? (
+          <View style={styles.noticeCard} testID="vendor-promo">
+            <Text style={styles.noticeText}>
+              {t('vendor.screen.qr.promo.applied', {
+                replace: { code: promoCode },
+              })}
+            </Text>
+            <Pressable
+              style={styles.linkButton}
+              onPress={() => setPromoCode(null)}
+              accessibilityRole="button"
+              testID="vendor-promo-clear"
+            >
+              <Text style={styles.linkButtonText}>
+                {t('vendor.screen.qr.promo.clear')}
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+
         {result ? (
           <View style={styles.resultCard} testID="vendor-result">
             <Text style={styles.resultTitle}>{statusLabel}</Text>
@@ -478,7 +1385,52 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           </View>
         ) : null}
 
-        {result?.valid ? (
+        {eligibility && eligibility.status !== 'eligible' ? (
+          <View
+            style={[
+              styles.eligibilityBanner,
+              eligibility.status === 'blocked'
+                ? styles.eligibilityBlocked
+                : styles.eligibilityWarning,
+            ]}
+            testID="vendor-eligibility"
+          >
+            <Text
+              style={[
+                styles.eligibilityText,
+                eligibility.status === 'blocked'
+                  ? styles.eligibilityBlockedText
+                  : styles.eligibilityWarningText,
+              ]}
+            >
+              {eligibilityMessage}
+            </Text>
+            {eligibility.nextAllowedAt ? (
+              <Text
+                style={styles.eligibilityMeta}
+                testID="vendor-eligibility-countdown"
+              >
+                {t('vendor.screen.eligibility.countdown', {
+                  replace: {
+                    time: formatCountdown(
+                      Date.parse(eligibility.nextAllowedAt) - now.getTime(),
+                    ),
+                  },
+                })}
+              </Text>
+            ) : null}
+            <Text style={styles.eligibilityMeta}>
+              {t('vendor.screen.eligibility.usage', {
+                replace: {
+                  today: eligibility.usesToday,
+                  total: eligibility.usesTotal,
+                },
+              })}
+            </Text>
+          </View>
+        ) : null}
+
+        {result?.valid && eligibility?.status !== 'blocked' ? (
           <View style={styles.transactionCard} testID="vendor-transaction-card">
             <Text style={styles.sectionTitle}>
               {t('vendor.screen.transaction.title')}
@@ -486,20 +1438,80 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
             <Text style={styles.transactionHint}>
               {t('vendor.screen.transaction.hint')}
             </Text>
-            <Text style={styles.inputLabel}>
-              {t('vendor.screen.transaction.amountLabel')}
-            </Text>
-            <TextInput
-              value={grossAmount}
-              onChangeText={setGrossAmount}
-              placeholder={t('vendor.screen.transaction.amountPlaceholder')}
-              style={styles.input}
-              keyboardType="decimal-pad"
-              inputMode="decimal"
-              testID="vendor-transaction-amount"
-            />
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setIsTaxSettingsVisible(true)}
+              style={styles.linkButton}
+              testID="vendor-tax-settings-open"
+            >
+              <Text style={styles.linkButtonText}>
+                {t('vendor.screen.tax.open', {
+                  replace: {
+                    service: taxSettings.serviceChargeRate,
+                    vat: taxSettings.vatRate,
+                  },
+                })}
+              </Text>
+            </Pressable>
+            {isItemised ? (
+              <>
+                <Text style={styles.inputLabel}>
+                  {t('vendor.screen.basket.title')}
+                </Text>
+                <BasketEditor
+                  items={lineItems}
+                  onChange={setLineItems}
+                  formatCurrency={formatCurrency}
+                  editable={!isSubmitting}
+                />
+              </>
+            ) : (
+              <>
+                <Text style={styles.inputLabel}>
+                  {t('vendor.screen.transaction.amountLabel')}
+                </Text>
+                <TextInput
+                  value={grossAmount}
+                  onChangeText={setGrossAmount}
+                  placeholder={t('vendor.screen.transaction.amountPlaceholder')}
+                  style={styles.input}
+                  keyboardType="decimal-pad"
+                  inputMode="decimal"
+                  testID="vendor-transaction-amount"
+                />
+                <Pressable
+                  accessibilityRole="button"
+                  onPress={handleItemiseBasket}
+                  style={styles.linkButton}
+                  testID="vendor-basket-itemise"
+                >
+                  <Text style={styles.linkButtonText}>
+                    {t('vendor.screen.basket.itemise')}
+                  </Text>
+                </Pressable>
+              </>
+            )}
             {grossAmountValue > 0 ? (
               <View style={styles.transactionSummary}>
+                {isItemised ? (
+                  <Text style={styles.transactionSummaryText}>
+                    {t('vendor.screen.basket.summary', {
+                      replace: {
+                        gross: formatCurrency(basketSummary.grossAmount),
+                        eligible: formatCurrency(
+                          basketSummary.discountableAmount,
+                        ),
+                        excluded: formatCurrency(basketSummary.excludedAmount),
+                      },
+                    })}
+                  </Text>
+                ) : null}
+                {localCalculation.ruleEvaluation?.appliedRuleIds.length ? (
+                  <DiscountRuleBreakdown
+                    evaluation={localCalculation.ruleEvaluation}
+                    formatCurrency={formatCurrency}
+                  />
+                ) : null}
                 <Text style={styles.transactionSummaryText}>
                   {t('vendor.screen.transaction.estimatedDiscount', {
                     replace: {
@@ -515,6 +1527,71 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
                     },
                   })}
                 </Text>
+                {localCalculation.taxBreakdown ? (
+                  <>
+                    <Text style={styles.transactionSummaryText}>
+                      {t('vendor.screen.tax.serviceCharge', {
+                        replace: {
+                          rate: localCalculation.taxBreakdown.serviceChargeRate,
+                          amount: formatCurrency(
+                            localCalculation.taxBreakdown.serviceChargeAmount,
+                          ),
+                        },
+                      })}
+                    </Text>
+                    <Text style={styles.transactionSummaryText}>
+                      {t(
+                        localCalculation.taxBreakdown.pricesIncludeVat
+                          ? 'vendor.screen.tax.vatIncluded'
+                          : 'vendor.screen.tax.vatAdded',
+                        {
+                          replace: {
+                            rate: localCalculation.taxBreakdown.vatRate,
+                            amount: formatCurrency(
+                              localCalculation.taxBreakdown.vatAmount,
+                            ),
+                          },
+                        },
+                      )}
+                    </Text>
+                    <Text
+                      style={styles.transactionSummaryTotal}
+                      testID="vendor-transaction-total-payable"
+                    >
+                      {t('vendor.screen.tax.totalPayable', {
+                        replace: {
+                          total: formatCurrency(
+                            localCalculation.taxBreakdown.totalAmount,
+                          ),
+                        },
+                      })}
+                    </Text>
+                  </>
+                ) : null}
+              </View>
+            ) : null}
+            {approvalDeadline ? (
+              <View
+                style={[styles.eligibilityBanner, styles.eligibilityWarning]}
+                testID="vendor-approval-waiting"
+              >
+                <Text
+                  style={[
+                    styles.eligibilityText,
+                    styles.eligibilityWarningText,
+                  ]}
+                >
+                  {t('vendor.screen.approval.waiting')}
+                </Text>
+                <Text style={styles.eligibilityMeta}>
+                  {t('vendor.screen.approval.countdown', {
+                    replace: {
+                      time: formatCountdown(
+                        Date.parse(approvalDeadline) - now.getTime(),
+                      ),
+                    },
+                  })}
+                </Text>
               </View>
             ) : null}
             {submissionError ? (
@@ -543,6 +1620,78 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           </View>
         ) : null}
 
+        {outbox.length ? (
+          <View style={styles.recentCard} testID="vendor-outbox">
+            <View style={styles.recentRowHeader}>
+              <Text style={styles.sectionTitle}>
+                {t('vendor.screen.outbox.title')}
+              </Text>
+              <Text
+                style={[styles.statusBadge, styles.statusPending]}
+                testID="vendor-outbox-badge"
+              >
+                {outbox.length}
+              </Text>
+            </View>
+            <Text style={styles.transactionHint}>
+              {t('vendor.screen.outbox.hint')}
+            </Text>
+            {outbox.map(entry => {
+              const memberLabel =
+                entry.record.memberName && entry.record.memberName.length > 0
+                  ? entry.record.memberName
+                  : entry.record.memberToken;
+              return (
+                <View style={styles.recentRow} key={entry.id}>
+                  <View style={styles.recentRowHeader}>
+                    <Text style={styles.recentRowName}>{memberLabel}</Text>
+                    <Text style={styles.recentRowMeta}>
+                      {t('vendor.screen.outbox.attempts', {
+                        replace: { count: entry.attempts },
+                      })}
+                    </Text>
+                  </View>
+                  <Text style={styles.recentRowMeta}>
+                    {t('vendor.screen.outbox.summary', {
+                      replace: {
+                        gross: formatCurrency(entry.request.grossAmount),
+                        time: new Date(entry.queuedAt).toLocaleTimeString(),
+                      },
+                    })}
+                  </Text>
+                  {entry.lastError ? (
+                    <Text style={styles.resultMessage}>
+                      {translateError(entry.lastError) ?? entry.lastError}
+                    </Text>
+                  ) : null}
+                  <View style={styles.outboxActions}>
+                    <Pressable
+                      style={styles.outboxActionButton}
+                      accessibilityRole="button"
+                      onPress={() => void retryOutboxEntry(entry.id)}
+                      testID={`vendor-outbox-retry-${entry.id}`}
+                    >
+                      <Text style={styles.outlineButtonText}>
+                        {t('vendor.screen.outbox.retry')}
+                      </Text>
+                    </Pressable>
+                    <Pressable
+                      style={styles.outboxActionButton}
+                      accessibilityRole="button"
+                      onPress={() => void discardOutboxEntry(entry.id)}
+                      testID={`vendor-outbox-discard-${entry.id}`}
+                    >
+                      <Text style={styles.outlineButtonText}>
+                        {t('vendor.screen.outbox.discard')}
+                      </Text>
+                    </Pressable>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        ) : null}
+
         <View style={styles.recentCard}>
           <Text style={styles.sectionTitle}>
             {t('vendor.screen.recent.title')}
@@ -558,7 +1707,9 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
                   ? styles.statusFailed
                   : transaction.status === 'completed'
                     ? styles.statusCompleted
-                    : styles.statusPending;
+                    : transaction.status === 'pending'
+                      ? styles.statusPending
+                      : styles.statusReversed;
               const statusLabel = t(
                 `vendor.screen.recent.status.${transaction.status}`,
               );
@@ -592,6 +1743,33 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
                       },
                     })}
                   </Text>
+                  {transaction.taxBreakdown ? (
+                    <Text style={styles.recentRowMeta}>
+                      {t('vendor.screen.tax.recordSummary', {
+                        replace: {
+                          service: formatCurrency(
+                            transaction.taxBreakdown.serviceChargeAmount,
+                          ),
+                          vat: formatCurrency(
+                            transaction.taxBreakdown.vatAmount,
+                          ),
+                          total: formatCurrency(
+                            transaction.taxBreakdown.totalAmount,
+                          ),
+                        },
+                      })}
+                    </Text>
+                  ) : null}
+                  <TransactionLineItems
+                    items={transaction.lineItems}
+                    testID={`vendor-recent-lines-${transaction.id}`}
+                  />
+                  <TransactionReversalActions
+                    transaction={transaction}
+                    onRequestReversal={(target, mode) =>
+                      setReversalTarget({ transaction: target, mode })
+                    }
+                  />
                 </View>
               );
             })
@@ -613,6 +1791,41 @@ export const VendorScanScreen: React.FC<VendorScanScreenProps> = ({
           </Text>
         ) : null}
       </ScrollView>
+      <TransactionReversalModal
+        visible={Boolean(reversalTarget)}
+        mode={reversalTarget?.mode ?? 'void'}
+        transaction={reversalTarget?.transaction ?? null}
+        onClose={() => setReversalTarget(null)}
+        onSubmit={handleReversalSubmit}
+      />
+      <VendorTaxSettingsModal
+        visible={isTaxSettingsVisible}
+        settings={taxSettings}
+        onClose={() => setIsTaxSettingsVisible(false)}
+        onSave={handleSaveTaxSettings}
+      />
+      <MemberSearchModal
+        visible={isMemberSearchVisible}
+        onClose={() => setIsMemberSearchVisible(false)}
+        onSearch={handleMemberSearch}
+        onSelect={handleSelectSearchCandidate}
+      />
+      <FraudOverrideModal
+        visible={Boolean(fraudSignals)}
+        signals={fraudSignals ?? []}
+        onCancel={() => setFraudSignals(null)}
+        onApprove={handleFraudApprove}
+      />
+      <CashierSwitcherModal
+        visible={isCashierModalVisible}
+        cashiers={cashiers}
+        activeCashierId={activeCashier?.id ?? null}
+        onClose={() => setIsCashierModalVisible(false)}
+        onUnlock={handleUnlockCashier}
+        onCreate={handleCreateCashier}
+        onRemove={handleRemoveCashier}
+        onSignOut={handleCashierSignOut}
+      />
     </SafeAreaView>
   );
 };
@@ -651,6 +1864,42 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  cashierBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.surface,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+  },
+  cashierText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  modeToggle: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  modeToggleActive: {
+    backgroundColor: COLORS.primary,
+  },
+  modeToggleText: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modeToggleTextActive: {
+    color: COLORS.textOnPrimary,
+  },
   cameraContainer: {
     height: 260,
     borderRadius: 16,
@@ -735,10 +1984,34 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: COLORS.textSecondary,
   },
+  transactionSummaryTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  linkButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  linkButtonText: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   errorText: {
     color: COLORS.error,
     fontSize: 14,
   },
+  noticeCard: {
+    backgroundColor: COLORS.infoBackground,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  noticeText: {
+    color: COLORS.infoText,
+    fontSize: 14,
+  },
   resultCard: {
     backgroundColor: COLORS.surface,
     borderRadius: 16,
@@ -756,6 +2029,34 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: COLORS.textSecondary,
   },
+  eligibilityBanner: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 12,
+    gap: 4,
+  },
+  eligibilityBlocked: {
+    backgroundColor: COLORS.errorBackground,
+    borderColor: COLORS.errorBorder,
+  },
+  eligibilityWarning: {
+    backgroundColor: COLORS.warningBackground,
+    borderColor: COLORS.warningBorder,
+  },
+  eligibilityText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  eligibilityBlockedText: {
+    color: COLORS.errorText,
+  },
+  eligibilityWarningText: {
+    color: COLORS.warningText,
+  },
+  eligibilityMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
   resultMessage: {
     fontSize: 13,
     color: COLORS.textSecondary,
@@ -780,6 +2081,18 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 12,
   },
+  outboxActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  outboxActionButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
   recentRow: {
     borderRadius: 12,
     borderWidth: 1,
@@ -822,6 +2135,10 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.errorBackground,
     color: COLORS.errorText,
   },
+  statusReversed: {
+    backgroundColor: COLORS.infoBackground,
+    color: COLORS.infoText,
+  },
   footerNote: {
     fontSize: 13,
     color: COLORS.textSecondary,
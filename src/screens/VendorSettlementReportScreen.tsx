@@ -0,0 +1,544 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { WebView } from 'react-native-webview';
+import { useAuthContext } from '../contexts/AuthContext';
+import { useLocalization } from '../contexts/LocalizationContext';
+import { useTransactionContext } from '../contexts/TransactionContext';
+import {
+  generateSettlementReport,
+  loadSettlementReport,
+} from '../services/settlementReportService';
+import { SettlementLineItem, SettlementReport } from '../types/settlement';
+import {
+  getBusinessDate,
+  isSettlementReportFinal,
+  shiftBusinessDate,
+} from '../utils/settlementReport';
+import {
+  buildSettlementReportCsv,
+  buildSettlementReportHtml,
+} from '../utils/settlementReportExport';
+import { COLORS } from '../config/theme';
+import deviceLog from '../utils/deviceLog';
+import { ensureAppError } from '../errors';
+
+interface VendorSettlementReportScreenProps {
+  onBack?: () => void;
+}
+
+const formatCurrency = (value: number, locale: string) =>
+  value.toLocaleString(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+export const VendorSettlementReportScreen: React.FC<
+  VendorSettlementReportScreenProps
+> = ({ onBack }) => {
+  const {
+    state: { user },
+    getSessionToken,
+  } = useAuthContext();
+  const { transactions } = useTransactionContext();
+  const { t, translateError, language } = useLocalization();
+  const locale = language === 'th' ? 'th-TH' : 'en-US';
+  const vendorId = user?.id ?? null;
+  const today = useMemo(() => getBusinessDate(new Date()), []);
+  const [businessDate, setBusinessDate] = useState(today);
+  const [report, setReport] = useState<SettlementReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [showPrintPreview, setShowPrintPreview] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setShowPrintPreview(false);
+    setError(null);
+    loadSettlementReport(vendorId, businessDate)
+      .then(stored => {
+        if (!cancelled) {
+          setReport(stored);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [businessDate, vendorId]);
+
+  const handleGenerate = useCallback(async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const authToken = await getSessionToken();
+      const result = await generateSettlementReport({
+        businessDate,
+        authToken,
+        vendorId,
+        vendorName: user?.name ?? null,
+        localTransactions: transactions,
+      });
+      setReport(result.report);
+    } catch (generateError) {
+      const appError = ensureAppError(
+        generateError,
+        'TRANSACTION_SETTLEMENT_REPORT_FAILED',
+        { propagateMessage: true },
+      );
+      setError(translateError(appError) ?? appError.toDisplayString());
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [
+    businessDate,
+    getSessionToken,
+    transactions,
+    translateError,
+    user?.name,
+    vendorId,
+  ]);
+
+  const html = useMemo(
+    () => (report ? buildSettlementReportHtml(report, t) : null),
+    [report, t],
+  );
+
+  const handleShare = useCallback(
+    async (format: 'csv' | 'html') => {
+      if (!report) {
+        return;
+      }
+      const message =
+        format === 'csv' ? buildSettlementReportCsv(report, t) : html ?? '';
+      deviceLog.info('settlementReport.share', { id: report.id, format });
+      try {
+        await Share.share({
+          title: t('settlement.shareTitle', {
+            replace: { date: report.businessDate },
+          }),
+          message,
+        });
+      } catch (shareError) {
+        deviceLog.warn('settlementReport.share.error', {
+          message:
+            shareError instanceof Error
+              ? shareError.message
+              : String(shareError),
+        });
+      }
+    },
+    [html, report, t],
+  );
+
+  const renderItems = (title: string, items: SettlementLineItem[]) =>
+    items.length ? (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{title}</Text>
+        {items.map(item => (
+          <View style={styles.itemRow} key={item.id}>
+            <Text style={styles.itemPrimary}>
+              {item.memberName ?? item.id} ·{' '}
+              {formatCurrency(item.grossAmount, locale)}
+            </Text>
+            <Text style={styles.itemMeta}>
+              {new Date(item.createdAt).toLocaleTimeString(locale)} ·{' '}
+              {item.reason
+                ? t(`vendor.screen.reversal.reasons.${item.reason}`)
+                : item.errorMessage ?? item.id}
+            </Text>
+          </View>
+        ))}
+      </View>
+    ) : null;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerTextGroup}>
+            <Text style={styles.title}>{t('settlement.title')}</Text>
+            <Text style={styles.subtitle}>{t('settlement.subtitle')}</Text>
+          </View>
+          {onBack ? (
+            <Pressable
+              accessibilityRole="button"
+              onPress={onBack}
+              style={styles.secondaryButton}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {t('analytics.shared.back')}
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        <View style={styles.dateRow}>
+          <Pressable
+            accessibilityRole="button"
+            onPress={() =>
+              setBusinessDate(current => shiftBusinessDate(current, -1))
+            }
+            style={styles.secondaryButton}
+            testID="settlement-previous-day"
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('settlement.previousDay')}
+            </Text>
+          </Pressable>
+          <Text style={styles.dateLabel} testID="settlement-business-date">
+            {businessDate}
+          </Text>
+          <Pressable
+            accessibilityRole="button"
+            disabled={businessDate >= today}
+            onPress={() =>
+              setBusinessDate(current => shiftBusinessDate(current, 1))
+            }
+            style={[
+              styles.secondaryButton,
+              businessDate >= today && styles.buttonDisabled,
+            ]}
+            testID="settlement-next-day"
+          >
+            <Text style={styles.secondaryButtonText}>
+              {t('settlement.nextDay')}
+            </Text>
+          </Pressable>
+        </View>
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        {isLoading ? (
+          <ActivityIndicator color={COLORS.primary} />
+        ) : report ? (
+          <>
+            <Text style={styles.lockedText} testID="settlement-locked">
+              {t(
+                isSettlementReportFinal(report)
+                  ? 'settlement.lockedAt'
+                  : 'settlement.provisional',
+                {
+                  replace: {
+                    timestamp: new Date(report.generatedAt).toLocaleString(
+                      locale,
+                    ),
+                  },
+                },
+              )}
+            </Text>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>
+                  {t('settlement.columns.gross')}
+                </Text>
+                <Text style={styles.summaryValue}>
+                  {formatCurrency(report.totals.gross, locale)}
+                </Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>
+                  {t('settlement.columns.discount')}
+                </Text>
+                <Text style={styles.summaryValue}>
+                  {formatCurrency(report.totals.discount, locale)}
+                </Text>
+              </View>
+              <View style={styles.summaryCard}>
+                <Text style={styles.summaryLabel}>
+                  {t('settlement.columns.settled')}
+                </Text>
+                <Text
+                  style={styles.summaryValue}
+                  testID="settlement-total-settled"
+                >
+                  {formatCurrency(report.totals.settled, locale)}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>
+                {t('settlement.sections.byTier')}
+              </Text>
+              {report.byTier.length === 0 ? (
+                <Text style={styles.itemMeta}>{t('settlement.empty')}</Text>
+              ) : (
+                report.byTier.map(tier => (
+                  <View style={styles.itemRow} key={tier.tier}>
+                    <Text style={styles.itemPrimary}>
+                      {tier.tier === 'unknown'
+                        ? t('settlement.unknownTier')
+                        : tier.tier}{' '}
+                      ·{' '}
+                      {t('settlement.countLabel', {
+                        replace: { count: tier.count },
+                      })}
+                    </Text>
+                    <Text style={styles.itemMeta}>
+                      {t('settlement.tierSummary', {
+                        replace: {
+                          gross: formatCurrency(tier.gross, locale),
+                          discount: formatCurrency(tier.discount, locale),
+                          net: formatCurrency(tier.net, locale),
+                          refunded: formatCurrency(tier.refunded, locale),
+                        },
+                      })}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>
+                {t('settlement.sections.statusCounts')}
+              </Text>
+              {Object.entries(report.statusCounts).map(([status, count]) => (
+                <View style={styles.statusRow} key={status}>
+                  <Text style={styles.itemMeta}>
+                    {t(`analytics.status.${status}`)}
+                  </Text>
+                  <Text style={styles.itemPrimary}>{count}</Text>
+                </View>
+              ))}
+              <Text style={styles.itemMeta}>
+                {t('settlement.fields.firstTransaction')}:{' '}
+                {report.firstTransactionId ?? '—'}
+              </Text>
+              <Text style={styles.itemMeta}>
+                {t('settlement.fields.lastTransaction')}:{' '}
+                {report.lastTransactionId ?? '—'}
+              </Text>
+            </View>
+
+            {renderItems(t('settlement.sections.failed'), report.failedItems)}
+            {renderItems(t('settlement.sections.voided'), report.voidedItems)}
+
+            <View style={styles.actionRow}>
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => void handleShare('csv')}
+                style={styles.primaryButton}
+                testID="settlement-share-csv"
+              >
+                <Text style={styles.primaryButtonText}>
+                  {t('settlement.shareCsv')}
+                </Text>
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => void handleShare('html')}
+                style={styles.primaryButton}
+                testID="settlement-share-html"
+              >
+                <Text style={styles.primaryButtonText}>
+                  {t('settlement.shareHtml')}
+                </Text>
+              </Pressable>
+            </View>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setShowPrintPreview(current => !current)}
+              style={styles.secondaryButton}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {showPrintPreview
+                  ? t('settlement.hidePrintPreview')
+                  : t('settlement.showPrintPreview')}
+              </Text>
+            </Pressable>
+            {showPrintPreview && html ? (
+              <View style={styles.previewContainer}>
+                <WebView originWhitelist={['*']} source={{ html }} />
+              </View>
+            ) : null}
+          </>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.itemMeta}>{t('settlement.notGenerated')}</Text>
+            <Pressable
+              accessibilityRole="button"
+              disabled={isGenerating}
+              onPress={() => void handleGenerate()}
+              style={[
+                styles.primaryButton,
+                isGenerating && styles.buttonDisabled,
+              ]}
+              testID="settlement-generate"
+            >
+              {isGenerating ? (
+                <ActivityIndicator color={COLORS.textOnPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {t('settlement.generate')}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  container: {
+    padding: 24,
+    gap: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 16,
+  },
+  headerTextGroup: {
+    flexShrink: 1,
+    gap: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  dateLabel: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  lockedText: {
+    fontSize: 13,
+    color: COLORS.infoText,
+    backgroundColor: COLORS.infoBackground,
+    padding: 10,
+    borderRadius: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    minWidth: 120,
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 6,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  itemRow: {
+    gap: 2,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.mutedBorder,
+  },
+  itemPrimary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    minHeight: 44,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: COLORS.textOnPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  errorText: {
+    color: COLORS.errorText,
+    backgroundColor: COLORS.errorBackground,
+    padding: 12,
+    borderRadius: 12,
+  },
+  previewContainer: {
+    height: 480,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: COLORS.mutedBorder,
+  },
+});
@@ -0,0 +1,291 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { CASHIER_CONFIG } from '../config/cashierConfig';
+import { createAppError } from '../errors';
+import { generateSalt, hashWithSalt } from '../utils/hash';
+import { VendorCashier } from '../types/vendor';
+import { hasPin, verifyPin } from './pinService';
+
+interface StoredCashier extends VendorCashier {
+  pinHash: string;
+  pinSalt: string;
+  failedAttempts?: number;
+  lockedUntil?: string | null;
+}
+
+interface StoredVendorCashiers {
+  cashiers: StoredCashier[];
+  activeCashierId: string | null;
+  /** Wrong vendor account PINs entered for supervisor actions. */
+  supervisorFailedAttempts?: number;
+  supervisorLockedUntil?: string | null;
+}
+
+type StoredCashierState = Record<string, StoredVendorCashiers>;
+
+const storageKeyFor = (vendorId: number | null) =>
+  vendorId == null ? 'local' : String(vendorId);
+
+const toPublic = ({ id, name, createdAt }: StoredCashier): VendorCashier => ({
+  id,
+  name,
+  createdAt,
+});
+
+const readAll = async (): Promise<StoredCashierState> => {
+  try {
+    const raw = await AsyncStorage.getItem(CASHIER_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    deviceLog.warn('cashier.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+};
+
+const readVendor = async (
+  vendorId: number | null,
+): Promise<StoredVendorCashiers> => {
+  const stored = (await readAll())[storageKeyFor(vendorId)];
+  return {
+    cashiers: Array.isArray(stored?.cashiers) ? stored.cashiers : [],
+    activeCashierId: stored?.activeCashierId ?? null,
+    supervisorFailedAttempts: stored?.supervisorFailedAttempts ?? 0,
+    supervisorLockedUntil: stored?.supervisorLockedUntil ?? null,
+  };
+};
+
+const writeVendor = async (
+  vendorId: number | null,
+  state: StoredVendorCashiers,
+): Promise<void> => {
+  const stored = await readAll();
+  await AsyncStorage.setItem(
+    CASHIER_CONFIG.storageKey,
+    JSON.stringify({ ...stored, [storageKeyFor(vendorId)]: state }),
+  );
+};
+
+export const listCashiers = async (
+  vendorId: number | null,
+): Promise<VendorCashier[]> => {
+  const { cashiers } = await readVendor(vendorId);
+  return cashiers.map(toPublic);
+};
+
+/**
+ * Checks the vendor account's quick login PIN for a supervisor action.
+ * Returns false for a wrong PIN; repeated wrong PINs lock supervisor actions
+ * for the vendor for `CASHIER_CONFIG.lockoutMs`, like a cashier profile.
+ */
+export const verifySupervisorPin = async (
+  vendorId: number | null,
+  supervisorPin: string,
+  action: string,
+  now: number = Date.now(),
+): Promise<boolean> => {
+  if (!(await hasPin())) {
+    throw createAppError('VENDOR_SUPERVISOR_PIN_MISSING');
+  }
+
+  const state = await readVendor(vendorId);
+  const lockedUntil = state.supervisorLockedUntil
+    ? Date.parse(state.supervisorLockedUntil)
+    : 0;
+  if (lockedUntil > now) {
+    deviceLog.warn('cashier.supervisor.locked', { vendorId, action });
+    throw createAppError('VENDOR_SUPERVISOR_LOCKED', {
+      metadata: { lockedUntil: state.supervisorLockedUntil },
+    });
+  }
+
+  if (await verifyPin(supervisorPin)) {
+    if (state.supervisorFailedAttempts || state.supervisorLockedUntil) {
+      await writeVendor(vendorId, {
+        ...state,
+        supervisorFailedAttempts: 0,
+        supervisorLockedUntil: null,
+      });
+    }
+    return true;
+  }
+
+  const failedAttempts = (state.supervisorFailedAttempts ?? 0) + 1;
+  const locked = failedAttempts >= CASHIER_CONFIG.maxPinAttempts;
+  await writeVendor(vendorId, {
+    ...state,
+    supervisorFailedAttempts: locked ? 0 : failedAttempts,
+    supervisorLockedUntil: locked
+      ? new Date(now + CASHIER_CONFIG.lockoutMs).toISOString()
+      : null,
+  });
+  deviceLog.warn('cashier.supervisor.rejected', {
+    vendorId,
+    action,
+    failedAttempts,
+    locked,
+  });
+  if (locked) {
+    throw createAppError('VENDOR_SUPERVISOR_LOCKED');
+  }
+  return false;
+};
+
+/**
+ * Adding or removing cashiers changes who sales are attributed to, so it
+ * needs the vendor account's quick login PIN, like a fraud override.
+ */
+const requireSupervisorPin = async (
+  vendorId: number | null,
+  supervisorPin: string,
+  action: 'create' | 'remove',
+): Promise<void> => {
+  if (!(await verifySupervisorPin(vendorId, supervisorPin, action))) {
+    throw createAppError('VENDOR_SUPERVISOR_PIN_INCORRECT');
+  }
+};
+
+export const createCashier = async (
+  vendorId: number | null,
+  name: string,
+  pin: string,
+  supervisorPin: string,
+): Promise<VendorCashier> => {
+  await requireSupervisorPin(vendorId, supervisorPin, 'create');
+  const trimmed = name.trim().slice(0, CASHIER_CONFIG.maxNameLength);
+  if (pin.length < CASHIER_CONFIG.minPinLength) {
+    throw createAppError('AUTH_PIN_LENGTH');
+  }
+
+  const state = await readVendor(vendorId);
+  if (
+    !trimmed ||
+    state.cashiers.some(
+      cashier => cashier.name.toLowerCase() === trimmed.toLowerCase(),
+    )
+  ) {
+    throw createAppError('VENDOR_CASHIER_NAME_INVALID');
+  }
+
+  const pinSalt = generateSalt();
+  const cashier: StoredCashier = {
+    id: `cashier-${generateSalt(12)}`,
+    name: trimmed,
+    createdAt: new Date().toISOString(),
+    pinSalt,
+    pinHash: hashWithSalt(pin, pinSalt),
+  };
+  await writeVendor(vendorId, {
+    ...state,
+    cashiers: [...state.cashiers, cashier],
+  });
+  deviceLog.info('cashier.created', { vendorId, cashierId: cashier.id });
+  return toPublic(cashier);
+};
+
+export const removeCashier = async (
+  vendorId: number | null,
+  cashierId: string,
+  supervisorPin: string,
+): Promise<void> => {
+  await requireSupervisorPin(vendorId, supervisorPin, 'remove');
+  const state = await readVendor(vendorId);
+  await writeVendor(vendorId, {
+    ...state,
+    cashiers: state.cashiers.filter(cashier => cashier.id !== cashierId),
+    activeCashierId:
+      state.activeCashierId === cashierId ? null : state.activeCashierId,
+  });
+  deviceLog.info('cashier.removed', { vendorId, cashierId });
+};
+
+const replaceCashier = (
+  state: StoredVendorCashiers,
+  cashier: StoredCashier,
+): StoredVendorCashiers => ({
+  ...state,
+  cashiers: state.cashiers.map(entry =>
+    entry.id === cashier.id ? cashier : entry,
+  ),
+});
+
+/**
+ * Checks the cashier's PIN and makes them the active cashier for the vendor,
+ * so later redemptions on this device are attributed to them. Repeated wrong
+ * PINs lock the profile for `CASHIER_CONFIG.lockoutMs`.
+ */
+export const unlockCashier = async (
+  vendorId: number | null,
+  cashierId: string,
+  pin: string,
+  now: number = Date.now(),
+): Promise<VendorCashier> => {
+  const state = await readVendor(vendorId);
+  const cashier = state.cashiers.find(entry => entry.id === cashierId);
+  if (!cashier) {
+    deviceLog.warn('cashier.unlock.rejected', { vendorId, cashierId });
+    throw createAppError('VENDOR_CASHIER_PIN_INCORRECT');
+  }
+
+  const lockedUntil = cashier.lockedUntil ? Date.parse(cashier.lockedUntil) : 0;
+  if (lockedUntil > now) {
+    deviceLog.warn('cashier.unlock.locked', { vendorId, cashierId });
+    throw createAppError('VENDOR_CASHIER_LOCKED', {
+      metadata: { lockedUntil: cashier.lockedUntil },
+    });
+  }
+
+  if (hashWithSalt(pin, cashier.pinSalt) !== cashier.pinHash) {
+    const failedAttempts = (cashier.failedAttempts ?? 0) + 1;
+    const locked = failedAttempts >= CASHIER_CONFIG.maxPinAttempts;
+    await writeVendor(
+      vendorId,
+      replaceCashier(state, {
+        ...cashier,
+        failedAttempts: locked ? 0 : failedAttempts,
+        lockedUntil: locked
+          ? new Date(now + CASHIER_CONFIG.lockoutMs).toISOString()
+          : null,
+      }),
+    );
+    deviceLog.warn('cashier.unlock.rejected', {
+      vendorId,
+      cashierId,
+      failedAttempts,
+      locked,
+    });
+    throw createAppError(
+      locked ? 'VENDOR_CASHIER_LOCKED' : 'VENDOR_CASHIER_PIN_INCORRECT',
+    );
+  }
+
+  await writeVendor(vendorId, {
+    ...replaceCashier(state, {
+      ...cashier,
+      failedAttempts: 0,
+      lockedUntil: null,
+    }),
+    activeCashierId: cashier.id,
+  });
+  deviceLog.info('cashier.unlocked', { vendorId, cashierId });
+  return toPublic(cashier);
+};
+
+export const getActiveCashier = async (
+  vendorId: number | null,
+): Promise<VendorCashier | null> => {
+  const { cashiers, activeCashierId } = await readVendor(vendorId);
+  const active = cashiers.find(cashier => cashier.id === activeCashierId);
+  return active ? toPublic(active) : null;
+};
+
+export const clearActiveCashier = async (
+  vendorId: number | null,
+): Promise<void> => {
+  const state = await readVendor(vendorId);
+  if (state.activeCashierId) {
+    await writeVendor(vendorId, { ...state, activeCashierId: null });
+  }
+};
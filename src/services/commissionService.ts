@@ -0,0 +1,167 @@
+import deviceLog from '../utils/deviceLog';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import {
+  buildWordPressRequestInit,
+  syncWordPressCookiesFromResponse,
+} from './wordpressCookieService';
+import { ensureValidSessionToken } from './wordpressAuthService';
+import {
+  CommissionEntry,
+  CommissionLedger,
+  CommissionLevel,
+  CommissionStatus,
+  CommissionSummary,
+} from '../types/mlm';
+import { createAppError, ensureAppError } from '../errors';
+
+const getString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return null;
+};
+
+const getNumber = (value: unknown): number | null => {
+  const parsed =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+      ? Number.parseFloat(value)
+      : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const normalizeStatus = (value: unknown): CommissionStatus => {
+  const raw = getString(value)?.toLowerCase();
+  if (raw === 'paid' || raw === 'completed') {
+    return 'paid';
+  }
+  if (raw === 'cancelled' || raw === 'canceled' || raw === 'void') {
+    return 'cancelled';
+  }
+  return 'pending';
+};
+
+const isCommissionLevel = (value: string | null): value is CommissionLevel =>
+  value === 'direct' || value === 'passive';
+
+export const parseCommissionEntry = (
+  value: unknown,
+): CommissionEntry | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const amount = getNumber(record.amount);
+  if (amount === null) {
+    return null;
+  }
+
+  // Older ledgers store `direct`/`passive` in `level`; newer ones keep the
+  // commission type separate and use `level` for the purchased membership.
+  const rawLevel = getString(record.level)?.toLowerCase() ?? null;
+  const type =
+    getString(record.commission_type ?? record.type)?.toLowerCase() ?? null;
+  const memberId = getNumber(record.member_id ?? record.memberId);
+  const orderId = getNumber(record.order_id ?? record.orderId);
+  const createdAt =
+    getString(record.created_at ?? record.createdAt ?? record.date) ?? '';
+
+  return {
+    id:
+      getString(record.id) ??
+      `${memberId ?? 'member'}-${orderId ?? 'order'}-${createdAt}`,
+    sponsorId: getNumber(record.sponsor_id ?? record.sponsorId),
+    memberId,
+    memberName: getString(
+      record.member_name ?? record.memberName ?? record.display_name,
+    ),
+    membershipLevel:
+      getString(
+        record.membership_level ?? record.membershipLevel,
+      )?.toLowerCase() ?? (isCommissionLevel(rawLevel) ? null : rawLevel),
+    orderId,
+    level: isCommissionLevel(type)
+      ? type
+      : isCommissionLevel(rawLevel)
+      ? rawLevel
+      : 'direct',
+    amount,
+    currency:
+      getString(record.currency)?.toUpperCase() ??
+      MLM_CONFIG.commissions.defaultCurrency,
+    status: normalizeStatus(record.status),
+    createdAt,
+  };
+};
+
+const parseSummary = (value: unknown): CommissionSummary => {
+  const record =
+    value && typeof value === 'object'
+      ? (value as Record<string, unknown>)
+      : {};
+  return {
+    total: getNumber(record.total) ?? 0,
+    paid: getNumber(record.paid) ?? 0,
+    pending: getNumber(record.pending) ?? 0,
+  };
+};
+
+export const fetchCommissions = async (
+  authToken?: string | null,
+): Promise<CommissionLedger> => {
+  const resolvedToken = await ensureValidSessionToken(authToken);
+  if (!resolvedToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const requestUrl = `${MLM_CONFIG.baseUrl}${MLM_CONFIG.endpoints.commissions}`;
+  try {
+    const init = await buildWordPressRequestInit({
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${resolvedToken}`,
+      },
+    });
+    const response = await fetch(requestUrl, init);
+    await syncWordPressCookiesFromResponse(response);
+
+    const contentType = response.headers.get('content-type');
+    const payload = contentType?.includes('application/json')
+      ? await response.json()
+      : await response.text();
+
+    if (!response.ok || !payload || typeof payload !== 'object') {
+      throw createAppError('MLM_COMMISSIONS_FETCH_FAILED', {
+        overrideMessage:
+          typeof payload === 'string'
+            ? payload
+            : getString((payload as Record<string, unknown>)?.message) ??
+              undefined,
+        metadata: { status: response.status },
+      });
+    }
+
+    const record = payload as Record<string, unknown>;
+    const entries = (Array.isArray(record.ledger) ? record.ledger : [])
+      .map(parseCommissionEntry)
+      .filter((entry): entry is CommissionEntry => Boolean(entry))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+    deviceLog.debug('commissions.fetch.success', { count: entries.length });
+    return { summary: parseSummary(record.summary), entries };
+  } catch (error) {
+    const appError = ensureAppError(error, 'MLM_COMMISSIONS_FETCH_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('commissions.fetch.error', { code: appError.code });
+    throw appError;
+  }
+};
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { DISCOUNT_MATRIX_CONFIG } from '../config/discountMatrixConfig';
+import { DEFAULT_DISCOUNT_MATRIX, DiscountMatrix } from '../utils/discount';
+import { hashWithSalt } from '../utils/hash';
+import { VendorTierDefinition } from '../types/vendor';
+import { fetchVendorTierCatalog } from './vendorService';
+import { ensureAppError } from '../errors';
+
+export type DiscountMatrixSource = 'server' | 'cache' | 'bundled';
+
+export interface DiscountMatrixSnapshot {
+  matrix: DiscountMatrix;
+  tiers: VendorTierDefinition[] | null;
+  version: string | null;
+  fetchedAt: string | null;
+  source: DiscountMatrixSource;
+}
+
+interface RefreshDiscountMatrixOptions {
+  force?: boolean;
+  now?: Date;
+}
+
+const BUNDLED_SNAPSHOT: DiscountMatrixSnapshot = {
+  matrix: DEFAULT_DISCOUNT_MATRIX,
+  tiers: null,
+  version: null,
+  fetchedAt: null,
+  source: 'bundled',
+};
+
+let currentSnapshot: DiscountMatrixSnapshot = BUNDLED_SNAPSHOT;
+let hydration: Promise<DiscountMatrixSnapshot> | null = null;
+let inflightRefresh: Promise<DiscountMatrixSnapshot> | null = null;
+
+/**
+ * Builds the vendor × membership matrix from the tier catalogue. Keys are
+ * sorted so the computed version only changes when a rate does.
+ */
+export const buildDiscountMatrix = (
+  tiers: VendorTierDefinition[],
+): DiscountMatrix => {
+  const matrix: DiscountMatrix = {};
+  [...tiers]
+    .sort((a, b) => a.slug.localeCompare(b.slug))
+    .forEach(tier => {
+      const rates = tier.discountRates;
+      if (!rates || !Object.keys(rates).length) {
+        return;
+      }
+      const vendorKey = tier.slug.trim().toLowerCase();
+      matrix[vendorKey] = Object.keys(rates)
+        .sort()
+        .reduce<Record<string, number>>((acc, key) => {
+          acc[key] = rates[key];
+          return acc;
+        }, {});
+    });
+  return matrix;
+};
+
+const computeVersion = (matrix: DiscountMatrix): string =>
+  hashWithSalt(JSON.stringify(matrix), 'discount-matrix').slice(0, 12);
+
+const isSnapshot = (value: unknown): value is DiscountMatrixSnapshot => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const snapshot = value as Record<string, unknown>;
+  return (
+    Boolean(snapshot.matrix) &&
+    typeof snapshot.matrix === 'object' &&
+    typeof snapshot.fetchedAt === 'string'
+  );
+};
+
+export const getDiscountMatrixSnapshot = (): DiscountMatrixSnapshot =>
+  currentSnapshot;
+
+export const getDiscountMatrix = (): DiscountMatrix => currentSnapshot.matrix;
+
+/**
+ * Loads the last server matrix from storage once per app session. Until this
+ * resolves the bundled matrix is used.
+ */
+export const hydrateDiscountMatrix = (): Promise<DiscountMatrixSnapshot> => {
+  if (!hydration) {
+    hydration = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(
+          DISCOUNT_MATRIX_CONFIG.storageKey,
+        );
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (isSnapshot(parsed) && currentSnapshot.source === 'bundled') {
+          currentSnapshot = { ...parsed, source: 'cache' };
+        }
+      } catch (error) {
+        deviceLog.warn('discountMatrix.hydrate.error', {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return currentSnapshot;
+    })();
+  }
+  return hydration;
+};
+
+const isFresh = (snapshot: DiscountMatrixSnapshot, now: Date): boolean => {
+  if (snapshot.source === 'bundled' || !snapshot.fetchedAt) {
+    return false;
+  }
+  const age = now.getTime() - Date.parse(snapshot.fetchedAt);
+  return Number.isFinite(age) && age < DISCOUNT_MATRIX_CONFIG.maxAgeMs;
+};
+
+/**
+ * Fetches the tier rates from the server when the cached copy is older than
+ * `maxAgeMs`. On failure the cached (or bundled) matrix stays active and the
+ * error is rethrown so callers can surface it.
+ */
+export const refreshDiscountMatrix = async (
+  authToken?: string | null,
+  { force = false, now = new Date() }: RefreshDiscountMatrixOptions = {},
+): Promise<DiscountMatrixSnapshot> => {
+  await hydrateDiscountMatrix();
+  if (!force && isFresh(currentSnapshot, now)) {
+    return currentSnapshot;
+  }
+  if (inflightRefresh) {
+    return inflightRefresh;
+  }
+
+  inflightRefresh = (async () => {
+    try {
+      const catalog = await fetchVendorTierCatalog(authToken);
+      const matrix = buildDiscountMatrix(catalog.tiers);
+      if (!Object.keys(matrix).length) {
+        deviceLog.warn('discountMatrix.refresh.empty', {
+          tiers: catalog.tiers.length,
+        });
+        return currentSnapshot;
+      }
+
+      const snapshot: DiscountMatrixSnapshot = {
+        matrix,
+        tiers: catalog.tiers,
+        version: catalog.version ?? computeVersion(matrix),
+        fetchedAt: now.toISOString(),
+        source: 'server',
+      };
+      if (snapshot.version !== currentSnapshot.version) {
+        deviceLog.info('discountMatrix.updated', {
+          previousVersion: currentSnapshot.version,
+          version: snapshot.version,
+        });
+      }
+      currentSnapshot = snapshot;
+      await AsyncStorage.setItem(
+        DISCOUNT_MATRIX_CONFIG.storageKey,
+        JSON.stringify(snapshot),
+      );
+      return snapshot;
+    } catch (error) {
+      const appError = ensureAppError(error, 'VENDOR_TIERS_FETCH_FAILED', {
+        propagateMessage: true,
+      });
+      deviceLog.warn('discountMatrix.refresh.error', {
+        code: appError.code,
+        source: currentSnapshot.source,
+        version: currentSnapshot.version,
+      });
+      throw appError;
+    } finally {
+      inflightRefresh = null;
+    }
+  })();
+
+  return inflightRefresh;
+};
+
+export const __unsafeResetDiscountMatrixStoreForTests = () => {
+  currentSnapshot = BUNDLED_SNAPSHOT;
+  hydration = null;
+  inflightRefresh = null;
+};
@@ -0,0 +1,61 @@
+import deviceLog from '../utils/deviceLog';
+import { FRAUD_CONFIG } from '../config/fraudConfig';
+import { createAppError } from '../errors';
+import { FraudOverride, FraudSignal, ScanEvent } from '../types/fraud';
+import { verifySupervisorPin } from './cashierService';
+
+// Scans only matter for a few minutes, so the log lives in memory and is
+// shared by every vendor screen for the lifetime of the app process.
+let scanLog: ScanEvent[] = [];
+
+const prune = (now: Date) => {
+  const cutoff = now.getTime() - FRAUD_CONFIG.scanLogRetentionMs;
+  scanLog = scanLog.filter(event => Date.parse(event.at) >= cutoff);
+};
+
+export const recordScanEvent = (
+  token: string,
+  outcome: ScanEvent['outcome'],
+  now: Date = new Date(),
+): ScanEvent => {
+  const event: ScanEvent = { token, outcome, at: now.toISOString() };
+  prune(now);
+  scanLog = [...scanLog, event];
+  return event;
+};
+
+export const getRecentScanEvents = (now: Date = new Date()): ScanEvent[] => {
+  prune(now);
+  return scanLog;
+};
+
+/**
+ * Approves a flagged redemption with the vendor account's quick login PIN,
+ * which acts as the supervisor PIN on shared tills. Wrong PINs count towards
+ * the same per-vendor lockout as cashier management.
+ */
+export const approveFraudOverride = async (
+  vendorId: number | null,
+  pin: string,
+  signals: FraudSignal[],
+): Promise<FraudOverride> => {
+  if (!(await verifySupervisorPin(vendorId, pin, 'fraud_override'))) {
+    deviceLog.warn('fraud.override.rejected', {
+      signals: signals.map(signal => signal.type),
+    });
+    throw createAppError('VENDOR_FRAUD_OVERRIDE_REJECTED');
+  }
+
+  deviceLog.info('fraud.override.approved', {
+    signals: signals.map(signal => signal.type),
+  });
+  return {
+    signals,
+    approvedAt: new Date().toISOString(),
+    approvedBy: 'supervisor_pin',
+  };
+};
+
+export const __unsafeResetScanLogForTests = () => {
+  scanLog = [];
+};
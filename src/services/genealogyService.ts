@@ -0,0 +1,151 @@
+import deviceLog from '../utils/deviceLog';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import {
+  buildWordPressRequestInit,
+  syncWordPressCookiesFromResponse,
+} from './wordpressCookieService';
+import { ensureValidSessionToken } from './wordpressAuthService';
+import { GenealogyNode, GenealogyTree } from '../types/mlm';
+import { clampGenealogyDepth } from '../utils/genealogy';
+import { createAppError, ensureAppError } from '../errors';
+
+const getString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return null;
+};
+
+const getNumber = (value: unknown): number | null => {
+  const parsed =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+      ? Number.parseFloat(value)
+      : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseGenealogyNode = (
+  value: unknown,
+  depth = 0,
+): GenealogyNode | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const id = getNumber(record.id ?? record.user_id ?? record.ID);
+  if (id === null) {
+    return null;
+  }
+
+  const children = Array.isArray(record.children)
+    ? record.children
+        .map(child => parseGenealogyNode(child, depth + 1))
+        .filter((child): child is GenealogyNode => Boolean(child))
+    : [];
+
+  return {
+    id,
+    name:
+      getString(record.name) ??
+      getString(record.display_name) ??
+      getString(record.displayName) ??
+      `#${id}`,
+    level:
+      getString(record.level)?.toLowerCase() ??
+      getString(record.membership_level)?.toLowerCase() ??
+      null,
+    recruits: Math.max(
+      getNumber(record.recruits ?? record.direct_recruits) ?? 0,
+      children.length,
+    ),
+    depth,
+    children,
+  };
+};
+
+/**
+ * The endpoint returns the signed-in member as the root node. Older builds
+ * wrap it in `tree` or return only the direct recruits, in which case a
+ * placeholder root is created for them.
+ */
+const extractRoot = (payload: unknown): GenealogyNode | null => {
+  if (Array.isArray(payload)) {
+    return parseGenealogyNode({ id: 0, name: '', children: payload });
+  }
+
+  const record =
+    payload && typeof payload === 'object'
+      ? (payload as Record<string, unknown>)
+      : null;
+  return parseGenealogyNode(record?.tree ?? record?.data ?? record);
+};
+
+export const fetchGenealogy = async (
+  depth: number,
+  authToken?: string | null,
+): Promise<GenealogyTree> => {
+  const resolvedToken = await ensureValidSessionToken(authToken);
+  if (!resolvedToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const requestedDepth = clampGenealogyDepth(depth);
+  const requestUrl = `${MLM_CONFIG.baseUrl}${MLM_CONFIG.endpoints.genealogy}?depth=${requestedDepth}`;
+  try {
+    const init = await buildWordPressRequestInit({
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${resolvedToken}`,
+      },
+    });
+    const response = await fetch(requestUrl, init);
+    await syncWordPressCookiesFromResponse(response);
+
+    const contentType = response.headers.get('content-type');
+    const payload = contentType?.includes('application/json')
+      ? await response.json()
+      : await response.text();
+
+    if (!response.ok) {
+      throw createAppError('MLM_GENEALOGY_FETCH_FAILED', {
+        overrideMessage:
+          typeof payload === 'string'
+            ? payload
+            : getString((payload as Record<string, unknown>)?.message) ??
+              undefined,
+        metadata: { status: response.status, depth: requestedDepth },
+      });
+    }
+
+    const root = extractRoot(payload);
+    if (!root) {
+      throw createAppError('MLM_GENEALOGY_FETCH_FAILED', {
+        metadata: { reason: 'payload', depth: requestedDepth },
+      });
+    }
+
+    deviceLog.debug('genealogy.fetch.success', {
+      depth: requestedDepth,
+      recruits: root.recruits,
+    });
+    return { root, depth: requestedDepth };
+  } catch (error) {
+    const appError = ensureAppError(error, 'MLM_GENEALOGY_FETCH_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('genealogy.fetch.error', {
+      code: appError.code,
+      depth: requestedDepth,
+    });
+    throw appError;
+  }
+};
@@ -0,0 +1,88 @@
+import deviceLog from '../utils/deviceLog';
+import { MEMBER_QR_CONFIG } from '../config/memberQrConfig';
+import { createAppError } from '../errors';
+import {
+  isMemberQrWindowCurrent,
+  isSignedMemberQrPayload,
+  parseSignedMemberQr,
+} from '../utils/memberQr';
+
+// Signed payloads are only valid for a minute or two, so the replay log
+// lives in memory like the fraud scan log.
+let usedPayloads = new Map<string, number>();
+
+const prune = (now: number) => {
+  const cutoff = now - MEMBER_QR_CONFIG.replayRetentionMs;
+  usedPayloads = new Map(
+    [...usedPayloads].filter(([, usedAt]) => usedAt >= cutoff),
+  );
+};
+
+const replayKeyFor = (reference: string, window: number) =>
+  `${reference}:${window}`;
+
+/**
+ * Checks a scanned member QR before it is sent to `lookupMember`. Vendors
+ * never hold member seeds, so the HMAC itself is verified by the server;
+ * this rejects malformed signatures, stale windows and payloads already
+ * redeemed on this device. Bare static tokens are refused only while
+ * `requireSignedPayloads` is set; `allowUnsigned` always admits tokens the
+ * server handed out itself, such as member search results.
+ */
+export const verifyScannedMemberQr = (
+  value: string,
+  now: number = Date.now(),
+  {
+    allowUnsigned = !MEMBER_QR_CONFIG.requireSignedPayloads,
+  }: { allowUnsigned?: boolean } = {},
+): void => {
+  if (!isSignedMemberQrPayload(value)) {
+    if (allowUnsigned) {
+      return;
+    }
+    deviceLog.warn('vendor.memberQr.rejected', { reason: 'unsigned' });
+    throw createAppError('TRANSACTION_MEMBER_QR_UNSIGNED');
+  }
+
+  // Format check only: without the member's seed the HMAC cannot be
+  // recomputed here. The lookup endpoint does the real verification.
+  const qr = parseSignedMemberQr(value);
+  if (!qr) {
+    deviceLog.warn('vendor.memberQr.rejected', { reason: 'signature' });
+    throw createAppError('TRANSACTION_MEMBER_QR_SIGNATURE_INVALID');
+  }
+
+  if (!isMemberQrWindowCurrent(qr, now)) {
+    deviceLog.warn('vendor.memberQr.rejected', {
+      reason: 'expired',
+      window: qr.window,
+      windowSeconds: qr.windowSeconds,
+    });
+    throw createAppError('TRANSACTION_MEMBER_QR_EXPIRED');
+  }
+
+  prune(now);
+  if (usedPayloads.has(replayKeyFor(qr.reference, qr.window))) {
+    deviceLog.warn('vendor.memberQr.rejected', {
+      reason: 'replayed',
+      window: qr.window,
+    });
+    throw createAppError('TRANSACTION_MEMBER_QR_REPLAYED');
+  }
+};
+
+/**
+ * Records a signed payload after a successful lookup. Failed lookups are not
+ * recorded so the cashier can retry the same code after a network error.
+ */
+export const markMemberQrUsed = (
+  value: string,
+  now: number = Date.now(),
+): void => {
+  const qr = parseSignedMemberQr(value);
+  if (!qr) {
+    return;
+  }
+  prune(now);
+  usedPayloads.set(replayKeyFor(qr.reference, qr.window), now);
+};
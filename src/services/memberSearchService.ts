@@ -0,0 +1,112 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { MEMBER_SEARCH_CONFIG } from '../config/memberSearchConfig';
+import { createAppError } from '../errors';
+import { searchMembers } from './transactionService';
+import { normalizeMemberSearchValue } from '../utils/memberSearch';
+import { hashWithSalt } from '../utils/hash';
+import {
+  MemberSearchCandidate,
+  MemberSearchQuery,
+} from '../types/transactions';
+
+const storageKeyFor = (vendorId: number | null) =>
+  vendorId == null ? 'local' : String(vendorId);
+
+const readAttempts = async (): Promise<Record<string, number[]>> => {
+  try {
+    const raw = await AsyncStorage.getItem(MEMBER_SEARCH_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    deviceLog.warn('memberSearch.attempts.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+};
+
+/**
+ * Counts a search against the vendor's rolling window and throws once the
+ * limit is reached. Attempts persist so restarting the app does not reset
+ * the limit.
+ */
+const consumeSearchAttempt = async (
+  vendorId: number | null,
+  now: number,
+): Promise<void> => {
+  const stored = await readAttempts();
+  const key = storageKeyFor(vendorId);
+  const since = now - MEMBER_SEARCH_CONFIG.windowMs;
+  const recent = (Array.isArray(stored[key]) ? stored[key] : []).filter(
+    time => typeof time === 'number' && time > since,
+  );
+
+  if (recent.length >= MEMBER_SEARCH_CONFIG.maxSearchesPerWindow) {
+    const retryAt = new Date(
+      Math.min(...recent) + MEMBER_SEARCH_CONFIG.windowMs,
+    ).toISOString();
+    deviceLog.warn('vendor.memberSearch.rateLimited', {
+      vendorId,
+      attempts: recent.length,
+      retryAt,
+    });
+    throw createAppError('TRANSACTION_MEMBER_SEARCH_RATE_LIMITED', {
+      metadata: { retryAt },
+    });
+  }
+
+  await AsyncStorage.setItem(
+    MEMBER_SEARCH_CONFIG.storageKey,
+    JSON.stringify({ ...stored, [key]: [...recent, now] }),
+  );
+};
+
+/**
+ * Manual member lookup for the till. Validates the query, applies the
+ * per-vendor rate limit and writes an audit entry for every attempt. The
+ * audit entry carries a salted digest of the query, never the raw value.
+ */
+export const searchMembersForVendor = async (
+  vendorId: number | null,
+  query: MemberSearchQuery,
+  authToken?: string | null,
+  outletId?: string | null,
+): Promise<MemberSearchCandidate[]> => {
+  const value = normalizeMemberSearchValue(query.field, query.value);
+  if (!value) {
+    throw createAppError('TRANSACTION_MEMBER_SEARCH_QUERY_INVALID');
+  }
+
+  await consumeSearchAttempt(vendorId, Date.now());
+
+  const audit = {
+    vendorId,
+    outletId: outletId ?? null,
+    field: query.field,
+    queryDigest: hashWithSalt(value, storageKeyFor(vendorId)).slice(0, 16),
+  };
+
+  try {
+    const candidates = (
+      await searchMembers(
+        { field: query.field, value },
+        authToken,
+        vendorId,
+        outletId,
+      )
+    ).slice(0, MEMBER_SEARCH_CONFIG.maxCandidates);
+    deviceLog.info('vendor.memberSearch.audit', {
+      ...audit,
+      results: candidates.length,
+    });
+    return candidates;
+  } catch (error) {
+    deviceLog.info('vendor.memberSearch.audit', {
+      ...audit,
+      results: null,
+      failed: true,
+    });
+    throw error;
+  }
+};
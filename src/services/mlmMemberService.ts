@@ -0,0 +1,123 @@
+import deviceLog from '../utils/deviceLog';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import {
+  buildWordPressRequestInit,
+  syncWordPressCookiesFromResponse,
+} from './wordpressCookieService';
+import { ensureValidSessionToken } from './wordpressAuthService';
+import { MlmMemberProfile } from '../types/mlm';
+import { createAppError, ensureAppError } from '../errors';
+
+const getString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return null;
+};
+
+const getNumber = (value: unknown): number | null => {
+  const parsed =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+      ? Number.parseFloat(value)
+      : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseMlmMember = (payload: unknown): MlmMemberProfile | null => {
+  const envelope =
+    payload && typeof payload === 'object'
+      ? (payload as Record<string, unknown>)
+      : null;
+  const user = envelope?.user ?? envelope?.member ?? envelope;
+  if (!user || typeof user !== 'object') {
+    return null;
+  }
+
+  const record = user as Record<string, unknown>;
+  const id = getNumber(record.id ?? record.user_id ?? record.ID);
+  if (id === null) {
+    return null;
+  }
+
+  return {
+    id,
+    name:
+      getString(record.display_name) ??
+      getString(record.name) ??
+      getString(record.displayName) ??
+      `#${id}`,
+    level:
+      getString(record.membership_level)?.toLowerCase() ??
+      getString(record.level)?.toLowerCase() ??
+      null,
+    directRecruits: Math.max(
+      0,
+      getNumber(record.direct_recruits ?? record.directRecruits) ?? 0,
+    ),
+    sponsorId: getNumber(record.sponsor_id ?? record.sponsorId),
+  };
+};
+
+export const fetchMlmMember = async (
+  authToken?: string | null,
+): Promise<MlmMemberProfile> => {
+  const resolvedToken = await ensureValidSessionToken(authToken);
+  if (!resolvedToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const requestUrl = `${MLM_CONFIG.baseUrl}${MLM_CONFIG.endpoints.member}`;
+  try {
+    const init = await buildWordPressRequestInit({
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${resolvedToken}`,
+      },
+    });
+    const response = await fetch(requestUrl, init);
+    await syncWordPressCookiesFromResponse(response);
+
+    const contentType = response.headers.get('content-type');
+    const payload = contentType?.includes('application/json')
+      ? await response.json()
+      : await response.text();
+
+    if (!response.ok) {
+      throw createAppError('MLM_MEMBER_FETCH_FAILED', {
+        overrideMessage:
+          typeof payload === 'string'
+            ? payload
+            : getString((payload as Record<string, unknown>)?.message) ??
+              undefined,
+        metadata: { status: response.status },
+      });
+    }
+
+    const member = parseMlmMember(payload);
+    if (!member) {
+      throw createAppError('MLM_MEMBER_FETCH_FAILED', {
+        metadata: { reason: 'payload' },
+      });
+    }
+
+    deviceLog.debug('mlm.member.fetch.success', {
+      level: member.level,
+      directRecruits: member.directRecruits,
+    });
+    return member;
+  } catch (error) {
+    const appError = ensureAppError(error, 'MLM_MEMBER_FETCH_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('mlm.member.fetch.error', { code: appError.code });
+    throw appError;
+  }
+};
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { OUTLET_CONFIG } from '../config/outletConfig';
+import { fetchVendorOutlets, parseVendorOutlet } from './vendorService';
+import { VendorOutlet } from '../types/vendor';
+
+const storageKeyFor = (vendorId: number | null) =>
+  vendorId == null ? 'local' : String(vendorId);
+
+const readMap = async (key: string): Promise<Record<string, unknown>> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    deviceLog.warn('outlet.read.error', {
+      key,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+};
+
+const writeMapEntry = async (
+  key: string,
+  vendorId: number | null,
+  value: unknown,
+): Promise<void> => {
+  const stored = await readMap(key);
+  await AsyncStorage.setItem(
+    key,
+    JSON.stringify({ ...stored, [storageKeyFor(vendorId)]: value }),
+  );
+};
+
+export const getCachedOutlets = async (
+  vendorId: number | null,
+): Promise<VendorOutlet[]> => {
+  const cached = (await readMap(OUTLET_CONFIG.cacheKey))[
+    storageKeyFor(vendorId)
+  ];
+  return Array.isArray(cached)
+    ? cached
+        .map(parseVendorOutlet)
+        .filter((outlet): outlet is VendorOutlet => Boolean(outlet))
+    : [];
+};
+
+/**
+ * Loads the vendor's outlets from the server and caches them. Falls back to
+ * the cached list when the request fails so the till keeps working offline.
+ */
+export const loadOutlets = async (
+  vendorId: number | null,
+  authToken?: string | null,
+): Promise<VendorOutlet[]> => {
+  try {
+    const outlets = await fetchVendorOutlets(authToken);
+    await writeMapEntry(OUTLET_CONFIG.cacheKey, vendorId, outlets);
+    return outlets;
+  } catch {
+    return getCachedOutlets(vendorId);
+  }
+};
+
+export const getSelectedOutletId = async (
+  vendorId: number | null,
+): Promise<string | null> => {
+  const selected = (await readMap(OUTLET_CONFIG.selectionKey))[
+    storageKeyFor(vendorId)
+  ];
+  return typeof selected === 'string' && selected ? selected : null;
+};
+
+export const saveSelectedOutletId = async (
+  vendorId: number | null,
+  outletId: string | null,
+): Promise<void> => {
+  await writeMapEntry(OUTLET_CONFIG.selectionKey, vendorId, outletId);
+  deviceLog.info('outlet.selected', { vendorId, outletId });
+};
+
+/**
+ * Picks the stored outlet when it still exists, otherwise the only outlet of
+ * single-branch vendors. Chains with several outlets must choose explicitly.
+ */
+export const resolveSelectedOutlet = (
+  outlets: VendorOutlet[],
+  selectedId: string | null,
+): VendorOutlet | null =>
+  outlets.find(outlet => outlet.id === selectedId) ??
+  (outlets.length === 1 ? outlets[0] : null);
@@ -0,0 +1,66 @@
+import deviceLog from '../utils/deviceLog';
+import { REDEMPTION_APPROVAL_CONFIG } from '../config/redemptionApprovalConfig';
+import { createAppError } from '../errors';
+import { fetchRedemptionApprovalStatus } from './transactionService';
+import { MemberApprovalStatus } from '../types/transactions';
+
+const delay = (ms: number) =>
+  new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+
+interface WaitForMemberApprovalOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Polls a pending redemption until the member approves it. Throws
+ * `TRANSACTION_APPROVAL_DECLINED` when the member declines and
+ * `TRANSACTION_APPROVAL_TIMEOUT` once the approval window closes. Failed
+ * polls are retried so a flaky connection does not cancel the sale.
+ */
+export const waitForMemberApproval = async (
+  transactionId: string,
+  authToken?: string | null,
+  {
+    timeoutMs = REDEMPTION_APPROVAL_CONFIG.timeoutMs,
+    pollIntervalMs = REDEMPTION_APPROVAL_CONFIG.vendorPollIntervalMs,
+  }: WaitForMemberApprovalOptions = {},
+): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  deviceLog.info('transaction.approval.waiting', { id: transactionId });
+
+  while (Date.now() < deadline) {
+    await delay(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    let status: MemberApprovalStatus;
+    try {
+      status = await fetchRedemptionApprovalStatus(transactionId, authToken);
+    } catch (error) {
+      deviceLog.debug('transaction.approval.poll.error', {
+        id: transactionId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    if (status === 'approved') {
+      deviceLog.info('transaction.approval.approved', { id: transactionId });
+      return;
+    }
+    if (status === 'declined') {
+      deviceLog.warn('transaction.approval.declined', { id: transactionId });
+      throw createAppError('TRANSACTION_APPROVAL_DECLINED', {
+        metadata: { id: transactionId },
+      });
+    }
+    if (status === 'expired') {
+      break;
+    }
+  }
+
+  deviceLog.warn('transaction.approval.timeout', { id: transactionId });
+  throw createAppError('TRANSACTION_APPROVAL_TIMEOUT', {
+    metadata: { id: transactionId },
+  });
+};
@@ -0,0 +1,185 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { REFERRAL_CONFIG } from '../config/referralConfig';
+import { PendingReferral, ReferralSource, ReferralSponsor } from '../types/mlm';
+import { normalizeReferralCode } from '../utils/referral';
+import { createAppError, ensureAppError } from '../errors';
+
+const getString = (value: unknown): string | null => {
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return null;
+};
+
+const getNumber = (value: unknown): number | null => {
+  const parsed =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+      ? Number.parseFloat(value)
+      : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseReferralSponsor = (
+  payload: unknown,
+  code: string,
+): ReferralSponsor | null => {
+  const envelope =
+    payload && typeof payload === 'object'
+      ? (payload as Record<string, unknown>)
+      : null;
+  const sponsor = envelope?.sponsor ?? envelope?.user ?? envelope;
+  if (!sponsor || typeof sponsor !== 'object') {
+    return null;
+  }
+
+  const record = sponsor as Record<string, unknown>;
+  const id = getNumber(record.id ?? record.user_id ?? record.ID);
+  if (id === null || id <= 0) {
+    return null;
+  }
+
+  return {
+    id,
+    code: normalizeReferralCode(getString(record.code)) ?? code,
+    name:
+      getString(record.display_name) ??
+      getString(record.name) ??
+      getString(record.displayName) ??
+      `#${id}`,
+    level:
+      getString(record.membership_level)?.toLowerCase() ??
+      getString(record.level)?.toLowerCase() ??
+      null,
+  };
+};
+
+/**
+ * Resolves a referral code to its sponsor. The route is public because it is
+ * called from the registration form, before the member has an account.
+ */
+export const lookupReferralSponsor = async (
+  rawCode: string,
+): Promise<ReferralSponsor> => {
+  const code = normalizeReferralCode(rawCode);
+  if (!code) {
+    throw createAppError('MLM_REFERRAL_CODE_INVALID', {
+      metadata: { reason: 'format' },
+    });
+  }
+
+  const requestUrl = `${MLM_CONFIG.baseUrl}${
+    MLM_CONFIG.endpoints.sponsor
+  }?code=${encodeURIComponent(code)}`;
+  try {
+    const response = await fetch(requestUrl, {
+      method: 'GET',
+      headers: { Accept: 'application/json' },
+    });
+    const contentType = response.headers.get('content-type');
+    const payload = contentType?.includes('application/json')
+      ? await response.json()
+      : await response.text();
+
+    if (response.status === 404 || response.status === 400) {
+      throw createAppError('MLM_REFERRAL_CODE_INVALID', {
+        metadata: { status: response.status },
+      });
+    }
+
+    if (!response.ok) {
+      throw createAppError('MLM_REFERRAL_LOOKUP_FAILED', {
+        overrideMessage:
+          typeof payload === 'string'
+            ? payload
+            : getString((payload as Record<string, unknown>)?.message) ??
+              undefined,
+        metadata: { status: response.status },
+      });
+    }
+
+    const sponsor = parseReferralSponsor(payload, code);
+    if (!sponsor) {
+      throw createAppError('MLM_REFERRAL_CODE_INVALID', {
+        metadata: { reason: 'payload' },
+      });
+    }
+
+    deviceLog.debug('referral.lookup.success', { sponsorId: sponsor.id });
+    return sponsor;
+  } catch (error) {
+    const appError = ensureAppError(error, 'MLM_REFERRAL_LOOKUP_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('referral.lookup.error', { code: appError.code });
+    throw appError;
+  }
+};
+
+/**
+ * Returns the referral captured from a link or QR, dropping it once it is
+ * older than the configured lifetime.
+ */
+export const loadPendingReferral = async (
+  now: number = Date.now(),
+): Promise<PendingReferral | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(REFERRAL_CONFIG.storageKey);
+    const parsed = raw ? (JSON.parse(raw) as Partial<PendingReferral>) : null;
+    const code = normalizeReferralCode(parsed?.code);
+    if (!parsed || !code || typeof parsed.receivedAt !== 'number') {
+      return null;
+    }
+    if (now - parsed.receivedAt > REFERRAL_CONFIG.pendingTtlMs) {
+      await AsyncStorage.removeItem(REFERRAL_CONFIG.storageKey);
+      return null;
+    }
+    return {
+      code,
+      source: parsed.source ?? 'link',
+      receivedAt: parsed.receivedAt,
+    };
+  } catch (error) {
+    deviceLog.warn('referral.pending.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+export const savePendingReferral = async (
+  code: string,
+  source: ReferralSource,
+  now: number = Date.now(),
+): Promise<PendingReferral> => {
+  const referral: PendingReferral = { code, source, receivedAt: now };
+  try {
+    await AsyncStorage.setItem(
+      REFERRAL_CONFIG.storageKey,
+      JSON.stringify(referral),
+    );
+  } catch (error) {
+    deviceLog.warn('referral.pending.write.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return referral;
+};
+
+export const clearPendingReferral = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(REFERRAL_CONFIG.storageKey);
+  } catch (error) {
+    deviceLog.warn('referral.pending.clear.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,199 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { SETTLEMENT_REPORT_CONFIG } from '../config/settlementReportConfig';
+import { SettlementReport } from '../types/settlement';
+import { TransactionRecord } from '../types/transactions';
+import {
+  buildSettlementReport,
+  getBusinessDayRange,
+  isSettlementReportFinal,
+} from '../utils/settlementReport';
+import { fetchVendorTransactions } from './transactionService';
+import { collectTransactionHistory } from './transactionExportService';
+import { loadTransactionOutbox } from './transactionOutboxService';
+import { createAppError, ensureAppError } from '../errors';
+
+const MAX_HISTORY_PAGES = 50;
+
+export interface GenerateSettlementReportOptions {
+  businessDate: string;
+  authToken?: string | null;
+  vendorId?: number | null;
+  vendorName?: string | null;
+  /**
+   * Records that only exist on this device (failed or queued redemptions) so
+   * they can be listed alongside the server history.
+   */
+  localTransactions?: TransactionRecord[];
+  now?: Date;
+}
+
+export interface GenerateSettlementReportResult {
+  report: SettlementReport;
+  reused: boolean;
+  /** False while the business day is still open; the report is not stored. */
+  locked: boolean;
+}
+
+const readReports = async (): Promise<SettlementReport[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(SETTLEMENT_REPORT_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    deviceLog.warn('settlementReport.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+};
+
+const writeReports = async (reports: SettlementReport[]) => {
+  await AsyncStorage.setItem(
+    SETTLEMENT_REPORT_CONFIG.storageKey,
+    JSON.stringify(reports.slice(0, SETTLEMENT_REPORT_CONFIG.maxStoredReports)),
+  );
+};
+
+const matchesReport = (
+  report: SettlementReport,
+  vendorId: number | null,
+  businessDate: string,
+) => report.vendorId === vendorId && report.businessDate === businessDate;
+
+export const listSettlementReports = async (
+  vendorId: number | null,
+): Promise<SettlementReport[]> => {
+  const reports = await readReports();
+  return reports.filter(report => report.vendorId === vendorId);
+};
+
+export const loadSettlementReport = async (
+  vendorId: number | null,
+  businessDate: string,
+): Promise<SettlementReport | null> => {
+  const reports = await readReports();
+  return (
+    reports.find(report => matchesReport(report, vendorId, businessDate)) ??
+    null
+  );
+};
+
+const fetchBusinessDayTransactions = async (
+  businessDate: string,
+  authToken?: string | null,
+): Promise<TransactionRecord[]> => {
+  const { start, end } = getBusinessDayRange(businessDate);
+  const { records, truncated } = await collectTransactionHistory(
+    fetchVendorTransactions,
+    authToken,
+    {
+      from: start.toISOString(),
+      to: new Date(end.getTime() - 1).toISOString(),
+      perPage: SETTLEMENT_REPORT_CONFIG.historyPageSize,
+    },
+    MAX_HISTORY_PAGES,
+  );
+  if (truncated) {
+    throw createAppError('TRANSACTION_SETTLEMENT_HISTORY_TRUNCATED', {
+      metadata: { businessDate, count: records.length },
+    });
+  }
+  return records;
+};
+
+// Sales still waiting in the outbox have not reached the server, so a report
+// built without them would lock in a short total.
+const countQueuedSales = async (businessDate: string): Promise<number> => {
+  const { start, end } = getBusinessDayRange(businessDate);
+  const entries = await loadTransactionOutbox();
+  return entries.filter(entry => {
+    const createdAt = Date.parse(entry.record.createdAt);
+    return createdAt >= start.getTime() && createdAt < end.getTime();
+  }).length;
+};
+
+/**
+ * Builds the Z-report for a business day. Once the day has ended the report
+ * is stored and returned unchanged on every later run so the closing numbers
+ * never move. Reports for a day still trading, or with sales still queued
+ * in the outbox, are returned unlocked and are not stored.
+ */
+export const generateSettlementReport = async ({
+  businessDate,
+  authToken,
+  vendorId = null,
+  vendorName = null,
+  localTransactions = [],
+  now = new Date(),
+}: GenerateSettlementReportOptions): Promise<GenerateSettlementReportResult> => {
+  const existing = await loadSettlementReport(vendorId, businessDate);
+  if (existing && isSettlementReportFinal(existing)) {
+    deviceLog.info('settlementReport.generate.reused', {
+      id: existing.id,
+      generatedAt: existing.generatedAt,
+    });
+    return { report: existing, reused: true, locked: true };
+  }
+
+  try {
+    const remote = await fetchBusinessDayTransactions(businessDate, authToken);
+    const remoteIds = new Set(remote.map(record => record.id));
+    const localOnly = localTransactions.filter(
+      record =>
+        !remoteIds.has(record.id) &&
+        (record.status === 'failed' || record.status === 'pending'),
+    );
+    const report = buildSettlementReport(
+      [...remote, ...localOnly],
+      businessDate,
+      {
+        vendorId,
+        vendorName,
+        generatedAt: now,
+      },
+    );
+
+    if (!isSettlementReportFinal(report)) {
+      deviceLog.info('settlementReport.generate.provisional', {
+        id: report.id,
+        count: report.transactionIds.length,
+      });
+      return { report, reused: false, locked: false };
+    }
+
+    const queued = await countQueuedSales(businessDate);
+    if (queued > 0) {
+      deviceLog.info('settlementReport.generate.queued', {
+        id: report.id,
+        queued,
+      });
+      return { report, reused: false, locked: false };
+    }
+
+    const reports = await readReports();
+    await writeReports([
+      report,
+      ...reports.filter(item => !matchesReport(item, vendorId, businessDate)),
+    ]);
+    deviceLog.info('settlementReport.generate.success', {
+      id: report.id,
+      count: report.transactionIds.length,
+    });
+    return { report, reused: false, locked: true };
+  } catch (error) {
+    const appError = ensureAppError(
+      error,
+      'TRANSACTION_SETTLEMENT_REPORT_FAILED',
+      {
+        propagateMessage: true,
+        metadata: { businessDate },
+      },
+    );
+    deviceLog.warn('settlementReport.generate.error', {
+      code: appError.code,
+      message: appError.displayMessage,
+    });
+    throw appError;
+  }
+};
@@ -0,0 +1,103 @@
+import { NativeModules, Platform, Share } from 'react-native';
+import encBase64 from 'crypto-js/enc-base64';
+import encUtf8 from 'crypto-js/enc-utf8';
+import deviceLog from '../utils/deviceLog';
+import { TRANSACTION_EXPORT_CONFIG } from '../config/transactionExportConfig';
+import {
+  TransactionExportFile,
+  TransactionHistoryCollection,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+  TransactionRecord,
+} from '../types/transactions';
+
+export type TransactionHistoryFetcher = (
+  token?: string | null,
+  query?: TransactionHistoryQuery,
+) => Promise<TransactionHistoryPage>;
+
+/**
+ * Walks every page of the history endpoint for the given filters and returns
+ * the unique records. Paging stops early when a page adds nothing new so a
+ * server that ignores pagination cannot loop forever; stopping at `maxPages`
+ * while the server still has more is reported as `truncated`.
+ */
+export const collectTransactionHistory = async (
+  fetcher: TransactionHistoryFetcher,
+  authToken: string | null | undefined,
+  query: TransactionHistoryQuery = {},
+  maxPages = TRANSACTION_EXPORT_CONFIG.maxPages,
+): Promise<TransactionHistoryCollection> => {
+  const records = new Map<string, TransactionRecord>();
+  let cursor: string | null = null;
+  let page: number | null = 1;
+  let truncated = false;
+
+  for (let index = 0; index < maxPages; index += 1) {
+    const result = await fetcher(authToken, {
+      perPage: TRANSACTION_EXPORT_CONFIG.pageSize,
+      ...query,
+      cursor,
+      page: cursor ? null : page,
+    });
+    const before = records.size;
+    result.records.forEach(record => records.set(record.id, record));
+    if (!result.hasMore || records.size === before) {
+      break;
+    }
+    truncated = index === maxPages - 1;
+    cursor = result.nextCursor;
+    page = result.nextPage;
+  }
+
+  if (truncated) {
+    deviceLog.warn('transaction.history.truncated', {
+      maxPages,
+      count: records.size,
+    });
+  }
+  return { records: Array.from(records.values()), truncated };
+};
+
+/** `data:` URL carrying the export as UTF-8 so Thai text survives. */
+export const toTransactionExportDataUrl = (
+  file: TransactionExportFile,
+): string =>
+  `data:${file.mimeType};base64,${encBase64.stringify(
+    encUtf8.parse(file.content),
+  )}`;
+
+interface TransactionExportShareModule {
+  shareFile(filename: string, mimeType: string, content: string): Promise<void>;
+}
+
+/**
+ * Shares the export as an attachment. iOS receives a `data:` URL, which its
+ * share sheet turns into a file. On Android the app's TransactionExportShare
+ * module writes the file to the cache directory and shares its content URI;
+ * builds without that module fall back to sending the content as text.
+ */
+export const shareTransactionExport = async (
+  file: TransactionExportFile,
+): Promise<void> => {
+  deviceLog.info('transaction.export.share', {
+    filename: file.filename,
+    count: file.count,
+    truncated: Boolean(file.truncated),
+  });
+  if (Platform.OS === 'ios') {
+    await Share.share(
+      { title: file.filename, url: toTransactionExportDataUrl(file) },
+      { subject: file.filename },
+    );
+    return;
+  }
+  const exportShare = NativeModules.TransactionExportShare as
+    | TransactionExportShareModule
+    | undefined;
+  if (exportShare) {
+    await exportShare.shareFile(file.filename, file.mimeType, file.content);
+    return;
+  }
+  await Share.share({ title: file.filename, message: file.content });
+};
@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { TRANSACTION_OUTBOX_CONFIG } from '../config/transactionOutboxConfig';
+import {
+  RecordTransactionRequest,
+  TransactionOutboxEntry,
+  TransactionRecord,
+} from '../types/transactions';
+import { isRetryableTransactionError, recordTransaction } from './transactionService';
+import { createAppError, ensureAppError } from '../errors';
+
+export type TransactionOutboxOutcome = 'completed' | 'failed' | 'retry';
+
+export interface TransactionOutboxResult {
+  entry: TransactionOutboxEntry;
+  record: TransactionRecord;
+  outcome: TransactionOutboxOutcome;
+}
+
+interface ProcessTransactionOutboxOptions {
+  authToken?: string | null;
+  vendorId?: number | null;
+  ids?: string[];
+  force?: boolean;
+  now?: Date;
+}
+
+let isProcessing = false;
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const isOutboxEntry = (value: unknown): value is TransactionOutboxEntry => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.queuedAt === 'string' &&
+    typeof entry.nextAttemptAt === 'string' &&
+    Boolean(entry.request) &&
+    Boolean(entry.record)
+  );
+};
+
+const readEntries = async (): Promise<TransactionOutboxEntry[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(TRANSACTION_OUTBOX_CONFIG.storageKey);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isOutboxEntry) : [];
+  } catch (error) {
+    deviceLog.warn('transactionOutbox.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+};
+
+const writeEntries = async (entries: TransactionOutboxEntry[]) => {
+  if (!entries.length) {
+    await AsyncStorage.removeItem(TRANSACTION_OUTBOX_CONFIG.storageKey);
+    return;
+  }
+  await AsyncStorage.setItem(
+    TRANSACTION_OUTBOX_CONFIG.storageKey,
+    JSON.stringify(entries),
+  );
+};
+
+// Serialise read-modify-write cycles so concurrent enqueues and retries never
+// overwrite each other's changes.
+const mutateEntries = (
+  mutator: (entries: TransactionOutboxEntry[]) => TransactionOutboxEntry[],
+): Promise<TransactionOutboxEntry[]> => {
+  const next = pendingWrite.then(async () => {
+    const entries = await readEntries();
+    const updated = mutator(entries);
+    await writeEntries(updated);
+    return updated;
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+};
+
+export const getTransactionOutboxRetryDelay = (attempts: number): number => {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(
+    TRANSACTION_OUTBOX_CONFIG.maxRetryDelayMs,
+    TRANSACTION_OUTBOX_CONFIG.baseRetryDelayMs * 2 ** exponent,
+  );
+};
+
+export const loadTransactionOutbox = async (): Promise<
+  TransactionOutboxEntry[]
+> => {
+  await pendingWrite;
+  return readEntries();
+};
+
+export const enqueueTransactionOutboxEntry = async (
+  record: TransactionRecord,
+  request: RecordTransactionRequest,
+  lastError?: string | null,
+): Promise<TransactionOutboxEntry[]> => {
+  const now = Date.now();
+  const entry: TransactionOutboxEntry = {
+    id: record.id,
+    request,
+    record: { ...record, status: 'pending', errorMessage: null },
+    attempts: 1,
+    queuedAt: new Date(now).toISOString(),
+    nextAttemptAt: new Date(now + getTransactionOutboxRetryDelay(1)).toISOString(),
+    lastError: lastError ?? null,
+  };
+
+  deviceLog.info('transactionOutbox.enqueue', { id: entry.id });
+  const idempotencyKey = request.idempotencyKey ?? null;
+  return mutateEntries(entries => [
+    ...entries.filter(
+      existing =>
+        existing.id !== entry.id &&
+        (!idempotencyKey || existing.request.idempotencyKey !== idempotencyKey),
+    ),
+    entry,
+  ]);
+};
+
+export const removeTransactionOutboxEntry = async (
+  id: string,
+): Promise<TransactionOutboxEntry[]> => {
+  deviceLog.info('transactionOutbox.remove', { id });
+  return mutateEntries(entries => entries.filter(entry => entry.id !== id));
+};
+
+const settleEntry = async (
+  entry: TransactionOutboxEntry,
+  authToken?: string | null,
+): Promise<TransactionOutboxResult> => {
+  let record: TransactionRecord;
+  let retryable: boolean;
+  let lastError: string | null = null;
+
+  try {
+    record = await recordTransaction(entry.request, authToken);
+    retryable = record.status === 'failed' && record.retryable === true;
+    lastError = record.errorMessage ?? null;
+  } catch (error) {
+    const appError = ensureAppError(error, 'TRANSACTION_RECORD_FAILED', {
+      propagateMessage: true,
+    });
+    retryable = isRetryableTransactionError(appError);
+    lastError = appError.toDisplayString();
+    record = {
+      ...entry.record,
+      status: 'failed',
+      errorMessage: lastError,
+      retryable,
+    };
+  }
+
+  if (record.approvalStatus === 'awaiting_member') {
+    // Nobody is at the till to wait for the member any more; the server
+    // expires the request and releases the entitlement.
+    const appError = createAppError('TRANSACTION_APPROVAL_TIMEOUT', {
+      metadata: { id: record.id },
+    });
+    deviceLog.warn('transactionOutbox.settle.awaitingMember', {
+      id: entry.id,
+      recordId: record.id,
+    });
+    return {
+      entry,
+      record: {
+        ...record,
+        status: 'failed',
+        approvalStatus: 'expired',
+        errorMessage: appError.toDisplayString(),
+        retryable: false,
+      },
+      outcome: 'failed',
+    };
+  }
+
+  if (record.status !== 'failed') {
+    return { entry, record, outcome: 'completed' };
+  }
+
+  if (!retryable) {
+    return { entry, record, outcome: 'failed' };
+  }
+
+  const attempts = entry.attempts + 1;
+  return {
+    entry: {
+      ...entry,
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(
+        Date.now() + getTransactionOutboxRetryDelay(attempts),
+      ).toISOString(),
+    },
+    record: { ...entry.record, status: 'pending', errorMessage: null },
+    outcome: 'retry',
+  };
+};
+
+export const processTransactionOutbox = async ({
+  authToken,
+  vendorId,
+  ids,
+  force = false,
+  now = new Date(),
+}: ProcessTransactionOutboxOptions = {}): Promise<TransactionOutboxResult[]> => {
+  if (isProcessing) {
+    deviceLog.debug('transactionOutbox.process.skipped', {
+      reason: 'in_progress',
+    });
+    return [];
+  }
+
+  isProcessing = true;
+  try {
+    const entries = await loadTransactionOutbox();
+    const due = entries.filter(entry => {
+      if (vendorId != null && entry.request.vendorId !== vendorId) {
+        return false;
+      }
+      if (ids && !ids.includes(entry.id)) {
+        return false;
+      }
+      return force || new Date(entry.nextAttemptAt).getTime() <= now.getTime();
+    });
+
+    if (!due.length) {
+      return [];
+    }
+
+    deviceLog.debug('transactionOutbox.process.start', { count: due.length });
+    const results: TransactionOutboxResult[] = [];
+    for (const entry of due) {
+      results.push(await settleEntry(entry, authToken));
+    }
+
+    const settled = new Map(results.map(result => [result.entry.id, result]));
+    await mutateEntries(current =>
+      current.flatMap(entry => {
+        const result = settled.get(entry.id);
+        if (!result) {
+          return [entry];
+        }
+        return result.outcome === 'retry' ? [result.entry] : [];
+      }),
+    );
+
+    deviceLog.info('transactionOutbox.process.complete', {
+      completed: results.filter(result => result.outcome === 'completed').length,
+      failed: results.filter(result => result.outcome === 'failed').length,
+      retrying: results.filter(result => result.outcome === 'retry').length,
+    });
+    return results;
+  } finally {
+    isProcessing = false;
+  }
+};
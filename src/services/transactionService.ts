@@ -1,33 +1,94 @@
 import deviceLog from '../utils/deviceLog';
 import { WORDPRESS_CONFIG } from '../config/authConfig';
+import { TRANSACTION_HISTORY_CONFIG } from '../config/transactionHistoryConfig';
+import { REDEMPTION_APPROVAL_CONFIG } from '../config/redemptionApprovalConfig';
 import {
   buildWordPressRequestInit,
   syncWordPressCookiesFromResponse,
 } from './wordpressCookieService';
 import {
+  BasketLineItem,
+  CreateTransactionDisputeRequest,
   DiscountCalculationRequest,
   DiscountCalculationResult,
   DiscountDescriptor,
+  MemberApprovalDecision,
+  MemberApprovalStatus,
   MemberLookupResult,
+  MemberSearchCandidate,
+  MemberSearchQuery,
   RecordTransactionRequest,
+  RedemptionApprovalRequest,
+  RefundTransactionRequest,
+  RespondToDisputeRequest,
+  TaxBreakdown,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+  TransactionDispute,
+  TransactionDisputeMessage,
+  TransactionDisputeReason,
+  TransactionDisputeRole,
+  TransactionDisputeStatus,
   TransactionRecord,
+  TransactionReversalReason,
+  VoidTransactionRequest,
 } from '../types/transactions';
-import { calculateDiscountForAmount } from '../utils/discount';
+import {
+  DiscountRule,
+  DiscountRuleConditions,
+  DiscountRuleEffectType,
+  DiscountRuleEvaluation,
+  DiscountRuleSchedule,
+} from '../types/discountRules';
+import { FraudOverride } from '../types/fraud';
+import {
+  calculateDiscountForAmount,
+  calculateDiscountForDescriptor,
+} from '../utils/discount';
+import { getBillableLineItems, summarizeBasket } from '../utils/basket';
+import { getLastDigits, toMemberInitials } from '../utils/memberSearch';
+import { getReversalEligibility } from '../utils/transactionReversal';
+import { canDisputeTransaction } from '../utils/transactionDispute';
+import { parseSignedMemberQr } from '../utils/memberQr';
 import { ensureValidSession, ensureValidSessionToken } from './wordpressAuthService';
+import {
+  getDiscountMatrix,
+  getDiscountMatrixSnapshot,
+} from './discountMatrixService';
 import { createAppError, ensureAppError, ErrorId } from '../errors';
 
 const TRANSACTION_ENDPOINTS = {
   lookupMember: '/wp-json/gn/v1/discounts/lookup',
+  searchMembers: '/wp-json/gn/v1/discounts/members/search',
   recordTransaction: '/wp-json/gn/v1/discounts/transactions',
   history: '/wp-json/gn/v1/discounts/history',
+  voidTransaction: (id: string) =>
+    `/wp-json/gn/v1/discounts/transactions/${encodeURIComponent(id)}/void`,
+  refundTransaction: (id: string) =>
+    `/wp-json/gn/v1/discounts/transactions/${encodeURIComponent(id)}/refund`,
+  approval: (id: string) =>
+    `/wp-json/gn/v1/discounts/transactions/${encodeURIComponent(id)}/approval`,
+  pendingApprovals: '/wp-json/gn/v1/discounts/approvals',
+  createDispute: (id: string) =>
+    `/wp-json/gn/v1/discounts/transactions/${encodeURIComponent(id)}/disputes`,
+  disputes: '/wp-json/gn/v1/discounts/disputes',
+  disputeResponses: (id: string) =>
+    `/wp-json/gn/v1/discounts/disputes/${encodeURIComponent(id)}/responses`,
 };
 
-const buildHeaders = (token?: string | null): Record<string, string> => {
+const buildHeaders = (
+  token?: string | null,
+  idempotencyKey?: string | null,
+): Record<string, string> => {
   const headers: Record<string, string> = {
     Accept: 'application/json',
     'Content-Type': 'application/json',
   };
 
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+
   if (token) {
     const bearer = token.startsWith('Bearer ')
       ? token
@@ -103,6 +164,69 @@ const getNumber = (value: unknown): number | null => {
   return null;
 };
 
+const parseLineItems = (value: unknown): BasketLineItem[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  return value
+    .filter(
+      (item): item is Record<string, unknown> =>
+        Boolean(item) && typeof item === 'object',
+    )
+    .map((item, index) => ({
+      id: getString(item.id) ?? `line-${index}`,
+      description: getString(item.description) ?? getString(item.name) ?? '',
+      quantity: getNumber(item.quantity) ?? getNumber(item.qty) ?? 1,
+      unitPrice:
+        getNumber(item.unit_price) ?? getNumber(item.unitPrice) ?? 0,
+      discountable:
+        item.discountable === false ||
+        item.discountable === 0 ||
+        item.discountable === '0'
+          ? false
+          : true,
+    }));
+};
+
+const serializeLineItems = (items: BasketLineItem[]) =>
+  items.map(item => ({
+    id: item.id,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unitPrice,
+    discountable: item.discountable,
+  }));
+
+/**
+ * Resolves the gross and discountable totals for a calculation. Itemised
+ * baskets override the flat gross amount so both always agree.
+ */
+const resolveBasketAmounts = (
+  request: DiscountCalculationRequest,
+): {
+  lineItems: BasketLineItem[] | null;
+  grossAmount: number;
+  discountableAmount: number;
+} => {
+  const lineItems = request.lineItems?.length
+    ? getBillableLineItems(request.lineItems)
+    : null;
+  if (lineItems?.length) {
+    const summary = summarizeBasket(lineItems);
+    return {
+      lineItems,
+      grossAmount: summary.grossAmount,
+      discountableAmount: summary.discountableAmount,
+    };
+  }
+
+  const grossAmount = Number.isFinite(request.grossAmount)
+    ? request.grossAmount
+    : 0;
+  return { lineItems: null, grossAmount, discountableAmount: grossAmount };
+};
+
 const coerceBoolean = (value: unknown): boolean | null => {
   if (typeof value === 'boolean') {
     return value;
@@ -164,6 +288,145 @@ const parseUsage = (input: unknown) => {
   };
 };
 
+const DISCOUNT_RULE_EFFECTS: DiscountRuleEffectType[] = [
+  'percentage',
+  'amount',
+  'multiplier',
+];
+
+const parseStringList = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const values = value
+    .map(item => getString(item))
+    .filter((item): item is string => Boolean(item));
+  return values.length ? values : null;
+};
+
+const parseRuleSchedule = (value: unknown): DiscountRuleSchedule | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const payload = value as Record<string, unknown>;
+  const days = Array.isArray(payload.days_of_week ?? payload.daysOfWeek)
+    ? ((payload.days_of_week ?? payload.daysOfWeek) as unknown[])
+        .map(day => getNumber(day))
+        .filter((day): day is number => day != null && day >= 0 && day <= 6)
+    : null;
+
+  return {
+    startsAt: getString(payload.starts_at) ?? getString(payload.startsAt),
+    endsAt: getString(payload.ends_at) ?? getString(payload.endsAt),
+    daysOfWeek: days?.length ? days : null,
+    startTime: getString(payload.start_time) ?? getString(payload.startTime),
+    endTime: getString(payload.end_time) ?? getString(payload.endTime),
+  };
+};
+
+const parseRuleConditions = (
+  value: unknown,
+  schedule: unknown,
+): DiscountRuleConditions => {
+  const payload =
+    value && typeof value === 'object'
+      ? (value as Record<string, unknown>)
+      : {};
+  return {
+    membershipTiers:
+      parseStringList(payload.membership_tiers) ??
+      parseStringList(payload.membershipTiers),
+    vendorTiers:
+      parseStringList(payload.vendor_tiers) ??
+      parseStringList(payload.vendorTiers),
+    minBasketAmount:
+      getNumber(payload.min_basket_amount) ??
+      getNumber(payload.minBasketAmount),
+    minUsesTotal:
+      getNumber(payload.min_uses_total) ?? getNumber(payload.minUsesTotal),
+    maxUsesTotal:
+      getNumber(payload.max_uses_total) ?? getNumber(payload.maxUsesTotal),
+    maxUsesToday:
+      getNumber(payload.max_uses_today) ?? getNumber(payload.maxUsesToday),
+    schedule: parseRuleSchedule(payload.schedule ?? schedule),
+  };
+};
+
+/**
+ * Campaign rules from the lookup payload. Entries with an unknown effect are
+ * dropped rather than guessed at so the app never over-discounts.
+ */
+const parseDiscountRules = (value: unknown): DiscountRule[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const rules = value
+    .filter(
+      (item): item is Record<string, unknown> =>
+        Boolean(item) && typeof item === 'object',
+    )
+    .map((item, index): DiscountRule | null => {
+      const effect =
+        item.effect && typeof item.effect === 'object'
+          ? (item.effect as Record<string, unknown>)
+          : item;
+      const type = getString(effect.type)?.toLowerCase() as
+        | DiscountRuleEffectType
+        | undefined;
+      const rawValue = getNumber(effect.value);
+      if (!type || !DISCOUNT_RULE_EFFECTS.includes(type) || rawValue == null) {
+        return null;
+      }
+
+      const id = getString(item.id) ?? getString(item.slug) ?? `rule-${index}`;
+      return {
+        id,
+        name: getString(item.name) ?? getString(item.label) ?? id,
+        stacking:
+          getString(item.stacking)?.toLowerCase() === 'exclusive' ||
+          coerceBoolean(item.exclusive) === true
+            ? 'exclusive'
+            : 'stack',
+        effect: {
+          type,
+          value:
+            type === 'percentage'
+              ? normalizePercentage(rawValue) ?? 0
+              : rawValue,
+        },
+        conditions: parseRuleConditions(item.conditions, item.schedule),
+        maxDiscountAmount:
+          getNumber(item.max_discount_amount) ??
+          getNumber(item.maxDiscountAmount),
+      };
+    })
+    .filter((rule): rule is DiscountRule => Boolean(rule));
+
+  return rules.length ? rules : null;
+};
+
+const serializeRuleEvaluation = (evaluation: DiscountRuleEvaluation) => ({
+  applied_rule_ids: evaluation.appliedRuleIds,
+  lines: evaluation.lines.map(line => ({
+    kind: line.kind,
+    id: line.id,
+    label: line.label,
+    amount: line.amount,
+  })),
+  capped: evaluation.capped,
+});
+
+const serializeFraudOverride = (override: FraudOverride) => ({
+  signals: override.signals.map(signal => ({
+    type: signal.type,
+    observed: signal.observed,
+    threshold: signal.threshold,
+  })),
+  approved_at: override.approvedAt,
+  approved_by: override.approvedBy,
+});
+
 const parseDiscountDescriptor = (
   input: unknown,
 ): DiscountDescriptor | null => {
@@ -194,6 +457,16 @@ const parseDiscountDescriptor = (
     currency:
       getString(payload.currency) ?? getString(payload.currency_code) ?? null,
     maxUses: getNumber(payload.max_uses) ?? getNumber(payload.maxUses) ?? null,
+    maxUsesPerDay:
+      getNumber(payload.max_uses_per_day) ??
+      getNumber(payload.maxUsesPerDay) ??
+      getNumber(payload.daily_limit) ??
+      null,
+    startsAt:
+      getString(payload.starts_at) ??
+      getString(payload.startsAt) ??
+      getString(payload.valid_from) ??
+      null,
     expiresAt:
       getString(payload.expires_at) ??
       getString(payload.expiresAt) ??
@@ -254,10 +527,73 @@ const parseMemberLookup = (
     usage:
       parseUsage(payload.usage) ??
       parseUsage((member.usage as Record<string, unknown>) ?? null),
+    discountRules:
+      parseDiscountRules(payload.discount_rules) ??
+      parseDiscountRules(payload.campaigns) ??
+      parseDiscountRules(member.discount_rules),
     message: getString(payload.message) ?? getString(payload.notice) ?? null,
   };
 };
 
+const parseTaxBreakdown = (value: unknown): TaxBreakdown | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const payload = value as Record<string, unknown>;
+  const source =
+    (payload.tax_breakdown as Record<string, unknown> | undefined) ??
+    (payload.taxBreakdown as Record<string, unknown> | undefined) ??
+    payload;
+  const serviceChargeAmount =
+    getNumber(source.service_charge_amount) ??
+    getNumber(source.serviceChargeAmount);
+  const vatAmount = getNumber(source.vat_amount) ?? getNumber(source.vatAmount);
+  if (serviceChargeAmount == null && vatAmount == null) {
+    return null;
+  }
+
+  const pricesIncludeVat = source.prices_include_vat ?? source.pricesIncludeVat;
+  const application =
+    getString(source.discount_application) ??
+    getString(source.discountApplication);
+  const subtotal = getNumber(source.subtotal) ?? 0;
+
+  return {
+    subtotal,
+    serviceChargeRate:
+      getNumber(source.service_charge_rate) ??
+      getNumber(source.serviceChargeRate) ??
+      0,
+    serviceChargeAmount: serviceChargeAmount ?? 0,
+    vatRate: getNumber(source.vat_rate) ?? getNumber(source.vatRate) ?? 0,
+    vatAmount: vatAmount ?? 0,
+    pricesIncludeVat:
+      pricesIncludeVat === true ||
+      pricesIncludeVat === 1 ||
+      pricesIncludeVat === '1',
+    discountApplication:
+      application === 'after_service_charge'
+        ? 'after_service_charge'
+        : 'before_service_charge',
+    totalAmount:
+      getNumber(source.total_amount) ??
+      getNumber(source.totalAmount) ??
+      subtotal,
+  };
+};
+
+const serializeTaxBreakdown = (breakdown: TaxBreakdown) => ({
+  subtotal: breakdown.subtotal,
+  service_charge_rate: breakdown.serviceChargeRate,
+  service_charge_amount: breakdown.serviceChargeAmount,
+  vat_rate: breakdown.vatRate,
+  vat_amount: breakdown.vatAmount,
+  prices_include_vat: breakdown.pricesIncludeVat,
+  discount_application: breakdown.discountApplication,
+  total_amount: breakdown.totalAmount,
+});
+
 const parseDiscountResult = (
   payload: Record<string, unknown>,
 ): DiscountCalculationResult => {
@@ -319,9 +655,41 @@ const parseDiscountResult = (
       getString(payload.vendorTier) ?? getString(payload.vendor_tier) ?? null,
     message: getString(payload.message) ?? null,
     discountDescriptor: descriptor ?? undefined,
+    taxBreakdown: parseTaxBreakdown(payload),
   };
 };
 
+const APPROVAL_STATUSES: MemberApprovalStatus[] = [
+  'awaiting_member',
+  'approved',
+  'declined',
+  'expired',
+];
+
+const parseApprovalStatus = (value: unknown): MemberApprovalStatus | null => {
+  const status = getString(value);
+  return status && APPROVAL_STATUSES.includes(status as MemberApprovalStatus)
+    ? (status as MemberApprovalStatus)
+    : null;
+};
+
+const DISPUTE_STATUSES: TransactionDisputeStatus[] = [
+  'open',
+  'in_review',
+  'resolved',
+  'rejected',
+];
+
+const parseDisputeStatus = (
+  value: unknown,
+): TransactionDisputeStatus | null => {
+  const status = getString(value);
+  return status &&
+    DISPUTE_STATUSES.includes(status as TransactionDisputeStatus)
+    ? (status as TransactionDisputeStatus)
+    : null;
+};
+
 const parseTransactionRecord = (
   payload: Record<string, unknown>,
   fallback: TransactionRecord,
@@ -371,12 +739,111 @@ const parseTransactionRecord = (
       getString(nested.errorMessage) ??
       getString(nested.error_message) ??
       fallback.errorMessage,
+    refundedAmount:
+      getNumber(nested.refundedAmount) ??
+      getNumber(nested.refunded_amount) ??
+      fallback.refundedAmount ??
+      null,
+    reversalReason:
+      (getString(nested.reversalReason) as TransactionReversalReason | null) ??
+      (getString(nested.reversal_reason) as TransactionReversalReason | null) ??
+      fallback.reversalReason ??
+      null,
+    reversalNote:
+      getString(nested.reversalNote) ??
+      getString(nested.reversal_note) ??
+      fallback.reversalNote ??
+      null,
+    reversedAt:
+      getString(nested.reversedAt) ??
+      getString(nested.reversed_at) ??
+      fallback.reversedAt ??
+      null,
+    lineItems:
+      parseLineItems(nested.line_items) ??
+      parseLineItems(nested.lineItems) ??
+      parseLineItems(
+        (nested.metadata as Record<string, unknown> | undefined)?.line_items,
+      ) ??
+      fallback.lineItems ??
+      null,
+    taxBreakdown:
+      parsedDiscount.taxBreakdown ??
+      parseTaxBreakdown(nested.metadata) ??
+      fallback.taxBreakdown ??
+      null,
+    discountableAmount:
+      getNumber(nested.discountable_amount) ??
+      getNumber(nested.discountableAmount) ??
+      getNumber(
+        (nested.metadata as Record<string, unknown> | undefined)
+          ?.discountable_amount,
+      ) ??
+      fallback.discountableAmount ??
+      null,
+    idempotencyKey:
+      getString(nested.idempotencyKey) ??
+      getString(nested.idempotency_key) ??
+      getString(
+        (nested.metadata as Record<string, unknown> | undefined)
+          ?.idempotency_key,
+      ) ??
+      fallback.idempotencyKey ??
+      null,
+    cashierId:
+      getString(nested.cashier_id) ??
+      getString(nested.cashierId) ??
+      getString(
+        (nested.metadata as Record<string, unknown> | undefined)?.cashier_id,
+      ) ??
+      fallback.cashierId ??
+      null,
+    cashierName:
+      getString(nested.cashier_name) ??
+      getString(nested.cashierName) ??
+      getString(
+        (nested.metadata as Record<string, unknown> | undefined)
+          ?.cashier_name,
+      ) ??
+      fallback.cashierName ??
+      null,
+    outletId:
+      getString(nested.outlet_id) ??
+      getString(nested.outletId) ??
+      fallback.outletId ??
+      null,
+    outletName:
+      getString(nested.outlet_name) ??
+      getString(nested.outletName) ??
+      getString(
+        (nested.metadata as Record<string, unknown> | undefined)
+          ?.outlet_name,
+      ) ??
+      fallback.outletName ??
+      null,
+    approvalStatus:
+      parseApprovalStatus(nested.approval_status) ??
+      fallback.approvalStatus ??
+      null,
+    disputeId:
+      getString(nested.dispute_id) ??
+      getString((nested.dispute as Record<string, unknown> | undefined)?.id) ??
+      fallback.disputeId ??
+      null,
+    disputeStatus:
+      parseDisputeStatus(nested.dispute_status) ??
+      parseDisputeStatus(
+        (nested.dispute as Record<string, unknown> | undefined)?.status,
+      ) ??
+      fallback.disputeStatus ??
+      null,
   };
 };
 
 const parseTransactionList = (
   payload: unknown,
   fallbackStatus: TransactionRecord['status'] = 'completed',
+  idPrefix = 'remote',
 ): TransactionRecord[] => {
   const source = Array.isArray(payload)
     ? payload
@@ -395,7 +862,7 @@ const parseTransactionList = (
       }
 
       const base: TransactionRecord = {
-        id: `remote-${index}`,
+        id: `${idPrefix}-${index}`,
         memberToken: '',
         status: fallbackStatus,
         createdAt: new Date(0).toISOString(),
@@ -426,6 +893,22 @@ const parseTransactionList = (
     .filter((record): record is TransactionRecord => Boolean(record));
 };
 
+const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 429]);
+
+export const isRetryableTransactionError = (error: unknown): boolean => {
+  const appError = ensureAppError(error, 'TRANSACTION_RECORD_FAILED');
+  if (appError.id === 'SESSION_TOKEN_UNAVAILABLE') {
+    return true;
+  }
+
+  const status = getNumber(appError.metadata?.status);
+  if (status == null) {
+    return true;
+  }
+
+  return status >= 500 || RETRYABLE_HTTP_STATUSES.has(status);
+};
+
 const performRequest = async <T>(
   endpoint: string,
   init: RequestInit,
@@ -445,6 +928,7 @@ export const lookupMember = async (
   token: string,
   authToken?: string | null,
   vendorId?: number | null,
+  outletId?: string | null,
 ): Promise<MemberLookupResult> => {
   const resolvedAuthToken = await ensureValidSessionToken(authToken);
   if (!resolvedAuthToken) {
@@ -452,13 +936,25 @@ export const lookupMember = async (
   }
 
   try {
-    const body: Record<string, unknown> = {
-      qr_token: token,
-    };
+    // Signed member QR payloads are split so the server can resolve the
+    // reference and check the HMAC against the member's seed; legacy tokens
+    // are sent as scanned.
+    const signedQr = parseSignedMemberQr(token);
+    const body: Record<string, unknown> = signedQr
+      ? {
+          qr_reference: signedQr.reference,
+          qr_window: signedQr.window,
+          qr_window_seconds: signedQr.windowSeconds,
+          qr_signature: signedQr.signature,
+        }
+      : { qr_token: token };
 
     if (typeof vendorId === 'number' && Number.isFinite(vendorId)) {
       body.vendor_id = vendorId;
     }
+    if (outletId) {
+      body.outlet_id = outletId;
+    }
 
     const payload = await performRequest<Record<string, unknown>>(
       TRANSACTION_ENDPOINTS.lookupMember,
@@ -486,26 +982,129 @@ export const lookupMember = async (
   }
 };
 
+const parseMemberSearchCandidate = (
+  input: unknown,
+): MemberSearchCandidate | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const value = input as Record<string, unknown>;
+  const token = getString(value.lookup_token) ?? getString(value.token);
+  if (!token) {
+    return null;
+  }
+
+  // The server should only send masked fields; mask again in case it echoes
+  // the full name or number so nothing identifying reaches the till.
+  return {
+    token,
+    initials:
+      getString(value.initials)?.slice(0, 3).toUpperCase() ??
+      toMemberInitials(getString(value.name)),
+    membershipTier:
+      getString(value.membership_tier) ?? getString(value.tier) ?? null,
+    lastDigits:
+      getLastDigits(getString(value.last_digits)) ??
+      getLastDigits(getString(value.member_number)) ??
+      getLastDigits(getString(value.phone)),
+  };
+};
+
+/**
+ * Finds members by an exact member number, phone or email when their QR
+ * code will not scan. Results are masked and capped by the server.
+ */
+export const searchMembers = async (
+  query: MemberSearchQuery,
+  authToken?: string | null,
+  vendorId?: number | null,
+  outletId?: string | null,
+): Promise<MemberSearchCandidate[]> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  try {
+    const body: Record<string, unknown> = {
+      field: query.field,
+      value: query.value,
+    };
+    if (typeof vendorId === 'number' && Number.isFinite(vendorId)) {
+      body.vendor_id = vendorId;
+    }
+    if (outletId) {
+      body.outlet_id = outletId;
+    }
+
+    const payload = await performRequest<unknown>(
+      TRANSACTION_ENDPOINTS.searchMembers,
+      {
+        method: 'POST',
+        headers: buildHeaders(resolvedAuthToken),
+        body: JSON.stringify(body),
+      },
+      'TRANSACTION_MEMBER_SEARCH_FAILED',
+      { endpoint: TRANSACTION_ENDPOINTS.searchMembers, field: query.field },
+    );
+
+    const container =
+      payload && typeof payload === 'object' && !Array.isArray(payload)
+        ? (payload as Record<string, unknown>)
+        : {};
+    const list = Array.isArray(payload)
+      ? payload
+      : Array.isArray(container.candidates)
+      ? container.candidates
+      : Array.isArray(container.data)
+      ? container.data
+      : [];
+    const candidates = list
+      .map(parseMemberSearchCandidate)
+      .filter((candidate): candidate is MemberSearchCandidate =>
+        Boolean(candidate),
+      );
+    deviceLog.debug('transaction.searchMembers.success', {
+      field: query.field,
+      results: candidates.length,
+    });
+    return candidates;
+  } catch (error) {
+    const appError = ensureAppError(error, 'TRANSACTION_MEMBER_SEARCH_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('transaction.searchMembers.error', {
+      code: appError.code,
+      status: appError.metadata?.status ?? null,
+    });
+    if (getNumber(appError.metadata?.status) === 429) {
+      throw createAppError('TRANSACTION_MEMBER_SEARCH_RATE_LIMITED', {
+        metadata: appError.metadata,
+      });
+    }
+    throw appError;
+  }
+};
+
 export const calculateDiscount = async (
   params: DiscountCalculationRequest,
   authToken?: string | null,
 ): Promise<DiscountCalculationResult> => {
-  const sanitizedGross = Number.isFinite(params.grossAmount)
-    ? params.grossAmount
-    : 0;
-
-  const optimistic = calculateDiscountForAmount(
-    sanitizedGross,
-    params.membershipTier ?? null,
-    params.vendorTier ?? null,
-  );
+  const {
+    lineItems,
+    grossAmount: sanitizedGross,
+    discountableAmount,
+  } = resolveBasketAmounts(params);
 
   let descriptor = params.discountDescriptor ?? null;
   let membershipTier = params.membershipTier ?? null;
   let vendorTier = params.vendorTier ?? null;
+  let rules = params.discountRules ?? null;
+  let usage = params.usage ?? null;
   let message: string | null = null;
 
-  if (!descriptor && params.memberToken) {
+  // A promotion changes the discount, so the server quote is always needed.
+  if ((!descriptor || params.promoCode) && params.memberToken) {
     const resolvedAuthToken = await ensureValidSessionToken(authToken);
     if (!resolvedAuthToken) {
       throw createAppError('SESSION_TOKEN_UNAVAILABLE');
@@ -520,9 +1119,27 @@ export const calculateDiscount = async (
       if (params.vendorId != null) {
         body.vendor_id = params.vendorId;
       }
+      if (params.outletId) {
+        body.outlet_id = params.outletId;
+      }
       if (params.memberId != null) {
         body.member_id = params.memberId;
       }
+      if (params.promoCode) {
+        body.promo_code = params.promoCode;
+      }
+      if (lineItems) {
+        body.line_items = serializeLineItems(lineItems);
+        body.discountable_amount = discountableAmount;
+      }
+      if (params.taxSettings) {
+        body.tax_settings = {
+          service_charge_rate: params.taxSettings.serviceChargeRate,
+          vat_rate: params.taxSettings.vatRate,
+          prices_include_vat: params.taxSettings.pricesIncludeVat,
+          discount_application: params.taxSettings.discountApplication,
+        };
+      }
 
       const payload = await performRequest<Record<string, unknown>>(
         TRANSACTION_ENDPOINTS.lookupMember,
@@ -536,6 +1153,8 @@ export const calculateDiscount = async (
       const lookup = parseMemberLookup(payload);
       descriptor = lookup.discountDescriptor ?? descriptor;
       membershipTier = lookup.membershipTier ?? membershipTier;
+      rules = lookup.discountRules ?? rules;
+      usage = lookup.usage ?? usage;
       message = lookup.message ?? null;
       deviceLog.debug('transaction.calculateDiscount.lookup', lookup);
     } catch (error) {
@@ -554,6 +1173,13 @@ export const calculateDiscount = async (
     }
   }
 
+  const calculationOptions = {
+    discountableAmount,
+    taxSettings: params.taxSettings ?? null,
+    rules,
+    ruleContext: { membershipTier, vendorTier, usage },
+  };
+
   if (descriptor) {
     const descriptorResult = parseDiscountResult({
       discount: descriptor,
@@ -565,6 +1191,12 @@ export const calculateDiscount = async (
 
     return {
       ...descriptorResult,
+      ...calculateDiscountForDescriptor(
+        sanitizedGross,
+        descriptor,
+        calculationOptions,
+      ),
+      discountableAmount,
       currency: descriptorResult.currency ?? params.currency ?? null,
       membershipTier: membershipTier ?? descriptorResult.membershipTier ?? null,
       vendorTier: vendorTier ?? descriptorResult.vendorTier ?? null,
@@ -573,7 +1205,14 @@ export const calculateDiscount = async (
   }
 
   return {
-    ...optimistic,
+    ...calculateDiscountForAmount(
+      sanitizedGross,
+      membershipTier,
+      vendorTier,
+      getDiscountMatrix(),
+      calculationOptions,
+    ),
+    discountableAmount,
     currency: params.currency ?? null,
     membershipTier,
     vendorTier,
@@ -590,14 +1229,29 @@ export const recordTransaction = async (
     throw createAppError('SESSION_TOKEN_UNAVAILABLE');
   }
 
+  const { lineItems, grossAmount, discountableAmount } =
+    resolveBasketAmounts(request);
   const optimisticDiscount = calculateDiscountForAmount(
-    request.grossAmount,
+    grossAmount,
     request.membershipTier ?? null,
     request.vendorTier ?? null,
+    getDiscountMatrix(),
+    {
+      discountableAmount,
+      taxSettings: request.taxSettings ?? null,
+      rules: request.discountRules ?? null,
+      ruleContext: { usage: request.usage ?? null },
+    },
   );
+  const matrixVersion = getDiscountMatrixSnapshot().version;
+  const ruleEvaluation =
+    request.ruleEvaluation ?? optimisticDiscount.ruleEvaluation ?? null;
+  const taxBreakdown =
+    request.taxBreakdown ?? optimisticDiscount.taxBreakdown ?? null;
 
+  const idempotencyKey = request.idempotencyKey ?? null;
   const optimisticRecord: TransactionRecord = {
-    id: `temp-${Date.now()}`,
+    id: idempotencyKey ? `temp-${idempotencyKey}` : `temp-${Date.now()}`,
     memberToken: request.memberToken,
     memberId: request.memberId ?? null,
     memberName: request.memberName ?? null,
@@ -607,7 +1261,11 @@ export const recordTransaction = async (
     discountPercentage: optimisticDiscount.discountPercentage,
     discountAmount: optimisticDiscount.discountAmount,
     netAmount: optimisticDiscount.netAmount,
-    grossAmount: Number(request.grossAmount.toFixed(2)),
+    grossAmount: Number(grossAmount.toFixed(2)),
+    discountableAmount: lineItems ? discountableAmount : null,
+    lineItems,
+    taxBreakdown,
+    ruleEvaluation,
     currency: request.currency ?? null,
     membershipTier: request.membershipTier ?? null,
     vendorTier: request.vendorTier ?? null,
@@ -616,32 +1274,87 @@ export const recordTransaction = async (
     vendorId: request.vendorId ?? null,
     errorMessage: null,
     discountDescriptor: request.discountDescriptor ?? undefined,
+    idempotencyKey,
+    cashierId: request.cashier?.id ?? null,
+    cashierName: request.cashier?.name ?? null,
+    outletId: request.outletId ?? null,
+    outletName: request.outletName ?? null,
   };
 
+  const metadata: Record<string, unknown> | undefined =
+    idempotencyKey ||
+    lineItems ||
+    taxBreakdown ||
+    matrixVersion ||
+    ruleEvaluation?.appliedRuleIds.length ||
+    request.cashier ||
+    request.outletName ||
+    request.fraudOverride ||
+    request.promoCode
+      ? { ...request.metadata }
+      : request.metadata;
+  if (metadata && idempotencyKey) {
+    metadata.idempotency_key = idempotencyKey;
+  }
+  if (metadata && lineItems) {
+    metadata.line_items = serializeLineItems(lineItems);
+    metadata.discountable_amount = discountableAmount;
+  }
+  if (metadata && taxBreakdown) {
+    metadata.tax_breakdown = serializeTaxBreakdown(taxBreakdown);
+  }
+  if (metadata && matrixVersion) {
+    metadata.discount_matrix_version = matrixVersion;
+  }
+  if (metadata && ruleEvaluation?.appliedRuleIds.length) {
+    metadata.discount_rules = serializeRuleEvaluation(ruleEvaluation);
+  }
+  if (metadata && request.cashier) {
+    metadata.cashier_id = request.cashier.id;
+    metadata.cashier_name = request.cashier.name;
+  }
+  if (metadata && request.outletName) {
+    metadata.outlet_name = request.outletName;
+  }
+  if (metadata && request.fraudOverride) {
+    metadata.fraud_review = serializeFraudOverride(request.fraudOverride);
+  }
+  if (metadata && request.promoCode) {
+    metadata.promo_code = request.promoCode;
+  }
+
   try {
     const payload = await performRequest<Record<string, unknown>>(
       TRANSACTION_ENDPOINTS.recordTransaction,
       {
         method: 'POST',
-        headers: buildHeaders(resolvedAuthToken),
+        headers: buildHeaders(resolvedAuthToken, idempotencyKey),
         body: JSON.stringify({
           qr_token: request.memberToken,
           member_id: request.memberId ?? undefined,
           vendor_id: request.vendorId ?? undefined,
+          outlet_id: request.outletId ?? undefined,
           membership_tier: request.membershipTier,
           vendor_tier: request.vendorTier,
-          gross_amount: request.grossAmount,
+          gross_amount: grossAmount,
           discount_percentage: request.discountPercentage ?? undefined,
           discount_amount: request.discountAmount ?? undefined,
           net_amount: request.netAmount ?? undefined,
           member_name: request.memberName ?? undefined,
-          metadata: request.metadata,
+          metadata,
           notes: request.notes ?? undefined,
           currency: request.currency,
+          require_member_approval: request.requireMemberApproval || undefined,
+          approval_timeout_seconds: request.requireMemberApproval
+            ? Math.round(REDEMPTION_APPROVAL_CONFIG.timeoutMs / 1000)
+            : undefined,
         }),
       },
       'TRANSACTION_RECORD_FAILED',
-      { endpoint: TRANSACTION_ENDPOINTS.recordTransaction },
+      {
+        endpoint: TRANSACTION_ENDPOINTS.recordTransaction,
+        idempotencyKey: idempotencyKey ?? undefined,
+      },
     );
 
     const result = parseTransactionRecord(payload, {
@@ -654,22 +1367,384 @@ export const recordTransaction = async (
     const appError = ensureAppError(error, 'TRANSACTION_RECORD_FAILED', {
       propagateMessage: true,
     });
+    const retryable = isRetryableTransactionError(appError);
     deviceLog.warn('transaction.recordTransaction.error', {
       code: appError.code,
       message: appError.displayMessage,
+      retryable,
     });
     return {
       ...optimisticRecord,
       status: 'failed',
       errorMessage: appError.toDisplayString(),
+      retryable,
     };
   }
 };
 
-export const fetchMemberTransactions = async (
+/** Current member decision for a redemption recorded with approval. */
+export const fetchRedemptionApprovalStatus = async (
+  transactionId: string,
+  authToken?: string | null,
+): Promise<MemberApprovalStatus> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.approval(transactionId);
+  const payload = await performRequest<Record<string, unknown>>(
+    endpoint,
+    {
+      method: 'GET',
+      headers: buildHeaders(resolvedAuthToken),
+    },
+    'TRANSACTION_APPROVAL_FAILED',
+    { endpoint, id: transactionId },
+  );
+  const status =
+    parseApprovalStatus(payload.approval_status) ??
+    parseApprovalStatus(payload.status);
+  if (!status) {
+    throw createAppError('TRANSACTION_APPROVAL_FAILED', {
+      metadata: { id: transactionId },
+    });
+  }
+  return status;
+};
+
+const parseApprovalRequest = (
+  input: unknown,
+): RedemptionApprovalRequest | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const value = input as Record<string, unknown>;
+  const transactionId =
+    getString(value.transaction_id) ?? getString(value.id);
+  const grossAmount = getNumber(value.gross_amount);
+  if (!transactionId || grossAmount == null) {
+    return null;
+  }
+  const discountAmount = getNumber(value.discount_amount) ?? 0;
+  return {
+    transactionId,
+    vendorName: getString(value.vendor_name),
+    outletName: getString(value.outlet_name),
+    grossAmount,
+    discountAmount,
+    netAmount:
+      getNumber(value.net_amount) ??
+      Number((grossAmount - discountAmount).toFixed(2)),
+    currency: getString(value.currency) ?? 'THB',
+    requestedAt:
+      getString(value.requested_at) ??
+      getString(value.created_at) ??
+      new Date().toISOString(),
+    expiresAt: getString(value.expires_at),
+  };
+};
+
+/** Redemptions waiting for the signed-in member to approve or decline. */
+export const fetchPendingApprovals = async (
   authToken?: string | null,
-): Promise<TransactionRecord[]> => {
-  let memberId: number | null = null;
+): Promise<RedemptionApprovalRequest[]> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const payload = await performRequest<unknown>(
+    TRANSACTION_ENDPOINTS.pendingApprovals,
+    {
+      method: 'GET',
+      headers: buildHeaders(resolvedAuthToken),
+    },
+    'TRANSACTION_APPROVAL_FAILED',
+    { endpoint: TRANSACTION_ENDPOINTS.pendingApprovals },
+  );
+  const list = Array.isArray(payload)
+    ? payload
+    : payload &&
+      typeof payload === 'object' &&
+      Array.isArray((payload as Record<string, unknown>).approvals)
+    ? ((payload as Record<string, unknown>).approvals as unknown[])
+    : [];
+  return list
+    .map(parseApprovalRequest)
+    .filter((request): request is RedemptionApprovalRequest =>
+      Boolean(request),
+    );
+};
+
+export const respondToRedemptionApproval = async (
+  transactionId: string,
+  decision: MemberApprovalDecision,
+  authToken?: string | null,
+): Promise<MemberApprovalStatus> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.approval(transactionId);
+  try {
+    const payload = await performRequest<Record<string, unknown>>(
+      endpoint,
+      {
+        method: 'POST',
+        headers: buildHeaders(resolvedAuthToken),
+        body: JSON.stringify({ decision }),
+      },
+      'TRANSACTION_APPROVAL_FAILED',
+      { endpoint, id: transactionId, decision },
+    );
+    const status =
+      parseApprovalStatus(payload.approval_status) ??
+      (decision === 'approve' ? 'approved' : 'declined');
+    deviceLog.info('transaction.approval.responded', {
+      id: transactionId,
+      decision,
+      status,
+    });
+    return status;
+  } catch (error) {
+    const appError = ensureAppError(error, 'TRANSACTION_APPROVAL_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('transaction.approval.respond.error', {
+      id: transactionId,
+      code: appError.code,
+    });
+    throw appError;
+  }
+};
+
+export const voidTransaction = async (
+  record: TransactionRecord,
+  request: VoidTransactionRequest,
+  authToken?: string | null,
+): Promise<TransactionRecord> => {
+  if (!getReversalEligibility(record).canVoid) {
+    throw createAppError('TRANSACTION_REVERSAL_NOT_ALLOWED', {
+      metadata: { id: record.id, status: record.status },
+    });
+  }
+
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.voidTransaction(record.id);
+  try {
+    const payload = await performRequest<Record<string, unknown>>(
+      endpoint,
+      {
+        method: 'POST',
+        headers: buildHeaders(resolvedAuthToken, `void-${record.id}`),
+        body: JSON.stringify({
+          reason: request.reason,
+          note: request.note ?? undefined,
+        }),
+      },
+      'TRANSACTION_VOID_FAILED',
+      { endpoint, id: record.id },
+    );
+
+    const result = parseTransactionRecord(payload, {
+      ...record,
+      status: 'voided',
+      reversalReason: request.reason,
+      reversalNote: request.note ?? null,
+      reversedAt: new Date().toISOString(),
+    });
+    deviceLog.info('transaction.voidTransaction.success', {
+      id: result.id,
+      reason: request.reason,
+    });
+    return result;
+  } catch (error) {
+    const appError = ensureAppError(error, 'TRANSACTION_VOID_FAILED', {
+      propagateMessage: true,
+      metadata: { id: record.id },
+    });
+    deviceLog.warn('transaction.voidTransaction.error', {
+      code: appError.code,
+      message: appError.displayMessage,
+    });
+    throw appError;
+  }
+};
+
+export const refundTransaction = async (
+  record: TransactionRecord,
+  request: RefundTransactionRequest,
+  authToken?: string | null,
+): Promise<TransactionRecord> => {
+  const { canRefund, refundableAmount } = getReversalEligibility(record);
+  const amount = Number((request.amount ?? refundableAmount).toFixed(2));
+  if (!canRefund || !(amount > 0) || amount > refundableAmount) {
+    throw createAppError('TRANSACTION_REVERSAL_NOT_ALLOWED', {
+      metadata: { id: record.id, status: record.status, amount },
+    });
+  }
+
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.refundTransaction(record.id);
+  const refundedAmount = Number(
+    ((record.refundedAmount ?? 0) + amount).toFixed(2),
+  );
+  try {
+    const payload = await performRequest<Record<string, unknown>>(
+      endpoint,
+      {
+        method: 'POST',
+        headers: buildHeaders(
+          resolvedAuthToken,
+          `refund-${record.id}-${refundedAmount.toFixed(2)}`,
+        ),
+        body: JSON.stringify({
+          amount,
+          reason: request.reason,
+          note: request.note ?? undefined,
+          currency: record.currency ?? undefined,
+        }),
+      },
+      'TRANSACTION_REFUND_FAILED',
+      { endpoint, id: record.id, amount },
+    );
+
+    const result = parseTransactionRecord(payload, {
+      ...record,
+      status: amount < refundableAmount ? 'partially_refunded' : 'refunded',
+      refundedAmount,
+      reversalReason: request.reason,
+      reversalNote: request.note ?? null,
+      reversedAt: new Date().toISOString(),
+    });
+    deviceLog.info('transaction.refundTransaction.success', {
+      id: result.id,
+      amount,
+      status: result.status,
+    });
+    return result;
+  } catch (error) {
+    const appError = ensureAppError(error, 'TRANSACTION_REFUND_FAILED', {
+      propagateMessage: true,
+      metadata: { id: record.id, amount },
+    });
+    deviceLog.warn('transaction.refundTransaction.error', {
+      code: appError.code,
+      message: appError.displayMessage,
+    });
+    throw appError;
+  }
+};
+
+const buildHistoryParams = (
+  query: TransactionHistoryQuery,
+): Record<string, string> => {
+  const params: Record<string, string> = {
+    per_page: String(query.perPage ?? TRANSACTION_HISTORY_CONFIG.pageSize),
+  };
+  if (query.cursor) {
+    params.cursor = query.cursor;
+  } else if (query.page != null) {
+    params.page = String(query.page);
+  }
+  if (query.from) {
+    params.date_from = query.from;
+  }
+  if (query.to) {
+    params.date_to = query.to;
+  }
+  if (query.statuses?.length) {
+    params.status = query.statuses.join(',');
+  }
+  if (query.membershipTier) {
+    params.membership_tier = query.membershipTier;
+  }
+  if (query.minAmount != null && Number.isFinite(query.minAmount)) {
+    params.min_amount = String(query.minAmount);
+  }
+  if (query.maxAmount != null && Number.isFinite(query.maxAmount)) {
+    params.max_amount = String(query.maxAmount);
+  }
+  if (query.outletId) {
+    params.outlet_id = query.outletId;
+  }
+  return params;
+};
+
+const toQueryString = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join('&');
+
+// The history endpoint may answer with cursor metadata, WordPress style page
+// counters, or a bare array. Without metadata a full page implies more rows.
+const parseHistoryPage = (
+  payload: unknown,
+  query: TransactionHistoryQuery,
+): TransactionHistoryPage => {
+  const records = parseTransactionList(
+    payload,
+    'completed',
+    `remote-${query.cursor ?? query.page ?? 1}`,
+  );
+  const body =
+    payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>)
+      : {};
+  const meta =
+    (body.pagination as Record<string, unknown> | undefined) ??
+    (body.meta as Record<string, unknown> | undefined) ??
+    body;
+  const perPage = query.perPage ?? TRANSACTION_HISTORY_CONFIG.pageSize;
+  const currentPage =
+    getNumber(meta.page) ?? getNumber(meta.current_page) ?? query.page ?? 1;
+  const totalPages =
+    getNumber(meta.total_pages) ?? getNumber(meta.totalPages) ?? null;
+  const nextCursor =
+    getString(meta.next_cursor) ?? getString(meta.nextCursor) ?? null;
+  const explicitHasMore =
+    coerceBoolean(meta.has_more) ?? coerceBoolean(meta.hasMore);
+
+  const hasMore =
+    explicitHasMore ??
+    (nextCursor
+      ? true
+      : totalPages != null
+      ? currentPage < totalPages
+      : records.length >= perPage);
+
+  return {
+    records,
+    nextCursor: hasMore ? nextCursor : null,
+    nextPage: hasMore && !nextCursor ? currentPage + 1 : null,
+    hasMore,
+    total: getNumber(meta.total) ?? getNumber(meta.total_count) ?? null,
+  };
+};
+
+const fetchTransactionHistory = async (
+  scope: 'member' | 'vendor',
+  authToken: string | null | undefined,
+  query: TransactionHistoryQuery,
+): Promise<TransactionHistoryPage> => {
+  const event =
+    scope === 'member'
+      ? 'transaction.fetchMemberTransactions'
+      : 'transaction.fetchVendorTransactions';
+  let ownerId: number | null = null;
   try {
     const resolvedAuthToken = await ensureValidSessionToken(authToken);
     if (!resolvedAuthToken) {
@@ -677,16 +1752,15 @@ export const fetchMemberTransactions = async (
     }
 
     const session = await ensureValidSession();
-    memberId = session?.user?.id ?? null;
-    const params = new URLSearchParams();
-    if (typeof memberId === 'number' && Number.isFinite(memberId)) {
-      params.set('member_id', String(memberId));
+    ownerId = session?.user?.id ?? null;
+    const params = buildHistoryParams(query);
+    if (typeof ownerId === 'number' && Number.isFinite(ownerId)) {
+      params[scope === 'member' ? 'member_id' : 'vendor_id'] = String(ownerId);
     }
 
-    const query = params.toString();
-    const historyEndpoint = `${TRANSACTION_ENDPOINTS.history}${
-      query ? `?${query}` : ''
-    }`;
+    const historyEndpoint = `${TRANSACTION_ENDPOINTS.history}?${toQueryString(
+      params,
+    )}`;
 
     const payload = await performRequest<unknown>(
       historyEndpoint,
@@ -695,20 +1769,21 @@ export const fetchMemberTransactions = async (
         headers: buildHeaders(resolvedAuthToken),
       },
       'TRANSACTION_HISTORY_FETCH_FAILED',
-      { memberId: memberId ?? undefined },
+      { [`${scope}Id`]: ownerId ?? undefined },
     );
 
-    const records = parseTransactionList(payload);
-    deviceLog.debug('transaction.fetchMemberTransactions.success', {
-      count: records.length,
+    const page = parseHistoryPage(payload, query);
+    deviceLog.debug(`${event}.success`, {
+      count: page.records.length,
+      hasMore: page.hasMore,
     });
-    return records;
+    return page;
   } catch (error) {
     const appError = ensureAppError(error, 'TRANSACTION_HISTORY_FETCH_FAILED', {
       propagateMessage: true,
-      metadata: { memberId: memberId ?? undefined },
+      metadata: { [`${scope}Id`]: ownerId ?? undefined },
     });
-    deviceLog.warn('transaction.fetchMemberTransactions.error', {
+    deviceLog.warn(`${event}.error`, {
       code: appError.code,
       message: appError.displayMessage,
     });
@@ -716,49 +1791,304 @@ export const fetchMemberTransactions = async (
   }
 };
 
+export const fetchMemberTransactions = async (
+  authToken?: string | null,
+  query: TransactionHistoryQuery = {},
+): Promise<TransactionHistoryPage> =>
+  fetchTransactionHistory('member', authToken, query);
+
 export const fetchVendorTransactions = async (
   authToken?: string | null,
-): Promise<TransactionRecord[]> => {
-  let vendorId: number | null = null;
+  query: TransactionHistoryQuery = {},
+): Promise<TransactionHistoryPage> =>
+  fetchTransactionHistory('vendor', authToken, query);
+
+const DISPUTE_ROLES: TransactionDisputeRole[] = ['member', 'vendor', 'admin'];
+
+const parseDisputeMessage = (
+  input: unknown,
+  index: number,
+): TransactionDisputeMessage | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const value = input as Record<string, unknown>;
+  const message = getString(value.message);
+  if (!message) {
+    return null;
+  }
+  const role = getString(value.author_role);
+  return {
+    id: getString(value.id) ?? `message-${index}`,
+    authorRole:
+      role && DISPUTE_ROLES.includes(role as TransactionDisputeRole)
+        ? (role as TransactionDisputeRole)
+        : 'member',
+    authorName: getString(value.author_name),
+    message,
+    status: parseDisputeStatus(value.status),
+    createdAt: getString(value.created_at) ?? new Date(0).toISOString(),
+  };
+};
+
+const parseDispute = (input: unknown): TransactionDispute | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const value = input as Record<string, unknown>;
+  // Transaction details may be flattened onto the dispute or nested.
+  const transaction =
+    value.transaction && typeof value.transaction === 'object'
+      ? (value.transaction as Record<string, unknown>)
+      : {};
+  const id = getString(value.id) ?? getString(value.dispute_id);
+  const transactionId =
+    getString(value.transaction_id) ?? getString(transaction.id);
+  const reason = getString(value.reason);
+  if (!id || !transactionId || !reason) {
+    return null;
+  }
+
+  return {
+    id,
+    transactionId,
+    reason: reason as TransactionDisputeReason,
+    note: getString(value.note),
+    photoUrl: getString(value.photo_url),
+    status: parseDisputeStatus(value.status) ?? 'open',
+    createdAt: getString(value.created_at) ?? new Date().toISOString(),
+    updatedAt: getString(value.updated_at),
+    memberName:
+      getString(value.member_name) ?? getString(transaction.member_name),
+    vendorName:
+      getString(value.vendor_name) ?? getString(transaction.vendor_name),
+    outletName:
+      getString(value.outlet_name) ?? getString(transaction.outlet_name),
+    grossAmount:
+      getNumber(value.gross_amount) ?? getNumber(transaction.gross_amount),
+    discountAmount:
+      getNumber(value.discount_amount) ??
+      getNumber(transaction.discount_amount),
+    netAmount:
+      getNumber(value.net_amount) ?? getNumber(transaction.net_amount),
+    transactionCreatedAt:
+      getString(value.transaction_created_at) ??
+      getString(transaction.created_at),
+    messages: Array.isArray(value.messages)
+      ? value.messages
+          .map(parseDisputeMessage)
+          .filter((message): message is TransactionDisputeMessage =>
+            Boolean(message),
+          )
+      : [],
+  };
+};
+
+const unwrapDispute = (payload: unknown): unknown =>
+  payload &&
+  typeof payload === 'object' &&
+  (payload as Record<string, unknown>).dispute
+    ? (payload as Record<string, unknown>).dispute
+    : payload;
+
+const buildDisputeFormData = (
+  request: CreateTransactionDisputeRequest,
+): FormData => {
+  const formData = new FormData();
+  formData.append('reason', request.reason);
+  if (request.note?.trim()) {
+    formData.append('note', request.note.trim());
+  }
+  if (request.photo?.uri) {
+    formData.append('photo', {
+      uri: request.photo.uri,
+      name: request.photo.fileName?.trim() || 'dispute.jpg',
+      type: request.photo.mimeType?.trim() || 'image/jpeg',
+    } as unknown as Blob);
+  }
+  return formData;
+};
+
+/**
+ * Opens a dispute on one of the member's redemptions. The request is sent
+ * as multipart form data so an optional photo (receipt, bill) can travel
+ * with it.
+ */
+export const createTransactionDispute = async (
+  record: TransactionRecord,
+  request: CreateTransactionDisputeRequest,
+  authToken?: string | null,
+): Promise<TransactionDispute> => {
+  if (!canDisputeTransaction(record)) {
+    throw createAppError('TRANSACTION_DISPUTE_NOT_ALLOWED', {
+      metadata: { id: record.id, status: record.status },
+    });
+  }
+
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.createDispute(record.id);
+  const headers = buildHeaders(resolvedAuthToken);
+  // Let fetch set the multipart boundary.
+  delete headers['Content-Type'];
   try {
-    const resolvedAuthToken = await ensureValidSessionToken(authToken);
-    if (!resolvedAuthToken) {
-      throw createAppError('SESSION_TOKEN_UNAVAILABLE');
-    }
+    const payload = await performRequest<Record<string, unknown>>(
+      endpoint,
+      {
+        method: 'POST',
+        headers,
+        body: buildDisputeFormData(request),
+      },
+      'TRANSACTION_DISPUTE_SUBMIT_FAILED',
+      { endpoint, id: record.id, reason: request.reason },
+    );
 
-    const session = await ensureValidSession();
-    vendorId = session?.user?.id ?? null;
-    const params = new URLSearchParams();
-    if (typeof vendorId === 'number' && Number.isFinite(vendorId)) {
-      params.set('vendor_id', String(vendorId));
-    }
+    const dispute = parseDispute(unwrapDispute(payload)) ?? {
+      id: getString(payload.id) ?? `dispute-${record.id}`,
+      transactionId: record.id,
+      reason: request.reason,
+      note: request.note?.trim() || null,
+      photoUrl: null,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+      memberName: record.memberName ?? null,
+      vendorName: record.vendorName ?? null,
+      outletName: record.outletName ?? null,
+      grossAmount: record.grossAmount ?? null,
+      discountAmount: record.discountAmount ?? null,
+      netAmount: record.netAmount ?? null,
+      transactionCreatedAt: record.createdAt,
+      messages: [],
+    };
+    deviceLog.info('transaction.dispute.created', {
+      id: dispute.id,
+      transactionId: record.id,
+      reason: request.reason,
+      hasPhoto: Boolean(request.photo?.uri),
+    });
+    return dispute;
+  } catch (error) {
+    const appError = ensureAppError(
+      error,
+      'TRANSACTION_DISPUTE_SUBMIT_FAILED',
+      { propagateMessage: true, metadata: { id: record.id } },
+    );
+    deviceLog.warn('transaction.dispute.create.error', {
+      code: appError.code,
+      message: appError.displayMessage,
+    });
+    throw appError;
+  }
+};
 
-    const query = params.toString();
-    const historyEndpoint = `${TRANSACTION_ENDPOINTS.history}${
-      query ? `?${query}` : ''
-    }`;
+/**
+ * Lists disputes visible to the caller. Members see their own, vendors see
+ * disputes on their sales and admins see every dispute.
+ */
+export const fetchDisputes = async (
+  scope: TransactionDisputeRole,
+  authToken?: string | null,
+  statuses: TransactionDisputeStatus[] = [],
+): Promise<TransactionDispute[]> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
 
+  const params: Record<string, string> = { scope };
+  if (statuses.length) {
+    params.status = statuses.join(',');
+  }
+  const endpoint = `${TRANSACTION_ENDPOINTS.disputes}?${toQueryString(
+    params,
+  )}`;
+  try {
     const payload = await performRequest<unknown>(
-      historyEndpoint,
+      endpoint,
       {
         method: 'GET',
         headers: buildHeaders(resolvedAuthToken),
       },
-      'TRANSACTION_HISTORY_FETCH_FAILED',
-      { vendorId: vendorId ?? undefined },
+      'TRANSACTION_DISPUTE_FETCH_FAILED',
+      { endpoint: TRANSACTION_ENDPOINTS.disputes, scope },
     );
-
-    const records = parseTransactionList(payload);
-    deviceLog.debug('transaction.fetchVendorTransactions.success', {
-      count: records.length,
+    const list = Array.isArray(payload)
+      ? payload
+      : payload &&
+        typeof payload === 'object' &&
+        Array.isArray((payload as Record<string, unknown>).disputes)
+      ? ((payload as Record<string, unknown>).disputes as unknown[])
+      : [];
+    const disputes = list
+      .map(parseDispute)
+      .filter((dispute): dispute is TransactionDispute => Boolean(dispute));
+    deviceLog.debug('transaction.dispute.fetch.success', {
+      scope,
+      count: disputes.length,
     });
-    return records;
+    return disputes;
   } catch (error) {
-    const appError = ensureAppError(error, 'TRANSACTION_HISTORY_FETCH_FAILED', {
-      propagateMessage: true,
-      metadata: { vendorId: vendorId ?? undefined },
+    const appError = ensureAppError(
+      error,
+      'TRANSACTION_DISPUTE_FETCH_FAILED',
+      { propagateMessage: true, metadata: { scope } },
+    );
+    deviceLog.warn('transaction.dispute.fetch.error', {
+      code: appError.code,
+      message: appError.displayMessage,
     });
-    deviceLog.warn('transaction.fetchVendorTransactions.error', {
+    throw appError;
+  }
+};
+
+/** Adds a vendor or admin reply to a dispute, optionally moving its status. */
+export const respondToDispute = async (
+  dispute: TransactionDispute,
+  request: RespondToDisputeRequest,
+  authToken?: string | null,
+): Promise<TransactionDispute> => {
+  const resolvedAuthToken = await ensureValidSessionToken(authToken);
+  if (!resolvedAuthToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const endpoint = TRANSACTION_ENDPOINTS.disputeResponses(dispute.id);
+  try {
+    const payload = await performRequest<Record<string, unknown>>(
+      endpoint,
+      {
+        method: 'POST',
+        headers: buildHeaders(resolvedAuthToken),
+        body: JSON.stringify({
+          message: request.message.trim(),
+          status: request.status ?? undefined,
+        }),
+      },
+      'TRANSACTION_DISPUTE_RESPONSE_FAILED',
+      { endpoint, id: dispute.id, status: request.status ?? null },
+    );
+
+    const updated = parseDispute(unwrapDispute(payload)) ?? {
+      ...dispute,
+      status: request.status ?? dispute.status,
+      updatedAt: new Date().toISOString(),
+    };
+    deviceLog.info('transaction.dispute.responded', {
+      id: dispute.id,
+      status: updated.status,
+    });
+    return updated;
+  } catch (error) {
+    const appError = ensureAppError(
+      error,
+      'TRANSACTION_DISPUTE_RESPONSE_FAILED',
+      { propagateMessage: true, metadata: { id: dispute.id } },
+    );
+    deviceLog.warn('transaction.dispute.respond.error', {
       code: appError.code,
       message: appError.displayMessage,
     });
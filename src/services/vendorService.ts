@@ -5,11 +5,18 @@ import {
   syncWordPressCookiesFromResponse,
 } from './wordpressCookieService';
 import { ensureValidSessionToken } from './wordpressAuthService';
-import { VendorTierDefinition, VendorTierDiscounts } from '../types/vendor';
-import { createAppError, ensureAppError } from '../errors';
+import {
+  VendorOutlet,
+  VendorOutletHours,
+  VendorTierCatalog,
+  VendorTierDefinition,
+  VendorTierDiscounts,
+} from '../types/vendor';
+import { createAppError, ensureAppError, ErrorId } from '../errors';
 
 const VENDOR_ENDPOINTS = {
   tiers: '/wp-json/gn/v1/vendors/tiers',
+  outlets: '/wp-json/gn/v1/vendors/outlets',
 };
 
 const getString = (value: unknown): string | null => {
@@ -134,50 +141,59 @@ const parseTier = (input: unknown): VendorTierDefinition | null => {
   };
 };
 
-export const fetchVendorTiers = async (
-  authToken?: string | null,
-): Promise<VendorTierDefinition[]> => {
-  try {
-    const resolvedToken = await ensureValidSessionToken(authToken);
-    if (!resolvedToken) {
-      throw createAppError('SESSION_TOKEN_UNAVAILABLE');
-    }
+const fetchVendorJson = async (
+  endpoint: string,
+  authToken: string | null | undefined,
+  errorId: ErrorId,
+): Promise<Record<string, unknown>> => {
+  const resolvedToken = await ensureValidSessionToken(authToken);
+  if (!resolvedToken) {
+    throw createAppError('SESSION_TOKEN_UNAVAILABLE');
+  }
+
+  const init = await buildWordPressRequestInit({
+    method: 'GET',
+    headers: {
+      Accept: 'application/json',
+      Authorization:
+        resolvedToken && resolvedToken.trim().length > 0
+          ? `Bearer ${resolvedToken.trim()}`
+          : undefined,
+    },
+  });
+
+  const response = await fetch(`${WORDPRESS_CONFIG.baseUrl}${endpoint}`, init);
+  await syncWordPressCookiesFromResponse(response);
 
-    const init = await buildWordPressRequestInit({
-      method: 'GET',
-      headers: {
-        Accept: 'application/json',
-        Authorization:
-          resolvedToken && resolvedToken.trim().length > 0
-            ? `Bearer ${resolvedToken.trim()}`
-            : undefined,
+  const contentType = response.headers.get('content-type');
+  const isJson = contentType?.includes('application/json');
+  const json = isJson ? await response.json() : await response.text();
+
+  if (!response.ok) {
+    const overrideMessage =
+      typeof json === 'string'
+        ? json
+        : getString((json as Record<string, unknown>)?.message) ?? undefined;
+    throw createAppError(errorId, {
+      overrideMessage,
+      metadata: {
+        status: response.status,
       },
     });
+  }
 
-    const response = await fetch(
-      `${WORDPRESS_CONFIG.baseUrl}${VENDOR_ENDPOINTS.tiers}`,
-      init,
-    );
-    await syncWordPressCookiesFromResponse(response);
-
-    const contentType = response.headers.get('content-type');
-    const isJson = contentType?.includes('application/json');
-    const json = isJson ? await response.json() : await response.text();
-
-    if (!response.ok) {
-      const overrideMessage =
-        typeof json === 'string'
-          ? json
-          : getString((json as Record<string, unknown>)?.message) ?? undefined;
-      throw createAppError('VENDOR_TIERS_FETCH_FAILED', {
-        overrideMessage,
-        metadata: {
-          status: response.status,
-        },
-      });
-    }
+  return json as Record<string, unknown>;
+};
 
-    const root = json as Record<string, unknown>;
+export const fetchVendorTierCatalog = async (
+  authToken?: string | null,
+): Promise<VendorTierCatalog> => {
+  try {
+    const root = await fetchVendorJson(
+      VENDOR_ENDPOINTS.tiers,
+      authToken,
+      'VENDOR_TIERS_FETCH_FAILED',
+    );
     const tiersSource = Array.isArray(root?.tiers)
       ? (root.tiers as unknown[])
       : Array.isArray(root?.data)
@@ -192,10 +208,17 @@ export const fetchVendorTiers = async (
       .map(parseTier)
       .filter((tier): tier is VendorTierDefinition => Boolean(tier));
 
+    const version =
+      getString(root?.version) ??
+      getString(root?.matrix_version) ??
+      getString(root?.updated_at) ??
+      null;
+
     deviceLog.debug('vendorService.fetchVendorTiers.success', {
       count: tiers.length,
+      version,
     });
-    return tiers;
+    return { tiers, version };
   } catch (error) {
     const appError = ensureAppError(error, 'VENDOR_TIERS_FETCH_FAILED', {
       propagateMessage: true,
@@ -207,3 +230,99 @@ export const fetchVendorTiers = async (
     throw appError;
   }
 };
+
+export const fetchVendorTiers = async (
+  authToken?: string | null,
+): Promise<VendorTierDefinition[]> =>
+  (await fetchVendorTierCatalog(authToken)).tiers;
+
+const HOURS_PATTERN = /^\d{1,2}:\d{2}$/;
+
+const parseOpeningHours = (input: unknown): VendorOutletHours[] => {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input
+    .map(entry => {
+      if (!entry || typeof entry !== 'object') {
+        return null;
+      }
+      const payload = entry as Record<string, unknown>;
+      const day = getNumber(payload.day) ?? getNumber(payload.weekday);
+      const opens = getString(payload.opens) ?? getString(payload.open);
+      const closes = getString(payload.closes) ?? getString(payload.close);
+      if (
+        day == null ||
+        day < 0 ||
+        day > 6 ||
+        !opens ||
+        !closes ||
+        !HOURS_PATTERN.test(opens) ||
+        !HOURS_PATTERN.test(closes)
+      ) {
+        return null;
+      }
+      return { day, opens, closes };
+    })
+    .filter((hours): hours is VendorOutletHours => Boolean(hours));
+};
+
+export const parseVendorOutlet = (input: unknown): VendorOutlet | null => {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+
+  const payload = input as Record<string, unknown>;
+  const id = getString(payload.id) ?? getString(payload.outlet_id);
+  const name = getString(payload.name) ?? getString(payload.label) ?? id;
+  if (!id || !name) {
+    return null;
+  }
+
+  return {
+    id,
+    name,
+    address: getString(payload.address) ?? null,
+    openingHours: parseOpeningHours(
+      payload.opening_hours ?? payload.openingHours,
+    ),
+  };
+};
+
+export const fetchVendorOutlets = async (
+  authToken?: string | null,
+): Promise<VendorOutlet[]> => {
+  try {
+    const root = await fetchVendorJson(
+      VENDOR_ENDPOINTS.outlets,
+      authToken,
+      'VENDOR_OUTLETS_FETCH_FAILED',
+    );
+    const source = Array.isArray(root?.outlets)
+      ? (root.outlets as unknown[])
+      : Array.isArray(root?.data)
+      ? (root.data as unknown[])
+      : Array.isArray(root)
+      ? (root as unknown[])
+      : [];
+
+    const outlets = source
+      .map(parseVendorOutlet)
+      .filter((outlet): outlet is VendorOutlet => Boolean(outlet));
+
+    deviceLog.debug('vendorService.fetchVendorOutlets.success', {
+      count: outlets.length,
+    });
+    return outlets;
+  } catch (error) {
+    const appError = ensureAppError(error, 'VENDOR_OUTLETS_FETCH_FAILED', {
+      propagateMessage: true,
+    });
+    deviceLog.warn('vendorService.fetchVendorOutlets.error', {
+      code: appError.code,
+      message: appError.displayMessage,
+    });
+    throw appError;
+  }
+};
@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import deviceLog from '../utils/deviceLog';
+import { TAX_CONFIG } from '../config/taxConfig';
+import { VendorTaxSettings } from '../types/transactions';
+
+type StoredTaxSettings = Record<string, VendorTaxSettings>;
+
+const toRate = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100
+    ? parsed
+    : fallback;
+};
+
+export const normalizeVendorTaxSettings = (
+  value: Partial<VendorTaxSettings> | null | undefined,
+): VendorTaxSettings => {
+  const defaults = TAX_CONFIG.defaultSettings;
+  return {
+    serviceChargeRate: toRate(
+      value?.serviceChargeRate,
+      defaults.serviceChargeRate,
+    ),
+    vatRate: toRate(value?.vatRate, defaults.vatRate),
+    pricesIncludeVat:
+      typeof value?.pricesIncludeVat === 'boolean'
+        ? value.pricesIncludeVat
+        : defaults.pricesIncludeVat,
+    discountApplication:
+      value?.discountApplication === 'after_service_charge'
+        ? 'after_service_charge'
+        : 'before_service_charge',
+  };
+};
+
+const readAll = async (): Promise<StoredTaxSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(TAX_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    deviceLog.warn('vendorTaxSettings.read.error', {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+};
+
+const storageKeyFor = (vendorId: number | null) =>
+  vendorId == null ? 'local' : String(vendorId);
+
+export const loadVendorTaxSettings = async (
+  vendorId: number | null,
+): Promise<VendorTaxSettings> => {
+  const stored = await readAll();
+  return normalizeVendorTaxSettings(stored[storageKeyFor(vendorId)]);
+};
+
+export const saveVendorTaxSettings = async (
+  vendorId: number | null,
+  settings: VendorTaxSettings,
+): Promise<VendorTaxSettings> => {
+  const normalized = normalizeVendorTaxSettings(settings);
+  const stored = await readAll();
+  await AsyncStorage.setItem(
+    TAX_CONFIG.storageKey,
+    JSON.stringify({ ...stored, [storageKeyFor(vendorId)]: normalized }),
+  );
+  deviceLog.info('vendorTaxSettings.saved', { vendorId, ...normalized });
+  return normalized;
+};
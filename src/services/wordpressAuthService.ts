@@ -27,6 +27,7 @@ import {
   AccountStatus,
   LoginOptions,
   MemberQrCode,
+  MemberQrRotation,
   MemberValidationResult,
   MembershipBenefit,
   MembershipInfo,
@@ -34,6 +35,8 @@ import {
   WooCommerceCredentialBundle,
 } from '../types/auth';
 import { createAppError, ensureAppError } from '../errors';
+import { clampWindowSeconds } from '../utils/memberQr';
+import { normalizeReferralCode } from '../utils/referral';
 
 export interface PersistedSession {
   token?: string;
@@ -1773,6 +1776,30 @@ const fetchUserProfile = async (token: string): Promise<AuthUser | null> => {
   }
 };
 
+const parseMemberQrRotation = (
+  source: Record<string, unknown>,
+): MemberQrRotation | undefined => {
+  const rotation =
+    source.rotation && typeof source.rotation === 'object'
+      ? (source.rotation as Record<string, unknown>)
+      : source;
+  const seed = getString(rotation.seed) ?? getString(rotation.qr_seed);
+  if (!seed) {
+    return undefined;
+  }
+  return {
+    seed,
+    windowSeconds: clampWindowSeconds(
+      parseDiscountValue(rotation.window_seconds ?? rotation.windowSeconds),
+    ),
+  };
+};
+
+/**
+ * Fetches the member's QR token. When the server also issues a rotation
+ * seed, the card signs a fresh payload every window instead of showing the
+ * long-lived token. The seed is kept in memory only.
+ */
 export const ensureMemberQrCode = async ({
   token,
   payload,
@@ -1788,15 +1815,53 @@ export const ensureMemberQrCode = async ({
     return null;
   }
 
-  deviceLog.info('wordpressAuth.ensureMemberQrCode.disabled', {
-    tokenPreview:
-      normalizedToken.length > 4
-        ? normalizedToken.slice(-4)
-        : normalizedToken,
-    hasPayload: Boolean(payload),
+  const response = await fetchWithRouteFallback(
+    WORDPRESS_CONFIG.endpoints.membershipQr,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `Bearer ${normalizedToken}`,
+      },
+    },
+  );
+
+  const json = await parseJsonResponse<Record<string, unknown>>(response);
+  if (!response.ok || !json) {
+    deviceLog.warn('wordpressAuth.ensureMemberQrCode.failed', {
+      status: response.status,
+    });
+    return null;
+  }
+
+  const source =
+    json.qr && typeof json.qr === 'object'
+      ? (json.qr as Record<string, unknown>)
+      : json;
+  const qrToken =
+    getString(source.token) ??
+    getString(source.qr_token) ??
+    getString(source.qrToken);
+  if (!qrToken) {
+    return null;
+  }
+
+  const rotation = parseMemberQrRotation(source);
+  deviceLog.info('wordpressAuth.ensureMemberQrCode.success', {
+    tokenPreview: qrToken.length > 4 ? qrToken.slice(-4) : qrToken,
+    rotating: Boolean(rotation),
+    windowSeconds: rotation?.windowSeconds ?? null,
   });
 
-  return null;
+  return {
+    token: qrToken,
+    payload:
+      getString(source.payload) ?? getString(source.qr_payload) ?? payload,
+    issuedAt: getString(source.issued_at) ?? getString(source.issuedAt),
+    expiresAt: getString(source.expires_at) ?? getString(source.expiresAt),
+    rotation,
+  };
 };
 
 export const validateMemberQrCode = async (
@@ -1812,19 +1877,50 @@ export const validateMemberQrCode = async (
     };
   }
 
-  deviceLog.info('wordpressAuth.validateMemberQrCode.disabled', {
-    tokenPreview:
-      trimmedToken.length > 4 ? trimmedToken.slice(-4) : trimmedToken,
-    hasAuthToken: Boolean(normalizeApiToken(authToken)),
-  });
+  const normalizedAuthToken = normalizeApiToken(authToken);
+  const response = await fetchWithRouteFallback(
+    WORDPRESS_CONFIG.endpoints.validateQr,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(normalizedAuthToken
+          ? { Authorization: `Bearer ${normalizedAuthToken}` }
+          : {}),
+      },
+      body: JSON.stringify({ token: trimmedToken }),
+    },
+  );
+
+  const json = await parseJsonResponse<Record<string, unknown>>(response);
+  if (!response.ok || !json) {
+    const message = await extractMessageFromResponse(
+      response,
+      'Unable to validate member QR code.',
+    );
+    throw createAppError('AUTH_MEMBER_QR_VALIDATE_FAILED', {
+      overrideMessage: message,
+      metadata: { status: response.status },
+    });
+  }
+
+  const membershipSource =
+    json.membership && typeof json.membership === 'object'
+      ? { membership: json.membership }
+      : null;
 
   return {
     token: trimmedToken,
-    valid: false,
-    membership: null,
-    membershipTier: null,
-    allowedDiscount: null,
-    message: 'Member QR validation is not supported.',
+    valid: json.valid === true,
+    memberName: getString(json.member_name) ?? getString(json.memberName),
+    membershipTier:
+      getString(json.membership_tier) ?? getString(json.membershipTier),
+    allowedDiscount:
+      parseDiscountValue(json.allowed_discount ?? json.allowedDiscount) ??
+      null,
+    membership: parseMembershipInfo(membershipSource),
+    message: getString(json.message),
   };
 };
 
@@ -3601,6 +3697,21 @@ export const registerAccount = async (
     if (membershipPlan) {
       payload.membership_plan = membershipPlan;
     }
+
+    // The plugin stores the sponsor as `_tcn_sponsor_id`; the code is sent
+    // as well so the server can resolve it when the ID is unknown.
+    const sponsorCode = normalizeReferralCode(options.sponsorCode);
+    if (sponsorCode) {
+      payload.sponsor_code = sponsorCode;
+    }
+
+    if (
+      typeof options.sponsorId === 'number' &&
+      Number.isFinite(options.sponsorId) &&
+      options.sponsorId > 0
+    ) {
+      payload.sponsor_id = options.sponsorId;
+    }
   }
 
   const response = await fetchWithRouteFallback(
@@ -32,11 +32,27 @@ export interface MembershipInfo {
   benefits: MembershipBenefit[];
 }
 
+/** Server-issued secret the member app uses to sign each QR time window. */
+export interface MemberQrRotation {
+  seed: string;
+  windowSeconds: number;
+}
+
 export interface MemberQrCode {
   token: string;
   payload?: string | null;
   issuedAt?: string | null;
   expiresAt?: string | null;
+  rotation?: MemberQrRotation | null;
+}
+
+/** Parsed form of a rotating member QR payload. */
+export interface SignedMemberQr {
+  /** SHA-256 reference to the member token; the token itself is never sent. */
+  reference: string;
+  window: number;
+  windowSeconds: number;
+  signature: string;
 }
 
 export interface MembershipPlan {
@@ -107,6 +123,10 @@ export interface RegisterOptions {
   accountType?: RegisterAccountType;
   vendorTier?: string;
   membershipPlan?: string;
+  /** Referral code of the member's sponsor, as entered or linked. */
+  sponsorCode?: string;
+  /** Sponsor user ID once the code has been validated. */
+  sponsorId?: number;
 }
 
 export interface ResetPasswordOptions {
@@ -0,0 +1,28 @@
+declare module 'crypto-js/enc-base64' {
+  const encBase64: { stringify(wordArray: unknown): string };
+  export default encBase64;
+}
+
+declare module 'crypto-js/enc-utf8' {
+  const encUtf8: { parse(value: string): unknown };
+  export default encUtf8;
+}
+
+declare module 'crypto-js/enc-hex' {
+  const encHex: unknown;
+  export default encHex;
+}
+
+declare module 'crypto-js/sha256' {
+  interface WordArray {
+    toString(encoder?: unknown): string;
+  }
+  export default function SHA256(message: string): WordArray;
+}
+
+declare module 'crypto-js/hmac-sha256' {
+  interface WordArray {
+    toString(encoder?: unknown): string;
+  }
+  export default function HmacSHA256(message: string, key: string): WordArray;
+}
@@ -0,0 +1,88 @@
+import { DiscountUsage } from './transactions';
+
+/**
+ * - `percentage`: percent of the discountable amount.
+ * - `amount`: fixed THB amount.
+ * - `multiplier`: scales the member's tier discount (2 = double discount).
+ */
+export type DiscountRuleEffectType = 'percentage' | 'amount' | 'multiplier';
+
+/**
+ * `stack` adds on top of whatever already applies. `exclusive` replaces the
+ * tier discount and every earlier rule, and stops evaluation.
+ */
+export type DiscountRuleStacking = 'stack' | 'exclusive';
+
+export interface DiscountRuleEffect {
+  type: DiscountRuleEffectType;
+  value: number;
+}
+
+/** Evaluated in Bangkok local time. */
+export interface DiscountRuleSchedule {
+  startsAt?: string | null;
+  endsAt?: string | null;
+  /** 0 = Sunday … 6 = Saturday. */
+  daysOfWeek?: number[] | null;
+  /** `HH:mm`; an end before the start wraps past midnight. */
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+export interface DiscountRuleConditions {
+  membershipTiers?: string[] | null;
+  vendorTiers?: string[] | null;
+  minBasketAmount?: number | null;
+  /** Redemptions the member already made before this one. */
+  minUsesTotal?: number | null;
+  maxUsesTotal?: number | null;
+  maxUsesToday?: number | null;
+  schedule?: DiscountRuleSchedule | null;
+}
+
+export interface DiscountRule {
+  id: string;
+  name: string;
+  stacking: DiscountRuleStacking;
+  effect: DiscountRuleEffect;
+  conditions?: DiscountRuleConditions | null;
+  /** Upper bound on what this rule alone may take off. */
+  maxDiscountAmount?: number | null;
+}
+
+export interface DiscountRuleContext {
+  membershipTier?: string | null;
+  vendorTier?: string | null;
+  grossAmount: number;
+  at?: Date | string | null;
+  usage?: DiscountUsage | null;
+}
+
+export type DiscountRuleSkipReason =
+  | 'membership_tier'
+  | 'vendor_tier'
+  | 'basket_amount'
+  | 'usage'
+  | 'schedule'
+  | 'superseded';
+
+export type DiscountRuleLineKind = 'tier' | 'rule' | 'cap';
+
+export interface DiscountRuleLine {
+  kind: DiscountRuleLineKind;
+  /** Rule id, `tier` for the member's base discount or `cap` for clamping. */
+  id: string;
+  label: string;
+  /** Amount this line takes off; negative for cap adjustments. */
+  amount: number;
+}
+
+export interface DiscountRuleEvaluation {
+  lines: DiscountRuleLine[];
+  appliedRuleIds: string[];
+  skippedRules: { id: string; reason: DiscountRuleSkipReason }[];
+  discountAmount: number;
+  /** Effective percentage of the discountable amount. */
+  discountPercentage: number;
+  capped: boolean;
+}
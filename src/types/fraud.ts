@@ -0,0 +1,43 @@
+/**
+ * - `repeat_scan`: the same member QR was scanned several times in a short
+ *   window, e.g. passed between tills.
+ * - `member_velocity`: the member already redeemed here several times within
+ *   the velocity window.
+ * - `amount_outlier`: the gross amount is far above the vendor's rolling
+ *   average sale.
+ * - `after_failed_lookup`: the scan came right after a rejected or failed
+ *   lookup on this device.
+ */
+export type FraudSignalType =
+  | 'repeat_scan'
+  | 'member_velocity'
+  | 'amount_outlier'
+  | 'after_failed_lookup';
+
+export interface FraudSignal {
+  type: FraudSignalType;
+  /** Value that tripped the check (scan count, redemptions, amount …). */
+  observed: number;
+  threshold: number;
+}
+
+export type ScanOutcome = 'valid' | 'invalid' | 'error';
+
+export interface ScanEvent {
+  token: string;
+  at: string;
+  outcome: ScanOutcome;
+}
+
+export interface FraudAssessment {
+  signals: FraudSignal[];
+  /** Vendor average the outlier check compared against, when available. */
+  averageAmount: number | null;
+}
+
+/** Supervisor approval attached to a flagged redemption. */
+export interface FraudOverride {
+  signals: FraudSignal[];
+  approvedAt: string;
+  approvedBy: 'supervisor_pin';
+}
@@ -0,0 +1,109 @@
+export interface GenealogyNode {
+  id: number;
+  name: string;
+  /** Membership level slug such as `gold`, or null when the member has none. */
+  level: string | null;
+  /** Direct recruits reported by the server, even when they are not loaded. */
+  recruits: number;
+  /** Levels below the signed-in member, who is the root at depth 0. */
+  depth: number;
+  children: GenealogyNode[];
+}
+
+export interface GenealogyTree {
+  root: GenealogyNode;
+  /** Depth the tree was requested with. */
+  depth: number;
+}
+
+export type CommissionStatus = 'pending' | 'paid' | 'cancelled';
+
+/** Direct commissions come from own recruits, passive ones from deeper levels. */
+export type CommissionLevel = 'direct' | 'passive';
+
+export interface CommissionSummary {
+  total: number;
+  paid: number;
+  pending: number;
+}
+
+export interface CommissionEntry {
+  id: string;
+  sponsorId: number | null;
+  /** The recruited member whose purchase earned the commission. */
+  memberId: number | null;
+  memberName: string | null;
+  /** Membership level the member bought, when the server reports it. */
+  membershipLevel: string | null;
+  orderId: number | null;
+  level: CommissionLevel;
+  amount: number;
+  currency: string;
+  status: CommissionStatus;
+  createdAt: string;
+}
+
+export interface CommissionLedger {
+  summary: CommissionSummary;
+  /** Newest first, at most 100 rows. */
+  entries: CommissionEntry[];
+}
+
+export interface CommissionLedgerFilters {
+  status: CommissionStatus | null;
+  level: CommissionLevel | null;
+}
+
+/** What an automatic upgrade counts. */
+export type UpgradeMetric = 'directRecruits' | 'activeNetwork';
+
+export interface MembershipUpgradeRule {
+  nextTier: string;
+  metric: UpgradeMetric;
+  threshold: number;
+}
+
+/** The signed-in member as reported by `/tcn-mlm/v1/member`. */
+export interface MlmMemberProfile {
+  id: number;
+  name: string;
+  level: string | null;
+  directRecruits: number;
+  sponsorId: number | null;
+}
+
+export interface UpgradeRecruit {
+  id: number;
+  name: string;
+  level: string | null;
+  /** Whether the recruit counts towards an `activeNetwork` rule. */
+  active: boolean;
+}
+
+export interface UpgradeProgress {
+  tier: string | null;
+  /** Null when the tier has no automatic upgrade. */
+  rule: MembershipUpgradeRule | null;
+  current: number;
+  /** Between 0 and 1. */
+  ratio: number;
+  remaining: number;
+  recruits: UpgradeRecruit[];
+}
+
+/** Sponsor resolved from a referral code before registration. */
+export interface ReferralSponsor {
+  id: number;
+  code: string;
+  name: string;
+  level: string | null;
+}
+
+export type ReferralSource = 'link' | 'qr' | 'manual';
+
+/** Referral code waiting for the registration form. */
+export interface PendingReferral {
+  code: string;
+  source: ReferralSource;
+  receivedAt: number;
+}
@@ -0,0 +1,16 @@
+/**
+ * - `member`: member card shown at the till.
+ * - `vendor_promo`: promotion poster printed by a vendor.
+ * - `referral`: sponsor code shared by a member.
+ * - `event_ticket`: ticket checked at a TCN event entrance.
+ */
+export type TcnQrType = 'member' | 'vendor_promo' | 'referral' | 'event_ticket';
+
+export interface DecodedTcnQr {
+  type: TcnQrType;
+  /** Token or code carried by the QR, already URL-decoded. */
+  value: string;
+  version: number;
+  /** True for raw member tokens printed before the versioned scheme. */
+  legacy: boolean;
+}
@@ -0,0 +1,47 @@
+import { TransactionReversalReason, TransactionStatus } from './transactions';
+
+export interface SettlementAmounts {
+  count: number;
+  gross: number;
+  discount: number;
+  net: number;
+  refunded: number;
+  /** Net takings once refunds issued against the day's sales are removed. */
+  settled: number;
+}
+
+export interface SettlementTierTotals extends SettlementAmounts {
+  tier: string;
+}
+
+export interface SettlementLineItem {
+  id: string;
+  createdAt: string;
+  status: TransactionStatus;
+  memberName: string | null;
+  membershipTier: string | null;
+  grossAmount: number;
+  netAmount: number;
+  reason: TransactionReversalReason | null;
+  errorMessage: string | null;
+}
+
+export interface SettlementReport {
+  id: string;
+  businessDate: string;
+  timezone: string;
+  periodStart: string;
+  periodEnd: string;
+  vendorId: number | null;
+  vendorName: string | null;
+  currency: string;
+  generatedAt: string;
+  totals: SettlementAmounts;
+  byTier: SettlementTierTotals[];
+  statusCounts: Record<TransactionStatus, number>;
+  failedItems: SettlementLineItem[];
+  voidedItems: SettlementLineItem[];
+  firstTransactionId: string | null;
+  lastTransactionId: string | null;
+  transactionIds: string[];
+}
@@ -1,4 +1,7 @@
 import { MembershipInfo } from './auth';
+import { DiscountRule, DiscountRuleEvaluation } from './discountRules';
+import { FraudOverride } from './fraud';
+import { CashierAttribution } from './vendor';
 
 export type MembershipTier =
   | 'Blue'
@@ -12,7 +15,31 @@ export type VendorTier =
   | 'Diamond'
   | (string & {});
 
-export type TransactionStatus = 'pending' | 'completed' | 'failed';
+export type TransactionStatus =
+  | 'pending'
+  | 'completed'
+  | 'failed'
+  | 'voided'
+  | 'refunded'
+  | 'partially_refunded';
+
+export type TransactionReversalReason =
+  | 'wrong_amount'
+  | 'wrong_member'
+  | 'customer_cancelled'
+  | 'duplicate'
+  | 'other';
+
+export type TransactionDisputeReason =
+  | 'not_me'
+  | 'wrong_amount'
+  | 'discount_not_applied';
+
+export type TransactionDisputeStatus =
+  | 'open'
+  | 'in_review'
+  | 'resolved'
+  | 'rejected';
 
 export type DiscountDescriptorType = 'percentage' | 'amount' | (string & {});
 
@@ -22,7 +49,10 @@ export interface DiscountDescriptor {
   type: DiscountDescriptorType;
   value: number;
   currency?: string | null;
+  /** Total redemptions allowed over the life of the entitlement. */
   maxUses?: number | null;
+  maxUsesPerDay?: number | null;
+  startsAt?: string | null;
   expiresAt?: string | null;
 }
 
@@ -31,6 +61,69 @@ export interface DiscountUsage {
   usesTotal: number | null;
 }
 
+export type RedemptionEligibilityStatus = 'eligible' | 'warning' | 'blocked';
+
+export type RedemptionEligibilityReason =
+  | 'daily_limit_reached'
+  | 'total_limit_reached'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'last_daily_use'
+  | 'last_use'
+  | 'expiring_soon';
+
+export interface RedemptionEligibility {
+  status: RedemptionEligibilityStatus;
+  reason: RedemptionEligibilityReason | null;
+  /** Server counts plus redemptions recorded on this device since lookup. */
+  usesToday: number;
+  usesTotal: number;
+  remainingToday: number | null;
+  remainingTotal: number | null;
+  /** When a blocked redemption becomes possible again, if ever. */
+  nextAllowedAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface BasketLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  /**
+   * False for goods excluded from member discounts such as alcohol, tobacco
+   * or items that are already on promotion.
+   */
+  discountable: boolean;
+}
+
+export type DiscountApplication =
+  | 'before_service_charge'
+  | 'after_service_charge';
+
+export interface VendorTaxSettings {
+  /** Service charge percentage, e.g. 10 for a 10% service charge. */
+  serviceChargeRate: number;
+  /** VAT percentage, 7 in Thailand. */
+  vatRate: number;
+  /** True when menu prices already include VAT. */
+  pricesIncludeVat: boolean;
+  discountApplication: DiscountApplication;
+}
+
+export interface TaxBreakdown {
+  /** Gross plus service charge minus discount, before VAT is added. */
+  subtotal: number;
+  serviceChargeRate: number;
+  serviceChargeAmount: number;
+  vatRate: number;
+  /** VAT added on top, or the VAT share contained in VAT-inclusive prices. */
+  vatAmount: number;
+  pricesIncludeVat: boolean;
+  discountApplication: DiscountApplication;
+  totalAmount: number;
+}
+
 export interface DiscountCalculationRequest {
   membershipTier?: string | null;
   vendorTier?: string | null;
@@ -39,7 +132,17 @@ export interface DiscountCalculationRequest {
   memberToken?: string | null;
   memberId?: number | null;
   vendorId?: number | null;
+  /** Branch of a multi-outlet vendor where the redemption happens. */
+  outletId?: string | null;
   discountDescriptor?: DiscountDescriptor | null;
+  lineItems?: BasketLineItem[] | null;
+  taxSettings?: VendorTaxSettings | null;
+  /** Campaign rules to apply, usually those returned by the member lookup. */
+  discountRules?: DiscountRule[] | null;
+  /** Member usage counts that first-visit or frequency rules depend on. */
+  usage?: DiscountUsage | null;
+  /** Vendor promotion scanned from a `tcn://p/...` code for this sale. */
+  promoCode?: string | null;
 }
 
 export interface DiscountCalculationResult {
@@ -51,7 +154,16 @@ export interface DiscountCalculationResult {
   vendorTier?: string | null;
   message?: string | null;
   grossAmount?: number | null;
+  /** Portion of the gross amount the discount was applied to. */
+  discountableAmount?: number | null;
   discountDescriptor?: DiscountDescriptor | null;
+  /**
+   * Service charge and VAT components. `netAmount` stays gross minus discount
+   * so the payable total including both lives in `totalAmount`.
+   */
+  taxBreakdown?: TaxBreakdown | null;
+  /** Tier discount plus each campaign rule that contributed to the total. */
+  ruleEvaluation?: DiscountRuleEvaluation | null;
 }
 
 export interface RecordTransactionRequest
@@ -63,9 +175,19 @@ export interface RecordTransactionRequest
   membership?: MembershipInfo | null;
   notes?: string | null;
   metadata?: Record<string, unknown>;
+  idempotencyKey?: string | null;
   discountPercentage?: number | null;
   discountAmount?: number | null;
   netAmount?: number | null;
+  taxBreakdown?: TaxBreakdown | null;
+  ruleEvaluation?: DiscountRuleEvaluation | null;
+  /** Cashier unlocked on the vendor device when the sale was rung up. */
+  cashier?: CashierAttribution | null;
+  outletName?: string | null;
+  /** Supervisor approval for a redemption that tripped fraud signals. */
+  fraudOverride?: FraudOverride | null;
+  /** Hold the redemption as pending until the member confirms it. */
+  requireMemberApproval?: boolean;
 }
 
 export interface TransactionRecord extends DiscountCalculationResult {
@@ -79,6 +201,111 @@ export interface TransactionRecord extends DiscountCalculationResult {
   status: TransactionStatus;
   createdAt: string;
   errorMessage?: string | null;
+  retryable?: boolean | null;
+  idempotencyKey?: string | null;
+  refundedAmount?: number | null;
+  reversalReason?: TransactionReversalReason | null;
+  reversalNote?: string | null;
+  reversedAt?: string | null;
+  lineItems?: BasketLineItem[] | null;
+  cashierId?: string | null;
+  cashierName?: string | null;
+  outletId?: string | null;
+  outletName?: string | null;
+  approvalStatus?: MemberApprovalStatus | null;
+  disputeId?: string | null;
+  disputeStatus?: TransactionDisputeStatus | null;
+}
+
+export type MemberApprovalStatus =
+  | 'awaiting_member'
+  | 'approved'
+  | 'declined'
+  | 'expired';
+
+export type MemberApprovalDecision = 'approve' | 'decline';
+
+/** Redemption a vendor rang up that is waiting for the member to confirm. */
+export interface RedemptionApprovalRequest {
+  transactionId: string;
+  vendorName: string | null;
+  outletName: string | null;
+  grossAmount: number;
+  discountAmount: number;
+  netAmount: number;
+  currency: string;
+  requestedAt: string;
+  expiresAt: string | null;
+}
+
+export interface VoidTransactionRequest {
+  reason: TransactionReversalReason;
+  note?: string | null;
+}
+
+export interface RefundTransactionRequest extends VoidTransactionRequest {
+  /**
+   * Amount of the net total returned to the member. Omit for a full refund.
+   */
+  amount?: number | null;
+}
+
+export interface TransactionDisputePhoto {
+  uri: string;
+  fileName?: string | null;
+  mimeType?: string | null;
+}
+
+export interface CreateTransactionDisputeRequest {
+  reason: TransactionDisputeReason;
+  note?: string | null;
+  photo?: TransactionDisputePhoto | null;
+}
+
+export type TransactionDisputeRole = 'member' | 'vendor' | 'admin';
+
+export interface TransactionDisputeMessage {
+  id: string;
+  authorRole: TransactionDisputeRole;
+  authorName: string | null;
+  message: string;
+  /** Status the author moved the dispute to, if any. */
+  status: TransactionDisputeStatus | null;
+  createdAt: string;
+}
+
+export interface TransactionDispute {
+  id: string;
+  transactionId: string;
+  reason: TransactionDisputeReason;
+  note: string | null;
+  photoUrl: string | null;
+  status: TransactionDisputeStatus;
+  createdAt: string;
+  updatedAt: string | null;
+  memberName: string | null;
+  vendorName: string | null;
+  outletName: string | null;
+  grossAmount: number | null;
+  discountAmount: number | null;
+  netAmount: number | null;
+  transactionCreatedAt: string | null;
+  messages: TransactionDisputeMessage[];
+}
+
+export interface RespondToDisputeRequest {
+  message: string;
+  status?: TransactionDisputeStatus | null;
+}
+
+export interface TransactionOutboxEntry {
+  id: string;
+  request: RecordTransactionRequest;
+  record: TransactionRecord;
+  attempts: number;
+  queuedAt: string;
+  nextAttemptAt: string;
+  lastError?: string | null;
 }
 
 export interface MemberLookupResult {
@@ -92,5 +319,107 @@ export interface MemberLookupResult {
   discountDescriptor?: DiscountDescriptor | null;
   eligible?: boolean | null;
   usage?: DiscountUsage | null;
+  discountRules?: DiscountRule[] | null;
   message?: string | null;
 }
+
+export type MemberSearchField = 'member_number' | 'phone' | 'email';
+
+export interface MemberSearchQuery {
+  field: MemberSearchField;
+  value: string;
+}
+
+/**
+ * Masked search hit shown to the vendor. `token` is a short-lived lookup
+ * token issued by the server, never the member's own QR token.
+ */
+export interface MemberSearchCandidate {
+  token: string;
+  initials: string;
+  membershipTier?: string | null;
+  /** Last four digits of the member number or phone that matched. */
+  lastDigits?: string | null;
+}
+
+export type ScanQueueStatus = 'validating' | 'ready' | 'invalid' | 'error';
+
+/** Member waiting at the till while the vendor scans in continuous mode. */
+export interface ScanQueueEntry {
+  id: string;
+  token: string;
+  scannedAt: string;
+  status: ScanQueueStatus;
+  result: MemberLookupResult | null;
+  /** When the background lookup finished, used for eligibility checks. */
+  lookedUpAt: string | null;
+  errorMessage: string | null;
+}
+
+export interface TransactionHistoryFilters {
+  /** Inclusive ISO-8601 lower bound on `createdAt`. */
+  from?: string | null;
+  /** Inclusive ISO-8601 upper bound on `createdAt`. */
+  to?: string | null;
+  statuses?: TransactionStatus[] | null;
+  membershipTier?: MembershipTier | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  outletId?: string | null;
+}
+
+export interface TransactionHistoryQuery extends TransactionHistoryFilters {
+  cursor?: string | null;
+  page?: number | null;
+  perPage?: number | null;
+}
+
+export interface TransactionHistoryPage {
+  records: TransactionRecord[];
+  nextCursor: string | null;
+  nextPage: number | null;
+  hasMore: boolean;
+  total: number | null;
+}
+
+/** Records gathered across history pages by `collectTransactionHistory`. */
+export interface TransactionHistoryCollection {
+  records: TransactionRecord[];
+  /** True when paging stopped at the page cap while the server had more. */
+  truncated: boolean;
+}
+
+export type TransactionExportFormat = 'csv' | 'json';
+
+export type TransactionExportColumn =
+  | 'id'
+  | 'createdAt'
+  | 'status'
+  | 'memberName'
+  | 'membershipTier'
+  | 'vendorName'
+  | 'grossAmount'
+  | 'discountPercentage'
+  | 'discountAmount'
+  | 'netAmount'
+  | 'refundedAmount'
+  | 'currency'
+  | 'reversalReason';
+
+export interface TransactionExportRequest {
+  format: TransactionExportFormat;
+  columns: TransactionExportColumn[];
+  /** Inclusive ISO-8601 lower bound on `createdAt`. */
+  from?: string | null;
+  /** Inclusive ISO-8601 upper bound on `createdAt`. */
+  to?: string | null;
+}
+
+export interface TransactionExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  count: number;
+  /** True when history paging hit the page cap, so older rows are missing. */
+  truncated?: boolean;
+}
@@ -0,0 +1,24 @@
+declare module 'upng-js' {
+  interface PngImage {
+    width: number;
+    height: number;
+    depth: number;
+    ctype: number;
+    frames: unknown[];
+    tabs: Record<string, unknown>;
+    data: ArrayBuffer;
+  }
+
+  const UPNG: {
+    decode(buffer: ArrayBuffer): PngImage;
+    toRGBA8(image: PngImage): ArrayBuffer[];
+    encode(
+      frames: ArrayBuffer[],
+      width: number,
+      height: number,
+      colors: number,
+    ): ArrayBuffer;
+  };
+
+  export default UPNG;
+}
@@ -12,3 +12,34 @@ export interface VendorTierDefinition {
   benefits?: string[] | null;
   metadata?: Record<string, unknown> | null;
 }
+
+export interface VendorTierCatalog {
+  tiers: VendorTierDefinition[];
+  /** Server supplied revision of the tier rates, when the endpoint sends one. */
+  version: string | null;
+}
+
+/** A till operator under a vendor account, unlocked with their own PIN. */
+export interface VendorCashier {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export type CashierAttribution = Pick<VendorCashier, 'id' | 'name'>;
+
+export interface VendorOutletHours {
+  /** 0 = Sunday … 6 = Saturday. */
+  day: number;
+  /** `HH:mm` in Bangkok time. */
+  opens: string;
+  closes: string;
+}
+
+/** A branch of a vendor chain; redemptions are scoped to one outlet. */
+export interface VendorOutlet {
+  id: string;
+  name: string;
+  address: string | null;
+  openingHours: VendorOutletHours[];
+}
@@ -0,0 +1,66 @@
+import { BasketLineItem } from '../types/transactions';
+import { generateSalt } from './hash';
+
+export interface BasketSummary {
+  grossAmount: number;
+  discountableAmount: number;
+  excludedAmount: number;
+  itemCount: number;
+}
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+const toFiniteNonNegative = (value: number): number =>
+  Number.isFinite(value) && value > 0 ? value : 0;
+
+export const createBasketLineItem = (
+  overrides: Partial<BasketLineItem> = {},
+): BasketLineItem => ({
+  id: `line-${generateSalt(8)}`,
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  discountable: true,
+  ...overrides,
+});
+
+export const getLineItemTotal = (item: BasketLineItem): number =>
+  roundCurrency(
+    toFiniteNonNegative(item.quantity) * toFiniteNonNegative(item.unitPrice),
+  );
+
+export const summarizeBasket = (items: BasketLineItem[]): BasketSummary => {
+  let grossAmount = 0;
+  let discountableAmount = 0;
+  let itemCount = 0;
+
+  items.forEach(item => {
+    const total = getLineItemTotal(item);
+    if (total <= 0) {
+      return;
+    }
+    grossAmount += total;
+    itemCount += toFiniteNonNegative(item.quantity);
+    if (item.discountable) {
+      discountableAmount += total;
+    }
+  });
+
+  return {
+    grossAmount: roundCurrency(grossAmount),
+    discountableAmount: roundCurrency(discountableAmount),
+    excludedAmount: roundCurrency(grossAmount - discountableAmount),
+    itemCount,
+  };
+};
+
+/**
+ * Drops empty rows so only lines that contribute to the total are sent to
+ * the server and stored on the transaction.
+ */
+export const getBillableLineItems = (
+  items: BasketLineItem[],
+): BasketLineItem[] =>
+  items
+    .filter(item => getLineItemTotal(item) > 0)
+    .map(item => ({ ...item, description: item.description.trim() }));
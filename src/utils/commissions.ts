@@ -0,0 +1,95 @@
+import { MLM_CONFIG } from '../config/mlmConfig';
+import {
+  CommissionEntry,
+  CommissionLedgerFilters,
+  CommissionLevel,
+} from '../types/mlm';
+import { clampToMonthStart, getMonthKey } from './transactionAnalytics';
+
+export interface MonthlyCommissionDatum {
+  monthKey: string;
+  date: Date;
+  total: number;
+  count: number;
+}
+
+export interface CommissionMemberSummary {
+  memberId: number | null;
+  memberName: string | null;
+  membershipLevel: string | null;
+  entries: CommissionEntry[];
+  /** Earned from this member, cancelled rows excluded. */
+  total: number;
+}
+
+export const filterCommissionLedger = (
+  entries: CommissionEntry[],
+  { status, level }: CommissionLedgerFilters,
+): CommissionEntry[] =>
+  entries.filter(
+    entry =>
+      (!status || entry.status === status) && (!level || entry.level === level),
+  );
+
+const earned = (entries: CommissionEntry[]): number =>
+  entries
+    .filter(entry => entry.status !== 'cancelled')
+    .reduce((total, entry) => total + entry.amount, 0);
+
+/** Earnings per month for the chart. Cancelled commissions are left out. */
+export const buildMonthlyCommissions = (
+  entries: CommissionEntry[],
+  months = MLM_CONFIG.commissions.chartMonths,
+  referenceDate = new Date(),
+): MonthlyCommissionDatum[] => {
+  const reference = clampToMonthStart(new Date(referenceDate));
+  const buckets = new Map<string, MonthlyCommissionDatum>();
+
+  for (let offset = months - 1; offset >= 0; offset -= 1) {
+    const date = new Date(
+      Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() - offset, 1),
+    );
+    const monthKey = getMonthKey(date);
+    buckets.set(monthKey, { monthKey, date, total: 0, count: 0 });
+  }
+
+  entries.forEach(entry => {
+    const createdAt = new Date(entry.createdAt);
+    if (entry.status === 'cancelled' || Number.isNaN(createdAt.getTime())) {
+      return;
+    }
+    const bucket = buckets.get(getMonthKey(clampToMonthStart(createdAt)));
+    if (bucket) {
+      bucket.total += entry.amount;
+      bucket.count += 1;
+    }
+  });
+
+  return Array.from(buckets.values());
+};
+
+export const buildCommissionLevelTotals = (
+  entries: CommissionEntry[],
+): Record<CommissionLevel, number> => ({
+  direct: earned(entries.filter(entry => entry.level === 'direct')),
+  passive: earned(entries.filter(entry => entry.level === 'passive')),
+});
+
+/** Collects every ledger row earned from the member behind `entry`. */
+export const summarizeCommissionMember = (
+  entries: CommissionEntry[],
+  entry: CommissionEntry,
+): CommissionMemberSummary => {
+  const memberEntries =
+    entry.memberId === null
+      ? [entry]
+      : entries.filter(item => item.memberId === entry.memberId);
+  return {
+    memberId: entry.memberId,
+    memberName: memberEntries.find(item => item.memberName)?.memberName ?? null,
+    membershipLevel:
+      memberEntries.find(item => item.membershipLevel)?.membershipLevel ?? null,
+    entries: memberEntries,
+    total: earned(memberEntries),
+  };
+};
@@ -0,0 +1,33 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const UTF8_BOM = '\uFEFF';
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+// RFC 4180: fields containing a delimiter, quote or line break are quoted and
+// embedded quotes are doubled. Text that a spreadsheet would run as a formula
+// (member names and notes are user input) is prefixed with `'` and quoted;
+// plain numbers such as negative refund amounts are left alone.
+const escapeCsvField = (value: CsvValue): string => {
+  if (value == null) {
+    return '';
+  }
+  const text = String(value);
+  if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises rows to RFC 4180 CSV with CRLF line endings. The UTF-8 byte
+ * order mark is included by default so spreadsheet apps detect Thai text.
+ */
+export const toCsv = (
+  rows: CsvValue[][],
+  { includeBom = true }: { includeBom?: boolean } = {},
+): string => {
+  const body = rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+  return `${includeBom ? UTF8_BOM : ''}${body}\r\n`;
+};
@@ -1,6 +1,18 @@
-import { MembershipTier, VendorTier } from '../types/transactions';
+import {
+  DiscountDescriptor,
+  MembershipTier,
+  TaxBreakdown,
+  VendorTaxSettings,
+  VendorTier,
+} from '../types/transactions';
+import {
+  DiscountRule,
+  DiscountRuleContext,
+  DiscountRuleEvaluation,
+} from '../types/discountRules';
+import { evaluateDiscountRules } from './discountRules';
 
-type DiscountMatrix = Record<string, Record<string, number>>;
+export type DiscountMatrix = Record<string, Record<string, number>>;
 
 const normalize = (value?: string | null): string =>
   value ? value.trim().toLowerCase() : '';
@@ -41,33 +53,198 @@ export const getDiscountPercentageForTiers = (
     : 0;
 };
 
+interface DiscountBreakdown {
+  discountPercentage: number;
+  discountAmount: number;
+  netAmount: number;
+  grossAmount: number;
+  taxBreakdown?: TaxBreakdown;
+  ruleEvaluation?: DiscountRuleEvaluation;
+}
+
+export interface DiscountCalculationOptions {
+  /** Part of the gross amount the discount may apply to. Defaults to all. */
+  discountableAmount?: number;
+  /** Vendor VAT and service charge rules. Omit to ignore tax entirely. */
+  taxSettings?: VendorTaxSettings | null;
+  /** Campaign rules evaluated in order on top of the tier discount. */
+  rules?: DiscountRule[] | null;
+  ruleContext?: Omit<DiscountRuleContext, 'grossAmount'> | null;
+}
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+const clampDiscountable = (grossAmount: number, discountableAmount?: number) =>
+  discountableAmount != null && Number.isFinite(discountableAmount)
+    ? Math.min(Math.max(discountableAmount, 0), grossAmount)
+    : grossAmount;
+
+/**
+ * Runs the discount through the campaign rules and then the vendor's service
+ * charge and VAT rules. The discount is taken from the discountable lines
+ * either before service charge is added or from the service-inclusive amount,
+ * and never exceeds that base. VAT is extracted from the total for
+ * VAT-inclusive menus and added on top otherwise.
+ */
+const buildBreakdown = (
+  grossAmount: number,
+  discountableAmount: number,
+  discountPercentage: number,
+  computeDiscount: (base: number) => number,
+  { taxSettings, rules, ruleContext }: DiscountCalculationOptions,
+): DiscountBreakdown => {
+  const resolveDiscount = (
+    base: number,
+  ): Pick<
+    DiscountBreakdown,
+    'discountPercentage' | 'discountAmount' | 'ruleEvaluation'
+  > => {
+    const ceiling = roundCurrency(Math.max(base, 0));
+    const tierDiscountAmount = Math.min(
+      roundCurrency(computeDiscount(base)),
+      ceiling,
+    );
+    if (!rules?.length) {
+      return { discountPercentage, discountAmount: tierDiscountAmount };
+    }
+    const ruleEvaluation = evaluateDiscountRules(
+      rules,
+      { ...ruleContext, grossAmount },
+      { eligibleAmount: base, tierDiscountAmount },
+    );
+    return {
+      discountPercentage: ruleEvaluation.discountPercentage,
+      discountAmount: Math.min(ruleEvaluation.discountAmount, ceiling),
+      ruleEvaluation,
+    };
+  };
+
+  if (!taxSettings) {
+    const resolved = resolveDiscount(discountableAmount);
+    return {
+      ...resolved,
+      netAmount: roundCurrency(
+        Math.max(grossAmount - resolved.discountAmount, 0),
+      ),
+      grossAmount: roundCurrency(grossAmount),
+    };
+  }
+
+  const serviceRate = Math.max(taxSettings.serviceChargeRate, 0) / 100;
+  const vatRate = Math.max(taxSettings.vatRate, 0) / 100;
+  const afterServiceCharge =
+    taxSettings.discountApplication === 'after_service_charge';
+
+  const resolved = resolveDiscount(
+    afterServiceCharge
+      ? discountableAmount * (1 + serviceRate)
+      : discountableAmount,
+  );
+  const { discountAmount } = resolved;
+  const serviceChargeAmount = roundCurrency(
+    (afterServiceCharge ? grossAmount : grossAmount - discountAmount) *
+      serviceRate,
+  );
+  const subtotal = roundCurrency(
+    grossAmount + serviceChargeAmount - discountAmount,
+  );
+  const vatAmount = roundCurrency(
+    taxSettings.pricesIncludeVat
+      ? (subtotal * vatRate) / (1 + vatRate)
+      : subtotal * vatRate,
+  );
+  const totalAmount = taxSettings.pricesIncludeVat
+    ? subtotal
+    : roundCurrency(subtotal + vatAmount);
+
+  return {
+    ...resolved,
+    // The service-inclusive base can exceed the gross amount.
+    netAmount: roundCurrency(Math.max(grossAmount - discountAmount, 0)),
+    grossAmount: roundCurrency(grossAmount),
+    taxBreakdown: {
+      subtotal,
+      serviceChargeRate: taxSettings.serviceChargeRate,
+      serviceChargeAmount,
+      vatRate: taxSettings.vatRate,
+      vatAmount,
+      pricesIncludeVat: taxSettings.pricesIncludeVat,
+      discountApplication: taxSettings.discountApplication,
+      totalAmount,
+    },
+  };
+};
+
+/**
+ * Applies the tier percentage to the discountable part of the basket. When no
+ * discountable amount is given the whole gross amount is eligible.
+ */
 export const calculateDiscountForAmount = (
   grossAmount: number,
   membershipTier?: MembershipTier | string | null,
   vendorTier?: VendorTier | string | null,
   matrix: DiscountMatrix = DEFAULT_DISCOUNT_MATRIX,
-): {
-  discountPercentage: number;
-  discountAmount: number;
-  netAmount: number;
-  grossAmount: number;
-} => {
+  options: DiscountCalculationOptions = {},
+): DiscountBreakdown => {
   const normalizedGross = Number.isFinite(grossAmount) ? grossAmount : 0;
+  const eligible = clampDiscountable(
+    normalizedGross,
+    options.discountableAmount,
+  );
   const discountPercentage = getDiscountPercentageForTiers(
     membershipTier ?? undefined,
     vendorTier ?? undefined,
     matrix,
   );
 
-  const discountAmount = Number(
-    ((normalizedGross * discountPercentage) / 100).toFixed(2),
+  return buildBreakdown(
+    normalizedGross,
+    eligible,
+    discountPercentage,
+    base => (base * discountPercentage) / 100,
+    {
+      ...options,
+      ruleContext: { membershipTier, vendorTier, ...options.ruleContext },
+    },
   );
-  const netAmount = Number((normalizedGross - discountAmount).toFixed(2));
+};
 
-  return {
+/**
+ * Same as `calculateDiscountForAmount` but driven by a server supplied
+ * descriptor. Fixed amounts are capped at the discountable total and their
+ * percentage is reported relative to it.
+ */
+export const calculateDiscountForDescriptor = (
+  grossAmount: number,
+  descriptor: DiscountDescriptor,
+  options: DiscountCalculationOptions = {},
+): DiscountBreakdown => {
+  const normalizedGross = Number.isFinite(grossAmount) ? grossAmount : 0;
+  const eligible = clampDiscountable(
+    normalizedGross,
+    options.discountableAmount,
+  );
+
+  if (descriptor.type === 'amount') {
+    const fixedAmount = Math.min(descriptor.value, eligible);
+    return buildBreakdown(
+      normalizedGross,
+      eligible,
+      eligible ? roundCurrency((fixedAmount / eligible) * 100) : 0,
+      base => Math.min(descriptor.value, base),
+      options,
+    );
+  }
+
+  const discountPercentage =
+    descriptor.value > 1
+      ? roundCurrency(descriptor.value)
+      : roundCurrency(descriptor.value * 100);
+  return buildBreakdown(
+    normalizedGross,
+    eligible,
     discountPercentage,
-    discountAmount,
-    netAmount,
-    grossAmount: Number(normalizedGross.toFixed(2)),
-  };
+    base => (base * discountPercentage) / 100,
+    options,
+  );
 };
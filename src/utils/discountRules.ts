@@ -0,0 +1,209 @@
+import { DISCOUNT_RULES_CONFIG } from '../config/discountRulesConfig';
+import {
+  DiscountRule,
+  DiscountRuleContext,
+  DiscountRuleEvaluation,
+  DiscountRuleLine,
+  DiscountRuleSchedule,
+  DiscountRuleSkipReason,
+} from '../types/discountRules';
+
+export interface DiscountRuleBase {
+  /** Amount the percentages apply to, after basket exclusions. */
+  eligibleAmount: number;
+  /** What the member's tier (or server descriptor) alone would take off. */
+  tierDiscountAmount: number;
+}
+
+const OFFSET_MS = DISCOUNT_RULES_CONFIG.utcOffsetMinutes * 60 * 1000;
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+const normalize = (value?: string | null): string =>
+  value ? value.trim().toLowerCase() : '';
+
+const toMinutes = (value?: string | null): number | null => {
+  const match = value ? /^(\d{1,2}):(\d{2})$/.exec(value.trim()) : null;
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const matchesTier = (
+  allowed: string[] | null | undefined,
+  tier?: string | null,
+) =>
+  !allowed?.length ||
+  allowed.some(entry => normalize(entry) === normalize(tier));
+
+export const matchesSchedule = (
+  schedule: DiscountRuleSchedule,
+  at: Date,
+): boolean => {
+  const time = at.getTime();
+  if (schedule.startsAt && time < Date.parse(schedule.startsAt)) {
+    return false;
+  }
+  if (schedule.endsAt && time >= Date.parse(schedule.endsAt)) {
+    return false;
+  }
+
+  const local = new Date(time + OFFSET_MS);
+  if (
+    schedule.daysOfWeek?.length &&
+    !schedule.daysOfWeek.includes(local.getUTCDay())
+  ) {
+    return false;
+  }
+
+  const start = toMinutes(schedule.startTime);
+  const end = toMinutes(schedule.endTime);
+  if (start == null || end == null) {
+    return true;
+  }
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+const findSkipReason = (
+  rule: DiscountRule,
+  context: DiscountRuleContext,
+  at: Date,
+): DiscountRuleSkipReason | null => {
+  const conditions = rule.conditions;
+  if (!conditions) {
+    return null;
+  }
+  if (!matchesTier(conditions.membershipTiers, context.membershipTier)) {
+    return 'membership_tier';
+  }
+  if (!matchesTier(conditions.vendorTiers, context.vendorTier)) {
+    return 'vendor_tier';
+  }
+  if (
+    conditions.minBasketAmount != null &&
+    context.grossAmount < conditions.minBasketAmount
+  ) {
+    return 'basket_amount';
+  }
+
+  const usesTotal = context.usage?.usesTotal ?? 0;
+  const usesToday = context.usage?.usesToday ?? 0;
+  if (
+    (conditions.minUsesTotal != null && usesTotal < conditions.minUsesTotal) ||
+    (conditions.maxUsesTotal != null && usesTotal > conditions.maxUsesTotal) ||
+    (conditions.maxUsesToday != null && usesToday > conditions.maxUsesToday)
+  ) {
+    return 'usage';
+  }
+  if (conditions.schedule && !matchesSchedule(conditions.schedule, at)) {
+    return 'schedule';
+  }
+  return null;
+};
+
+const getRuleAmount = (rule: DiscountRule, base: DiscountRuleBase): number => {
+  const { type, value } = rule.effect;
+  let amount: number;
+  if (type === 'amount') {
+    amount = value;
+  } else if (type === 'multiplier') {
+    // Stacked multipliers add the extra share on top of the tier line that is
+    // already present; an exclusive one replaces it entirely.
+    amount =
+      base.tierDiscountAmount *
+      (rule.stacking === 'exclusive' ? value : value - 1);
+  } else {
+    amount = (base.eligibleAmount * value) / 100;
+  }
+
+  if (rule.maxDiscountAmount != null) {
+    amount = Math.min(amount, rule.maxDiscountAmount);
+  }
+  return roundCurrency(Math.max(amount, 0));
+};
+
+/**
+ * Walks the rules in order on top of the tier discount and returns every
+ * line that contributed. The total is clamped to `maxTotalPercentage` of the
+ * eligible amount; any clamping shows up as a negative `cap` line.
+ */
+export const evaluateDiscountRules = (
+  rules: DiscountRule[],
+  context: DiscountRuleContext,
+  base: DiscountRuleBase,
+  maxTotalPercentage: number = DISCOUNT_RULES_CONFIG.maxTotalPercentage,
+): DiscountRuleEvaluation => {
+  const at = context.at ? new Date(context.at) : new Date();
+  let lines: DiscountRuleLine[] =
+    base.tierDiscountAmount > 0
+      ? [
+          {
+            kind: 'tier',
+            id: 'tier',
+            label: context.membershipTier ?? 'tier',
+            amount: roundCurrency(base.tierDiscountAmount),
+          },
+        ]
+      : [];
+  let appliedRuleIds: string[] = [];
+  const skippedRules: DiscountRuleEvaluation['skippedRules'] = [];
+
+  for (let index = 0; index < rules.length; index += 1) {
+    const rule = rules[index];
+    const reason = findSkipReason(rule, context, at);
+    if (reason) {
+      skippedRules.push({ id: rule.id, reason });
+      continue;
+    }
+
+    const line: DiscountRuleLine = {
+      kind: 'rule',
+      id: rule.id,
+      label: rule.name,
+      amount: getRuleAmount(rule, base),
+    };
+    if (rule.stacking === 'exclusive') {
+      lines = [line];
+      appliedRuleIds = [rule.id];
+      rules.slice(index + 1).forEach(remaining => {
+        skippedRules.push({ id: remaining.id, reason: 'superseded' });
+      });
+      break;
+    }
+    lines.push(line);
+    appliedRuleIds.push(rule.id);
+  }
+
+  const requested = roundCurrency(
+    lines.reduce((sum, line) => sum + line.amount, 0),
+  );
+  const ceiling = roundCurrency(
+    Math.max(base.eligibleAmount, 0) * (Math.max(maxTotalPercentage, 0) / 100),
+  );
+  const capped = requested > ceiling;
+  if (capped) {
+    lines.push({
+      kind: 'cap',
+      id: 'cap',
+      label: 'cap',
+      amount: roundCurrency(ceiling - requested),
+    });
+  }
+  const discountAmount = capped ? ceiling : requested;
+
+  return {
+    lines,
+    appliedRuleIds,
+    skippedRules,
+    discountAmount,
+    discountPercentage:
+      base.eligibleAmount > 0
+        ? roundCurrency((discountAmount / base.eligibleAmount) * 100)
+        : 0,
+    capped,
+  };
+};
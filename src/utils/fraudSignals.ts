@@ -0,0 +1,137 @@
+import { FRAUD_CONFIG } from '../config/fraudConfig';
+import { REDEMPTION_ELIGIBILITY_CONFIG } from '../config/redemptionEligibilityConfig';
+import { FraudAssessment, FraudSignal, ScanEvent } from '../types/fraud';
+import { MemberLookupResult, TransactionRecord } from '../types/transactions';
+import { isSameMember } from './redemptionEligibility';
+import { isSettledSale } from './transactionReversal';
+
+export interface FraudAssessmentInput {
+  lookup: Pick<MemberLookupResult, 'token' | 'memberId'>;
+  /**
+   * Member key of the scanned code (`getMemberQrToken`), which is what the
+   * scan log records. The lookup response may carry a different token.
+   */
+  scannedToken: string;
+  grossAmount: number;
+  /** Local transactions and outbox records for this vendor. */
+  records: TransactionRecord[];
+  /** Recent scans on this device, including the one being redeemed. */
+  scans: ScanEvent[];
+  now?: Date;
+}
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+const uniqueRecords = (records: TransactionRecord[]): TransactionRecord[] => {
+  const seen = new Set<string>();
+  return records.filter(record => {
+    const key = record.idempotencyKey ?? record.id;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+const isWithin = (value: string, since: number, until: number): boolean => {
+  const time = Date.parse(value);
+  return Number.isFinite(time) && time >= since && time <= until;
+};
+
+/** Mean gross amount of the vendor's latest settled sales. */
+export const getRollingAverageAmount = (
+  records: TransactionRecord[],
+): number | null => {
+  const amounts = uniqueRecords(records)
+    .filter(record => isSettledSale(record) && (record.grossAmount ?? 0) > 0)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+    .slice(0, FRAUD_CONFIG.rollingSampleSize)
+    .map(record => record.grossAmount ?? 0);
+
+  if (amounts.length < FRAUD_CONFIG.minSamplesForAverage) {
+    return null;
+  }
+  return roundCurrency(
+    amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length,
+  );
+};
+
+/**
+ * Runs the point-of-sale fraud heuristics for a redemption that is about to
+ * be recorded. Any returned signal needs a supervisor override.
+ */
+export const assessRedemptionRisk = ({
+  lookup,
+  scannedToken,
+  grossAmount,
+  records,
+  scans,
+  now = new Date(),
+}: FraudAssessmentInput): FraudAssessment => {
+  const nowTime = now.getTime();
+  const signals: FraudSignal[] = [];
+
+  const repeatScans = scans.filter(
+    scan =>
+      scan.token === scannedToken &&
+      isWithin(scan.at, nowTime - FRAUD_CONFIG.repeatScanWindowMs, nowTime),
+  ).length;
+  if (repeatScans > FRAUD_CONFIG.maxScansPerWindow) {
+    signals.push({
+      type: 'repeat_scan',
+      observed: repeatScans,
+      threshold: FRAUD_CONFIG.maxScansPerWindow,
+    });
+  }
+
+  const recentRedemptions = uniqueRecords(records).filter(
+    record =>
+      REDEMPTION_ELIGIBILITY_CONFIG.countedStatuses.includes(record.status) &&
+      isSameMember(record, lookup) &&
+      isWithin(
+        record.createdAt,
+        nowTime - FRAUD_CONFIG.velocityWindowMs,
+        nowTime,
+      ),
+  ).length;
+  if (recentRedemptions >= FRAUD_CONFIG.maxRedemptionsPerWindow) {
+    signals.push({
+      type: 'member_velocity',
+      observed: recentRedemptions,
+      threshold: FRAUD_CONFIG.maxRedemptionsPerWindow,
+    });
+  }
+
+  const averageAmount = getRollingAverageAmount(records);
+  if (averageAmount != null) {
+    const ceiling = roundCurrency(
+      averageAmount * FRAUD_CONFIG.amountOutlierMultiplier,
+    );
+    if (grossAmount > ceiling) {
+      signals.push({
+        type: 'amount_outlier',
+        observed: grossAmount,
+        threshold: ceiling,
+      });
+    }
+  }
+
+  // A network error on the same code is just a retry; anything else that
+  // failed shortly before suggests someone cycling through QR codes.
+  const failedLookups = scans.filter(
+    scan =>
+      scan.outcome !== 'valid' &&
+      !(scan.outcome === 'error' && scan.token === scannedToken) &&
+      isWithin(scan.at, nowTime - FRAUD_CONFIG.failedLookupWindowMs, nowTime),
+  ).length;
+  if (failedLookups > 0) {
+    signals.push({
+      type: 'after_failed_lookup',
+      observed: failedLookups,
+      threshold: 0,
+    });
+  }
+
+  return { signals, averageAmount };
+};
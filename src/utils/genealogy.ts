@@ -0,0 +1,58 @@
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { COLORS } from '../config/theme';
+import { GenealogyNode } from '../types/mlm';
+
+export const clampGenealogyDepth = (depth: number): number =>
+  Math.min(
+    MLM_CONFIG.genealogy.maxDepth,
+    Math.max(MLM_CONFIG.genealogy.minDepth, Math.round(depth)),
+  );
+
+export const getTierColor = (level: string | null): string =>
+  (level && MLM_CONFIG.tierColors[level.trim().toLowerCase()]) ||
+  COLORS.mutedBorder;
+
+/** True when the node has recruits the current tree did not include. */
+export const hasUnloadedRecruits = (node: GenealogyNode): boolean =>
+  node.recruits > 0 && node.children.length === 0;
+
+export const countDownline = (node: GenealogyNode): number =>
+  node.children.reduce((total, child) => total + 1 + countDownline(child), 0);
+
+/**
+ * Keeps nodes whose name matches the query plus the path leading to them.
+ * Returns null when nothing below the root matches.
+ */
+export const filterGenealogyTree = (
+  node: GenealogyNode,
+  query: string,
+): GenealogyNode | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return node;
+  }
+
+  const children = node.children
+    .map(child => filterGenealogyTree(child, needle))
+    .filter((child): child is GenealogyNode => Boolean(child));
+  if (children.length || node.name.toLowerCase().includes(needle)) {
+    return { ...node, children };
+  }
+  return null;
+};
+
+export const findGenealogyNode = (
+  node: GenealogyNode,
+  id: number,
+): GenealogyNode | null => {
+  if (node.id === id) {
+    return node;
+  }
+  for (const child of node.children) {
+    const found = findGenealogyNode(child, id);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,18 @@
+import { generateSalt, hashWithSalt } from './hash';
+
+export const createRedemptionSessionId = (): string => generateSalt(24);
+
+/**
+ * Derives a stable idempotency key for a scan-and-amount attempt so retries
+ * and resubmissions of the same redemption reuse the same key.
+ */
+export const buildRedemptionKey = (
+  sessionId: string,
+  grossAmount: number,
+): string => {
+  const normalizedAmount = Number.isFinite(grossAmount)
+    ? Math.round(grossAmount * 100)
+    : 0;
+  const digest = hashWithSalt(String(normalizedAmount), sessionId);
+  return `rdm-${digest.slice(0, 32)}`;
+};
@@ -0,0 +1,119 @@
+import HmacSHA256 from 'crypto-js/hmac-sha256';
+import SHA256 from 'crypto-js/sha256';
+import encHex from 'crypto-js/enc-hex';
+import { MEMBER_QR_CONFIG } from '../config/memberQrConfig';
+import { MemberQrRotation, SignedMemberQr } from '../types/auth';
+
+const SIGNATURE_PATTERN = new RegExp(
+  `^[0-9a-f]{${MEMBER_QR_CONFIG.signatureLength}}$`,
+);
+const REFERENCE_PATTERN = new RegExp(
+  `^[0-9a-f]{${MEMBER_QR_CONFIG.referenceLength}}$`,
+);
+
+export const clampWindowSeconds = (value?: number | null): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return MEMBER_QR_CONFIG.defaultWindowSeconds;
+  }
+  return Math.min(
+    MEMBER_QR_CONFIG.maxWindowSeconds,
+    Math.max(MEMBER_QR_CONFIG.minWindowSeconds, Math.round(value)),
+  );
+};
+
+export const getQrWindow = (now: number, windowSeconds: number): number =>
+  Math.floor(now / (windowSeconds * 1000));
+
+/**
+ * One-way reference to the member token. Rotating payloads carry this
+ * instead of the token, so a screenshot never exposes a reusable code.
+ */
+export const getMemberQrReference = (token: string): string =>
+  SHA256(token).toString(encHex).slice(0, MEMBER_QR_CONFIG.referenceLength);
+
+export const signMemberQrWindow = (
+  reference: string,
+  window: number,
+  windowSeconds: number,
+  seed: string,
+): string =>
+  HmacSHA256(`${reference}.${windowSeconds}.${window}`, seed)
+    .toString(encHex)
+    .slice(0, MEMBER_QR_CONFIG.signatureLength);
+
+/** Builds the payload shown on the member card for the window containing `now`. */
+export const encodeSignedMemberQr = (
+  token: string,
+  rotation: MemberQrRotation,
+  now = Date.now(),
+): string => {
+  const windowSeconds = clampWindowSeconds(rotation.windowSeconds);
+  const window = getQrWindow(now, windowSeconds);
+  const reference = getMemberQrReference(token);
+  const signature = signMemberQrWindow(
+    reference,
+    window,
+    windowSeconds,
+    rotation.seed,
+  );
+  return [
+    MEMBER_QR_CONFIG.payloadPrefix,
+    windowSeconds,
+    window,
+    signature,
+    reference,
+  ].join('.');
+};
+
+export const parseSignedMemberQr = (value: string): SignedMemberQr | null => {
+  const parts = value.trim().split('.');
+  if (parts.length !== 5 || parts[0] !== MEMBER_QR_CONFIG.payloadPrefix) {
+    return null;
+  }
+  const [, windowSecondsPart, windowPart, signature, reference] = parts;
+  const windowSeconds = Number(windowSecondsPart);
+  const window = Number(windowPart);
+  if (
+    !Number.isInteger(windowSeconds) ||
+    !Number.isInteger(window) ||
+    !SIGNATURE_PATTERN.test(signature) ||
+    !REFERENCE_PATTERN.test(reference)
+  ) {
+    return null;
+  }
+  return { reference, window, windowSeconds, signature };
+};
+
+/**
+ * Stable key for the member behind a scanned value: the token reference of
+ * a rotating payload, or the legacy token itself.
+ */
+export const getMemberQrToken = (value: string): string =>
+  parseSignedMemberQr(value)?.reference ?? value.trim();
+
+export const isSignedMemberQrPayload = (value: string): boolean =>
+  value.trim().startsWith(`${MEMBER_QR_CONFIG.payloadPrefix}.`);
+
+/** Whether a signed payload's window is close enough to the scanner clock. */
+export const isMemberQrWindowCurrent = (
+  qr: SignedMemberQr,
+  now = Date.now(),
+): boolean => {
+  if (clampWindowSeconds(qr.windowSeconds) !== qr.windowSeconds) {
+    return false;
+  }
+  const current = getQrWindow(now, qr.windowSeconds);
+  return (
+    qr.window >= current - MEMBER_QR_CONFIG.allowedPastWindows &&
+    qr.window <= current + MEMBER_QR_CONFIG.allowedFutureWindows
+  );
+};
+
+/** Milliseconds until the payload for `now` rotates. */
+export const getMsUntilRotation = (
+  windowSeconds: number,
+  now = Date.now(),
+): number => {
+  const windowMs = clampWindowSeconds(windowSeconds) * 1000;
+  return windowMs - (now % windowMs);
+};
@@ -0,0 +1,49 @@
+import { MemberSearchField } from '../types/transactions';
+
+const MEMBER_NUMBER_PATTERN = /^[A-Z0-9-]{4,16}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+/**
+ * Normalises a search value and rejects anything that is not a complete
+ * member number, phone number or email so prefixes cannot be enumerated.
+ */
+export const normalizeMemberSearchValue = (
+  field: MemberSearchField,
+  value: string,
+): string | null => {
+  const trimmed = value.trim();
+  switch (field) {
+    case 'member_number': {
+      const normalized = trimmed.toUpperCase();
+      return MEMBER_NUMBER_PATTERN.test(normalized) ? normalized : null;
+    }
+    case 'phone': {
+      const digits = trimmed.replace(/[^\d+]/g, '');
+      const bare = digits.replace(/^\+/, '');
+      return /^\d{9,15}$/.test(bare) ? digits : null;
+    }
+    case 'email': {
+      const normalized = trimmed.toLowerCase();
+      return EMAIL_PATTERN.test(normalized) ? normalized : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const toMemberInitials = (name: string | null | undefined): string => {
+  const initials = (name ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part.charAt(0).toUpperCase())
+    .join('');
+  return initials || '?';
+};
+
+export const getLastDigits = (
+  value: string | null | undefined,
+): string | null => {
+  const digits = (value ?? '').replace(/\D/g, '');
+  return digits.length >= 4 ? digits.slice(-4) : null;
+};
@@ -0,0 +1,194 @@
+import jsQR, { QRCode } from 'jsqr';
+import { decode as decodeJpeg } from 'jpeg-js';
+import UPNG from 'upng-js';
+import { QR_IMAGE_IMPORT_CONFIG } from '../config/qrImageImportConfig';
+import { createAppError } from '../errors';
+
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+type Region = [x: number, y: number, width: number, height: number];
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  // Every four characters carry three bytes.
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = [0, 1, 2, 3].reduce(
+      (total, index) =>
+        total * 64 + Math.max(0, BASE64_ALPHABET.indexOf(clean[i + index])),
+      0,
+    );
+    const offset = (i / 4) * 3;
+    [65536, 256, 1].forEach((divisor, index) => {
+      if (offset + index < bytes.length) {
+        bytes[offset + index] = Math.floor(chunk / divisor) % 256;
+      }
+    });
+  }
+  return bytes;
+};
+
+const isPng = (bytes: Uint8Array): boolean =>
+  bytes[0] === 0x89 &&
+  bytes[1] === 0x50 &&
+  bytes[2] === 0x4e &&
+  bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array): boolean =>
+  bytes[0] === 0xff && bytes[1] === 0xd8;
+
+/** Decodes a PNG or JPEG file into RGBA pixels. */
+export const decodeImageBytes = (bytes: Uint8Array): RgbaImage => {
+  if (!isPng(bytes) && !isJpeg(bytes)) {
+    throw createAppError('TRANSACTION_QR_IMAGE_UNREADABLE', {
+      metadata: { reason: 'format' },
+    });
+  }
+
+  try {
+    if (isPng(bytes)) {
+      const png = UPNG.decode(
+        bytes.buffer.slice(
+          bytes.byteOffset,
+          bytes.byteOffset + bytes.byteLength,
+        ) as ArrayBuffer,
+      );
+      const [frame] = UPNG.toRGBA8(png);
+      return {
+        data: new Uint8ClampedArray(frame),
+        width: png.width,
+        height: png.height,
+      };
+    }
+
+    const jpeg = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    return {
+      data: new Uint8ClampedArray(
+        jpeg.data.buffer,
+        jpeg.data.byteOffset,
+        jpeg.data.byteLength,
+      ),
+      width: jpeg.width,
+      height: jpeg.height,
+    };
+  } catch (error) {
+    throw createAppError('TRANSACTION_QR_IMAGE_UNREADABLE', { cause: error });
+  }
+};
+
+/** Paints a found code white so the next pass can find the others. */
+const maskCode = (image: RgbaImage, code: QRCode) => {
+  const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } =
+    code.location;
+  const corners = [
+    topLeftCorner,
+    topRightCorner,
+    bottomLeftCorner,
+    bottomRightCorner,
+  ];
+  const padding = QR_IMAGE_IMPORT_CONFIG.maskPadding;
+  const minX = Math.max(
+    0,
+    Math.floor(Math.min(...corners.map(p => p.x))) - padding,
+  );
+  const maxX = Math.min(
+    image.width - 1,
+    Math.ceil(Math.max(...corners.map(p => p.x))) + padding,
+  );
+  const minY = Math.max(
+    0,
+    Math.floor(Math.min(...corners.map(p => p.y))) - padding,
+  );
+  const maxY = Math.min(
+    image.height - 1,
+    Math.ceil(Math.max(...corners.map(p => p.y))) + padding,
+  );
+
+  for (let y = minY; y <= maxY; y += 1) {
+    image.data.fill(
+      255,
+      (y * image.width + minX) * 4,
+      (y * image.width + maxX + 1) * 4,
+    );
+  }
+};
+
+const cropImage = (
+  image: RgbaImage,
+  [x, y, width, height]: Region,
+): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row += 1) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { data, width, height };
+};
+
+/** The whole image, then halves, quadrants and the centre. */
+const scanRegions = (width: number, height: number): Region[] => {
+  const halfWidth = Math.ceil(width / 2);
+  const halfHeight = Math.ceil(height / 2);
+  const right = width - halfWidth;
+  const bottom = height - halfHeight;
+  return [
+    [0, 0, width, height],
+    [0, 0, halfWidth, height],
+    [right, 0, halfWidth, height],
+    [0, 0, width, halfHeight],
+    [0, bottom, width, halfHeight],
+    [0, 0, halfWidth, halfHeight],
+    [right, 0, halfWidth, halfHeight],
+    [0, bottom, halfWidth, halfHeight],
+    [right, bottom, halfWidth, halfHeight],
+    [Math.floor(right / 2), Math.floor(bottom / 2), halfWidth, halfHeight],
+  ];
+};
+
+/**
+ * Finds every QR code in the image. jsQR stops at the first code and often
+ * finds nothing when finder patterns from several codes share the frame, so
+ * each hit is masked out and smaller regions are searched as well.
+ */
+export const findQrCodes = (
+  image: RgbaImage,
+  maxCodes: number = QR_IMAGE_IMPORT_CONFIG.maxCodesPerImage,
+): string[] => {
+  const found: string[] = [];
+  for (const region of scanRegions(image.width, image.height)) {
+    const working = cropImage(image, region);
+    while (found.length < maxCodes) {
+      const code = jsQR(working.data, working.width, working.height, {
+        inversionAttempts: 'attemptBoth',
+      });
+      if (!code) {
+        break;
+      }
+      const text = code.data.trim();
+      if (text && !found.includes(text)) {
+        found.push(text);
+      }
+      maskCode(working, code);
+    }
+    if (found.length >= maxCodes) {
+      break;
+    }
+  }
+  return found;
+};
+
+/** Reads all QR codes from a base64-encoded PNG or JPEG file. */
+export const decodeQrCodesFromBase64 = (base64: string): string[] => {
+  const codes = findQrCodes(decodeImageBytes(base64ToBytes(base64)));
+  if (!codes.length) {
+    throw createAppError('TRANSACTION_QR_IMAGE_NOT_FOUND');
+  }
+  return codes;
+};
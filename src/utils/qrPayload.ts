@@ -0,0 +1,78 @@
+import SHA256 from 'crypto-js/sha256';
+import encHex from 'crypto-js/enc-hex';
+import { QR_PAYLOAD_CONFIG } from '../config/qrPayloadConfig';
+import { createAppError } from '../errors';
+import { DecodedTcnQr, TcnQrType } from '../types/qr';
+
+const PAYLOAD_PATTERN = /^tcn:\/\/([a-z])\/v(\d+)\/([^?]+)\?c=([0-9a-f]+)$/i;
+
+const typeForSegment = (segment: string): TcnQrType | null =>
+  (Object.keys(QR_PAYLOAD_CONFIG.typeSegments) as TcnQrType[]).find(
+    type => QR_PAYLOAD_CONFIG.typeSegments[type] === segment,
+  ) ?? null;
+
+export const computeQrChecksum = (
+  type: TcnQrType,
+  version: number,
+  value: string,
+): string =>
+  SHA256(`${QR_PAYLOAD_CONFIG.typeSegments[type]}/v${version}/${value}`)
+    .toString(encHex)
+    .slice(0, QR_PAYLOAD_CONFIG.checksumLength);
+
+export const isTcnQrPayload = (value: string): boolean =>
+  value.trim().toLowerCase().startsWith(QR_PAYLOAD_CONFIG.scheme);
+
+/** Wraps a token or code as `tcn://<type>/v<version>/<value>?c=<checksum>`. */
+export const encodeTcnQr = (
+  type: TcnQrType,
+  value: string,
+  version: number = QR_PAYLOAD_CONFIG.currentVersion,
+): string =>
+  `${QR_PAYLOAD_CONFIG.scheme}${
+    QR_PAYLOAD_CONFIG.typeSegments[type]
+  }/v${version}/${encodeURIComponent(value)}?c=${computeQrChecksum(
+    type,
+    version,
+    value,
+  )}`;
+
+/**
+ * Decodes whatever the camera read. Anything outside the `tcn://` scheme is
+ * treated as a legacy member token. Versioned payloads must carry a
+ * matching checksum so a misread never reaches the lookup endpoint.
+ */
+export const decodeTcnQr = (raw: string): DecodedTcnQr => {
+  const trimmed = raw.trim();
+  if (!isTcnQrPayload(trimmed)) {
+    return { type: 'member', value: trimmed, version: 1, legacy: true };
+  }
+
+  const match = PAYLOAD_PATTERN.exec(trimmed);
+  const type = match ? typeForSegment(match[1].toLowerCase()) : null;
+  const version = match ? Number(match[2]) : NaN;
+  if (
+    !match ||
+    !type ||
+    !QR_PAYLOAD_CONFIG.supportedVersions.includes(version)
+  ) {
+    throw createAppError('TRANSACTION_QR_UNSUPPORTED', {
+      metadata: { segment: match?.[1] ?? null, version: match?.[2] ?? null },
+    });
+  }
+
+  let value: string;
+  try {
+    value = decodeURIComponent(match[3]);
+  } catch (error) {
+    throw createAppError('TRANSACTION_QR_CHECKSUM_INVALID', { cause: error });
+  }
+
+  if (computeQrChecksum(type, version, value) !== match[4].toLowerCase()) {
+    throw createAppError('TRANSACTION_QR_CHECKSUM_INVALID', {
+      metadata: { type, version },
+    });
+  }
+
+  return { type, value, version, legacy: false };
+};
@@ -0,0 +1,24 @@
+import {
+  REDEMPTION_APPROVAL_CONFIG,
+  RedemptionApprovalConfig,
+} from '../config/redemptionApprovalConfig';
+
+interface MemberApprovalInput {
+  vendorTier?: string | null;
+  grossAmount: number;
+}
+
+/** True when the redemption must be confirmed in the member's app. */
+export const requiresMemberApproval = (
+  { vendorTier, grossAmount }: MemberApprovalInput,
+  config: RedemptionApprovalConfig = REDEMPTION_APPROVAL_CONFIG,
+): boolean => {
+  if (!config.enabled) {
+    return false;
+  }
+  const tier = vendorTier?.toLowerCase();
+  if (tier && config.vendorTiers.some(entry => entry.toLowerCase() === tier)) {
+    return true;
+  }
+  return config.minGrossAmount != null && grossAmount >= config.minGrossAmount;
+};
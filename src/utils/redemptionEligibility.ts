@@ -0,0 +1,176 @@
+import { REDEMPTION_ELIGIBILITY_CONFIG } from '../config/redemptionEligibilityConfig';
+import {
+  MemberLookupResult,
+  RedemptionEligibility,
+  TransactionRecord,
+} from '../types/transactions';
+import {
+  getBusinessDate,
+  getBusinessDayRange,
+  shiftBusinessDate,
+} from './settlementReport';
+
+export interface RedemptionEligibilityInput {
+  lookup: Pick<
+    MemberLookupResult,
+    'token' | 'memberId' | 'usage' | 'discountDescriptor'
+  >;
+  /** When the lookup's usage counts were produced by the server. */
+  lookedUpAt?: Date | string | null;
+  /** Local transactions and outbox records for this vendor. */
+  records?: TransactionRecord[];
+  now?: Date;
+}
+
+const parseTime = (value?: Date | string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+};
+
+export const isSameMember = (
+  record: TransactionRecord,
+  lookup: Pick<MemberLookupResult, 'token' | 'memberId'>,
+): boolean =>
+  lookup.memberId != null && record.memberId != null
+    ? record.memberId === lookup.memberId
+    : record.memberToken === lookup.token;
+
+/**
+ * Counts redemptions this device recorded for the member. With `since` only
+ * records the server could not yet have counted are included.
+ */
+export const countLocalRedemptions = (
+  records: TransactionRecord[],
+  lookup: RedemptionEligibilityInput['lookup'],
+  since: number | null,
+  now: Date,
+): { today: number; total: number } => {
+  const today = getBusinessDate(now);
+  const seen = new Set<string>();
+  let todayCount = 0;
+  let totalCount = 0;
+
+  records.forEach(record => {
+    const key = record.idempotencyKey ?? record.id;
+    if (seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+
+    const createdAt = parseTime(record.createdAt);
+    if (
+      createdAt == null ||
+      !REDEMPTION_ELIGIBILITY_CONFIG.countedStatuses.includes(record.status) ||
+      !isSameMember(record, lookup) ||
+      (since != null && createdAt < since)
+    ) {
+      return;
+    }
+    totalCount += 1;
+    if (getBusinessDate(createdAt) === today) {
+      todayCount += 1;
+    }
+  });
+
+  return { today: todayCount, total: totalCount };
+};
+
+export const evaluateRedemptionEligibility = ({
+  lookup,
+  lookedUpAt,
+  records = [],
+  now = new Date(),
+}: RedemptionEligibilityInput): RedemptionEligibility => {
+  const descriptor = lookup.discountDescriptor ?? null;
+  const usage = lookup.usage ?? null;
+  const local = countLocalRedemptions(
+    records,
+    lookup,
+    usage ? parseTime(lookedUpAt) : null,
+    now,
+  );
+
+  const usesToday = (usage?.usesToday ?? 0) + local.today;
+  const usesTotal = (usage?.usesTotal ?? 0) + local.total;
+  const remainingToday =
+    descriptor?.maxUsesPerDay != null
+      ? Math.max(descriptor.maxUsesPerDay - usesToday, 0)
+      : null;
+  const remainingTotal =
+    descriptor?.maxUses != null
+      ? Math.max(descriptor.maxUses - usesTotal, 0)
+      : null;
+  const startsAt = parseTime(descriptor?.startsAt);
+  const expiresAt = parseTime(descriptor?.expiresAt);
+  const nowTime = now.getTime();
+
+  const base = {
+    usesToday,
+    usesTotal,
+    remainingToday,
+    remainingTotal,
+    expiresAt: expiresAt != null ? new Date(expiresAt).toISOString() : null,
+  };
+  const blocked = (
+    reason: RedemptionEligibility['reason'],
+    nextAllowedAt: number | null = null,
+  ): RedemptionEligibility => ({
+    ...base,
+    status: 'blocked',
+    reason,
+    nextAllowedAt:
+      nextAllowedAt != null && (expiresAt == null || nextAllowedAt < expiresAt)
+        ? new Date(nextAllowedAt).toISOString()
+        : null,
+  });
+
+  if (startsAt != null && nowTime < startsAt) {
+    return blocked('not_yet_valid', startsAt);
+  }
+  if (expiresAt != null && nowTime >= expiresAt) {
+    return blocked('expired');
+  }
+  if (remainingTotal === 0) {
+    return blocked('total_limit_reached');
+  }
+  if (remainingToday === 0) {
+    const tomorrow = shiftBusinessDate(getBusinessDate(now), 1);
+    return blocked(
+      'daily_limit_reached',
+      getBusinessDayRange(tomorrow).start.getTime(),
+    );
+  }
+
+  const warning =
+    remainingTotal === 1
+      ? 'last_use'
+      : remainingToday === 1
+      ? 'last_daily_use'
+      : expiresAt != null &&
+        expiresAt - nowTime <= REDEMPTION_ELIGIBILITY_CONFIG.expiringSoonMs
+      ? 'expiring_soon'
+      : null;
+
+  return {
+    ...base,
+    status: warning ? 'warning' : 'eligible',
+    reason: warning,
+    nextAllowedAt: null,
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/** `H:MM:SS` (or `MM:SS` under an hour) for countdown labels. */
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(Math.ceil(milliseconds / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+};
@@ -0,0 +1,96 @@
+import { REFERRAL_CONFIG } from '../config/referralConfig';
+import { createAppError } from '../errors';
+import { decodeTcnQr, encodeTcnQr, isTcnQrPayload } from './qrPayload';
+
+/** Uppercases and strips spaces; returns null when the code is malformed. */
+export const normalizeReferralCode = (
+  value: string | null | undefined,
+): string | null => {
+  const normalized = (value ?? '').replace(/\s+/g, '').toUpperCase();
+  return REFERRAL_CONFIG.codePattern.test(normalized) ? normalized : null;
+};
+
+/** The plugin tracks sponsors by user ID, so that is the member's code. */
+export const getReferralCode = (
+  user: { id: number } | null | undefined,
+): string | null =>
+  user && Number.isFinite(user.id) && user.id > 0 ? String(user.id) : null;
+
+export const buildReferralLink = (code: string): string =>
+  `${REFERRAL_CONFIG.appScheme}${REFERRAL_CONFIG.registerPath}?${
+    REFERRAL_CONFIG.queryParam
+  }=${encodeURIComponent(code)}`;
+
+/** Fallback for people without the app; the site stores the sponsor cookie. */
+export const buildReferralWebLink = (code: string): string =>
+  `${REFERRAL_CONFIG.webBaseUrl}/?${
+    REFERRAL_CONFIG.webQueryParam
+  }=${encodeURIComponent(code)}`;
+
+export const buildReferralQrPayload = (code: string): string =>
+  encodeTcnQr('referral', code);
+
+const readQueryParam = (query: string, name: string): string | null => {
+  for (const pair of query.split('&')) {
+    const [key, value = ''] = pair.split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+      } catch (error) {
+        return null;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads the code from `tcnapp://register?ref=CODE`. Returns null for any
+ * other URL so unrelated deep links are left alone.
+ */
+export const parseReferralLink = (
+  url: string | null | undefined,
+): string | null => {
+  const trimmed = (url ?? '').trim();
+  if (!trimmed.toLowerCase().startsWith(REFERRAL_CONFIG.appScheme)) {
+    return null;
+  }
+
+  const rest = trimmed.slice(REFERRAL_CONFIG.appScheme.length);
+  const [path, query = ''] = rest.split('?');
+  if (
+    path.replace(/^\/+|\/+$/g, '').toLowerCase() !==
+    REFERRAL_CONFIG.registerPath
+  ) {
+    return null;
+  }
+
+  return normalizeReferralCode(
+    readQueryParam(query.split('#')[0], REFERRAL_CONFIG.queryParam),
+  );
+};
+
+/**
+ * Reads a scanned referral QR: either a `tcn://r/...` payload or a referral
+ * link. Other TCN codes fail with MLM_REFERRAL_QR_UNSUPPORTED.
+ */
+export const parseReferralQr = (raw: string): string => {
+  const fromLink = parseReferralLink(raw);
+  if (fromLink) {
+    return fromLink;
+  }
+
+  if (isTcnQrPayload(raw)) {
+    const decoded = decodeTcnQr(raw);
+    const code =
+      decoded.type === 'referral' ? normalizeReferralCode(decoded.value) : null;
+    if (code) {
+      return code;
+    }
+    throw createAppError('MLM_REFERRAL_QR_UNSUPPORTED', {
+      metadata: { type: decoded.type },
+    });
+  }
+
+  throw createAppError('MLM_REFERRAL_QR_UNSUPPORTED');
+};
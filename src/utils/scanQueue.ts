@@ -0,0 +1,57 @@
+import { SCAN_QUEUE_CONFIG } from '../config/scanQueueConfig';
+import { MemberLookupResult, ScanQueueEntry } from '../types/transactions';
+import { getMemberQrToken } from './memberQr';
+
+export type ScanAdmission = 'accepted' | 'duplicate' | 'queued' | 'full';
+
+/**
+ * Decides whether a camera read becomes a new queue entry. Cameras report
+ * the same code many times a second, so reads of a token seen inside the
+ * debounce window are dropped, as are members already waiting in the queue.
+ * Rotating payloads change every window, so members are compared by
+ * `getMemberQrToken` rather than by the raw text.
+ */
+export const admitScan = (
+  entries: ScanQueueEntry[],
+  lastSeenAt: number | undefined,
+  token: string,
+  now: number,
+  windowMs: number = SCAN_QUEUE_CONFIG.duplicateScanWindowMs,
+): ScanAdmission => {
+  if (lastSeenAt != null && now - lastSeenAt < windowMs) {
+    return 'duplicate';
+  }
+  const member = getMemberQrToken(token);
+  if (entries.some(entry => getMemberQrToken(entry.token) === member)) {
+    return 'queued';
+  }
+  if (entries.length >= SCAN_QUEUE_CONFIG.maxQueueLength) {
+    return 'full';
+  }
+  return 'accepted';
+};
+
+export const createScanQueueEntry = (
+  token: string,
+  now: Date,
+): ScanQueueEntry => ({
+  id: `scan-${now.getTime()}-${token.slice(-6)}`,
+  token,
+  scannedAt: now.toISOString(),
+  status: 'validating',
+  result: null,
+  lookedUpAt: null,
+  errorMessage: null,
+});
+
+export const resolveScanQueueEntry = (
+  entry: ScanQueueEntry,
+  result: MemberLookupResult,
+  now: Date,
+): ScanQueueEntry => ({
+  ...entry,
+  status: result.valid ? 'ready' : 'invalid',
+  result,
+  lookedUpAt: now.toISOString(),
+  errorMessage: result.valid ? null : result.message ?? null,
+});
@@ -0,0 +1,7 @@
+import { NativeScrollEvent } from 'react-native';
+
+export const isNearScrollEnd = (
+  { layoutMeasurement, contentOffset, contentSize }: NativeScrollEvent,
+  threshold: number,
+): boolean =>
+  layoutMeasurement.height + contentOffset.y >= contentSize.height - threshold;
@@ -0,0 +1,174 @@
+import { SETTLEMENT_REPORT_CONFIG } from '../config/settlementReportConfig';
+import {
+  SettlementAmounts,
+  SettlementLineItem,
+  SettlementReport,
+  SettlementTierTotals,
+} from '../types/settlement';
+import { TransactionRecord, TransactionStatus } from '../types/transactions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OFFSET_MS = SETTLEMENT_REPORT_CONFIG.utcOffsetMinutes * 60 * 1000;
+const UNKNOWN_TIER = 'unknown';
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Returns the Bangkok calendar date (YYYY-MM-DD) a moment falls on.
+ */
+export const getBusinessDate = (value: Date | string | number): string => {
+  const shifted = new Date(new Date(value).getTime() + OFFSET_MS);
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(
+    shifted.getUTCDate(),
+  )}`;
+};
+
+/**
+ * UTC bounds of a Bangkok business day as a half-open `[start, end)` range.
+ */
+export const getBusinessDayRange = (
+  businessDate: string,
+): { start: Date; end: Date } => {
+  const [year, month, day] = businessDate.split('-').map(Number);
+  const start = new Date(Date.UTC(year, month - 1, day) - OFFSET_MS);
+  return { start, end: new Date(start.getTime() + DAY_MS) };
+};
+
+/**
+ * A report is final once it was generated after its business day ended;
+ * anything earlier is a provisional snapshot of a day still trading.
+ */
+export const isSettlementReportFinal = (report: {
+  generatedAt: string;
+  periodEnd: string;
+}): boolean => Date.parse(report.generatedAt) >= Date.parse(report.periodEnd);
+
+export const shiftBusinessDate = (businessDate: string, days: number): string =>
+  getBusinessDate(
+    getBusinessDayRange(businessDate).start.getTime() + days * DAY_MS,
+  );
+
+const emptyAmounts = (): SettlementAmounts => ({
+  count: 0,
+  gross: 0,
+  discount: 0,
+  net: 0,
+  refunded: 0,
+  settled: 0,
+});
+
+const isSale = (status: TransactionStatus): boolean =>
+  status === 'completed' ||
+  status === 'partially_refunded' ||
+  status === 'refunded';
+
+const addSale = (bucket: SettlementAmounts, record: TransactionRecord) => {
+  const net = Number(record.netAmount ?? 0);
+  const discount = Number(record.discountAmount ?? 0);
+  const refunded =
+    record.status === 'refunded'
+      ? Number(record.refundedAmount ?? net)
+      : Number(record.refundedAmount ?? 0);
+
+  bucket.count += 1;
+  bucket.gross = roundCurrency(
+    bucket.gross + Number(record.grossAmount ?? net + discount),
+  );
+  bucket.discount = roundCurrency(bucket.discount + discount);
+  bucket.net = roundCurrency(bucket.net + net);
+  bucket.refunded = roundCurrency(bucket.refunded + refunded);
+  bucket.settled = roundCurrency(bucket.net - bucket.refunded);
+};
+
+const toLineItem = (record: TransactionRecord): SettlementLineItem => ({
+  id: record.id,
+  createdAt: record.createdAt,
+  status: record.status,
+  memberName: record.memberName ?? null,
+  membershipTier: record.membershipTier ?? null,
+  grossAmount: Number(record.grossAmount ?? 0),
+  netAmount: Number(record.netAmount ?? 0),
+  reason: record.reversalReason ?? null,
+  errorMessage: record.errorMessage ?? null,
+});
+
+interface BuildSettlementReportOptions {
+  vendorId?: number | null;
+  vendorName?: string | null;
+  generatedAt?: Date;
+}
+
+export const buildSettlementReport = (
+  transactions: TransactionRecord[],
+  businessDate: string,
+  {
+    vendorId = null,
+    vendorName = null,
+    generatedAt = new Date(),
+  }: BuildSettlementReportOptions = {},
+): SettlementReport => {
+  const { start, end } = getBusinessDayRange(businessDate);
+  const inDay = transactions
+    .filter(record => {
+      const createdAt = new Date(record.createdAt).getTime();
+      return createdAt >= start.getTime() && createdAt < end.getTime();
+    })
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+
+  const totals = emptyAmounts();
+  const tiers = new Map<string, SettlementTierTotals>();
+  const statusCounts: Record<TransactionStatus, number> = {
+    pending: 0,
+    completed: 0,
+    failed: 0,
+    voided: 0,
+    refunded: 0,
+    partially_refunded: 0,
+  };
+
+  inDay.forEach(record => {
+    statusCounts[record.status] += 1;
+    if (!isSale(record.status)) {
+      return;
+    }
+    const tier = record.membershipTier?.trim() || UNKNOWN_TIER;
+    const bucket = tiers.get(tier) ?? { tier, ...emptyAmounts() };
+    addSale(bucket, record);
+    addSale(totals, record);
+    tiers.set(tier, bucket);
+  });
+
+  const sales = inDay.filter(record => isSale(record.status));
+  const currency =
+    inDay.find(record => record.currency)?.currency ??
+    SETTLEMENT_REPORT_CONFIG.defaultCurrency;
+
+  return {
+    id: `z-${vendorId ?? 'local'}-${businessDate}`,
+    businessDate,
+    timezone: SETTLEMENT_REPORT_CONFIG.timezone,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString(),
+    vendorId,
+    vendorName,
+    currency,
+    generatedAt: generatedAt.toISOString(),
+    totals,
+    byTier: Array.from(tiers.values()).sort((a, b) => b.net - a.net),
+    statusCounts,
+    failedItems: inDay
+      .filter(record => record.status === 'failed')
+      .map(toLineItem),
+    voidedItems: inDay
+      .filter(record => record.status === 'voided')
+      .map(toLineItem),
+    firstTransactionId: sales[0]?.id ?? null,
+    lastTransactionId: sales[sales.length - 1]?.id ?? null,
+    transactionIds: inDay.map(record => record.id),
+  };
+};
@@ -0,0 +1,210 @@
+import { SettlementLineItem, SettlementReport } from '../types/settlement';
+import { CsvValue, toCsv } from './csv';
+
+type Translate = (
+  key: string,
+  options?: { replace?: Record<string, string | number> },
+) => string;
+
+const formatAmount = (value: number): string => value.toFixed(2);
+
+const escapeHtml = (value: string | null | undefined): string =>
+  (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const tierLabel = (tier: string, t: Translate): string =>
+  tier === 'unknown' ? t('settlement.unknownTier') : tier;
+
+const amountHeaders = (t: Translate): string[] => [
+  t('settlement.columns.count'),
+  t('settlement.columns.gross'),
+  t('settlement.columns.discount'),
+  t('settlement.columns.net'),
+  t('settlement.columns.refunded'),
+  t('settlement.columns.settled'),
+];
+
+const itemHeaders = (t: Translate): string[] => [
+  t('settlement.columns.id'),
+  t('settlement.columns.time'),
+  t('settlement.columns.member'),
+  t('settlement.columns.tier'),
+  t('settlement.columns.gross'),
+  t('settlement.columns.reason'),
+];
+
+const itemRow = (item: SettlementLineItem, t: Translate): CsvValue[] => [
+  item.id,
+  item.createdAt,
+  item.memberName,
+  item.membershipTier,
+  formatAmount(item.grossAmount),
+  item.reason
+    ? t(`vendor.screen.reversal.reasons.${item.reason}`)
+    : item.errorMessage,
+];
+
+export const buildSettlementReportCsv = (
+  report: SettlementReport,
+  t: Translate,
+): string => {
+  const rows: CsvValue[][] = [
+    [t('settlement.title'), report.vendorName ?? ''],
+    [t('settlement.fields.businessDate'), report.businessDate],
+    [t('settlement.fields.timezone'), report.timezone],
+    [t('settlement.fields.generatedAt'), report.generatedAt],
+    [t('settlement.fields.currency'), report.currency],
+    [t('settlement.fields.firstTransaction'), report.firstTransactionId],
+    [t('settlement.fields.lastTransaction'), report.lastTransactionId],
+    [],
+    [t('settlement.columns.tier'), ...amountHeaders(t)],
+    ...report.byTier.map(tier => [
+      tierLabel(tier.tier, t),
+      tier.count,
+      formatAmount(tier.gross),
+      formatAmount(tier.discount),
+      formatAmount(tier.net),
+      formatAmount(tier.refunded),
+      formatAmount(tier.settled),
+    ]),
+    [
+      t('settlement.totals'),
+      report.totals.count,
+      formatAmount(report.totals.gross),
+      formatAmount(report.totals.discount),
+      formatAmount(report.totals.net),
+      formatAmount(report.totals.refunded),
+      formatAmount(report.totals.settled),
+    ],
+    [],
+    [t('settlement.sections.statusCounts')],
+    ...Object.entries(report.statusCounts).map(([status, count]) => [
+      t(`analytics.status.${status}`),
+      count,
+    ]),
+  ];
+
+  if (report.failedItems.length) {
+    rows.push([], [t('settlement.sections.failed')], itemHeaders(t));
+    report.failedItems.forEach(item => rows.push(itemRow(item, t)));
+  }
+  if (report.voidedItems.length) {
+    rows.push([], [t('settlement.sections.voided')], itemHeaders(t));
+    report.voidedItems.forEach(item => rows.push(itemRow(item, t)));
+  }
+
+  return toCsv(rows);
+};
+
+const htmlTable = (headers: string[], rows: CsvValue[][]): string =>
+  `<table><thead><tr>${headers
+    .map(header => `<th>${escapeHtml(header)}</th>`)
+    .join('')}</tr></thead><tbody>${rows
+    .map(
+      row =>
+        `<tr>${row
+          .map(
+            cell => `<td>${escapeHtml(cell == null ? '' : String(cell))}</td>`,
+          )
+          .join('')}</tr>`,
+    )
+    .join('')}</tbody></table>`;
+
+export const buildSettlementReportHtml = (
+  report: SettlementReport,
+  t: Translate,
+): string => {
+  const tierRows: CsvValue[][] = [
+    ...report.byTier.map(tier => [
+      tierLabel(tier.tier, t),
+      tier.count,
+      formatAmount(tier.gross),
+      formatAmount(tier.discount),
+      formatAmount(tier.net),
+      formatAmount(tier.refunded),
+      formatAmount(tier.settled),
+    ]),
+    [
+      t('settlement.totals'),
+      report.totals.count,
+      formatAmount(report.totals.gross),
+      formatAmount(report.totals.discount),
+      formatAmount(report.totals.net),
+      formatAmount(report.totals.refunded),
+      formatAmount(report.totals.settled),
+    ],
+  ];
+  const statusRows: CsvValue[][] = Object.entries(report.statusCounts).map(
+    ([status, count]) => [t(`analytics.status.${status}`), count],
+  );
+  const summary: [string, string | null][] = [
+    [t('settlement.fields.businessDate'), report.businessDate],
+    [t('settlement.fields.timezone'), report.timezone],
+    [t('settlement.fields.generatedAt'), report.generatedAt],
+    [t('settlement.fields.currency'), report.currency],
+    [t('settlement.fields.firstTransaction'), report.firstTransactionId],
+    [t('settlement.fields.lastTransaction'), report.lastTransactionId],
+  ];
+
+  const sections = [
+    `<h1>${escapeHtml(t('settlement.title'))}</h1>`,
+    report.vendorName ? `<h2>${escapeHtml(report.vendorName)}</h2>` : '',
+    `<dl>${summary
+      .map(
+        ([label, value]) =>
+          `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value ?? '—')}</dd>`,
+      )
+      .join('')}</dl>`,
+    htmlTable([t('settlement.columns.tier'), ...amountHeaders(t)], tierRows),
+    `<h3>${escapeHtml(t('settlement.sections.statusCounts'))}</h3>`,
+    htmlTable(
+      [t('settlement.columns.status'), t('settlement.columns.count')],
+      statusRows,
+    ),
+  ];
+
+  if (report.failedItems.length) {
+    sections.push(
+      `<h3>${escapeHtml(t('settlement.sections.failed'))}</h3>`,
+      htmlTable(
+        itemHeaders(t),
+        report.failedItems.map(item => itemRow(item, t)),
+      ),
+    );
+  }
+  if (report.voidedItems.length) {
+    sections.push(
+      `<h3>${escapeHtml(t('settlement.sections.voided'))}</h3>`,
+      htmlTable(
+        itemHeaders(t),
+        report.voidedItems.map(item => itemRow(item, t)),
+      ),
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(`${t('settlement.title')} ${report.businessDate}`)}</title>
+<style>
+body { font-family: -apple-system, 'Helvetica Neue', Arial, sans-serif; color: #0f172a; margin: 24px; }
+table { width: 100%; border-collapse: collapse; margin: 12px 0; }
+th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; font-size: 12px; }
+th { background: #f1f5f9; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 13px; }
+dt { font-weight: 600; }
+@media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
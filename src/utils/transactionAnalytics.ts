@@ -1,4 +1,9 @@
 import { TransactionRecord, TransactionStatus } from '../types/transactions';
+import {
+  getEffectiveDiscountAmount,
+  getEffectiveGrossAmount,
+  isSettledSale,
+} from './transactionReversal';
 
 export interface MonthlySavingsDatum {
   monthKey: string;
@@ -13,6 +18,24 @@ export interface VendorPerformanceDatum {
   transactionCount: number;
 }
 
+interface SalesTotals {
+  transactionCount: number;
+  grossAmount: number;
+  totalSavings: number;
+}
+
+export interface CashierPerformanceDatum extends SalesTotals {
+  /** `null` groups sales rung up without an active cashier. */
+  cashierId: string | null;
+  cashierName: string | null;
+}
+
+export interface OutletPerformanceDatum extends SalesTotals {
+  /** `null` groups sales recorded before an outlet was selected. */
+  outletId: string | null;
+  outletName: string | null;
+}
+
 export interface StatusBreakdownDatum {
   status: TransactionStatus;
   count: number;
@@ -23,12 +46,12 @@ const MONTH_KEY_FORMATTER = new Intl.DateTimeFormat('en-US', {
   month: '2-digit',
 });
 
-const getMonthKey = (value: Date): string => {
+export const getMonthKey = (value: Date): string => {
   const [month, year] = MONTH_KEY_FORMATTER.format(value).split('/');
   return `${year}-${month}`;
 };
 
-const clampToMonthStart = (date: Date): Date => {
+export const clampToMonthStart = (date: Date): Date => {
   return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
 };
 
@@ -54,7 +77,7 @@ export const buildMonthlySavings = (
   }
 
   transactions.forEach(transaction => {
-    if (transaction.status !== 'completed') {
+    if (!isSettledSale(transaction)) {
       return;
     }
     const createdAt = new Date(transaction.createdAt);
@@ -69,7 +92,7 @@ export const buildMonthlySavings = (
       return;
     }
 
-    bucket.totalSavings += Number(transaction.discountAmount ?? 0);
+    bucket.totalSavings += getEffectiveDiscountAmount(transaction);
     bucket.transactionCount += 1;
   });
 
@@ -84,7 +107,7 @@ export const buildVendorPerformance = (
   const vendors = new Map<string, VendorPerformanceDatum>();
 
   transactions.forEach(transaction => {
-    if (transaction.status !== 'completed') {
+    if (!isSettledSale(transaction)) {
       return;
     }
     const vendorName = transaction.vendorName?.trim() || 'unknown';
@@ -94,7 +117,7 @@ export const buildVendorPerformance = (
       transactionCount: 0,
     };
 
-    bucket.totalSavings += Number(transaction.discountAmount ?? 0);
+    bucket.totalSavings += getEffectiveDiscountAmount(transaction);
     bucket.transactionCount += 1;
     vendors.set(vendorName, bucket);
   });
@@ -107,6 +130,71 @@ export const buildVendorPerformance = (
   });
 };
 
+const groupSettledSales = (
+  transactions: TransactionRecord[],
+  getId: (transaction: TransactionRecord) => string | null | undefined,
+  getName: (transaction: TransactionRecord) => string | null | undefined,
+): Array<SalesTotals & { id: string | null; name: string | null }> => {
+  const groups = new Map<
+    string,
+    SalesTotals & { id: string | null; name: string | null }
+  >();
+
+  transactions.forEach(transaction => {
+    if (!isSettledSale(transaction)) {
+      return;
+    }
+    const id = getId(transaction) ?? null;
+    const key = id ?? '';
+    const bucket = groups.get(key) ?? {
+      id,
+      name: null,
+      transactionCount: 0,
+      grossAmount: 0,
+      totalSavings: 0,
+    };
+
+    bucket.name = bucket.name ?? getName(transaction) ?? null;
+    bucket.transactionCount += 1;
+    bucket.grossAmount += getEffectiveGrossAmount(transaction);
+    bucket.totalSavings += getEffectiveDiscountAmount(transaction);
+    groups.set(key, bucket);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (b.grossAmount === a.grossAmount) {
+      return b.transactionCount - a.transactionCount;
+    }
+    return b.grossAmount - a.grossAmount;
+  });
+};
+
+export const buildCashierBreakdown = (
+  transactions: TransactionRecord[],
+): CashierPerformanceDatum[] =>
+  groupSettledSales(
+    transactions,
+    transaction => transaction.cashierId,
+    transaction => transaction.cashierName,
+  ).map(({ id, name, ...totals }) => ({
+    cashierId: id,
+    cashierName: name,
+    ...totals,
+  }));
+
+export const buildOutletBreakdown = (
+  transactions: TransactionRecord[],
+): OutletPerformanceDatum[] =>
+  groupSettledSales(
+    transactions,
+    transaction => transaction.outletId,
+    transaction => transaction.outletName,
+  ).map(({ id, name, ...totals }) => ({
+    outletId: id,
+    outletName: name,
+    ...totals,
+  }));
+
 export const buildStatusBreakdown = (
   transactions: TransactionRecord[],
 ): StatusBreakdownDatum[] => {
@@ -114,6 +202,9 @@ export const buildStatusBreakdown = (
     pending: 0,
     completed: 0,
     failed: 0,
+    voided: 0,
+    refunded: 0,
+    partially_refunded: 0,
   };
 
   transactions.forEach(transaction => {
@@ -130,12 +221,12 @@ export const calculateTotalSavings = (
   transactions: TransactionRecord[],
 ): number => {
   return transactions
-    .filter(transaction => transaction.status === 'completed')
-    .reduce((total, transaction) => total + Number(transaction.discountAmount ?? 0), 0);
+    .filter(isSettledSale)
+    .reduce((total, transaction) => total + getEffectiveDiscountAmount(transaction), 0);
 };
 
 export const calculateCompletedCount = (
   transactions: TransactionRecord[],
 ): number => {
-  return transactions.filter(transaction => transaction.status === 'completed').length;
+  return transactions.filter(isSettledSale).length;
 };
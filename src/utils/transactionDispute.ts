@@ -0,0 +1,39 @@
+import { TRANSACTION_DISPUTE_CONFIG } from '../config/transactionDisputeConfig';
+import {
+  TransactionDisputeStatus,
+  TransactionRecord,
+} from '../types/transactions';
+import { isServerRecord } from './transactionReversal';
+
+const DISPUTABLE_STATUSES: TransactionRecord['status'][] = [
+  'completed',
+  'partially_refunded',
+  'refunded',
+  'voided',
+];
+
+/**
+ * A member can dispute any acknowledged redemption once, within the dispute
+ * window. Reversed sales stay disputable because the reversal itself may be
+ * what the member disagrees with.
+ */
+export const canDisputeTransaction = (
+  record: TransactionRecord,
+  now = Date.now(),
+): boolean => {
+  if (!isServerRecord(record) || record.disputeStatus || record.disputeId) {
+    return false;
+  }
+  if (!DISPUTABLE_STATUSES.includes(record.status)) {
+    return false;
+  }
+  const createdAt = new Date(record.createdAt).getTime();
+  return (
+    Number.isFinite(createdAt) &&
+    now - createdAt <= TRANSACTION_DISPUTE_CONFIG.disputeWindowMs
+  );
+};
+
+export const isDisputeActive = (
+  status: TransactionDisputeStatus | null | undefined,
+): boolean => status === 'open' || status === 'in_review';
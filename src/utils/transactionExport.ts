@@ -0,0 +1,123 @@
+import { TRANSACTION_EXPORT_CONFIG } from '../config/transactionExportConfig';
+import {
+  TransactionExportColumn,
+  TransactionExportFile,
+  TransactionExportRequest,
+  TransactionRecord,
+} from '../types/transactions';
+import { CsvValue, toCsv } from './csv';
+
+type Translate = (
+  key: string,
+  options?: { replace?: Record<string, string | number> },
+) => string;
+
+export type TransactionExportScope = 'vendor' | 'member';
+
+const AMOUNT_COLUMNS: TransactionExportColumn[] = [
+  'grossAmount',
+  'discountAmount',
+  'netAmount',
+  'refundedAmount',
+];
+
+const readColumn = (
+  record: TransactionRecord,
+  column: TransactionExportColumn,
+): string | number | null => {
+  const value = record[column];
+  if (value == null || value === '') {
+    return null;
+  }
+  if (AMOUNT_COLUMNS.includes(column) || column === 'discountPercentage') {
+    const amount = Number(value);
+    return Number.isFinite(amount) ? amount : null;
+  }
+  return String(value);
+};
+
+const formatCsvCell = (
+  record: TransactionRecord,
+  column: TransactionExportColumn,
+  t: Translate,
+): CsvValue => {
+  const value = readColumn(record, column);
+  if (value == null) {
+    return null;
+  }
+  if (AMOUNT_COLUMNS.includes(column)) {
+    return Number(value).toFixed(2);
+  }
+  if (column === 'status') {
+    return t(`analytics.status.${value}`);
+  }
+  if (column === 'reversalReason') {
+    return t(`vendor.screen.reversal.reasons.${value}`);
+  }
+  return value;
+};
+
+/**
+ * Keeps records whose `createdAt` falls inside the inclusive range. Records
+ * without a parseable timestamp are only kept when no range is requested.
+ */
+export const filterTransactionsByRange = (
+  records: TransactionRecord[],
+  { from, to }: Pick<TransactionExportRequest, 'from' | 'to'>,
+): TransactionRecord[] => {
+  const lower = from ? new Date(from).getTime() : -Infinity;
+  const upper = to ? new Date(to).getTime() : Infinity;
+  if (!from && !to) {
+    return records;
+  }
+  return records.filter(record => {
+    const createdAt = new Date(record.createdAt).getTime();
+    return (
+      Number.isFinite(createdAt) && createdAt >= lower && createdAt <= upper
+    );
+  });
+};
+
+export const buildTransactionExport = (
+  records: TransactionRecord[],
+  request: TransactionExportRequest,
+  scope: TransactionExportScope,
+  t: Translate,
+  now = new Date(),
+): TransactionExportFile => {
+  const columns = TRANSACTION_EXPORT_CONFIG.columns.filter(column =>
+    request.columns.includes(column),
+  );
+  const rows = [...filterTransactionsByRange(records, request)].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+  const filename = `${TRANSACTION_EXPORT_CONFIG.filenamePrefix}-${scope}-${now
+    .toISOString()
+    .slice(0, 10)}.${request.format}`;
+
+  if (request.format === 'json') {
+    const content = JSON.stringify(
+      rows.map(record =>
+        Object.fromEntries(
+          columns.map(column => [column, readColumn(record, column)]),
+        ),
+      ),
+      null,
+      2,
+    );
+    return {
+      filename,
+      mimeType: 'application/json',
+      content,
+      count: rows.length,
+    };
+  }
+
+  const content = toCsv([
+    columns.map(column => t(`analytics.export.columns.${column}`)),
+    ...rows.map(record =>
+      columns.map(column => formatCsvCell(record, column, t)),
+    ),
+  ]);
+  return { filename, mimeType: 'text/csv', content, count: rows.length };
+};
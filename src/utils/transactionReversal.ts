@@ -0,0 +1,87 @@
+import { TRANSACTION_REVERSAL_CONFIG } from '../config/transactionReversalConfig';
+import { TransactionRecord } from '../types/transactions';
+
+export interface TransactionReversalEligibility {
+  canVoid: boolean;
+  canRefund: boolean;
+  voidRemainingMs: number;
+  refundableAmount: number;
+}
+
+const roundCurrency = (value: number): number => Number(value.toFixed(2));
+
+// Temporary ids belong to optimistic or queued redemptions that the server has
+// not acknowledged yet, so there is nothing to reverse.
+export const isServerRecord = (record: TransactionRecord): boolean =>
+  !record.id.startsWith('temp-') && !record.id.startsWith('local-');
+
+export const isSettledSale = (record: TransactionRecord): boolean =>
+  record.status === 'completed' || record.status === 'partially_refunded';
+
+export const getRefundableAmount = (record: TransactionRecord): number => {
+  if (!isSettledSale(record)) {
+    return 0;
+  }
+  const net = Number(record.netAmount ?? 0);
+  const refunded = Number(record.refundedAmount ?? 0);
+  return Math.max(0, roundCurrency(net - refunded));
+};
+
+// Share of a sale that was kept after reversals: all of a completed sale,
+// none of a voided or fully refunded one, and for partial refunds the part of
+// the net amount that was not returned.
+const getRetainedShare = (record: TransactionRecord): number => {
+  if (record.status === 'completed') {
+    return 1;
+  }
+  if (record.status !== 'partially_refunded') {
+    return 0;
+  }
+
+  const net = Number(record.netAmount ?? 0);
+  if (net <= 0) {
+    return 1;
+  }
+  return Math.max(0, net - Number(record.refundedAmount ?? 0)) / net;
+};
+
+/**
+ * Discount the member kept after reversals. Voided and fully refunded sales
+ * contribute nothing, partial refunds scale the discount by the share of the
+ * net amount that was not returned.
+ */
+export const getEffectiveDiscountAmount = (record: TransactionRecord): number =>
+  roundCurrency(Number(record.discountAmount ?? 0) * getRetainedShare(record));
+
+/** Gross sale amount kept after reversals, scaled like the discount. */
+export const getEffectiveGrossAmount = (record: TransactionRecord): number =>
+  roundCurrency(Number(record.grossAmount ?? 0) * getRetainedShare(record));
+
+export const getReversalEligibility = (
+  record: TransactionRecord,
+  now = Date.now(),
+): TransactionReversalEligibility => {
+  const createdAt = new Date(record.createdAt).getTime();
+  const age = Number.isFinite(createdAt) ? now - createdAt : Infinity;
+  const reversible = isServerRecord(record) && isSettledSale(record);
+  const refundableAmount = reversible ? getRefundableAmount(record) : 0;
+  const voidRemainingMs =
+    reversible && record.status === 'completed'
+      ? Math.max(0, TRANSACTION_REVERSAL_CONFIG.voidWindowMs - age)
+      : 0;
+
+  return {
+    canVoid: voidRemainingMs > 0,
+    canRefund:
+      refundableAmount > 0 && age <= TRANSACTION_REVERSAL_CONFIG.refundWindowMs,
+    voidRemainingMs,
+    refundableAmount,
+  };
+};
+
+export const formatReversalCountdown = (remainingMs: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,183 @@
+import { MLM_CONFIG } from '../config/mlmConfig';
+import { MembershipPlan } from '../types/auth';
+import {
+  GenealogyNode,
+  MembershipUpgradeRule,
+  UpgradeMetric,
+  UpgradeProgress,
+} from '../types/mlm';
+
+const readMetadata = (
+  metadata: Record<string, unknown> | undefined,
+  keys: string[],
+): unknown => {
+  if (!metadata) {
+    return undefined;
+  }
+  const key = keys.find(
+    candidate =>
+      metadata[candidate] !== undefined && metadata[candidate] !== null,
+  );
+  return key ? metadata[key] : undefined;
+};
+
+const parseMetric = (value: unknown): UpgradeMetric | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase().replace(/[\s-]/g, '_');
+  if (['direct_recruits', 'directrecruits', 'direct'].includes(normalized)) {
+    return 'directRecruits';
+  }
+  if (
+    ['active_network', 'activenetwork', 'network', 'network_size'].includes(
+      normalized,
+    )
+  ) {
+    return 'activeNetwork';
+  }
+  return null;
+};
+
+/** Level slug a plan sells, e.g. `gold` for the `gold-membership` plan. */
+export const getPlanTier = (plan: MembershipPlan): string => {
+  const wordpressId = plan.metadata?.wordpressPlanId;
+  const slug =
+    typeof wordpressId === 'string' && wordpressId.trim().length > 0
+      ? wordpressId
+      : plan.id;
+  return slug
+    .trim()
+    .toLowerCase()
+    .replace(/-membership$/, '');
+};
+
+/**
+ * Starts from the configured promotions and applies any overrides published
+ * in the metadata of the plan being upgraded from.
+ */
+export const resolveUpgradeRules = (
+  plans: MembershipPlan[],
+): Record<string, MembershipUpgradeRule> => {
+  const rules: Record<string, MembershipUpgradeRule> = {
+    ...MLM_CONFIG.upgradeRules,
+  };
+
+  plans.forEach(plan => {
+    const tier = getPlanTier(plan);
+    const fallback = rules[tier];
+    const nextTier = readMetadata(plan.metadata, [
+      'auto_upgrade_to',
+      'autoUpgradeTo',
+    ]);
+    const metric = parseMetric(
+      readMetadata(plan.metadata, ['auto_upgrade_metric', 'autoUpgradeMetric']),
+    );
+    const threshold = Number(
+      readMetadata(plan.metadata, [
+        'auto_upgrade_threshold',
+        'autoUpgradeThreshold',
+      ]),
+    );
+    const resolvedNextTier =
+      typeof nextTier === 'string' && nextTier.trim().length > 0
+        ? nextTier.trim().toLowerCase()
+        : fallback?.nextTier;
+    if (!resolvedNextTier) {
+      return;
+    }
+
+    rules[tier] = {
+      nextTier: resolvedNextTier,
+      metric: metric ?? fallback?.metric ?? 'directRecruits',
+      threshold:
+        Number.isFinite(threshold) && threshold > 0
+          ? Math.round(threshold)
+          : fallback?.threshold ?? 1,
+    };
+  });
+
+  return rules;
+};
+
+/**
+ * Free-text explanation a plan can publish as `auto_upgrade_note`, either as
+ * one string or keyed by language.
+ */
+export const getUpgradeRuleNote = (
+  plans: MembershipPlan[],
+  tier: string | null,
+  language: string,
+): string | null => {
+  const plan = tier
+    ? plans.find(candidate => getPlanTier(candidate) === tier)
+    : undefined;
+  const note = readMetadata(plan?.metadata, [
+    'auto_upgrade_note',
+    'autoUpgradeNote',
+  ]);
+  if (typeof note === 'string') {
+    return note.trim() || null;
+  }
+  if (note && typeof note === 'object') {
+    const localized = (note as Record<string, unknown>)[language];
+    return typeof localized === 'string' && localized.trim()
+      ? localized.trim()
+      : null;
+  }
+  return null;
+};
+
+/** Members on a paid level count as active; Blue members do not. */
+export const isActiveNetworkMember = (node: GenealogyNode): boolean =>
+  Boolean(node.level) &&
+  !MLM_CONFIG.inactiveLevels.includes(node.level as string);
+
+export const countActiveNetwork = (node: GenealogyNode): number =>
+  node.children.reduce(
+    (total, child) =>
+      total +
+      (isActiveNetworkMember(child) ? 1 : 0) +
+      countActiveNetwork(child),
+    0,
+  );
+
+export const buildUpgradeProgress = ({
+  tier,
+  directRecruits,
+  tree,
+  rules,
+}: {
+  tier: string | null;
+  directRecruits: number;
+  /** Genealogy root; recruits and the active network come from here. */
+  tree: GenealogyNode | null;
+  rules: Record<string, MembershipUpgradeRule>;
+}): UpgradeProgress => {
+  const normalizedTier = tier?.trim().toLowerCase() || null;
+  const rule = normalizedTier ? rules[normalizedTier] ?? null : null;
+  const recruits = (tree?.children ?? []).map(child => ({
+    id: child.id,
+    name: child.name,
+    level: child.level,
+    active: isActiveNetworkMember(child),
+  }));
+
+  const current = !rule
+    ? 0
+    : rule.metric === 'activeNetwork'
+    ? tree
+      ? countActiveNetwork(tree)
+      : 0
+    : Math.max(directRecruits, recruits.length);
+  const threshold = rule?.threshold ?? 0;
+
+  return {
+    tier: normalizedTier,
+    rule,
+    current,
+    ratio: threshold > 0 ? Math.min(1, current / threshold) : 0,
+    remaining: Math.max(0, threshold - current),
+    recruits,
+  };
+};